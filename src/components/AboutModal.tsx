@@ -96,7 +96,7 @@ export function AboutModal({ isOpen, onClose }: AboutModalProps) {
               <p>Design your own modular shelving system – inspired by IKEA’s Kallax, but made for DIYers.</p>
 
               <h2>How to Use</h2>
-              <p>Design your shelving: set the size of your grid, merge cells, add backs or doors, and adjust depth as you like. Watch for warnings: this tool doesn’t prevent bad design. It’s *completely possible* to make a structurally unstable unit here – so please pay attention to messages and remember: 3/4" plywood is heavy. Need help with strength? Try the Sagulator to estimate shelf deflection. Use “Share design link” to send a saved configuration to someone else. Generate a PDF when you’re ready to build – it’ll create an IKEA-style assembly guide (with caveats and best practices noted inside).</p>
+              <p>Design your shelving: set the size of your grid, merge cells, add backs or doors, and adjust depth as you like. Watch for warnings: this tool doesn’t prevent bad design. It’s *completely possible* to make a structurally unstable unit here – so please pay attention to messages and remember: 3/4" plywood is heavy. Need help with strength? The Controls panel estimates shelf sag for your material and load, and the Sagulator makes a good second opinion. Use “Share design link” to send a saved configuration to someone else. Generate a PDF when you’re ready to build – it’ll create an IKEA-style assembly guide (with caveats and best practices noted inside).</p>
 
               <h2>Background</h2>
               <p>I built this tool after moving into a new apartment and needing storage – entry cabinets, media consoles, nightstands, a mix of open and closed shelving. I wanted to upgrade from my previous IKEA pieces – mainly in material – while keeping their functionality, modularity, and affordability. The Kallax system turned out to be the perfect starting point. I recreated its internal module using plywood, built 13 custom pieces for my space, and refined a repeatable, cohesive design logic along the way. Images of those pieces are below.</p>
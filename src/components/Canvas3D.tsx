@@ -3,20 +3,11 @@ import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import { useDesignStore } from '../state/useDesignStore';
 import type { Part } from '../geometry/types';
-import { getThicknessInInches } from '../geometry/types';
 import { PartHoverCard } from './PartHoverCard';
 import { MergeTargetOverlay } from './MergeTargetOverlay';
-import {
-  calculateBottomPosition,
-  calculateTopPosition,
-  calculateLeftSidePosition,
-  calculateRightSidePosition,
-  calculateBackPosition,
-  calculateBayShelfPosition,
-  calculateDoorPosition,
-  calculateVerticalDividerPosition,
-  calculateVerticalDividerSegmentPosition
-} from '../geometry/measurements';
+import { DoorTargetOverlay } from './DoorTargetOverlay';
+import { calculateLegPosition, calculatePartPosition, getCarcassHeight, getPartRotation, SCENE_SCALE } from '../geometry/measurements';
+import { LEG_DIAMETER } from '../geometry/base';
 import * as THREE from 'three';
 
 interface PartMeshProps {
@@ -27,31 +18,22 @@ interface PartMeshProps {
 
 function PartMesh({ part, position, onHover }: PartMeshProps) {
   const [, setHovered] = useState(false);
-  const { selectedPartId, hoveredPartId, params } = useDesignStore();
+  const { selectedPartId, hoveredPartId, highlightedWarning, params, analysis } = useDesignStore();
 
   const isSelected = selectedPartId === part.id;
   const isHovered = hoveredPartId === part.id;
+  const isFlagged = highlightedWarning?.partIds?.includes(part.id) ?? false;
   
   // Convert dimensions from inches to scene units (scale down for better viewing)
   const scaleX = part.lengthIn * 0.1;
   const scaleY = part.thicknessIn * 0.1;
   const scaleZ = part.widthIn * 0.1;
   
-  // Rotation for parts that need to be oriented differently
-  const getRotation = (): [number, number, number] => {
-    if (part.role === 'Side' || part.role === 'VerticalDivider') {
-      return [0, 0, Math.PI / 2]; // 90 degrees around Z-axis
-    }
-    if (part.role === 'Back' || part.role === 'Door') {
-      return [Math.PI / 2, 0, 0]; // 90 degrees around X-axis to make height vertical
-    }
-    return [0, 0, 0];
-  };
-
   // Color based on part role and color scheme
   const getColor = () => {
     if (isSelected) return '#3b82f6'; // blue for selection
     if (isHovered) return '#10b981'; // green for hover
+    if (isFlagged) return '#ef4444'; // red for the hovered warning
 
     const { colorScheme } = params;
 
@@ -70,8 +52,20 @@ function PartMesh({ part, position, onHover }: PartMeshProps) {
         'Side': '#4b5563',
         'VerticalDivider': '#4b5563',
         'BayShelf': '#9ca3af',
+        'AdjustableShelf': '#9ca3af',
         'Back': '#374151',
+        'Stretcher': '#52525b',
+        'Cleat': '#52525b',
+        'WallCleat': '#52525b',
+        'Plinth': '#3f3f46',
+        'Countertop': '#71717a',
+        'CountertopEdge': '#27272a',
         'Door': '#d1d5db',
+        'DrawerSide': '#a1a1aa',
+        'DrawerFront': '#a1a1aa',
+        'DrawerBack': '#a1a1aa',
+        'DrawerBottom': '#a1a1aa',
+        'DrawerFace': '#e5e7eb',
       },
       browns: {
         'Top': '#a0522d',
@@ -79,8 +73,20 @@ function PartMesh({ part, position, onHover }: PartMeshProps) {
         'Side': '#8b4513',
         'VerticalDivider': '#8b4513',
         'BayShelf': '#d2691e',
+        'AdjustableShelf': '#d2691e',
         'Back': '#654321',
+        'Stretcher': '#6b3e26',
+        'Cleat': '#6b3e26',
+        'WallCleat': '#6b3e26',
+        'Plinth': '#5c3317',
+        'Countertop': '#b5651d',
+        'CountertopEdge': '#7b3f00',
         'Door': '#cd853f',
+        'DrawerSide': '#deb887',
+        'DrawerFront': '#deb887',
+        'DrawerBack': '#deb887',
+        'DrawerBottom': '#deb887',
+        'DrawerFace': '#f4a460',
       },
       blues: {
         'Top': '#60a5fa',
@@ -88,8 +94,20 @@ function PartMesh({ part, position, onHover }: PartMeshProps) {
         'Side': '#3b82f6',
         'VerticalDivider': '#3b82f6',
         'BayShelf': '#93c5fd',
+        'AdjustableShelf': '#93c5fd',
         'Back': '#1e40af',
+        'Stretcher': '#1d4ed8',
+        'Cleat': '#1d4ed8',
+        'WallCleat': '#1d4ed8',
+        'Plinth': '#1e3a8a',
+        'Countertop': '#2563eb',
+        'CountertopEdge': '#172554',
         'Door': '#bfdbfe',
+        'DrawerSide': '#bae6fd',
+        'DrawerFront': '#bae6fd',
+        'DrawerBack': '#bae6fd',
+        'DrawerBottom': '#bae6fd',
+        'DrawerFace': '#dbeafe',
       },
     };
 
@@ -103,7 +121,8 @@ function PartMesh({ part, position, onHover }: PartMeshProps) {
   const getHardwarePosition = (): [number, number, number] | null => {
     if (part.role !== 'Door' || !params.doorHardware) return null;
 
-    const { position: hwPosition, inset: insetValue } = params.doorHardware;
+    const { inset: insetValue } = params.doorHardware;
+    const hwPosition = part.hardwarePosition ?? params.doorHardware.position;
     // Convert to inches if metric, then to scene units
     const insetInches = params.unitSystem === 'metric' ? insetValue / 25.4 : insetValue;
     const inset = insetInches * 0.1; // Convert to scene units
@@ -140,12 +159,82 @@ function PartMesh({ part, position, onHover }: PartMeshProps) {
     return [x, y, z];
   };
 
+  // Strip along the hinged edge of a door, on its front face
+  const getHingeMarker = (): { position: [number, number, number]; size: [number, number, number] } | null => {
+    if (part.role !== 'Door' || !part.hinge) return null;
+
+    const width = part.lengthIn * 0.1;
+    const height = part.widthIn * 0.1;
+    const markerWidth = 0.5 * 0.1; // 1/2" strip
+    const markerDepth = 0.005;
+    const y = part.thicknessIn * 0.1 / 2 + markerDepth / 2;
+
+    if (part.hinge === 'bottom') {
+      return { position: [0, y, height / 2 - markerWidth / 2], size: [width, markerDepth, markerWidth] };
+    }
+    const x = part.hinge === 'left' ? -width / 2 + markerWidth / 2 : width / 2 - markerWidth / 2;
+    return { position: [x, y, 0], size: [markerWidth, markerDepth, height] };
+  };
+
+  // Euro hinge cups on the back of a door, or mounting-plate holes on the part a door hangs from
+  const getHingeBoringMarkers = (): Array<{ position: [number, number, number]; radius: number }> => {
+    const length = part.lengthIn * 0.1;
+    const width = part.widthIn * 0.1;
+    const faceOffset = part.thicknessIn * 0.1 / 2 + 0.005;
+
+    if (part.role === 'Door') {
+      const layout = analysis.hinges.find(h => h.doorId === part.id);
+      if (!layout) return [];
+      const inset = layout.cupInsetIn * 0.1;
+      return layout.cupPositions.map(cup => ({
+        position: layout.hinge === 'bottom'
+          ? [-length / 2 + cup * 0.1, -faceOffset, width / 2 - inset]
+          : [layout.hinge === 'left' ? -length / 2 + inset : length / 2 - inset, -faceOffset, -width / 2 + cup * 0.1],
+        radius: layout.cupDiameterIn * 0.1 / 2,
+      }));
+    }
+
+    return analysis.hinges.flatMap(layout => layout.plateHoles
+      .filter(hole => hole.partId === part.id)
+      .map(hole => {
+        const z = width / 2 - layout.plateSetbackIn * 0.1;
+        // Flip-down doors hang from the top face of the part below; side-hung doors from the face toward them
+        const position: [number, number, number] = layout.hinge === 'bottom'
+          ? [-length / 2 + hole.positionIn * 0.1, faceOffset, z]
+          : [length / 2 - hole.positionIn * 0.1, layout.hinge === 'left' ? -faceOffset : faceOffset, z];
+        return { position, radius: 0.25 * 0.1 / 2 }; // 1/4" marker
+      }));
+  };
+
+  // Shelf-pin holes on the faces of the parts either side of an adjustable-shelf opening
+  const getShelfPinMarkers = (): Array<{ position: [number, number, number]; radius: number }> => {
+    const length = part.lengthIn * 0.1;
+    const width = part.widthIn * 0.1;
+    const faceOffset = part.thicknessIn * 0.1 / 2 + 0.005;
+
+    return analysis.shelfPins.flatMap(layout => layout.holes
+      .filter(hole => hole.partId === part.id)
+      .flatMap(hole => layout.rowSetbacksIn.map(setback => ({
+        position: [
+          length / 2 - hole.positionIn * 0.1,
+          hole.face === 'right' ? -faceOffset : faceOffset,
+          width / 2 - setback * 0.1,
+        ] as [number, number, number],
+        radius: layout.holeDiameterIn * 0.1 / 2,
+      }))));
+  };
+
   const hardwarePos = getHardwarePosition();
+  const hingeMarker = getHingeMarker();
+  const hingeBoringMarkers = getHingeBoringMarkers();
+  const shelfPinMarkers = getShelfPinMarkers();
+  // Adjustable shelves are loose, so they are drawn as ghosts at a suggested height
+  const isGhost = part.role === 'AdjustableShelf';
   const hardwareDiameter = params.doorHardware?.type === 'pull-hole' ? 1 : 0.125; // in inches
   const hardwareRadius = (hardwareDiameter * 0.1) / 2; // Convert to scene units
 
   return (
-    <group position={position} rotation={getRotation()}>
+    <group position={position} rotation={getPartRotation(part)}>
       <mesh
         scale={[scaleX, scaleY, scaleZ]}
         onPointerEnter={(e) => {
@@ -157,15 +246,44 @@ function PartMesh({ part, position, onHover }: PartMeshProps) {
           setHovered(false);
           onHover(null);
         }}
+        onClick={(e) => {
+          useDesignStore.getState().setSelectedPartId(isSelected ? null : part.id);
+          e.stopPropagation();
+        }}
       >
         <boxGeometry args={[1, 1, 1]} />
         <meshStandardMaterial
           color={getColor()}
           transparent
-          opacity={params.opacity}
+          opacity={isGhost ? params.opacity * 0.35 : params.opacity}
+          depthWrite={!isGhost}
         />
       </mesh>
 
+      {/* Door hinge side */}
+      {hingeMarker && (
+        <mesh position={hingeMarker.position}>
+          <boxGeometry args={hingeMarker.size} />
+          <meshStandardMaterial color="#374151" />
+        </mesh>
+      )}
+
+      {/* Hinge cups and mounting-plate holes */}
+      {hingeBoringMarkers.map((marker, index) => (
+        <mesh key={`hinge-boring-${index}`} position={marker.position} rotation={[Math.PI / 2, 0, 0]}>
+          <circleGeometry args={[marker.radius, 32]} />
+          <meshStandardMaterial color="#dc2626" side={THREE.DoubleSide} />
+        </mesh>
+      ))}
+
+      {/* Shelf-pin holes */}
+      {shelfPinMarkers.map((marker, index) => (
+        <mesh key={`shelf-pin-${index}`} position={marker.position} rotation={[Math.PI / 2, 0, 0]}>
+          <circleGeometry args={[marker.radius, 16]} />
+          <meshStandardMaterial color="#2563eb" side={THREE.DoubleSide} />
+        </mesh>
+      ))}
+
       {/* Door hardware circle */}
       {hardwarePos && (
         <mesh position={hardwarePos} rotation={[Math.PI / 2, 0, 0]}>
@@ -180,11 +298,52 @@ function PartMesh({ part, position, onHover }: PartMeshProps) {
   );
 }
 
+// Center of mass marker, with a plumb line down to the floor
+function CenterOfMassMarker() {
+  const { analysis, dimensions } = useDesignStore();
+  const [x, y, z] = analysis.stability.centerOfMass.map(v => v * SCENE_SCALE);
+  const floorY = -(getCarcassHeight(dimensions) / 2 + dimensions.baseHeight) * SCENE_SCALE;
+  const color = analysis.stability.tips ? '#dc2626' : '#16a34a';
+
+  return (
+    <group>
+      <mesh position={[x, y, z]}>
+        <sphereGeometry args={[0.15, 16, 16]} />
+        <meshBasicMaterial color={color} depthTest={false} />
+      </mesh>
+      <mesh position={[x, (y + floorY) / 2, z]}>
+        <boxGeometry args={[0.02, Math.max(0.001, y - floorY), 0.02]} />
+        <meshBasicMaterial color={color} transparent opacity={0.6} depthTest={false} />
+      </mesh>
+    </group>
+  );
+}
+
+// Screw-on legs under the carcass
+function Legs() {
+  const { analysis, dimensions, params } = useDesignStore();
+  if (!analysis.legs) return null;
+
+  const radius = LEG_DIAMETER * SCENE_SCALE / 2;
+  const height = analysis.legs.heightIn * SCENE_SCALE;
+
+  return (
+    <group>
+      {analysis.legs.legs.map((leg, index) => (
+        <mesh key={index} position={calculateLegPosition(leg, params, dimensions)}>
+          <cylinderGeometry args={[radius, radius, height, 16]} />
+          <meshStandardMaterial color="#52525b" transparent opacity={params.opacity} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
 // Enable/disable 3D merge functionality
 const ENABLE_3D_MERGE_TARGETS = false;
 
 function Scene() {
-  const { analysis, dimensions, params } = useDesignStore();
+  const { analysis, dimensions, params, gridEditMode } = useDesignStore();
   const [hoveredPart, setHoveredPart] = useState<Part | null>(null);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
 
@@ -202,103 +361,7 @@ function Scene() {
   
   // Position parts in 3D space
   const getPartPosition = (part: Part): [number, number, number] => {
-    const frameThickness = getThicknessInInches(params.materials.frame);
-
-    // Convert to inches for calculations
-    const interiorClearanceInches = params.unitSystem === 'metric'
-      ? params.interiorClearance / 25.4
-      : params.interiorClearance;
-    const depthInches = params.unitSystem === 'metric'
-      ? params.depth / 25.4
-      : params.depth;
-    const revealInches = params.unitSystem === 'metric'
-      ? params.doorMode.reveal / 25.4
-      : params.doorMode.reveal;
-    const overlayInches = params.unitSystem === 'metric'
-      ? params.doorMode.overlay / 25.4
-      : params.doorMode.overlay;
-
-    // Create converted door mode for position calculations
-    const doorModeInches = {
-      type: params.doorMode.type,
-      revealInches,
-      overlayInches,
-    };
-
-    switch (part.role) {
-      case 'Bottom':
-        return calculateBottomPosition(dimensions.extHeight, frameThickness);
-      case 'Top':
-        return calculateTopPosition(dimensions.extHeight, frameThickness);
-      case 'Side':
-        if (part.id.includes('L')) {
-          return calculateLeftSidePosition(dimensions.extWidth, frameThickness);
-        } else {
-          return calculateRightSidePosition(dimensions.extWidth, frameThickness);
-        }
-      case 'Back':
-        return calculateBackPosition(dimensions.extDepth);
-      case 'BayShelf':
-        if (part.bay) {
-          return calculateBayShelfPosition(
-            part.bay,
-            params.rows,
-            params.cols,
-            interiorClearanceInches,
-            frameThickness,
-            dimensions.extWidth,
-            dimensions.extHeight
-          );
-        }
-        return [0, 0, 0];
-      case 'Door':
-        if (part.bay) {
-          const doorThickness = params.materials.door ? getThicknessInInches(params.materials.door) : 0.75;
-          return calculateDoorPosition(
-            part.bay,
-            params.rows,
-            params.cols,
-            interiorClearanceInches,
-            frameThickness,
-            dimensions.extWidth,
-            dimensions.extHeight,
-            doorModeInches,
-            doorThickness,
-            depthInches
-          );
-        }
-        return [0, 0, 0];
-      case 'VerticalDivider':
-        if (part.bay && part.bay.rowEnd !== undefined) {
-          // Segmented vertical divider
-          const columnIndex = part.bay.colStart;
-          return calculateVerticalDividerSegmentPosition(
-            columnIndex,
-            part.bay.row,
-            part.bay.rowEnd,
-            part.lengthIn,
-            params.cols,
-            params.rows,
-            interiorClearanceInches,
-            frameThickness,
-            dimensions.extWidth,
-            dimensions.extHeight
-          );
-        } else {
-          // Extract column index from notes (fallback)
-          const columnMatch = part.notes?.match(/column (\d+)/);
-          const columnIndex = columnMatch ? parseInt(columnMatch[1], 10) : 1;
-          return calculateVerticalDividerPosition(
-            columnIndex,
-            params.cols,
-            interiorClearanceInches,
-            frameThickness,
-            dimensions.extWidth
-          );
-        }
-      default:
-        return [0, 0, 0];
-    }
+    return calculatePartPosition(part, params, dimensions);
   };
   
   return (
@@ -316,9 +379,16 @@ function Scene() {
         />
       ))}
 
+      <Legs />
+
+      <CenterOfMassMarker />
+
       {/* 3D Merge Target Overlay - toggleable functionality */}
       <MergeTargetOverlay enabled={ENABLE_3D_MERGE_TARGETS} />
 
+      {/* Door assignment targets while the grid editor is in door mode */}
+      <DoorTargetOverlay enabled={gridEditMode === 'doors'} />
+
       <OrbitControls enablePan enableZoom enableRotate />
     </>
   );
@@ -352,7 +422,7 @@ export function Canvas3D() {
       className="w-full h-full canvas-3d-bg relative"
       onMouseMove={handleMouseMove}
     >
-      <Canvas camera={{ position: [5, 5, 5], fov: 50 }}>
+      <Canvas camera={{ position: [5, 5, 5], fov: 50 }} onPointerMissed={() => useDesignStore.getState().setSelectedPartId(null)}>
         <Suspense fallback={null}>
           <Scene />
         </Suspense>
@@ -387,6 +457,10 @@ export function Canvas3D() {
             <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: '#cd853f' }}></div>
             <span>Doors</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#16a34a' }}></div>
+            <span>Center of mass</span>
+          </div>
         </div>
         <div className="mt-2 pt-2 border-t border-gray-200 text-gray-600">
           Hover parts for details
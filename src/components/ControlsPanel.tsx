@@ -1,9 +1,19 @@
 import { useState, useEffect } from 'react';
 import { useDesignStore } from '../state/useDesignStore';
-import type { NominalThickness } from '../geometry/types';
-import { createThicknessMap, THICKNESS_MAP, createMetricThickness } from '../geometry/constants';
-import { formatDimension } from '../geometry/format';
+import type { BaseType, ButtJointFastener, ConstructionStyle, CostCategory, GrainDirection, JoineryType, NominalThickness, SheetMaterial } from '../geometry/types';
+import { createThicknessMap, THICKNESS_MAP, createMetricThickness, DEFAULT_BASE_HEIGHT_IMPERIAL, DEFAULT_BASE_HEIGHT_METRIC, DEFAULT_LEG_INSET_IMPERIAL, DEFAULT_LEG_INSET_METRIC, DEFAULT_PLINTH_SETBACK_IMPERIAL, DEFAULT_PLINTH_SETBACK_METRIC, DEFAULT_DADO_DEPTH_IMPERIAL, DEFAULT_DADO_DEPTH_METRIC, DEFAULT_EDGE_TRIM_IMPERIAL, DEFAULT_EDGE_TRIM_METRIC, DEFAULT_KERF_IMPERIAL, DEFAULT_KERF_METRIC, DEFAULT_RABBET_DEPTH_IMPERIAL, DEFAULT_RABBET_DEPTH_METRIC, DEFAULT_SHELF_LOAD_IMPERIAL, DEFAULT_SHELF_LOAD_METRIC, DEFAULT_TIP_TEST_LOAD_IMPERIAL, DEFAULT_TIP_TEST_LOAD_METRIC, SHEET_MATERIAL_PROPERTIES } from '../geometry/constants';
+import { formatDimension, formatWeight } from '../geometry/format';
+import { getDrawerOpenings } from '../geometry/openings';
+import { hasBackRails } from '../geometry/backs';
+import { PART_EDGES } from '../geometry/edgeBanding';
+import { getGrainDirection, getRoleGrain, GRAIN_DIRECTIONS, GRAIN_LABELS } from '../geometry/grain';
+import { getCarcassHeight } from '../geometry/measurements';
 import { useMobileAwarePosition } from '../lib/useMobileAwarePosition';
+import { useCostEstimate } from '../lib/useCostEstimate';
+import { COST_CATEGORY_LABELS, formatCost } from '../geometry/cost';
+import { PriceCatalogEditor } from './PriceCatalogEditor';
+import { SheetStockEditor } from './SheetStockEditor';
+import { OffcutInventoryEditor } from './OffcutInventoryEditor';
 import { isImperialMaterial, isMetricMaterial } from '../geometry/types';
 
 // Info text for tooltips
@@ -12,6 +22,10 @@ const INFO_TEXT = {
   depth: 'The Kallax module is 15.375" deep. You may want to consider increasing this if you plan to add inset doors.',
   frameThickness: '3/4" plywood is reommended for the frame for strength and stability, but 1/2" can be used for a lighter weight option, without merges and without heavily loaded shelves.',
   backThickness: '1/4" plywood is sufficient to add rigidity to the back.',
+  constructionStyle: 'Continuous dividers run top to bottom with shelves cut to fit between them. Continuous shelves run side to side with short divider segments between them. Full-height sides run the full height of the unit with the top and bottom fitted between them.',
+  joinery: 'Butt joint dimensions can be used as is. With dados, shelves and vertical dividers are lengthened so each end sits in a dado. Rabbeted corners also lengthen the captured corner panels so they sit in rabbets cut across the ends of the panels that run through. Keep at least 1/2" of material behind a dado, and halve the depth where dividers are dadoed from both faces.',
+  shelfLoad: 'Shelf sag is estimated for every shelf from its longest unsupported span, the depth, the frame thickness, the sheet material and this load spread over the shelf. Books run around 25 lb/ft² (120 kg/m²). Sag beyond 0.02" per foot of span is visible and is flagged.',
+  tipTestLoad: 'The unit is checked for tipping forward with this load hung from the front of the farthest-reaching open door or fully extended drawer. 50 lb (23 kg) is the drawer test load in the ASTM F2057 furniture tip-over standard. Anchor anything tall or with drawers to the wall regardless.',
   doorThickness: '3/4" plywood is recommended for doors, because that is the standard depth required for euro-hinges. Structurally, 3/4" is overkill. The best solution would be a 1/2" door with another 1/4" frame glued to the back to bring it up to 3/4".',
 };
 
@@ -25,11 +39,34 @@ export function ControlsPanel() {
     setFrameThickness,
     setBackThickness,
     setDoorThickness,
+    setDrawerBoxThickness,
+    setDrawerBottomThickness,
+    setConstructionStyle,
+    setJoineryType,
+    setDadoDepth,
+    setRabbetDepth,
+    setButtJointFastener,
+    setBaseType,
+    setBaseHeight,
+    setBaseSetback,
+    setBaseInset,
+    setEdgeBandingThickness,
+    setEdgeBanded,
+    selectedPartId,
+    setSheetMaterial,
+    setKerf,
+    setEdgeTrim,
+    setRoleGrain,
+    setPartGrain,
+    setShelfLoad,
+    setTipTestLoad,
     useRecommendedMaterials,
     reset,
   } = useDesignStore();
 
   const [hoveredInfo, setHoveredInfo] = useState<string | null>(null);
+  const [isEditingPrices, setIsEditingPrices] = useState(false);
+  const { cost, catalog } = useCostEstimate();
   const [infoPosition, setInfoPosition] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
 
   // Mobile-aware positioning for info tooltip
@@ -43,8 +80,43 @@ export function ControlsPanel() {
   const [interiorClearanceInput, setInteriorClearanceInput] = useState(String(params.interiorClearance));
   const [depthInput, setDepthInput] = useState(String(params.depth));
 
+  const joinery = params.joinery || {
+    type: 'butt' as JoineryType,
+    dadoDepth: params.unitSystem === 'metric' ? DEFAULT_DADO_DEPTH_METRIC : DEFAULT_DADO_DEPTH_IMPERIAL,
+    rabbetDepth: params.unitSystem === 'metric' ? DEFAULT_RABBET_DEPTH_METRIC : DEFAULT_RABBET_DEPTH_IMPERIAL,
+  };
+  const [dadoDepthInput, setDadoDepthInput] = useState(String(joinery.dadoDepth));
+  const [rabbetDepthInput, setRabbetDepthInput] = useState(String(joinery.rabbetDepth));
+
+  const base = params.base || (params.unitSystem === 'metric'
+    ? { type: 'none' as BaseType, height: DEFAULT_BASE_HEIGHT_METRIC, setback: DEFAULT_PLINTH_SETBACK_METRIC, inset: DEFAULT_LEG_INSET_METRIC }
+    : { type: 'none' as BaseType, height: DEFAULT_BASE_HEIGHT_IMPERIAL, setback: DEFAULT_PLINTH_SETBACK_IMPERIAL, inset: DEFAULT_LEG_INSET_IMPERIAL });
+  const [baseHeightInput, setBaseHeightInput] = useState(String(base.height));
+  const [baseSetbackInput, setBaseSetbackInput] = useState(String(base.setback));
+  const [baseInsetInput, setBaseInsetInput] = useState(String(base.inset));
+
+  const bandingThickness = params.edgeBanding?.thickness ?? 0;
+  const [bandingThicknessInput, setBandingThicknessInput] = useState(String(bandingThickness));
+  const selectedPart = selectedPartId ? analysis.parts.find(p => p.id === selectedPartId) : undefined;
+
+  const cutPlan = params.cutPlan || (params.unitSystem === 'metric'
+    ? { kerf: DEFAULT_KERF_METRIC, trim: DEFAULT_EDGE_TRIM_METRIC }
+    : { kerf: DEFAULT_KERF_IMPERIAL, trim: DEFAULT_EDGE_TRIM_IMPERIAL });
+  const [kerfInput, setKerfInput] = useState(String(cutPlan.kerf));
+  const [trimInput, setTrimInput] = useState(String(cutPlan.trim));
+
+  const defaultShelfLoad = params.unitSystem === 'metric' ? DEFAULT_SHELF_LOAD_METRIC : DEFAULT_SHELF_LOAD_IMPERIAL;
+  const shelfLoad = params.shelfLoad ?? defaultShelfLoad;
+  const [shelfLoadInput, setShelfLoadInput] = useState(String(shelfLoad));
+
+  const defaultTipTestLoad = params.unitSystem === 'metric' ? DEFAULT_TIP_TEST_LOAD_METRIC : DEFAULT_TIP_TEST_LOAD_IMPERIAL;
+  const tipTestLoad = params.tipTestLoad ?? defaultTipTestLoad;
+  const [tipTestLoadInput, setTipTestLoadInput] = useState(String(tipTestLoad));
+  const { stability } = analysis;
+
   const nominalOptions: NominalThickness[] = ['1/4"', '1/2"', '3/4"'];
   const frameOptions: NominalThickness[] = ['1/2"', '3/4"']; // No 1/4" for frame
+  const hasDrawers = getDrawerOpenings(params).length > 0;
 
   // Sync local state when params change (e.g., unit system switch)
   useEffect(() => {
@@ -52,6 +124,34 @@ export function ControlsPanel() {
     setDepthInput(String(params.depth));
   }, [params.interiorClearance, params.depth]);
 
+  useEffect(() => {
+    setDadoDepthInput(String(joinery.dadoDepth));
+    setRabbetDepthInput(String(joinery.rabbetDepth));
+  }, [joinery.dadoDepth, joinery.rabbetDepth]);
+
+  useEffect(() => {
+    setBaseHeightInput(String(base.height));
+    setBaseSetbackInput(String(base.setback));
+    setBaseInsetInput(String(base.inset));
+  }, [base.height, base.setback, base.inset]);
+
+  useEffect(() => {
+    setBandingThicknessInput(String(bandingThickness));
+  }, [bandingThickness]);
+
+  useEffect(() => {
+    setKerfInput(String(cutPlan.kerf));
+    setTrimInput(String(cutPlan.trim));
+  }, [cutPlan.kerf, cutPlan.trim]);
+
+  useEffect(() => {
+    setShelfLoadInput(String(shelfLoad));
+  }, [shelfLoad]);
+
+  useEffect(() => {
+    setTipTestLoadInput(String(tipTestLoad));
+  }, [tipTestLoad]);
+
   // Listen for reset events to update local input state
   useEffect(() => {
     const handleReset = () => {
@@ -230,7 +330,7 @@ export function ControlsPanel() {
           </div>
 
           {/* Back Material */}
-          {params.hasBack && (
+          {params.hasBack && !hasBackRails(params) && (
             <div className="field-group">
               <label className="form-label" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                 {params.unitSystem === 'metric' ? 'Back Thickness (mm)' : 'Back Thickness (nominal / actual)'}
@@ -283,8 +383,8 @@ export function ControlsPanel() {
             </div>
           )}
 
-          {/* Door Material */}
-          {params.hasDoors && (
+          {/* Door Material (also used for drawer faces) */}
+          {(params.hasDoors || hasDrawers) && (
             <div className="field-group">
               <label className="form-label" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                 {params.unitSystem === 'metric' ? 'Door Thickness (mm)' : 'Door Thickness (nominal / actual)'}
@@ -336,6 +436,624 @@ export function ControlsPanel() {
               )}
             </div>
           )}
+
+          {/* Drawer Box Material */}
+          {hasDrawers && (
+            <div className="field-group">
+              <label className="form-label">
+                {params.unitSystem === 'metric' ? 'Drawer Box Thickness (mm)' : 'Drawer Box Thickness (nominal / actual)'}
+              </label>
+              {params.unitSystem === 'metric' ? (
+                <input
+                  type="number"
+                  step="1"
+                  value={params.materials.drawerBox && isMetricMaterial(params.materials.drawerBox) ? params.materials.drawerBox.thicknessMm : 12}
+                  onChange={(e) => setDrawerBoxThickness(createMetricThickness(parseFloat(e.target.value) || 12))}
+                  className="input-field"
+                />
+              ) : (
+                <div className="field-row-split">
+                  <select
+                    value={params.materials.drawerBox && isImperialMaterial(params.materials.drawerBox) ? params.materials.drawerBox.nominal : '1/2"'}
+                    onChange={(e) => setDrawerBoxThickness(createThicknessMap(e.target.value as NominalThickness))}
+                    className="select-field"
+                  >
+                    {nominalOptions.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.001"
+                    value={params.materials.drawerBox && isImperialMaterial(params.materials.drawerBox) ? params.materials.drawerBox.actualInches : THICKNESS_MAP['1/2"']}
+                    onChange={(e) => {
+                      if (params.materials.drawerBox && isImperialMaterial(params.materials.drawerBox)) {
+                        setDrawerBoxThickness({
+                          nominal: params.materials.drawerBox.nominal,
+                          actualInches: parseFloat(e.target.value) || THICKNESS_MAP['1/2"']
+                        });
+                      }
+                    }}
+                    className="input-field"
+                    style={{ maxWidth: '5rem' }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Drawer Bottom Material */}
+          {hasDrawers && (
+            <div className="field-group">
+              <label className="form-label">
+                {params.unitSystem === 'metric' ? 'Drawer Bottom Thickness (mm)' : 'Drawer Bottom Thickness (nominal / actual)'}
+              </label>
+              {params.unitSystem === 'metric' ? (
+                <input
+                  type="number"
+                  step="1"
+                  value={params.materials.drawerBottom && isMetricMaterial(params.materials.drawerBottom) ? params.materials.drawerBottom.thicknessMm : 6}
+                  onChange={(e) => setDrawerBottomThickness(createMetricThickness(parseFloat(e.target.value) || 6))}
+                  className="input-field"
+                />
+              ) : (
+                <div className="field-row-split">
+                  <select
+                    value={params.materials.drawerBottom && isImperialMaterial(params.materials.drawerBottom) ? params.materials.drawerBottom.nominal : '1/4"'}
+                    onChange={(e) => setDrawerBottomThickness(createThicknessMap(e.target.value as NominalThickness))}
+                    className="select-field"
+                  >
+                    {nominalOptions.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.001"
+                    value={params.materials.drawerBottom && isImperialMaterial(params.materials.drawerBottom) ? params.materials.drawerBottom.actualInches : THICKNESS_MAP['1/4"']}
+                    onChange={(e) => {
+                      if (params.materials.drawerBottom && isImperialMaterial(params.materials.drawerBottom)) {
+                        setDrawerBottomThickness({
+                          nominal: params.materials.drawerBottom.nominal,
+                          actualInches: parseFloat(e.target.value) || THICKNESS_MAP['1/4"']
+                        });
+                      }
+                    }}
+                    className="input-field"
+                    style={{ maxWidth: '5rem' }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="divider" />
+
+      {/* Construction */}
+      <div className="space-y-3">
+        <h1 className="section-title">Construction</h1>
+        <div className="space-y-3">
+          <div className="field-group">
+            <label className="form-label" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              Construction Style
+              <span
+                className="cursor-help"
+                style={{ fontSize: '14px' }}
+                onMouseEnter={(e) => handleInfoHover(INFO_TEXT.constructionStyle, e)}
+                onMouseLeave={handleInfoLeave}
+                title="Click for info"
+              >
+                ℹ️
+              </span>
+            </label>
+            <select
+              value={params.constructionStyle || 'continuous-dividers'}
+              onChange={(e) => setConstructionStyle(e.target.value as ConstructionStyle)}
+              className="select-field"
+            >
+              <option value="continuous-dividers">Continuous dividers</option>
+              <option value="continuous-shelves">Continuous shelves</option>
+              <option value="full-height-sides">Full-height sides</option>
+            </select>
+          </div>
+
+          <div className="field-group">
+            <label className="form-label" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              Joint Type
+              <span
+                className="cursor-help"
+                style={{ fontSize: '14px' }}
+                onMouseEnter={(e) => handleInfoHover(INFO_TEXT.joinery, e)}
+                onMouseLeave={handleInfoLeave}
+                title="Click for info"
+              >
+                ℹ️
+              </span>
+            </label>
+            <select
+              value={joinery.type}
+              onChange={(e) => setJoineryType(e.target.value as JoineryType)}
+              className="select-field"
+            >
+              <option value="butt">Butt joints</option>
+              <option value="dado">Dados</option>
+              <option value="rabbet">Dados + rabbeted corners</option>
+            </select>
+          </div>
+
+          <div className="field-group">
+            <label className="form-label">Butt Joint Fastener</label>
+            <select
+              value={joinery.fastener || 'screws'}
+              onChange={(e) => setButtJointFastener(e.target.value as ButtJointFastener)}
+              className="select-field"
+            >
+              <option value="screws">Screws</option>
+              <option value="dowels">Dowels</option>
+            </select>
+          </div>
+
+          {joinery.type !== 'butt' && (
+            <div className="field-group">
+              <label className="form-label">
+                Dado Depth ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+              </label>
+              <input
+                type="number"
+                step={params.unitSystem === 'metric' ? '1' : '0.0625'}
+                value={dadoDepthInput}
+                onChange={(e) => {
+                  setDadoDepthInput(e.target.value);
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val >= 0) {
+                    setDadoDepth(val);
+                  }
+                }}
+                onBlur={() => {
+                  const val = parseFloat(dadoDepthInput);
+                  const defaultValue = params.unitSystem === 'metric' ? DEFAULT_DADO_DEPTH_METRIC : DEFAULT_DADO_DEPTH_IMPERIAL;
+                  if (isNaN(val) || val < 0 || dadoDepthInput === '') {
+                    setDadoDepth(defaultValue);
+                    setDadoDepthInput(String(defaultValue));
+                  }
+                }}
+                className="input-field"
+              />
+            </div>
+          )}
+
+          {joinery.type === 'rabbet' && (
+            <div className="field-group">
+              <label className="form-label">
+                Rabbet Depth ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+              </label>
+              <input
+                type="number"
+                step={params.unitSystem === 'metric' ? '1' : '0.0625'}
+                value={rabbetDepthInput}
+                onChange={(e) => {
+                  setRabbetDepthInput(e.target.value);
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val >= 0) {
+                    setRabbetDepth(val);
+                  }
+                }}
+                onBlur={() => {
+                  const val = parseFloat(rabbetDepthInput);
+                  const defaultValue = params.unitSystem === 'metric' ? DEFAULT_RABBET_DEPTH_METRIC : DEFAULT_RABBET_DEPTH_IMPERIAL;
+                  if (isNaN(val) || val < 0 || rabbetDepthInput === '') {
+                    setRabbetDepth(defaultValue);
+                    setRabbetDepthInput(String(defaultValue));
+                  }
+                }}
+                className="input-field"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="divider" />
+
+      {/* Base */}
+      <div className="space-y-3">
+        <h1 className="section-title">Base</h1>
+        <div className="space-y-3">
+          <div className="field-group">
+            <label className="form-label">Base</label>
+            <select
+              value={base.type}
+              onChange={(e) => setBaseType(e.target.value as BaseType)}
+              className="select-field"
+            >
+              <option value="none">None (bottom on the floor)</option>
+              <option value="plinth">Recessed plinth</option>
+              <option value="legs">Legs</option>
+            </select>
+          </div>
+
+          {base.type !== 'none' && (
+            <div className="field-group">
+              <label className="form-label">
+                {base.type === 'legs' ? 'Leg Height' : 'Plinth Height'} ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+              </label>
+              <input
+                type="number"
+                step={params.unitSystem === 'metric' ? '1' : '0.125'}
+                value={baseHeightInput}
+                onChange={(e) => {
+                  setBaseHeightInput(e.target.value);
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val > 0) {
+                    setBaseHeight(val);
+                  }
+                }}
+                onBlur={() => {
+                  const val = parseFloat(baseHeightInput);
+                  const defaultValue = params.unitSystem === 'metric' ? DEFAULT_BASE_HEIGHT_METRIC : DEFAULT_BASE_HEIGHT_IMPERIAL;
+                  if (isNaN(val) || val <= 0 || baseHeightInput === '') {
+                    setBaseHeight(defaultValue);
+                    setBaseHeightInput(String(defaultValue));
+                  }
+                }}
+                className="input-field"
+              />
+            </div>
+          )}
+
+          {base.type === 'plinth' && (
+            <div className="field-group">
+              <label className="form-label">
+                Plinth Setback ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+              </label>
+              <input
+                type="number"
+                step={params.unitSystem === 'metric' ? '1' : '0.125'}
+                value={baseSetbackInput}
+                onChange={(e) => {
+                  setBaseSetbackInput(e.target.value);
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val >= 0) {
+                    setBaseSetback(val);
+                  }
+                }}
+                onBlur={() => {
+                  const val = parseFloat(baseSetbackInput);
+                  const defaultValue = params.unitSystem === 'metric' ? DEFAULT_PLINTH_SETBACK_METRIC : DEFAULT_PLINTH_SETBACK_IMPERIAL;
+                  if (isNaN(val) || val < 0 || baseSetbackInput === '') {
+                    setBaseSetback(defaultValue);
+                    setBaseSetbackInput(String(defaultValue));
+                  }
+                }}
+                className="input-field"
+              />
+            </div>
+          )}
+
+          {base.type === 'legs' && (
+            <div className="field-group">
+              <label className="form-label">
+                Leg Inset ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+              </label>
+              <input
+                type="number"
+                step={params.unitSystem === 'metric' ? '1' : '0.125'}
+                value={baseInsetInput}
+                onChange={(e) => {
+                  setBaseInsetInput(e.target.value);
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val >= 0) {
+                    setBaseInset(val);
+                  }
+                }}
+                onBlur={() => {
+                  const val = parseFloat(baseInsetInput);
+                  const defaultValue = params.unitSystem === 'metric' ? DEFAULT_LEG_INSET_METRIC : DEFAULT_LEG_INSET_IMPERIAL;
+                  if (isNaN(val) || val < 0 || baseInsetInput === '') {
+                    setBaseInset(defaultValue);
+                    setBaseInsetInput(String(defaultValue));
+                  }
+                }}
+                className="input-field"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="divider" />
+
+      {/* Edge Banding */}
+      <div className="space-y-3">
+        <h1 className="section-title">Edge Banding</h1>
+        <div className="space-y-3">
+          <div className="field-group">
+            <label className="form-label">
+              Banding Thickness ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+            </label>
+            <input
+              type="number"
+              step={params.unitSystem === 'metric' ? '0.5' : '0.015625'}
+              value={bandingThicknessInput}
+              onChange={(e) => {
+                setBandingThicknessInput(e.target.value);
+                const val = parseFloat(e.target.value);
+                if (!isNaN(val) && val >= 0) {
+                  setEdgeBandingThickness(val);
+                }
+              }}
+              onBlur={() => {
+                const val = parseFloat(bandingThicknessInput);
+                if (isNaN(val) || val < 0 || bandingThicknessInput === '') {
+                  setEdgeBandingThickness(0);
+                  setBandingThicknessInput('0');
+                }
+              }}
+              className="input-field"
+            />
+            <p className="text-sm text-gray-600">
+              Banded parts are cut this much smaller on each banded edge. Use 0 for thin veneer.
+            </p>
+          </div>
+
+          {selectedPart ? (
+            <div className="field-group">
+              <label className="form-label">Banded Edges of {selectedPart.id}</label>
+              {PART_EDGES.map(edge => (
+                <label key={edge} className="field-row" style={{ cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={selectedPart.bandedEdges?.includes(edge) ?? false}
+                    onChange={(e) => setEdgeBanded(selectedPart.id, edge, e.target.checked)}
+                    className="checkbox-field"
+                  />
+                  <span className="text-sm">{edge.charAt(0).toUpperCase() + edge.slice(1)}</span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Click a part in the 3D view to band or clear its edges.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="divider" />
+
+      {/* Sheet Stock */}
+      <div className="space-y-3">
+        <h1 className="section-title">Sheet Stock</h1>
+        <SheetStockEditor />
+        <div className="grid grid-cols-2 gap-2">
+          <div className="field-group">
+            <label className="form-label">
+              Saw Kerf ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+            </label>
+            <input
+              type="number"
+              step={params.unitSystem === 'metric' ? '0.1' : '0.015625'}
+              value={kerfInput}
+              onChange={(e) => {
+                setKerfInput(e.target.value);
+                const val = parseFloat(e.target.value);
+                if (!isNaN(val) && val >= 0) {
+                  setKerf(val);
+                }
+              }}
+              onBlur={() => {
+                const val = parseFloat(kerfInput);
+                if (isNaN(val) || val < 0 || kerfInput === '') {
+                  setKerfInput(String(cutPlan.kerf));
+                }
+              }}
+              className="input-field"
+            />
+          </div>
+          <div className="field-group">
+            <label className="form-label">
+              Edge Trim ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+            </label>
+            <input
+              type="number"
+              step={params.unitSystem === 'metric' ? '1' : '0.0625'}
+              value={trimInput}
+              onChange={(e) => {
+                setTrimInput(e.target.value);
+                const val = parseFloat(e.target.value);
+                if (!isNaN(val) && val >= 0) {
+                  setEdgeTrim(val);
+                }
+              }}
+              onBlur={() => {
+                const val = parseFloat(trimInput);
+                if (isNaN(val) || val < 0 || trimInput === '') {
+                  setTrimInput(String(cutPlan.trim));
+                }
+              }}
+              className="input-field"
+            />
+          </div>
+        </div>
+        <p className="text-sm text-gray-600">
+          Parts are laid out with a kerf between them and the trim taken off each factory edge.
+        </p>
+
+        {selectedPart ? (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="field-group">
+              <label className="form-label">Grain of {selectedPart.id}</label>
+              <select
+                value={getGrainDirection(selectedPart, params)}
+                onChange={(e) => setPartGrain(selectedPart.id, e.target.value as GrainDirection)}
+                className="select-field"
+              >
+                {GRAIN_DIRECTIONS.map(grain => (
+                  <option key={grain} value={grain}>{GRAIN_LABELS[grain]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="field-group">
+              <label className="form-label">Grain of every {selectedPart.role}</label>
+              <select
+                value={getRoleGrain(selectedPart.role, params)}
+                onChange={(e) => setRoleGrain(selectedPart.role, e.target.value as GrainDirection)}
+                className="select-field"
+              >
+                {GRAIN_DIRECTIONS.map(grain => (
+                  <option key={grain} value={grain}>{GRAIN_LABELS[grain]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">
+            Click a part in the 3D view to set which way its grain runs.
+          </p>
+        )}
+        <OffcutInventoryEditor />
+      </div>
+
+      <div className="divider" />
+
+      {/* Shelf Strength */}
+      <div className="space-y-3">
+        <h1 className="section-title">Shelf Strength</h1>
+        <div className="space-y-3">
+          <div className="field-group">
+            <label className="form-label">Sheet Material</label>
+            <select
+              value={params.sheetMaterial || 'plywood'}
+              onChange={(e) => setSheetMaterial(e.target.value as SheetMaterial)}
+              className="select-field"
+            >
+              {(Object.keys(SHEET_MATERIAL_PROPERTIES) as SheetMaterial[]).map(material => (
+                <option key={material} value={material}>{SHEET_MATERIAL_PROPERTIES[material].label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="field-group">
+            <label className="form-label" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              Shelf Load ({params.unitSystem === 'metric' ? 'kg/m²' : 'lb/ft²'})
+              <span
+                className="cursor-help"
+                style={{ fontSize: '14px' }}
+                onMouseEnter={(e) => handleInfoHover(INFO_TEXT.shelfLoad, e)}
+                onMouseLeave={handleInfoLeave}
+                title="Click for info"
+              >
+                ℹ️
+              </span>
+            </label>
+            <input
+              type="number"
+              step="1"
+              value={shelfLoadInput}
+              onChange={(e) => {
+                setShelfLoadInput(e.target.value);
+                const val = parseFloat(e.target.value);
+                if (!isNaN(val) && val >= 0) {
+                  setShelfLoad(val);
+                }
+              }}
+              onBlur={() => {
+                const val = parseFloat(shelfLoadInput);
+                if (isNaN(val) || val < 0 || shelfLoadInput === '') {
+                  setShelfLoad(defaultShelfLoad);
+                  setShelfLoadInput(String(defaultShelfLoad));
+                }
+              }}
+              className="input-field"
+            />
+          </div>
+
+          {analysis.deflection.length > 0 && (
+            <div className="info-box space-y-1">
+              {analysis.deflection.map(result => (
+                <div key={result.partId} className="info-row">
+                  <span className="info-label">{result.partId}:</span>
+                  <span className={`info-value ${result.passes ? 'text-green-600' : 'text-yellow-600'}`}>
+                    {params.unitSystem === 'metric'
+                      ? `${(result.sagIn * 25.4).toFixed(1)}mm`
+                      : `${result.sagIn.toFixed(3)}"`}
+                    {result.passes ? ' ✓' : ' ✗'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="divider" />
+
+      {/* Stability */}
+      <div className="space-y-3">
+        <h1 className="section-title">Stability</h1>
+        <div className="field-group">
+          <label className="form-label" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+            Tip Test Load ({params.unitSystem === 'metric' ? 'kg' : 'lb'})
+            <span
+              className="cursor-help"
+              style={{ fontSize: '14px' }}
+              onMouseEnter={(e) => handleInfoHover(INFO_TEXT.tipTestLoad, e)}
+              onMouseLeave={handleInfoLeave}
+              title="Click for info"
+            >
+              ℹ️
+            </span>
+          </label>
+          <input
+            type="number"
+            step="1"
+            value={tipTestLoadInput}
+            onChange={(e) => {
+              setTipTestLoadInput(e.target.value);
+              const val = parseFloat(e.target.value);
+              if (!isNaN(val) && val >= 0) {
+                setTipTestLoad(val);
+              }
+            }}
+            onBlur={() => {
+              const val = parseFloat(tipTestLoadInput);
+              if (isNaN(val) || val < 0 || tipTestLoadInput === '') {
+                setTipTestLoad(defaultTipTestLoad);
+                setTipTestLoadInput(String(defaultTipTestLoad));
+              }
+            }}
+            className="input-field"
+          />
+        </div>
+        <div className="info-box space-y-1">
+          <div className="info-row">
+            <span className="info-label">Weight:</span>
+            <span className="info-value">{formatWeight(stability.weightLb, params.unitSystem)}</span>
+          </div>
+          <div className="info-row">
+            <span className="info-label">Center of Mass Height:</span>
+            <span className="info-value">
+              {formatDimension(stability.centerOfMass[1] + getCarcassHeight(dimensions) / 2 + dimensions.baseHeight, params.unitSystem)}
+            </span>
+          </div>
+          <div className="info-row">
+            <span className="info-label">Height / Depth:</span>
+            <span className="info-value">{stability.heightToDepthRatio.toFixed(2)}</span>
+          </div>
+          {stability.loadedBy !== 'shelf' && (
+            <div className="info-row">
+              <span className="info-label">Tips at ({stability.loadedBy === 'drawer' ? 'open drawer' : 'open door'}):</span>
+              <span className="info-value">{formatWeight(stability.maxFrontLoadLb, params.unitSystem)}</span>
+            </div>
+          )}
+          <div className="info-row">
+            <span className="info-label">Wall Anchor:</span>
+            <span className={`info-value ${stability.anchorRequired ? 'text-yellow-600' : 'text-green-600'}`}>
+              {stability.anchorRequired ? 'Required' : 'Recommended'}
+            </span>
+          </div>
         </div>
       </div>
 
@@ -347,7 +1065,7 @@ export function ControlsPanel() {
         <div className="info-box space-y-1">
           <div className="info-row">
             <span className="info-label">Width:</span>
-            <span className="info-value">{formatDimension(dimensions.extWidth, params.unitSystem)}</span>
+            <span className="info-value">{formatDimension(dimensions.overallWidth, params.unitSystem)}</span>
           </div>
           <div className="info-row">
             <span className="info-label">Height:</span>
@@ -355,7 +1073,7 @@ export function ControlsPanel() {
           </div>
           <div className="info-row">
             <span className="info-label">Depth:</span>
-            <span className="info-value">{formatDimension(dimensions.extDepth, params.unitSystem)}</span>
+            <span className="info-value">{formatDimension(dimensions.overallDepth, params.unitSystem)}</span>
           </div>
         </div>
       </div>
@@ -392,11 +1110,76 @@ export function ControlsPanel() {
               </span>
             </div>
           )}
+          {analysis.estimate.totalDrawers > 0 && (
+            <div className="info-row">
+              <span className="info-label">Drawers:</span>
+              <span className="info-value">
+                {params.unitSystem === 'metric'
+                  ? `${(analysis.estimate.drawerSquareFeet * 0.09290304).toFixed(2)} m²`
+                  : `${analysis.estimate.drawerSquareFeet.toFixed(1)} sq ft`}
+              </span>
+            </div>
+          )}
+          {analysis.estimate.edgeBandingFeet > 0 && (
+            <div className="info-row">
+              <span className="info-label">Edge Banding:</span>
+              <span className="info-value">
+                {params.unitSystem === 'metric'
+                  ? `${(analysis.estimate.edgeBandingFeet * 0.3048).toFixed(1)} m`
+                  : `${analysis.estimate.edgeBandingFeet.toFixed(1)} ft`}
+              </span>
+            </div>
+          )}
           <div className="divider" style={{ margin: '0.5rem 0' }} />
           <div className="text-xs text-gray-600">
             {analysis.estimate.totalFrameParts} frame parts, {analysis.estimate.totalDoors} doors
+            {analysis.estimate.totalDrawers > 0 && `, ${analysis.estimate.totalDrawers} drawers`}
+          </div>
+        </div>
+      </div>
+
+      {/* Hardware */}
+      {analysis.hardware.length > 0 && (
+        <div className="space-y-2">
+          <h1 className="section-title">Hardware</h1>
+          <div className="info-box space-y-1">
+            {analysis.hardware.map(item => (
+              <div key={item.id} className="info-row" title={item.notes}>
+                <span className="info-label">{item.name}:</span>
+                <span className="info-value">{item.qty}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Cost Estimate */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h1 className="section-title">Cost Estimate</h1>
+          <button
+            onClick={() => setIsEditingPrices(!isEditingPrices)}
+            className="btn btn-secondary btn-sm"
+          >
+            {isEditingPrices ? 'Done' : 'Edit Prices'}
+          </button>
+        </div>
+        <div className="info-box space-y-1">
+          {(Object.keys(cost.byCategory) as CostCategory[])
+            .filter(category => cost.byCategory[category] > 0)
+            .map(category => (
+              <div key={category} className="info-row">
+                <span className="info-label">{COST_CATEGORY_LABELS[category]}:</span>
+                <span className="info-value">{formatCost(cost.byCategory[category], catalog)}</span>
+              </div>
+            ))}
+          <div className="divider" style={{ margin: '0.5rem 0' }} />
+          <div className="info-row">
+            <span className="info-label">Total:</span>
+            <span className="info-value">{formatCost(cost.total, catalog)}</span>
           </div>
         </div>
+        {isEditingPrices && <PriceCatalogEditor unitSystem={params.unitSystem} />}
       </div>
 
       <div className="divider" />
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { useDesignStore } from '../state/useDesignStore';
+import { getThicknessInInches, type Opening } from '../geometry/types';
+import { calculateDoorPosition, calculateGridMetrics, calculateSpanSize, getCarcassHeight, SCENE_SCALE, toInches } from '../geometry/measurements';
+import { getDoorOpenings, getOpenings } from '../geometry/openings';
+
+// Component for rendering a clickable panel over one opening
+interface DoorTargetMeshProps {
+  opening: Opening;
+  hasDoor: boolean;
+  position: [number, number, number];
+  size: [number, number];
+  onClick: (opening: Opening) => void;
+}
+
+function DoorTargetMesh({ opening, hasDoor, position, size, onClick }: DoorTargetMeshProps) {
+  const [isHovered, setIsHovered] = useState(false);
+
+  return (
+    <mesh
+      position={position}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick(opening);
+      }}
+      onPointerEnter={(e) => {
+        e.stopPropagation();
+        setIsHovered(true);
+      }}
+      onPointerLeave={() => setIsHovered(false)}
+    >
+      <planeGeometry args={size} />
+      <meshStandardMaterial
+        color={isHovered ? '#10b981' : hasDoor ? '#3b82f6' : '#ffffff'}
+        transparent
+        opacity={isHovered ? 0.5 : hasDoor ? 0.25 : 0.1}
+      />
+    </mesh>
+  );
+}
+
+interface DoorTargetOverlayProps {
+  enabled: boolean;
+}
+
+/**
+ * Clickable targets in front of every opening for assigning doors from the 3D view
+ */
+export function DoorTargetOverlay({ enabled }: DoorTargetOverlayProps) {
+  const { dimensions, params, toggleDoor } = useDesignStore();
+
+  if (!enabled) return null;
+
+  const grid = calculateGridMetrics(params);
+  const { frameThickness } = grid;
+  const depthInches = toInches(params.depth, params.unitSystem);
+  const doorThickness = params.materials.door ? getThicknessInInches(params.materials.door) : frameThickness;
+
+  // Targets float just in front of the doors so they stay clickable
+  const z = (depthInches / 2 + doorThickness + 0.25) * SCENE_SCALE;
+
+  const doorOpenings = getDoorOpenings(params);
+  const hasDoor = (opening: Opening) =>
+    doorOpenings.some(d => d.opening.row === opening.row && d.opening.col === opening.col);
+
+  return (
+    <>
+      {getOpenings(params).map(opening => {
+        const [x, y] = calculateDoorPosition(
+          {
+            row: opening.row,
+            colStart: opening.col,
+            colEnd: opening.col + opening.width,
+            rowEnd: opening.row + opening.height,
+          },
+          grid,
+          dimensions.extWidth,
+          getCarcassHeight(dimensions)
+        );
+        const width = calculateSpanSize(grid.columnWidths, opening.col, opening.col + opening.width, frameThickness);
+        const height = calculateSpanSize(grid.rowHeights, opening.row, opening.row + opening.height, frameThickness);
+
+        return (
+          <DoorTargetMesh
+            key={`door-target-${opening.row}-${opening.col}`}
+            opening={opening}
+            hasDoor={hasDoor(opening)}
+            position={[x, y, z]}
+            size={[width * SCENE_SCALE, height * SCENE_SCALE]}
+            onClick={(target) => toggleDoor(target.row, target.col)}
+          />
+        );
+      })}
+    </>
+  );
+}
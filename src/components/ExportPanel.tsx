@@ -3,11 +3,18 @@ import Papa from 'papaparse';
 import { useDesignStore } from '../state/useDesignStore';
 import { generatePDFBooklet } from '../geometry/pdfBooklet';
 import { formatDimensions } from '../geometry/format';
+import { calculateBandedLength } from '../geometry/edgeBanding';
 import { downloadJSON, downloadCSV, downloadPDF } from '../lib/download';
 import { logDesignExport } from '../lib/firebaseLogger';
+import { useCostEstimate } from '../lib/useCostEstimate';
+import { COST_CATEGORY_LABELS, formatCost } from '../geometry/cost';
+import type { CostCategory } from '../geometry/types';
 
 export function ExportPanel() {
   const { params, analysis, dimensions } = useDesignStore();
+  const { cost, catalog, layouts } = useCostEstimate();
+  // Informational notes (like passing shelf sag checks) are not counted as warnings
+  const warningCount = analysis.warnings.filter(w => w.severity !== 'info').length;
   const [isGenerating, setIsGenerating] = useState(false);
   const [projectName, setProjectName] = useState('');
 
@@ -22,6 +29,8 @@ export function ExportPanel() {
       design: params,
       parts: analysis.parts,
       estimate: analysis.estimate,
+      hardware: analysis.hardware,
+      cost,
       warnings: analysis.warnings,
     };
 
@@ -37,6 +46,8 @@ export function ExportPanel() {
       'Width (in)': part.widthIn.toFixed(4),
       'Thickness (in)': part.thicknessIn.toFixed(4),
       'Dimensions': formatDimensions(part.lengthIn, part.widthIn, part.thicknessIn),
+      'Banded Edges': part.bandedEdges?.join(' ') || '',
+      'Banding (ft)': (calculateBandedLength(part) / 12).toFixed(2),
       'Notes': part.notes || '',
     }));
 
@@ -44,11 +55,45 @@ export function ExportPanel() {
     downloadCSV(csv, `kallax-cut-list-${getFilenameSuffix()}.csv`);
   };
 
+  const handleExportHardwareCSV = () => {
+    const csvData = analysis.hardware.map(item => ({
+      'Item': item.name,
+      'Category': item.category,
+      'Quantity': item.qty,
+      'Notes': item.notes || '',
+    }));
+
+    const csv = Papa.unparse(csvData);
+    downloadCSV(csv, `kallax-hardware-${getFilenameSuffix()}.csv`);
+  };
+
+  const handleExportCostCSV = () => {
+    const csvData: Array<Record<string, string | number>> = cost.lines.map(line => ({
+      'Item': line.name,
+      'Category': COST_CATEGORY_LABELS[line.category],
+      'Quantity': line.qty,
+      'Unit': line.unit,
+      'Unit Price': line.unitPrice.toFixed(2),
+      'Total': line.total.toFixed(2),
+    }));
+    csvData.push({
+      'Item': 'Total',
+      'Category': '',
+      'Quantity': '',
+      'Unit': '',
+      'Unit Price': '',
+      'Total': cost.total.toFixed(2),
+    });
+
+    const csv = Papa.unparse(csvData);
+    downloadCSV(csv, `kallax-cost-${getFilenameSuffix()}.csv`);
+  };
+
   const handleExportPDF = async () => {
     setIsGenerating(true);
     try {
       const title = projectName.trim() || 'Custom Modular Shelving';
-      const pdfBytes = await generatePDFBooklet(analysis.parts, params, title);
+      const pdfBytes = await generatePDFBooklet(analysis.parts, params, title, catalog, layouts);
       downloadPDF(pdfBytes, `kallax-instructions-${getFilenameSuffix()}.pdf`);
 
       // Log design export to Firebase (async, non-blocking, silent)
@@ -104,6 +149,20 @@ export function ExportPanel() {
           Cut List (CSV)
         </button>
 
+        <button
+          onClick={handleExportHardwareCSV}
+          className="btn btn-success btn-sm"
+        >
+          Hardware (CSV)
+        </button>
+
+        <button
+          onClick={handleExportCostCSV}
+          className="btn btn-success btn-sm"
+        >
+          Cost (CSV)
+        </button>
+
         <button
           onClick={handleExportJSON}
           className="btn btn-info btn-sm"
@@ -145,10 +204,22 @@ export function ExportPanel() {
             <span className="info-value">{analysis.estimate.totalDoors}</span>
           </div>
         )}
+        {(Object.keys(cost.byCategory) as CostCategory[])
+          .filter(category => cost.byCategory[category] > 0)
+          .map(category => (
+            <div key={category} className="info-row">
+              <span className="info-label">{COST_CATEGORY_LABELS[category]}:</span>
+              <span className="info-value">{formatCost(cost.byCategory[category], catalog)}</span>
+            </div>
+          ))}
+        <div className="info-row">
+          <span className="info-label">Estimated Cost:</span>
+          <span className="info-value">{formatCost(cost.total, catalog)}</span>
+        </div>
         <div className="info-row">
           <span className="info-label">Warnings:</span>
-          <span className={`info-value ${analysis.warnings.length > 0 ? 'text-yellow-600' : 'text-green-600'}`}>
-            {analysis.warnings.length}
+          <span className={`info-value ${warningCount > 0 ? 'text-yellow-600' : 'text-green-600'}`}>
+            {warningCount}
           </span>
         </div>
       </div>
@@ -157,7 +228,7 @@ export function ExportPanel() {
 
       {/* File format info */}
       <div className="text-xs text-gray-500 space-y-1">
-        <div><strong>CSV:</strong> Cut list with dimensions for fabrication</div>
+        <div><strong>CSV:</strong> Cut list with dimensions for fabrication, hardware shopping list, and cost breakdown</div>
         <div><strong>JSON:</strong> Complete design data for backup/import</div>
         <div><strong>PDF:</strong> IKEA-style assembly instructions</div>
       </div>
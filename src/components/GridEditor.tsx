@@ -1,18 +1,105 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useDesignStore } from '../state/useDesignStore';
-import type { MergeSpec } from '../geometry/types';
-import { MAX_GRID_SIZE } from '../geometry/constants';
+import type { DoorHardwarePosition, DoorStyle, KallaxInsertId, MergeSpec, ShelfPinMode, WarningSeverity } from '../geometry/types';
+import { KALLAX_INSERTS, MAX_ADJUSTABLE_SHELVES_PER_OPENING, MAX_DRAWERS_PER_OPENING, MAX_GRID_SIZE } from '../geometry/constants';
+import { resolveColumnWidths, resolveRowHeights } from '../geometry/measurements';
+import { getAdjustableShelfOpenings, getDoorOpenings, getDoorStyle, getDrawerOpenings, getInsertOpenings } from '../geometry/openings';
+import { getBackOpenings } from '../geometry/backs';
+import { getDesignRules } from '../geometry/rules';
 import { useMobileAwarePosition } from '../lib/useMobileAwarePosition';
 
+const HARDWARE_POSITION_LABELS: Record<DoorHardwarePosition, string> = {
+  'top-left': 'Top Left',
+  'top-center': 'Top Center',
+  'top-right': 'Top Right',
+  'middle-left': 'Middle Left',
+  'middle-right': 'Middle Right',
+  'bottom-left': 'Bottom Left',
+  'bottom-center': 'Bottom Center',
+  'bottom-right': 'Bottom Right',
+};
+
+const DOOR_STYLE_LABELS: Record<DoorStyle, string> = {
+  'single-left': 'Hinged Left',
+  'single-right': 'Hinged Right',
+  'paired': 'Pair',
+  'flip-down': 'Flip Down',
+};
+
+const SEVERITY_ICONS: Record<WarningSeverity, string> = {
+  error: '⛔',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
+
+interface GridSizeInputProps {
+  label: string;
+  value: number | null;
+  defaultValue: number;
+  unitSystem: 'imperial' | 'metric';
+  onChange: (value: number | null) => void;
+}
+
+// Input for a single column width / row height override - blank means use the interior clearance
+function GridSizeInput({ label, value, defaultValue, unitSystem, onChange }: GridSizeInputProps) {
+  const [input, setInput] = useState(value === null ? '' : String(value));
+
+  // Sync local state when params change (e.g., unit system switch)
+  useEffect(() => {
+    setInput(value === null ? '' : String(value));
+  }, [value]);
+
+  return (
+    <label className="flex items-center gap-1 text-xs">
+      <span className="text-gray-500">{label}</span>
+      <input
+        type="number"
+        step={unitSystem === 'metric' ? '1' : '0.125'}
+        value={input}
+        placeholder={String(defaultValue)}
+        onChange={(e) => {
+          setInput(e.target.value);
+          const val = parseFloat(e.target.value);
+          if (e.target.value === '') {
+            onChange(null);
+          } else if (!isNaN(val) && val > 0) {
+            onChange(val);
+          }
+        }}
+        className="input-field"
+        style={{ maxWidth: '5rem' }}
+      />
+    </label>
+  );
+}
+
 export function GridEditor() {
   const {
     params,
     analysis,
     setRows,
     setCols,
+    setColumnWidth,
+    setRowHeight,
+    resetGridSizes,
     addMerge,
     removeMerge,
-    clearMerges
+    clearMerges,
+    toggleDoor,
+    toggleBack,
+    setOpeningHardwarePosition,
+    setOpeningDoorStyle,
+    setOpeningDrawerCount,
+    setOpeningAdjustableShelfCount,
+    setShelfPinSystem,
+    setShelfPinSpacing,
+    setCellInsert,
+    gridEditMode,
+    setGridEditMode,
+    highlightedWarning,
+    setHighlightedWarning,
+    silenceRule,
+    restoreRule,
   } = useDesignStore();
 
   const [isDragging, setIsDragging] = useState(false);
@@ -31,6 +118,12 @@ export function GridEditor() {
   // Local state for input fields to allow empty strings
   const [rowsInput, setRowsInput] = useState(String(params.rows));
   const [colsInput, setColsInput] = useState(String(params.cols));
+  const [pinSpacingInput, setPinSpacingInput] = useState(String(params.shelfPins?.spacing ?? ''));
+
+  // Sync local state when params change (e.g., unit system switch)
+  useEffect(() => {
+    setPinSpacingInput(String(params.shelfPins?.spacing ?? ''));
+  }, [params.shelfPins?.spacing]);
 
   // Listen for reset events to update local input state
   useEffect(() => {
@@ -50,8 +143,40 @@ export function GridEditor() {
     return index >= 0 ? { merge: params.merges[index], index } : null;
   };
 
+  // Cells flagged by the warning hovered in the warnings list
+  const isHighlighted = (r0: number, c0: number, r1 = r0, c1 = c0) =>
+    highlightedWarning?.cells?.some(cell =>
+      cell.row >= r0 && cell.row <= r1 && cell.col >= c0 && cell.col <= c1
+    ) ?? false;
+
+  // Openings with a door assigned, keyed by their top-left cell
+  const doorOpenings = getDoorOpenings(params);
+  const hasDoorAt = (row: number, col: number) =>
+    doorOpenings.some(({ opening }) => opening.row === row && opening.col === col);
+
+  // Openings filled with drawers, keyed the same way
+  const drawerOpenings = getDrawerOpenings(params);
+  const hasDrawersAt = (row: number, col: number) =>
+    drawerOpenings.some(({ opening }) => opening.row === row && opening.col === col);
+
+  // Tall merged openings with adjustable shelves, keyed the same way
+  const shelfOpenings = getAdjustableShelfOpenings(params);
+  const hasShelvesAt = (row: number, col: number) =>
+    shelfOpenings.some(({ opening }) => opening.row === row && opening.col === col);
+
+  // Standard cells fitted with a Kallax insert, keyed the same way
+  const insertOpenings = getInsertOpenings(params);
+  const hasInsertAt = (row: number, col: number) =>
+    insertOpenings.some(({ opening }) => opening.row === row && opening.col === col);
+
+  // Openings with their own back panel, keyed the same way
+  const backOpenings = getBackOpenings(params);
+  const hasBackAt = (row: number, col: number) =>
+    backOpenings.some(({ opening }) => opening.row === row && opening.col === col);
+
   // Handle mouse down to start drag selection
   const handleMouseDown = (row: number, col: number) => {
+    if (gridEditMode !== 'merge') return;
     setIsDragging(true);
     setDragStart({ row, col });
     setDragEnd({ row, col });
@@ -83,8 +208,28 @@ export function GridEditor() {
     setDragEnd(null);
   }, [isDragging, dragStart, dragEnd, addMerge]);
 
-  // Handle click on existing merge to remove it
+  // Handle click on existing merge to remove it (or toggle its door/drawers/back in those modes)
   const handleCellClick = (row: number, col: number, event: React.MouseEvent) => {
+    if (gridEditMode === 'doors') {
+      toggleDoor(row, col);
+      return;
+    }
+    if (gridEditMode === 'drawers') {
+      setOpeningDrawerCount(row, col, hasDrawersAt(row, col) ? 0 : 1);
+      return;
+    }
+    if (gridEditMode === 'shelves') {
+      setOpeningAdjustableShelfCount(row, col, hasShelvesAt(row, col) ? 0 : 1);
+      return;
+    }
+    if (gridEditMode === 'inserts') {
+      setCellInsert(row, col, hasInsertAt(row, col) ? null : 'door');
+      return;
+    }
+    if (gridEditMode === 'backs') {
+      toggleBack(row, col);
+      return;
+    }
     if (event.detail === 2) { // Double click
       const cellMerge = getCellMerge(row, col);
       if (cellMerge) {
@@ -117,18 +262,28 @@ export function GridEditor() {
   const CONTAINER_SIZE = 250; // Fixed container size
   const BASE_CELL_SIZE = 40; // Base cell size for scaling reference
 
+  // Columns and rows are drawn in proportion to their interior size
+  const columnSizes = resolveColumnWidths(params);
+  const rowSizes = resolveRowHeights(params);
+  const columnPx = columnSizes.map(w => BASE_CELL_SIZE * w / params.interiorClearance);
+  const rowPx = rowSizes.map(h => BASE_CELL_SIZE * h / params.interiorClearance);
+
   // Calculate the cell size to fit grid in container
-  const gridWidth = params.cols * BASE_CELL_SIZE;
-  const gridHeight = params.rows * BASE_CELL_SIZE;
+  const gridWidth = columnPx.reduce((sum, w) => sum + w, 0);
+  const gridHeight = rowPx.reduce((sum, h) => sum + h, 0);
   const maxDimension = Math.max(gridWidth, gridHeight);
 
   // Scale down if needed to fit in container
   const scale = maxDimension > CONTAINER_SIZE ? CONTAINER_SIZE / maxDimension : 1;
   const cellSize = BASE_CELL_SIZE * scale;
 
+  // Left/top pixel offset of every grid line (index 0 .. cols/rows)
+  const columnLeft = columnPx.reduce((acc, w) => [...acc, acc[acc.length - 1] + w * scale], [0]);
+  const rowTop = rowPx.reduce((acc, h) => [...acc, acc[acc.length - 1] + h * scale], [0]);
+
   // Calculate offset to center grid
-  const actualWidth = params.cols * cellSize;
-  const actualHeight = params.rows * cellSize;
+  const actualWidth = gridWidth * scale;
+  const actualHeight = gridHeight * scale;
   const offsetX = (CONTAINER_SIZE - actualWidth) / 2;
   const offsetY = (CONTAINER_SIZE - actualHeight) / 2;
 
@@ -140,6 +295,9 @@ export function GridEditor() {
   // Get general warnings (not merge-specific)
   const generalWarnings = analysis.warnings.filter(w => w.mergeIndex === undefined);
 
+  // Rules the user has silenced for this design, with their titles
+  const silencedRules = getDesignRules().filter(rule => params.silencedRules?.includes(rule.id));
+
   const handleWarningHover = (message: string, event: React.MouseEvent) => {
     setHoveredWarning(message);
     setWarningPosition({ x: event.clientX, y: event.clientY });
@@ -203,9 +361,53 @@ export function GridEditor() {
         </div>
       </div>
       <br />
+      {/* Edit mode */}
+      <div className="flex gap-2">
+        <button
+          onClick={() => setGridEditMode('merge')}
+          className={`btn btn-sm flex-1 ${gridEditMode === 'merge' ? 'btn-info' : 'btn-secondary'}`}
+        >
+          Merge Cells
+        </button>
+        <button
+          onClick={() => setGridEditMode('doors')}
+          className={`btn btn-sm flex-1 ${gridEditMode === 'doors' ? 'btn-info' : 'btn-secondary'}`}
+        >
+          Assign Doors
+        </button>
+        <button
+          onClick={() => setGridEditMode('drawers')}
+          className={`btn btn-sm flex-1 ${gridEditMode === 'drawers' ? 'btn-info' : 'btn-secondary'}`}
+        >
+          Add Drawers
+        </button>
+        <button
+          onClick={() => setGridEditMode('shelves')}
+          className={`btn btn-sm flex-1 ${gridEditMode === 'shelves' ? 'btn-info' : 'btn-secondary'}`}
+        >
+          Add Shelves
+        </button>
+        <button
+          onClick={() => setGridEditMode('inserts')}
+          className={`btn btn-sm flex-1 ${gridEditMode === 'inserts' ? 'btn-info' : 'btn-secondary'}`}
+        >
+          Add Inserts
+        </button>
+        <button
+          onClick={() => setGridEditMode('backs')}
+          className={`btn btn-sm flex-1 ${gridEditMode === 'backs' ? 'btn-info' : 'btn-secondary'}`}
+        >
+          Assign Backs
+        </button>
+      </div>
       {/* Instructions */}
       <div className="text-sm text-gray-600">
-        Drag to select multiple cells to merge.
+        {gridEditMode === 'doors' && 'Click an opening to add or remove its door.'}
+        {gridEditMode === 'drawers' && 'Click an opening to fill it with drawers or clear them.'}
+        {gridEditMode === 'shelves' && 'Click a tall merged opening to add adjustable shelves on pins or clear them.'}
+        {gridEditMode === 'inserts' && 'Click a standard cell to fit an IKEA Kallax insert or remove it.'}
+        {gridEditMode === 'backs' && 'Click an opening to add or remove the back panel behind it.'}
+        {gridEditMode === 'merge' && 'Drag to select multiple cells to merge.'}
       </div>
       <br />
       {/* Fixed-size grid container */}
@@ -243,12 +445,17 @@ export function GridEditor() {
                   className={`
                     absolute grid-cell
                     ${isInDrag ? 'grid-cell-drag' : ''}
+                    ${hasDoorAt(row, col) ? 'grid-cell-door' : ''}
+                    ${hasDrawersAt(row, col) ? 'grid-cell-drawers' : ''}
+                    ${hasInsertAt(row, col) ? 'grid-cell-insert' : ''}
+                    ${hasBackAt(row, col) ? 'grid-cell-back' : ''}
+                    ${isHighlighted(row, col) ? 'grid-cell-highlight' : ''}
                   `}
                   style={{
-                    left: col * cellSize,
-                    top: row * cellSize,
-                    width: cellSize,
-                    height: cellSize,
+                    left: columnLeft[col],
+                    top: rowTop[row],
+                    width: columnLeft[col + 1] - columnLeft[col],
+                    height: rowTop[row + 1] - rowTop[row],
                   }}
                   onMouseDown={() => handleMouseDown(row, col)}
                   onMouseEnter={() => handleMouseEnter(row, col)}
@@ -278,12 +485,17 @@ export function GridEditor() {
                 className={`
                   absolute grid-cell grid-cell-merged
                   ${isInDrag ? 'grid-cell-drag' : ''}
+                  ${hasDoorAt(merge.r0, merge.c0) ? 'grid-cell-door' : ''}
+                  ${hasDrawersAt(merge.r0, merge.c0) ? 'grid-cell-drawers' : ''}
+                  ${hasShelvesAt(merge.r0, merge.c0) ? 'grid-cell-shelves' : ''}
+                  ${hasBackAt(merge.r0, merge.c0) ? 'grid-cell-back' : ''}
+                  ${isHighlighted(merge.r0, merge.c0, merge.r1, merge.c1) ? 'grid-cell-highlight' : ''}
                 `}
                 style={{
-                  left: merge.c0 * cellSize,
-                  top: merge.r0 * cellSize,
-                  width: (merge.c1 - merge.c0 + 1) * cellSize,
-                  height: (merge.r1 - merge.r0 + 1) * cellSize,
+                  left: columnLeft[merge.c0],
+                  top: rowTop[merge.r0],
+                  width: columnLeft[merge.c1 + 1] - columnLeft[merge.c0],
+                  height: rowTop[merge.r1 + 1] - rowTop[merge.r0],
                   zIndex: 1,
                 }}
                 onClick={(e) => handleCellClick(merge.r0, merge.c0, e)}
@@ -351,6 +563,231 @@ export function GridEditor() {
         )}
       </div>
 
+      {/* Design rule findings - hover to highlight the parts and cells involved */}
+      <div className="space-y-2">
+        <label className="form-label">Warnings ({analysis.warnings.length})</label>
+        {analysis.warnings.length === 0 && (
+          <div className="text-xs text-gray-500">No issues found.</div>
+        )}
+        {analysis.warnings.map((warning, index) => (
+          <div
+            key={`warning-${warning.type}-${index}`}
+            className="field-row-split"
+            onMouseEnter={() => setHighlightedWarning(warning)}
+            onMouseLeave={() => setHighlightedWarning(null)}
+          >
+            <span className="text-xs text-gray-600">
+              {SEVERITY_ICONS[warning.severity]} {warning.message}
+            </span>
+            <button
+              onClick={() => silenceRule(warning.type)}
+              className="btn btn-secondary btn-xs"
+              title="Stop showing this warning for this design"
+            >
+              Silence
+            </button>
+          </div>
+        ))}
+        {silencedRules.length > 0 && (
+          <>
+            <label className="form-label">Silenced Rules ({silencedRules.length})</label>
+            {silencedRules.map(rule => (
+              <div key={`silenced-${rule.id}`} className="field-row-split">
+                <span className="text-xs text-gray-500">{rule.title}</span>
+                <button onClick={() => restoreRule(rule.id)} className="btn btn-secondary btn-xs">
+                  Restore
+                </button>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      {/* Per-door style and hardware positions */}
+      {gridEditMode === 'doors' && (
+        <div className="space-y-2">
+          <label className="form-label">Doors ({doorOpenings.length})</label>
+          {doorOpenings.length === 0 && (
+            <div className="text-xs text-gray-500">No doors assigned.</div>
+          )}
+          {doorOpenings.map(({ opening, door }) => (
+            <div key={`door-${opening.row}-${opening.col}`} className="field-row-split">
+              <span className="text-xs text-gray-600">
+                {opening.row},{opening.col} ({opening.width}×{opening.height})
+              </span>
+              <select
+                value={getDoorStyle(door)}
+                onChange={(e) => setOpeningDoorStyle(opening.row, opening.col, e.target.value as DoorStyle)}
+                className="select-field"
+              >
+                {(Object.keys(DOOR_STYLE_LABELS) as DoorStyle[]).map(style => (
+                  <option key={style} value={style}>{DOOR_STYLE_LABELS[style]}</option>
+                ))}
+              </select>
+              <select
+                value={door.hardwarePosition || ''}
+                onChange={(e) => setOpeningHardwarePosition(
+                  opening.row,
+                  opening.col,
+                  e.target.value === '' ? null : e.target.value as DoorHardwarePosition
+                )}
+                className="select-field"
+              >
+                <option value="">Default hardware</option>
+                {(Object.keys(HARDWARE_POSITION_LABELS) as DoorHardwarePosition[]).map(position => (
+                  <option key={position} value={position}>{HARDWARE_POSITION_LABELS[position]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Per-opening drawer counts */}
+      {gridEditMode === 'drawers' && (
+        <div className="space-y-2">
+          <label className="form-label">Drawers ({drawerOpenings.length} openings)</label>
+          {drawerOpenings.length === 0 && (
+            <div className="text-xs text-gray-500">No drawers added.</div>
+          )}
+          {drawerOpenings.map(({ opening, drawer }) => (
+            <div key={`drawers-${opening.row}-${opening.col}`} className="field-row-split">
+              <span className="text-xs text-gray-600">
+                {opening.row},{opening.col} ({opening.width}×{opening.height})
+              </span>
+              <select
+                value={drawer.count}
+                onChange={(e) => setOpeningDrawerCount(opening.row, opening.col, parseInt(e.target.value, 10))}
+                className="select-field"
+              >
+                {Array.from({ length: MAX_DRAWERS_PER_OPENING }, (_, i) => i + 1).map(count => (
+                  <option key={count} value={count}>{count} {count === 1 ? 'drawer' : 'drawers'}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Per-opening adjustable shelf counts and the pin spacing */}
+      {gridEditMode === 'shelves' && (
+        <div className="space-y-2">
+          <label className="form-label">Adjustable Shelves ({shelfOpenings.length} openings)</label>
+          {shelfOpenings.length === 0 && (
+            <div className="text-xs text-gray-500">No adjustable shelves added.</div>
+          )}
+          {shelfOpenings.map(({ opening, shelves }) => (
+            <div key={`shelves-${opening.row}-${opening.col}`} className="field-row-split">
+              <span className="text-xs text-gray-600">
+                {opening.row},{opening.col} ({opening.width}×{opening.height})
+              </span>
+              <select
+                value={shelves.count}
+                onChange={(e) => setOpeningAdjustableShelfCount(opening.row, opening.col, parseInt(e.target.value, 10))}
+                className="select-field"
+              >
+                {Array.from({ length: MAX_ADJUSTABLE_SHELVES_PER_OPENING }, (_, i) => i + 1).map(count => (
+                  <option key={count} value={count}>{count} {count === 1 ? 'shelf' : 'shelves'}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <div className="field-row-split">
+            <span className="text-xs text-gray-600">Pin spacing</span>
+            <select
+              value={params.shelfPins?.system ?? '32mm'}
+              onChange={(e) => setShelfPinSystem(e.target.value as ShelfPinMode['system'])}
+              className="select-field"
+            >
+              <option value="32mm">32mm system</option>
+              <option value="custom">Custom</option>
+            </select>
+            {params.shelfPins?.system === 'custom' && (
+              <input
+                type="number"
+                step={params.unitSystem === 'metric' ? '1' : '0.125'}
+                value={pinSpacingInput}
+                onChange={(e) => {
+                  setPinSpacingInput(e.target.value);
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val > 0) {
+                    setShelfPinSpacing(val);
+                  }
+                }}
+                onBlur={() => setPinSpacingInput(String(params.shelfPins?.spacing ?? ''))}
+                className="input-field"
+                style={{ maxWidth: '5rem' }}
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Kallax insert per cell */}
+      {gridEditMode === 'inserts' && (
+        <div className="space-y-2">
+          <label className="form-label">Kallax Inserts ({insertOpenings.length})</label>
+          {insertOpenings.length === 0 && (
+            <div className="text-xs text-gray-500">No inserts fitted.</div>
+          )}
+          {insertOpenings.map(({ opening, insert }) => (
+            <div key={`insert-${opening.row}-${opening.col}`} className="field-row-split">
+              <span className="text-xs text-gray-600">
+                {opening.row},{opening.col}
+              </span>
+              <select
+                value={insert.insert}
+                onChange={(e) => setCellInsert(opening.row, opening.col, e.target.value as KallaxInsertId)}
+                className="select-field"
+              >
+                {Object.values(KALLAX_INSERTS).map(catalogInsert => (
+                  <option key={catalogInsert.id} value={catalogInsert.id}>{catalogInsert.name}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Column widths and row heights */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="form-label">
+            Cell Sizes ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+          </label>
+          <button onClick={resetGridSizes} className="btn btn-secondary btn-xs">
+            Make Uniform
+          </button>
+        </div>
+        <div className="text-xs text-gray-500">
+          Leave blank to use the interior clearance.
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {columnSizes.map((_, col) => (
+            <GridSizeInput
+              key={`col-width-${col}`}
+              label={`Col ${col}`}
+              value={params.columnWidths?.[col] ?? null}
+              defaultValue={params.interiorClearance}
+              unitSystem={params.unitSystem}
+              onChange={(value) => setColumnWidth(col, value)}
+            />
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {rowSizes.map((_, row) => (
+            <GridSizeInput
+              key={`row-height-${row}`}
+              label={`Row ${row}`}
+              value={params.rowHeights?.[row] ?? null}
+              defaultValue={params.interiorClearance}
+              unitSystem={params.unitSystem}
+              onChange={(value) => setRowHeight(row, value)}
+            />
+          ))}
+        </div>
+      </div>
+
       {/* Warning hover tooltip */}
       {hoveredWarning && (
         <div
@@ -16,8 +16,20 @@ function getColorForRole(role: PartRole, colorScheme: ColorScheme): string {
       'Side': '#4b5563',
       'VerticalDivider': '#4b5563',
       'BayShelf': '#9ca3af',
+      'AdjustableShelf': '#9ca3af',
       'Back': '#374151',
+      'Stretcher': '#52525b',
+      'Cleat': '#52525b',
+      'WallCleat': '#52525b',
+      'Plinth': '#3f3f46',
+      'Countertop': '#71717a',
+      'CountertopEdge': '#27272a',
       'Door': '#d1d5db',
+      'DrawerSide': '#a1a1aa',
+      'DrawerFront': '#a1a1aa',
+      'DrawerBack': '#a1a1aa',
+      'DrawerBottom': '#a1a1aa',
+      'DrawerFace': '#e5e7eb',
     },
     browns: {
       'Top': '#a0522d',
@@ -25,8 +37,20 @@ function getColorForRole(role: PartRole, colorScheme: ColorScheme): string {
       'Side': '#8b4513',
       'VerticalDivider': '#8b4513',
       'BayShelf': '#d2691e',
+      'AdjustableShelf': '#d2691e',
       'Back': '#654321',
+      'Stretcher': '#6b3e26',
+      'Cleat': '#6b3e26',
+      'WallCleat': '#6b3e26',
+      'Plinth': '#5c3317',
+      'Countertop': '#b5651d',
+      'CountertopEdge': '#7b3f00',
       'Door': '#cd853f',
+      'DrawerSide': '#deb887',
+      'DrawerFront': '#deb887',
+      'DrawerBack': '#deb887',
+      'DrawerBottom': '#deb887',
+      'DrawerFace': '#f4a460',
     },
     blues: {
       'Top': '#60a5fa',
@@ -34,8 +58,20 @@ function getColorForRole(role: PartRole, colorScheme: ColorScheme): string {
       'Side': '#3b82f6',
       'VerticalDivider': '#3b82f6',
       'BayShelf': '#93c5fd',
+      'AdjustableShelf': '#93c5fd',
       'Back': '#1e40af',
+      'Stretcher': '#1d4ed8',
+      'Cleat': '#1d4ed8',
+      'WallCleat': '#1d4ed8',
+      'Plinth': '#1e3a8a',
+      'Countertop': '#2563eb',
+      'CountertopEdge': '#172554',
       'Door': '#bfdbfe',
+      'DrawerSide': '#bae6fd',
+      'DrawerFront': '#bae6fd',
+      'DrawerBack': '#bae6fd',
+      'DrawerBottom': '#bae6fd',
+      'DrawerFace': '#dbeafe',
     },
   };
 
@@ -193,6 +229,71 @@ export function KeyPanel() {
           ></div>
           <span className="text-xs text-mono">Back Panels</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div
+            className="rounded border flex-shrink-0"
+            style={{
+              width: '0.875rem',
+              height: '0.875rem',
+              backgroundColor: getColorForRole('Stretcher', params.colorScheme),
+              borderRadius: '0.25rem',
+              borderColor: '#d1d5db',
+            }}
+          ></div>
+          <span className="text-xs text-mono">Rails & Cleats</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div
+            className="rounded border flex-shrink-0"
+            style={{
+              width: '0.875rem',
+              height: '0.875rem',
+              backgroundColor: getColorForRole('Plinth', params.colorScheme),
+              borderRadius: '0.25rem',
+              borderColor: '#d1d5db',
+            }}
+          ></div>
+          <span className="text-xs text-mono">Plinth</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div
+            className="rounded border flex-shrink-0"
+            style={{
+              width: '0.875rem',
+              height: '0.875rem',
+              backgroundColor: getColorForRole('Countertop', params.colorScheme),
+              borderRadius: '0.25rem',
+              borderColor: '#d1d5db',
+            }}
+          ></div>
+          <span className="text-xs text-mono">Countertop</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div
+            className="rounded border flex-shrink-0"
+            style={{
+              width: '0.875rem',
+              height: '0.875rem',
+              backgroundColor: getColorForRole('DrawerSide', params.colorScheme),
+              borderRadius: '0.25rem',
+              borderColor: '#d1d5db',
+            }}
+          ></div>
+          <span className="text-xs text-mono">Drawer Boxes</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div
+            className="rounded border flex-shrink-0"
+            style={{
+              width: '0.875rem',
+              height: '0.875rem',
+              backgroundColor: getColorForRole('DrawerFace', params.colorScheme),
+              borderRadius: '0.25rem',
+              borderColor: '#d1d5db',
+            }}
+          ></div>
+          <span className="text-xs text-mono">Drawer Faces</span>
+        </div>
       </div>
     </div>
   );
@@ -1,7 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { useDesignStore } from '../state/useDesignStore';
 import * as THREE from 'three';
-import { getThicknessInInches } from '../geometry/types';
+import { calculateGridLineOffset, calculateGridMetrics, getCarcassHeight } from '../geometry/measurements';
 
 // Interface for potential merge positions
 interface MergeTarget {
@@ -164,9 +164,12 @@ export function MergeTargetOverlay({ enabled }: MergeTargetOverlayProps) {
     if (!enabled) return [];
 
     const targets: MergeTarget[] = [];
-    const frameThickness = getThicknessInInches(params.materials.frame);
-    const bayWidth = params.interiorClearance;
-    const bayHeight = params.interiorClearance;
+    const grid = calculateGridMetrics(params);
+    const { frameThickness } = grid;
+
+    // Distance from the left/top exterior edge to the start of a column/row's interior
+    const columnStart = (col: number) => calculateGridLineOffset(grid.columnWidths, col, frameThickness) + frameThickness;
+    const rowStart = (row: number) => calculateGridLineOffset(grid.rowHeights, row, frameThickness) + frameThickness;
 
     // Scale factor to match the 3D parts
     const scale = 0.1;
@@ -184,8 +187,8 @@ export function MergeTargetOverlay({ enabled }: MergeTargetOverlayProps) {
       for (let col = 0; col < params.cols - 1; col++) {
         if (!areCellsMerged(row, col, row, col + 1)) {
           // Position at the boundary between two cells, scaled to match 3D view
-          const x = ((-dimensions.extWidth / 2) + frameThickness + ((col + 1) * bayWidth) + (col * frameThickness)) * scale;
-          const y = ((dimensions.extHeight / 2) - frameThickness - ((row + 0.5) * bayHeight) - (row * frameThickness)) * scale;
+          const x = ((-dimensions.extWidth / 2) + columnStart(col) + grid.columnWidths[col]) * scale;
+          const y = ((getCarcassHeight(dimensions) / 2) - rowStart(row) - grid.rowHeights[row] / 2) * scale;
           // Move in front of shelving by half depth plus buffer
           const z = (dimensions.extDepth / 2 + 1) * scale;
 
@@ -206,8 +209,8 @@ export function MergeTargetOverlay({ enabled }: MergeTargetOverlayProps) {
       for (let col = 0; col < params.cols; col++) {
         if (!areCellsMerged(row, col, row + 1, col)) {
           // Position at the boundary between two cells, scaled to match 3D view
-          const x = ((-dimensions.extWidth / 2) + frameThickness + ((col + 0.5) * bayWidth) + (col * frameThickness)) * scale;
-          const y = ((dimensions.extHeight / 2) - frameThickness - ((row + 1) * bayHeight) - (row * frameThickness)) * scale;
+          const x = ((-dimensions.extWidth / 2) + columnStart(col) + grid.columnWidths[col] / 2) * scale;
+          const y = ((getCarcassHeight(dimensions) / 2) - rowStart(row) - grid.rowHeights[row]) * scale;
           // Move in front of shelving by half depth plus buffer
           const z = (dimensions.extDepth / 2+ 1) * scale;
 
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useDesignStore } from '../state/useDesignStore';
+import { useOffcutStore } from '../state/useOffcutStore';
+import { useSheetLayoutStore } from '../state/useSheetLayoutStore';
+import { formatDimension } from '../geometry/format';
+import { findNewOffcuts, getUsedOffcutIds } from '../geometry/offcuts';
+import { toInches } from '../geometry/measurements';
+import { SHEET_MATERIAL_PROPERTIES } from '../geometry/constants';
+import type { Offcut, SheetMaterial } from '../geometry/types';
+
+// A leftover from the cut plan, offered back into the inventory
+interface OfferedOffcut extends Omit<Offcut, 'id'> {
+  keep: boolean;
+}
+
+export function OffcutInventoryEditor() {
+  const { params, analysis } = useDesignStore();
+  const { offcuts, addOffcut, removeOffcut, markProjectCut } = useOffcutStore();
+  const layouts = useSheetLayoutStore(state => state.layouts);
+  const { unitSystem } = params;
+
+  // New offcut entry, in design units; the length runs along the grain
+  const [newLabel, setNewLabel] = useState('');
+  const [newMaterial, setNewMaterial] = useState<SheetMaterial>(params.sheetMaterial ?? 'plywood');
+  const [newThickness, setNewThickness] = useState('');
+  const [newWidth, setNewWidth] = useState('');
+  const [newLength, setNewLength] = useState('');
+
+  // Set while the leftovers of a project marked as cut are being reviewed
+  const [offered, setOffered] = useState<{ usedIds: string[]; offcuts: OfferedOffcut[] } | null>(null);
+
+  const handleAddOffcut = () => {
+    const thickness = parseFloat(newThickness);
+    const width = parseFloat(newWidth);
+    const length = parseFloat(newLength);
+    if ([thickness, width, length].some(v => isNaN(v) || v <= 0)) return;
+
+    addOffcut({
+      label: newLabel.trim() || `Offcut ${offcuts.length + 1}`,
+      material: newMaterial,
+      thicknessIn: toInches(thickness, unitSystem),
+      widthIn: toInches(width, unitSystem),
+      lengthIn: toInches(length, unitSystem),
+    });
+    setNewLabel('');
+    setNewThickness('');
+    setNewWidth('');
+    setNewLength('');
+  };
+
+  // The leftovers of the cut plan the estimate and booklet were made from
+  const handleMarkCut = () => {
+    const { sheets } = layouts;
+    setOffered({
+      usedIds: getUsedOffcutIds(sheets),
+      offcuts: findNewOffcuts(sheets, params).map(offcut => ({ ...offcut, keep: true })),
+    });
+  };
+
+  const handleConfirmCut = () => {
+    if (!offered) return;
+    const kept = offered.offcuts
+      .filter(offcut => offcut.keep)
+      .map(({ label, material, thicknessIn, widthIn, lengthIn }) => ({ label, material, thicknessIn, widthIn, lengthIn }));
+    markProjectCut(offered.usedIds, kept);
+    setOffered(null);
+  };
+
+  const unitLabel = unitSystem === 'metric' ? 'mm' : 'in';
+  const format = (inches: number) => formatDimension(inches, unitSystem);
+  const describe = (offcut: Omit<Offcut, 'id'>) =>
+    `${SHEET_MATERIAL_PROPERTIES[offcut.material].label} ${format(offcut.thicknessIn)}, ${format(offcut.widthIn)} × ${format(offcut.lengthIn)} along the grain`;
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-semibold text-gray-700">Offcuts</div>
+      {offcuts.length === 0 && (
+        <p className="text-sm text-gray-600">
+          Add offcuts from the shop and parts are nested onto them before any new sheet.
+        </p>
+      )}
+      {offcuts.map(offcut => (
+        <div key={offcut.id} className="flex items-center justify-between gap-1 text-xs">
+          <span className="text-gray-600">
+            {offcut.label}: {describe(offcut)}
+          </span>
+          <button
+            onClick={() => removeOffcut(offcut.id)}
+            className="btn btn-secondary btn-sm"
+            title="Remove offcut"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <input
+        type="text"
+        value={newLabel}
+        onChange={(e) => setNewLabel(e.target.value)}
+        placeholder="Label"
+        className="input-field"
+      />
+      <select
+        value={newMaterial}
+        onChange={(e) => setNewMaterial(e.target.value as SheetMaterial)}
+        className="select-field"
+      >
+        {(Object.keys(SHEET_MATERIAL_PROPERTIES) as SheetMaterial[]).map(material => (
+          <option key={material} value={material}>{SHEET_MATERIAL_PROPERTIES[material].label}</option>
+        ))}
+      </select>
+      <div className="grid grid-cols-3 gap-1">
+        <input
+          type="number"
+          value={newThickness}
+          onChange={(e) => setNewThickness(e.target.value)}
+          placeholder={`Thick (${unitLabel})`}
+          className="input-field"
+        />
+        <input
+          type="number"
+          value={newWidth}
+          onChange={(e) => setNewWidth(e.target.value)}
+          placeholder={`Across grain (${unitLabel})`}
+          className="input-field"
+        />
+        <input
+          type="number"
+          value={newLength}
+          onChange={(e) => setNewLength(e.target.value)}
+          placeholder={`Along grain (${unitLabel})`}
+          className="input-field"
+        />
+      </div>
+      <button onClick={handleAddOffcut} className="btn btn-secondary btn-sm w-full">
+        Add Offcut
+      </button>
+
+      {offered ? (
+        <div className="space-y-1">
+          <p className="text-sm text-gray-600">
+            {offered.usedIds.length > 0 && `${offered.usedIds.length} offcut${offered.usedIds.length === 1 ? '' : 's'} used up. `}
+            {offered.offcuts.length > 0 ? 'Keep these leftovers?' : 'No leftovers big enough to keep.'}
+          </p>
+          {offered.offcuts.map((offcut, index) => (
+            <label key={index} className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={offcut.keep}
+                onChange={(e) => setOffered({
+                  ...offered,
+                  offcuts: offered.offcuts.map((o, i) => i === index ? { ...o, keep: e.target.checked } : o),
+                })}
+              />
+              {offcut.label}: {describe(offcut)}
+            </label>
+          ))}
+          <div className="grid grid-cols-2 gap-1">
+            <button onClick={handleConfirmCut} className="btn btn-secondary btn-sm">
+              Update Inventory
+            </button>
+            <button onClick={() => setOffered(null)} className="btn btn-neutral btn-sm">
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={handleMarkCut} className="btn btn-secondary btn-sm w-full" disabled={analysis.parts.length === 0}>
+          Mark Project as Cut
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,29 @@
 import { useState, useEffect } from 'react';
 import { useDesignStore } from '../state/useDesignStore';
-import type { DoorHardwarePosition } from '../geometry/types';
+import type { BackStyle, CountertopOverhangs, DoorHardwarePosition, NominalThickness, SheetMaterial } from '../geometry/types';
+import { isImperialMaterial, isMetricMaterial } from '../geometry/types';
+import { getBackMode } from '../geometry/backs';
+import { createMetricThickness, createThicknessMap, DEFAULT_COUNTERTOP_EDGE_IMPERIAL, DEFAULT_COUNTERTOP_EDGE_METRIC, SHEET_MATERIAL_PROPERTIES } from '../geometry/constants';
+import { getDoorOpenings, getDoorStyle } from '../geometry/openings';
 
 export function OptionsPanel() {
   const {
     params,
     setHasBack,
+    setBackMode,
     setHasDoors,
     setDoorMode,
     setDoorReveal,
     setDoorOverlay,
+    setDoorPairGap,
     setDoorHardwarePosition,
     setDoorHardwareType,
     setDoorHardwareInset,
+    setHasCountertop,
+    setCountertopMaterial,
+    setCountertopThickness,
+    setCountertopOverhang,
+    setCountertopEdge,
   } = useDesignStore();
 
   const doorHardware = params.doorHardware || {
@@ -25,13 +36,41 @@ export function OptionsPanel() {
   const [revealInput, setRevealInput] = useState(String(params.doorMode.reveal || 0.0625));
   const [overlayInput, setOverlayInput] = useState(String(params.doorMode.overlay || 0.25));
   const [hardwareInsetInput, setHardwareInsetInput] = useState(String(doorHardware.inset));
+  const [pairGapInput, setPairGapInput] = useState(String(params.doorMode.pairGap ?? params.doorMode.reveal));
 
   // Sync local state when params change (e.g., unit system switch)
   useEffect(() => {
     setRevealInput(String(params.doorMode.reveal || 0.0625));
     setOverlayInput(String(params.doorMode.overlay || 0.25));
     setHardwareInsetInput(String(doorHardware.inset));
-  }, [params.doorMode.reveal, params.doorMode.overlay, doorHardware.inset]);
+    setPairGapInput(String(params.doorMode.pairGap ?? params.doorMode.reveal));
+  }, [params.doorMode.reveal, params.doorMode.overlay, params.doorMode.pairGap, doorHardware.inset]);
+
+  const { countertop } = params;
+  const overhangSides: Array<keyof CountertopOverhangs> = ['front', 'back', 'left', 'right'];
+  const [overhangInputs, setOverhangInputs] = useState<Record<keyof CountertopOverhangs, string>>({
+    front: String(countertop?.overhang.front ?? 0),
+    back: String(countertop?.overhang.back ?? 0),
+    left: String(countertop?.overhang.left ?? 0),
+    right: String(countertop?.overhang.right ?? 0),
+  });
+  const [edgeInput, setEdgeInput] = useState(String(countertop?.edge ?? ''));
+
+  useEffect(() => {
+    setOverhangInputs({
+      front: String(countertop?.overhang.front ?? 0),
+      back: String(countertop?.overhang.back ?? 0),
+      left: String(countertop?.overhang.left ?? 0),
+      right: String(countertop?.overhang.right ?? 0),
+    });
+    setEdgeInput(String(countertop?.edge ?? ''));
+  }, [countertop?.overhang.front, countertop?.overhang.back, countertop?.overhang.left, countertop?.overhang.right, countertop?.edge]);
+
+  const defaultEdge = params.unitSystem === 'metric' ? DEFAULT_COUNTERTOP_EDGE_METRIC : DEFAULT_COUNTERTOP_EDGE_IMPERIAL;
+
+  const backMode = getBackMode(params);
+
+  const hasPairedDoors = getDoorOpenings(params).some(({ door }) => getDoorStyle(door) === 'paired');
 
   const handlePositionClick = (position: DoorHardwarePosition) => {
     setDoorHardwarePosition(position);
@@ -49,9 +88,54 @@ export function OptionsPanel() {
               onChange={(e) => setHasBack(e.target.checked)}
               className="checkbox-field"
             />
-            <span className="text-sm">Add back panel</span>
+            <span className="text-sm">Add back panel or rails</span>
           </label>
 
+          {/* Back Options */}
+          {params.hasBack && (
+            <div className="pl-4 space-y-3 border-gray-200">
+              <div className="field-group">
+                <label className="form-label">
+                  Back Style
+                </label>
+                <select
+                  value={backMode.type}
+                  onChange={(e) => setBackMode({ ...backMode, type: e.target.value as BackStyle })}
+                  className="select-field"
+                >
+                  <option value="surface">Surface-mounted</option>
+                  <option value="inset">Inset</option>
+                  <option value="per-opening">Behind chosen openings</option>
+                  <option value="split">Split to fit sheets</option>
+                  <option value="stretchers">Stretcher rails (open back)</option>
+                  <option value="french-cleat">French cleat (wall-hung)</option>
+                </select>
+              </div>
+
+              {backMode.type === 'inset' && (
+                <div className="field-group">
+                  <label className="form-label">
+                    Back Joint
+                  </label>
+                  <select
+                    value={backMode.joint ?? 'rabbet'}
+                    onChange={(e) => setBackMode({ ...backMode, joint: e.target.value as 'rabbet' | 'groove' })}
+                    className="select-field"
+                  >
+                    <option value="rabbet">Rabbet</option>
+                    <option value="groove">Groove</option>
+                  </select>
+                </div>
+              )}
+
+              {backMode.type === 'per-opening' && (
+                <p className="text-sm text-gray-600">
+                  Use Assign Backs in the grid editor to choose the openings.
+                </p>
+              )}
+            </div>
+          )}
+
           <label className="field-row" style={{ cursor: 'pointer' }}>
             <input
               type="checkbox"
@@ -140,6 +224,36 @@ export function OptionsPanel() {
               </div>
             )}
 
+            {hasPairedDoors && (
+              <div className="field-group">
+                <label className="form-label">
+                  Pair Gap ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+                </label>
+                <input
+                  type="number"
+                  step={params.unitSystem === 'metric' ? '1' : '0.0625'}
+                  value={pairGapInput}
+                  onChange={(e) => {
+                    setPairGapInput(e.target.value);
+                    const val = parseFloat(e.target.value);
+                    if (!isNaN(val) && val >= 0) {
+                      setDoorPairGap(val);
+                    }
+                  }}
+                  onBlur={() => {
+                    const val = parseFloat(pairGapInput);
+                    const defaultValue = params.unitSystem === 'metric' ? 3 : 0.125;
+                    const defaultString = params.unitSystem === 'metric' ? '3' : '0.125';
+                    if (isNaN(val) || val < 0 || pairGapInput === '') {
+                      setDoorPairGap(defaultValue);
+                      setPairGapInput(defaultString);
+                    }
+                  }}
+                  className="input-field"
+                />
+              </div>
+            )}
+
             <div className="divider" />
 
             {/* Door Hardware Section */}
@@ -191,6 +305,9 @@ export function OptionsPanel() {
 
             <div className="field-group">
               <label className="form-label">Hardware Position</label>
+              <div className="text-xs text-gray-500">
+                Pulls set on a door's hinged edge move to the opposite edge.
+              </div>
               <div style={{ display: 'flex', justifyContent: 'center' }}>
                 <div
                   style={{
@@ -305,6 +422,132 @@ export function OptionsPanel() {
             </div>
           </div>
         )}
+
+        <label className="field-row" style={{ cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={!!countertop}
+            onChange={(e) => setHasCountertop(e.target.checked)}
+            className="checkbox-field"
+          />
+          <span className="text-sm">Add countertop</span>
+        </label>
+
+        {/* Countertop Options */}
+        {countertop && (
+          <div className="pl-4 space-y-3 border-gray-200">
+            <div className="field-group">
+              <label className="form-label">
+                Countertop Material
+              </label>
+              <select
+                value={countertop.material}
+                onChange={(e) => setCountertopMaterial(e.target.value as SheetMaterial)}
+                className="select-field"
+              >
+                {(Object.keys(SHEET_MATERIAL_PROPERTIES) as SheetMaterial[]).map(material => (
+                  <option key={material} value={material}>{SHEET_MATERIAL_PROPERTIES[material].label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="field-group">
+              <label className="form-label">
+                {params.unitSystem === 'metric' ? 'Countertop Thickness (mm)' : 'Countertop Thickness (nominal)'}
+              </label>
+              {params.unitSystem === 'metric' ? (
+                <input
+                  type="number"
+                  step="1"
+                  value={isMetricMaterial(countertop.thickness) ? countertop.thickness.thicknessMm : 18}
+                  onChange={(e) => setCountertopThickness(createMetricThickness(parseFloat(e.target.value) || 18))}
+                  className="input-field"
+                />
+              ) : (
+                <select
+                  value={isImperialMaterial(countertop.thickness) ? countertop.thickness.nominal : '3/4"'}
+                  onChange={(e) => setCountertopThickness(createThicknessMap(e.target.value as NominalThickness))}
+                  className="select-field"
+                >
+                  <option value='1/2"'>1/2"</option>
+                  <option value='3/4"'>3/4"</option>
+                </select>
+              )}
+            </div>
+
+            <div className="field-group">
+              <label className="form-label">
+                Overhang ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+              </label>
+              <div className="field-row-split">
+                {overhangSides.map(side => (
+                  <input
+                    key={side}
+                    type="number"
+                    step={params.unitSystem === 'metric' ? '1' : '0.125'}
+                    value={overhangInputs[side]}
+                    title={side}
+                    placeholder={side}
+                    onChange={(e) => {
+                      setOverhangInputs({ ...overhangInputs, [side]: e.target.value });
+                      const val = parseFloat(e.target.value);
+                      if (!isNaN(val) && val >= 0) {
+                        setCountertopOverhang(side, val);
+                      }
+                    }}
+                    onBlur={() => {
+                      const val = parseFloat(overhangInputs[side]);
+                      if (isNaN(val) || val < 0 || overhangInputs[side] === '') {
+                        setCountertopOverhang(side, 0);
+                        setOverhangInputs({ ...overhangInputs, [side]: '0' });
+                      }
+                    }}
+                    className="input-field"
+                  />
+                ))}
+              </div>
+              <p className="text-sm text-gray-600">Front, back, left, right</p>
+            </div>
+
+            <label className="field-row" style={{ cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={countertop.edge !== undefined}
+                onChange={(e) => setCountertopEdge(e.target.checked ? defaultEdge : undefined)}
+                className="checkbox-field"
+              />
+              <span className="text-sm">Hardwood edge on the front and ends</span>
+            </label>
+
+            {countertop.edge !== undefined && (
+              <div className="field-group">
+                <label className="form-label">
+                  Edge Width ({params.unitSystem === 'metric' ? 'mm' : 'inches'})
+                </label>
+                <input
+                  type="number"
+                  step={params.unitSystem === 'metric' ? '1' : '0.125'}
+                  value={edgeInput}
+                  onChange={(e) => {
+                    setEdgeInput(e.target.value);
+                    const val = parseFloat(e.target.value);
+                    if (!isNaN(val) && val > 0) {
+                      setCountertopEdge(val);
+                    }
+                  }}
+                  onBlur={() => {
+                    const val = parseFloat(edgeInput);
+                    if (isNaN(val) || val <= 0 || edgeInput === '') {
+                      setCountertopEdge(defaultEdge);
+                      setEdgeInput(String(defaultEdge));
+                    }
+                  }}
+                  className="input-field"
+                />
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
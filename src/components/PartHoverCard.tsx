@@ -30,6 +30,9 @@ export function PartHoverCard({ part, position }: PartHoverCardProps) {
           {formatDimensionsWithUnit(part.lengthIn, part.widthIn, part.thicknessIn, params.unitSystem)}
         </div>
         {part.qty > 1 && <div className={`text-mono ${isMobile ? 'text-xs' : 'text-xs'} text-gray-600`}>Qty: {part.qty}</div>}
+        {part.bandedEdges && part.bandedEdges.length > 0 && (
+          <div className={`text-mono ${isMobile ? 'text-xs' : 'text-xs'} text-gray-600`}>Banded: {part.bandedEdges.join(', ')}</div>
+        )}
       </div>
       {part.notes && (
         <div className={`mt-2 text-mono text-gray-600 ${isMobile ? 'text-xs break-words' : 'text-xs max-w-xs'}`}>
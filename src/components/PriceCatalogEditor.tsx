@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { usePriceCatalogStore } from '../state/usePriceCatalogStore';
+import type { HardwareCategory, UnitSystem } from '../geometry/types';
+import { formatDimension } from '../geometry/format';
+import { toInches } from '../geometry/measurements';
+
+const HARDWARE_PRICE_LABELS: Record<HardwareCategory, string> = {
+  fastener: 'Screw / dowel (each)',
+  hinge: 'Hinge (each)',
+  slide: 'Drawer slides (pair)',
+  pull: 'Knob / pull (each)',
+  support: 'Flap stays (pair)',
+};
+
+interface PriceInputProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+// Input for a single catalog price; blank or negative entries are ignored
+function PriceInput({ label, value, onChange }: PriceInputProps) {
+  const [input, setInput] = useState(String(value));
+
+  // Sync local state when the catalog changes (e.g., reset)
+  useEffect(() => {
+    setInput(String(value));
+  }, [value]);
+
+  return (
+    <label className="flex items-center justify-between gap-2 text-xs">
+      <span className="text-gray-600">{label}</span>
+      <input
+        type="number"
+        step="0.01"
+        min="0"
+        value={input}
+        onChange={(e) => {
+          setInput(e.target.value);
+          const val = parseFloat(e.target.value);
+          if (!isNaN(val) && val >= 0) {
+            onChange(val);
+          }
+        }}
+        onBlur={() => setInput(String(value))}
+        className="input-field"
+        style={{ maxWidth: '5rem' }}
+      />
+    </label>
+  );
+}
+
+interface PriceCatalogEditorProps {
+  unitSystem: UnitSystem;
+}
+
+export function PriceCatalogEditor({ unitSystem }: PriceCatalogEditorProps) {
+  const {
+    catalog,
+    setCurrency,
+    setSheetPrice,
+    addSheet,
+    removeSheet,
+    setEdgeBandingPrice,
+    setHardwarePrice,
+    setFinishPrice,
+    resetCatalog,
+  } = usePriceCatalogStore();
+
+  // New sheet entry, in design units
+  const [newThickness, setNewThickness] = useState('');
+  const [newWidth, setNewWidth] = useState('');
+  const [newLength, setNewLength] = useState('');
+  const [newPrice, setNewPrice] = useState('');
+
+  const handleAddSheet = () => {
+    const thickness = parseFloat(newThickness);
+    const width = parseFloat(newWidth);
+    const length = parseFloat(newLength);
+    const price = parseFloat(newPrice);
+    if ([thickness, width, length].some(v => isNaN(v) || v <= 0) || isNaN(price) || price < 0) return;
+
+    addSheet({
+      thicknessIn: toInches(thickness, unitSystem),
+      widthIn: toInches(width, unitSystem),
+      lengthIn: toInches(length, unitSystem),
+      price,
+    });
+    setNewThickness('');
+    setNewWidth('');
+    setNewLength('');
+    setNewPrice('');
+  };
+
+  const unitLabel = unitSystem === 'metric' ? 'mm' : 'in';
+
+  return (
+    <div className="space-y-3">
+      <div className="field-group">
+        <label className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-gray-600">Currency symbol</span>
+          <input
+            type="text"
+            value={catalog.currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className="input-field"
+            style={{ maxWidth: '5rem' }}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs font-semibold text-gray-700">Sheet goods (per sheet)</div>
+        {catalog.sheets.map((sheet, index) => (
+          <div key={index} className="flex items-center gap-1">
+            <div className="flex-1">
+              <PriceInput
+                label={`${formatDimension(sheet.thicknessIn, unitSystem)}, ${formatDimension(sheet.widthIn, unitSystem)} × ${formatDimension(sheet.lengthIn, unitSystem)}`}
+                value={sheet.price}
+                onChange={(price) => setSheetPrice(index, price)}
+              />
+            </div>
+            <button
+              onClick={() => removeSheet(index)}
+              className="btn btn-secondary btn-sm"
+              title="Remove sheet"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <div className="grid grid-cols-4 gap-1">
+          <input
+            type="number"
+            value={newThickness}
+            onChange={(e) => setNewThickness(e.target.value)}
+            placeholder={`Thick (${unitLabel})`}
+            className="input-field"
+          />
+          <input
+            type="number"
+            value={newWidth}
+            onChange={(e) => setNewWidth(e.target.value)}
+            placeholder={`Width (${unitLabel})`}
+            className="input-field"
+          />
+          <input
+            type="number"
+            value={newLength}
+            onChange={(e) => setNewLength(e.target.value)}
+            placeholder={`Length (${unitLabel})`}
+            className="input-field"
+          />
+          <input
+            type="number"
+            value={newPrice}
+            onChange={(e) => setNewPrice(e.target.value)}
+            placeholder="Price"
+            className="input-field"
+          />
+        </div>
+        <button onClick={handleAddSheet} className="btn btn-secondary btn-sm w-full">
+          Add Sheet
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs font-semibold text-gray-700">Edge banding and finish</div>
+        <PriceInput label="Edge banding (per ft)" value={catalog.edgeBandingPerFoot} onChange={setEdgeBandingPrice} />
+        <PriceInput label="Finish (per sq ft, per face)" value={catalog.finishPerSquareFoot} onChange={setFinishPrice} />
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs font-semibold text-gray-700">Hardware</div>
+        {(Object.keys(HARDWARE_PRICE_LABELS) as HardwareCategory[]).map(category => (
+          <PriceInput
+            key={category}
+            label={HARDWARE_PRICE_LABELS[category]}
+            value={catalog.hardware[category]}
+            onChange={(price) => setHardwarePrice(category, price)}
+          />
+        ))}
+      </div>
+
+      <button onClick={resetCatalog} className="btn btn-neutral btn-sm w-full">
+        Reset Prices
+      </button>
+    </div>
+  );
+}
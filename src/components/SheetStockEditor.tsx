@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { useDesignStore } from '../state/useDesignStore';
+import { formatDimension } from '../geometry/format';
+import { getSheetHeight, getSheetWidth } from '../geometry/ripGenerator';
+import { toInches } from '../geometry/measurements';
+
+export function SheetStockEditor() {
+  const { params, addSheetStock, removeSheetStock } = useDesignStore();
+  const { unitSystem } = params;
+  const stock = params.sheetStock ?? [];
+
+  // New stock entry, in design units; a blank thickness means any thickness
+  const [newThickness, setNewThickness] = useState('');
+  const [newWidth, setNewWidth] = useState('');
+  const [newLength, setNewLength] = useState('');
+
+  const handleAddStock = () => {
+    const thickness = newThickness === '' ? undefined : parseFloat(newThickness);
+    const width = parseFloat(newWidth);
+    const length = parseFloat(newLength);
+    if ([width, length].some(v => isNaN(v) || v <= 0)) return;
+    if (thickness !== undefined && (isNaN(thickness) || thickness <= 0)) return;
+
+    addSheetStock({ thickness, width, length });
+    setNewThickness('');
+    setNewWidth('');
+    setNewLength('');
+  };
+
+  const unitLabel = unitSystem === 'metric' ? 'mm' : 'in';
+  const format = (value: number) => formatDimension(toInches(value, unitSystem), unitSystem);
+
+  return (
+    <div className="space-y-1">
+      {stock.length === 0 && (
+        <p className="text-sm text-gray-600">
+          Cutting from {formatDimension(getSheetWidth(unitSystem), unitSystem)} × {formatDimension(getSheetHeight(unitSystem), unitSystem)} sheets.
+          Add the sizes you buy to lay out the cut list on them instead.
+        </p>
+      )}
+      {stock.map((size, index) => (
+        <div key={index} className="flex items-center justify-between gap-1 text-xs">
+          <span className="text-gray-600">
+            {size.thickness !== undefined ? format(size.thickness) : 'Any thickness'}, {format(size.width)} × {format(size.length)}
+          </span>
+          <button
+            onClick={() => removeSheetStock(index)}
+            className="btn btn-secondary btn-sm"
+            title="Remove sheet size"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <div className="grid grid-cols-3 gap-1">
+        <input
+          type="number"
+          value={newThickness}
+          onChange={(e) => setNewThickness(e.target.value)}
+          placeholder={`Thick (${unitLabel})`}
+          className="input-field"
+        />
+        <input
+          type="number"
+          value={newWidth}
+          onChange={(e) => setNewWidth(e.target.value)}
+          placeholder={`Width (${unitLabel})`}
+          className="input-field"
+        />
+        <input
+          type="number"
+          value={newLength}
+          onChange={(e) => setNewLength(e.target.value)}
+          placeholder={`Length (${unitLabel})`}
+          className="input-field"
+        />
+      </div>
+      <button onClick={handleAddStock} className="btn btn-secondary btn-sm w-full">
+        Add Sheet Size
+      </button>
+    </div>
+  );
+}
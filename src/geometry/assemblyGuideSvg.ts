@@ -1,7 +1,13 @@
-import type { Part, DesignParams } from './types';
-import { getThicknessInInches } from './types';
+import type { Part, DesignParams, HingeLayout, InsertHole, LegLayout, ShelfPinHole } from './types';
 import { calculateLayout } from './layout';
+import { calculateAllDimensions, calculateGridLineOffset, calculateGridMetrics, calculateJoineryAllowances, getConstructionStyle, toInches } from './measurements';
 import { formatDimension } from './format';
+import { calculateHingeLayouts } from './hinges';
+import { calculateShelfPinLayouts } from './shelfPins';
+import { calculateInsertHoleLayouts } from './inserts';
+import { KALLAX_INSERTS } from './constants';
+import { calculateFastenersPerJoint } from './hardware';
+import { calculateLegLayout } from './base';
 
 /**
  * Information about where parts intersect with other parts
@@ -16,6 +22,38 @@ interface IntersectionInfo {
     position: number; // Distance from left edge (for horizontal pieces) or top edge (for vertical pieces)
     label: string;
   }>;
+  groove?: JointCut;     // Dado cut at every intersection (omitted for butt joints)
+  endRabbets?: JointCut; // Rabbets cut across both ends (whichever pair runs through at the corners)
+  hingePlateHoles?: Array<{ positionIn: number; setbackIn: number }>; // Along the part, back from the front edge
+  shelfPinHoles?: ShelfPinDrilling;
+  insertHoles?: InsertDrilling[];
+}
+
+/**
+ * Fixing holes for one Kallax insert on a part around its cell
+ */
+interface InsertDrilling {
+  label: string; // insert name and cell
+  holes: Array<Pick<InsertHole, 'positionIn' | 'setbackIn' | 'face'>>;
+  diameterIn: number;
+}
+
+/**
+ * Shelf-pin holes drilled into a Side or VerticalDivider, each one repeated in every row
+ */
+interface ShelfPinDrilling {
+  holes: Array<Pick<ShelfPinHole, 'positionIn' | 'face'>>;
+  rowSetbacksIn: number[]; // from the front edge
+  diameterIn: number;
+  spacingIn: number;
+}
+
+/**
+ * Size of a groove cut into a part to receive a mating part
+ */
+interface JointCut {
+  widthIn: number;
+  depthIn: number;
 }
 
 /**
@@ -29,11 +67,27 @@ export function calculateIntersections(
   const layout = calculateLayout(params);
   const intersectionMap = new Map<IntersectionInfo['partId'], IntersectionInfo>();
 
-  const frameThickness = getThicknessInInches(params.materials.frame);
-  const interiorClearanceInches = params.unitSystem === 'metric' ? params.interiorClearance / 25.4 : params.interiorClearance;
+  const grid = calculateGridMetrics(params);
+  const { frameThickness } = grid;
+
+  // Distance from the outer edge of the carcass to the near face of the member at a grid line
+  const columnLine = (col: number) => calculateGridLineOffset(grid.columnWidths, col, frameThickness);
+  const rowLine = (row: number) => calculateGridLineOffset(grid.rowHeights, row, frameThickness);
+
+  // Captured parts are longer than the opening they span, so intersections shift by the end allowance
+  const allowances = calculateJoineryAllowances(params);
+  const groove = allowances.interior > 0
+    ? { widthIn: frameThickness, depthIn: allowances.interior }
+    : undefined;
+  const endRabbets = allowances.corner > 0
+    ? { widthIn: frameThickness, depthIn: allowances.corner }
+    : undefined;
 
-  // Module width (interior + one frame thickness)
-  const moduleWidth = interiorClearanceInches + frameThickness;
+  // Distance from the exterior edge of the carcass to the end of each corner panel.
+  // Whichever pair runs through starts at the exterior; the captured pair starts inside it.
+  const fullHeightSides = getConstructionStyle(params) === 'full-height-sides';
+  const capStart = fullHeightSides ? frameThickness - allowances.corner : 0;
+  const sideStart = fullHeightSides ? 0 : frameThickness - allowances.corner;
 
   // Get frame parts only (exclude doors and back)
   const frameParts = parts.filter(p =>
@@ -41,62 +95,47 @@ export function calculateIntersections(
     p.role === 'VerticalDivider' || p.role === 'BayShelf'
   );
 
-  // Calculate intersections for Top piece
-  const topPart = frameParts.find(p => p.role === 'Top');
-  if (topPart) {
+  // Calculate intersections for Top and Bottom pieces
+  for (const capPart of frameParts.filter(p => p.role === 'Top' || p.role === 'Bottom')) {
     const intersections: Array<{ position: number; label: string }> = [];
 
-    // Add vertical dividers
-    const presentVerticals = Array.from(layout.presentVerticals).sort((a, b) => a - b);
-    for (const col of presentVerticals) {
-      if (col === 0 || col === params.cols) continue; // Skip sides
+    // Add vertical divider segments that reach this cap
+    for (const segment of layout.verticalSegments) {
+      const reachesCap = capPart.role === 'Top'
+        ? segment.rowStart === 0
+        : segment.rowEnd === params.rows;
+      if (!reachesCap) continue;
 
       // Position from left edge to centerline of divider
-      // = frameThickness (left side) + col * (interiorClearanceInches + frameThickness) + frameThickness/2 (to center of divider)
-      const position = frameThickness + col * (interiorClearanceInches + frameThickness) - frameThickness / 2;
-      intersections.push({ position, label: `VDiv-${col}` });
+      const position = columnLine(segment.column) + frameThickness / 2 - capStart;
+      intersections.push({ position, label: `VDiv-${segment.column}` });
     }
 
-    intersectionMap.set(topPart.id, {
-      partId: topPart.id,
-      role: topPart.role,
-      lengthIn: topPart.lengthIn,
-      widthIn: topPart.widthIn,
-      thicknessIn: topPart.thicknessIn,
+    intersectionMap.set(capPart.id, {
+      partId: capPart.id,
+      role: capPart.role,
+      lengthIn: capPart.lengthIn,
+      widthIn: capPart.widthIn,
+      thicknessIn: capPart.thicknessIn,
       intersections: intersections.sort((a, b) => a.position - b.position),
+      groove,
+      endRabbets: fullHeightSides ? undefined : endRabbets,
     });
   }
 
-  // Calculate intersections for Bottom piece (same as top)
-  const bottomPart = frameParts.find(p => p.role === 'Bottom');
-  if (bottomPart && topPart) {
-    const topInfo = intersectionMap.get(topPart.id);
-    if (topInfo) {
-      intersectionMap.set(bottomPart.id, {
-        partId: bottomPart.id,
-        role: bottomPart.role,
-        lengthIn: bottomPart.lengthIn,
-        widthIn: bottomPart.widthIn,
-        thicknessIn: bottomPart.thicknessIn,
-        intersections: topInfo.intersections.map(i => ({ ...i })),
-      });
-    }
-  }
-
   // Calculate intersections for Side pieces
   const sideParts = frameParts.filter(p => p.role === 'Side');
   for (const sidePart of sideParts) {
     const intersections: Array<{ position: number; label: string }> = [];
 
-    // Sides only have shelves intersecting them
-    // Position from top edge of side (which sits between top and bottom) to where each shelf centerline is
+    // Sides only have shelves intersecting them (plus the top/bottom rabbets with full-height sides)
+    // Position from top edge of side to where each shelf centerline is
+    const isLeftSide = sidePart.id.endsWith('-L');
     for (const segment of layout.horizontalSegments) {
       // Check if this shelf touches this side
-      if (segment.colStart === 0 || segment.colEnd === params.cols) {
+      if (isLeftSide ? segment.colStart === 0 : segment.colEnd === params.cols) {
         // Position from top edge of the side piece to center of shelf
-        // Side piece starts at frameThickness below the top
-        // Shelf is at: segment.row * (interiorClearanceInches + frameThickness) - frameThickness/2
-        const position = segment.row * (interiorClearanceInches + frameThickness) - frameThickness / 2;
+        const position = rowLine(segment.row) + frameThickness / 2 - sideStart;
         intersections.push({
           position,
           label: `Bay-${segment.row}-Col${segment.colStart}to${segment.colEnd}`
@@ -111,6 +150,8 @@ export function calculateIntersections(
       widthIn: sidePart.widthIn,
       thicknessIn: sidePart.thicknessIn,
       intersections: intersections.sort((a, b) => a.position - b.position),
+      groove,
+      endRabbets: fullHeightSides ? endRabbets : undefined,
     });
   }
 
@@ -134,10 +175,11 @@ export function calculateIntersections(
     // Find shelves that intersect this vertical segment
     for (const segment of layout.horizontalSegments) {
       // Check if shelf crosses this column and is within the vertical's row range
+      // (shelves at either end cap the segment and are recorded on the shelf instead)
       if (segment.colStart <= col && segment.colEnd >= col &&
-          segment.row >= rowStart && segment.row <= rowEnd) {
+          segment.row > rowStart && segment.row < rowEnd) {
         // Position from top of this vertical segment to centerline of shelf
-        const position = (segment.row - rowStart) * (interiorClearanceInches + frameThickness) - frameThickness / 2;
+        const position = rowLine(segment.row) - rowLine(rowStart) - frameThickness / 2 + allowances.interior;
         intersections.push({
           position,
           label: `Bay-${segment.row}-Col${segment.colStart}to${segment.colEnd}`
@@ -152,6 +194,7 @@ export function calculateIntersections(
       widthIn: vertPart.widthIn,
       thicknessIn: vertPart.thicknessIn,
       intersections: intersections.sort((a, b) => a.position - b.position),
+      groove,
     });
   }
 
@@ -183,7 +226,7 @@ export function calculateIntersections(
         if (hasVerticalAtRow) {
           // Position from left edge of shelf to centerline of vertical divider
           // Distance from shelfColStart to col
-          const position = (col - shelfColStart) * (interiorClearanceInches + frameThickness) - frameThickness / 2;
+          const position = columnLine(col) - columnLine(shelfColStart) - frameThickness / 2 + allowances.interior;
           intersections.push({ position, label: `VDiv-${col}` });
         }
       }
@@ -198,6 +241,7 @@ export function calculateIntersections(
         widthIn: bayPart.widthIn,
         thicknessIn: bayPart.thicknessIn,
         intersections: intersections.sort((a, b) => a.position - b.position),
+        groove,
       });
     }
   }
@@ -213,7 +257,7 @@ export function generatePartAssemblySvg(
   scale: number = 1,
   unitSystem: 'imperial' | 'metric' = 'imperial'
 ): string {
-  const { partId, lengthIn, widthIn, intersections } = info;
+  const { partId, lengthIn, widthIn, intersections, groove, endRabbets, hingePlateHoles, shelfPinHoles, insertHoles } = info;
 
   // Determine orientation (horizontal vs vertical piece)
   const isHorizontal = lengthIn > widthIn;
@@ -248,6 +292,87 @@ export function generatePartAssemblySvg(
   svg += partId;
   svg += `</text>`;
 
+  // Rabbets across both ends of the part
+  if (endRabbets) {
+    const rabbetWidth = endRabbets.widthIn * scale;
+    for (const x of [rectX, rectX + scaledLength - rabbetWidth]) {
+      svg += `<rect x="${x}" y="${rectY}" width="${rabbetWidth}" height="${scaledWidth}" `;
+      svg += `fill="#dbeafe" stroke="#2563eb" stroke-width="1"/>`;
+    }
+  }
+
+  // Joint legend (below the part)
+  const jointNotes: string[] = [];
+  if (groove && intersections.length > 0) {
+    jointNotes.push(`Dados ${formatDimension(groove.widthIn, unitSystem)} wide × ${formatDimension(groove.depthIn, unitSystem)} deep`);
+  }
+  if (endRabbets) {
+    jointNotes.push(`End rabbets ${formatDimension(endRabbets.widthIn, unitSystem)} wide × ${formatDimension(endRabbets.depthIn, unitSystem)} deep`);
+  }
+
+  // Hinge mounting-plate screw holes, set back from the front edge (drawn along the bottom)
+  if (hingePlateHoles && hingePlateHoles.length > 0) {
+    const frontY = rectY + scaledWidth;
+    for (const hole of hingePlateHoles) {
+      svg += `<circle cx="${rectX + hole.positionIn * scale}" cy="${frontY - hole.setbackIn * scale}" r="2.5" `;
+      svg += `fill="none" stroke="#dc2626" stroke-width="1.5"/>`;
+    }
+
+    // Each plate's two holes are listed together; label the plate center
+    for (let i = 0; i + 1 < hingePlateHoles.length; i += 2) {
+      const center = (hingePlateHoles[i].positionIn + hingePlateHoles[i + 1].positionIn) / 2;
+      svg += `<text x="${rectX + center * scale}" y="${frontY - hingePlateHoles[i].setbackIn * scale - 6}" `;
+      svg += `font-family="monospace" font-size="9" fill="#dc2626" text-anchor="middle">`;
+      svg += formatDimension(center, unitSystem);
+      svg += `</text>`;
+    }
+    jointNotes.push(`Hinge plates ${formatDimension(hingePlateHoles[0].setbackIn, unitSystem)} from front (bottom) edge`);
+  }
+
+  // Shelf-pin rows, set back from the front and back of the shelf space (front drawn along the bottom)
+  if (shelfPinHoles && shelfPinHoles.holes.length > 0) {
+    const frontY = rectY + scaledWidth;
+    const radius = Math.max(1.5, shelfPinHoles.diameterIn * scale / 2);
+    for (const hole of shelfPinHoles.holes) {
+      for (const setback of shelfPinHoles.rowSetbacksIn) {
+        svg += `<circle cx="${rectX + hole.positionIn * scale}" cy="${frontY - setback * scale}" r="${radius}" `;
+        svg += `fill="${hole.face === 'left' ? 'none' : '#2563eb'}" stroke="#2563eb" stroke-width="1"/>`;
+      }
+    }
+
+    const faces = [...new Set(shelfPinHoles.holes.map(hole => hole.face))];
+    const firstHole = Math.min(...shelfPinHoles.holes.map(hole => hole.positionIn));
+    jointNotes.push(
+      `Shelf pins ${formatDimension(shelfPinHoles.diameterIn, unitSystem)} at ${formatDimension(shelfPinHoles.spacingIn, unitSystem)}, ` +
+      `${shelfPinHoles.rowSetbacksIn.map(setback => formatDimension(setback, unitSystem)).join(' & ')} from front, ` +
+      `first ${formatDimension(firstHole, unitSystem)} from top, ` +
+      (faces.length > 1 ? 'filled on the right face, open on the left' : `${faces[0]} face`)
+    );
+  }
+
+  // Kallax insert fixing holes, each labelled with how far it is from the end (front drawn along the bottom)
+  for (const drilling of insertHoles ?? []) {
+    const frontY = rectY + scaledWidth;
+    const radius = Math.max(1.5, drilling.diameterIn * scale / 2);
+    for (const hole of drilling.holes) {
+      const cx = rectX + hole.positionIn * scale;
+      const cy = frontY - hole.setbackIn * scale;
+      svg += `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="none" stroke="#059669" stroke-width="1.5"/>`;
+      svg += `<text x="${cx}" y="${cy - radius - 3}" `;
+      svg += `font-family="monospace" font-size="8" fill="#059669" text-anchor="middle">`;
+      svg += formatDimension(hole.positionIn, unitSystem);
+      svg += `</text>`;
+    }
+    const faces = [...new Set(drilling.holes.map(hole => hole.face))];
+    jointNotes.push(`${drilling.label}: ${drilling.holes.length} × ${formatDimension(drilling.diameterIn, unitSystem)} on the ${faces.join(' & ')} face`);
+  }
+  if (jointNotes.length > 0) {
+    svg += `<text x="${svgWidth / 2}" y="${svgHeight - 8}" `;
+    svg += `font-family="monospace" font-size="9" fill="#2563eb" text-anchor="middle">`;
+    svg += jointNotes.join(', ');
+    svg += `</text>`;
+  }
+
   // Outer dimensions
   if (isHorizontal) {
     // Length dimension (top)
@@ -276,9 +401,16 @@ export function generatePartAssemblySvg(
           const scaledPos = intersection.position * scale;
           const x = rectX + scaledPos;
 
-          // Draw dotted line
-          svg += `<line x1="${x}" y1="${rectY}" x2="${x}" y2="${rectY + scaledWidth}" `;
-          svg += `stroke="#2563eb" stroke-width="1.5" stroke-dasharray="4,4"/>`;
+          if (groove) {
+            // Draw the dado at its full width, centered on the intersection
+            const grooveWidth = groove.widthIn * scale;
+            svg += `<rect x="${x - grooveWidth / 2}" y="${rectY}" width="${grooveWidth}" height="${scaledWidth}" `;
+            svg += `fill="#dbeafe" stroke="#2563eb" stroke-width="1"/>`;
+          } else {
+            // Draw dotted line
+            svg += `<line x1="${x}" y1="${rectY}" x2="${x}" y2="${rectY + scaledWidth}" `;
+            svg += `stroke="#2563eb" stroke-width="1.5" stroke-dasharray="4,4"/>`;
+          }
 
           // Add arrow and label below the part
           const arrowY = rectY + scaledWidth + 5;
@@ -335,9 +467,16 @@ export function generatePartAssemblySvg(
           const scaledPos = intersection.position * scale;
           const y = rectY + scaledPos;
 
-          // Draw dotted line
-          svg += `<line x1="${rectX}" y1="${y}" x2="${rectX + scaledLength}" y2="${y}" `;
-          svg += `stroke="#2563eb" stroke-width="1.5" stroke-dasharray="4,4"/>`;
+          if (groove) {
+            // Draw the dado at its full width, centered on the intersection
+            const grooveWidth = groove.widthIn * scale;
+            svg += `<rect x="${rectX}" y="${y - grooveWidth / 2}" width="${scaledLength}" height="${grooveWidth}" `;
+            svg += `fill="#dbeafe" stroke="#2563eb" stroke-width="1"/>`;
+          } else {
+            // Draw dotted line
+            svg += `<line x1="${rectX}" y1="${y}" x2="${rectX + scaledLength}" y2="${y}" `;
+            svg += `stroke="#2563eb" stroke-width="1.5" stroke-dasharray="4,4"/>`;
+          }
 
           // Add arrow and label to the right of the part
           const arrowX = rectX + scaledLength + 5;
@@ -390,6 +529,282 @@ export function generatePartAssemblySvg(
   return svg;
 }
 
+/**
+ * Generate an elevation diagram for a door showing its hinge side and pull location
+ * Follows the usual elevation convention: the swing lines meet at the edge opposite the hinges
+ */
+export function generateDoorAssemblySvg(
+  part: Part,
+  params: DesignParams,
+  scale: number = 1,
+  hinges?: HingeLayout
+): string {
+  const { id, lengthIn, widthIn, hinge } = part;
+
+  const margin = 30;
+  const topMargin = 40;
+
+  const scaledWidth = lengthIn * scale;
+  const scaledHeight = widthIn * scale;
+
+  const svgWidth = scaledWidth + 2 * margin;
+  const svgHeight = scaledHeight + margin + topMargin;
+
+  const rectX = margin;
+  const rectY = topMargin;
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}">`;
+
+  // Background
+  svg += `<rect width="${svgWidth}" height="${svgHeight}" fill="white"/>`;
+
+  // Door rectangle (viewed from the front)
+  svg += `<rect x="${rectX}" y="${rectY}" width="${scaledWidth}" height="${scaledHeight}" `;
+  svg += `fill="#f9fafb" stroke="#111827" stroke-width="2"/>`;
+
+  // Part ID label (centered above rectangle)
+  svg += `<text x="${svgWidth / 2}" y="${topMargin - 15}" `;
+  svg += `font-family="monospace" font-size="14" font-weight="bold" fill="#111827" text-anchor="middle">`;
+  svg += id;
+  svg += `</text>`;
+
+  // Outer dimensions
+  svg += `<text x="${svgWidth / 2}" y="${topMargin - 5}" `;
+  svg += `font-family="monospace" font-size="10" fill="#6b7280" text-anchor="middle">`;
+  svg += `${formatDimension(lengthIn, params.unitSystem)} × ${formatDimension(widthIn, params.unitSystem)}`;
+  svg += `</text>`;
+
+  if (hinge) {
+    const left = rectX;
+    const right = rectX + scaledWidth;
+    const top = rectY;
+    const bottom = rectY + scaledHeight;
+
+    // Hinged edge and the swing lines running to the middle of the free edge
+    const [edge, swing] = hinge === 'left'
+      ? [[left, top, left, bottom], [[left, top], [right, (top + bottom) / 2], [left, bottom]]]
+      : hinge === 'right'
+        ? [[right, top, right, bottom], [[right, top], [left, (top + bottom) / 2], [right, bottom]]]
+        : [[left, bottom, right, bottom], [[left, bottom], [(left + right) / 2, top], [right, bottom]]];
+
+    svg += `<line x1="${edge[0]}" y1="${edge[1]}" x2="${edge[2]}" y2="${edge[3]}" `;
+    svg += `stroke="#2563eb" stroke-width="4"/>`;
+    svg += `<polyline points="${swing.map(([x, y]) => `${x},${y}`).join(' ')}" `;
+    svg += `fill="none" stroke="#2563eb" stroke-width="1" stroke-dasharray="4,4"/>`;
+
+    // Hinge cups, bored into the back face (hidden, so dashed), dimensioned from the top or left
+    if (hinges) {
+      const radius = hinges.cupDiameterIn / 2 * scale;
+      const inset = hinges.cupInsetIn * scale;
+      for (const cup of hinges.cupPositions) {
+        const [cx, cy] = hinge === 'left'
+          ? [left + inset, top + cup * scale]
+          : hinge === 'right'
+            ? [right - inset, top + cup * scale]
+            : [left + cup * scale, bottom - inset];
+        svg += `<circle cx="${cx}" cy="${cy}" r="${radius}" `;
+        svg += `fill="none" stroke="#dc2626" stroke-width="1" stroke-dasharray="2,2"/>`;
+
+        const [tx, ty, anchor] = hinge === 'left'
+          ? [cx + radius + 3, cy + 3, 'start']
+          : hinge === 'right'
+            ? [cx - radius - 3, cy + 3, 'end']
+            : [cx, cy - radius - 3, 'middle'];
+        svg += `<text x="${tx}" y="${ty}" `;
+        svg += `font-family="monospace" font-size="9" fill="#dc2626" text-anchor="${anchor}">`;
+        svg += formatDimension(cup, params.unitSystem);
+        svg += `</text>`;
+      }
+    }
+
+    // Hinge note (below the door)
+    const cupNote = hinges
+      ? `, ${formatDimension(hinges.cupDiameterIn, params.unitSystem)} cups ${formatDimension(hinges.cupInsetIn, params.unitSystem)} from edge, back face`
+      : '';
+    svg += `<text x="${svgWidth / 2}" y="${svgHeight - 8}" `;
+    svg += `font-family="monospace" font-size="9" fill="#2563eb" text-anchor="middle">`;
+    svg += `Hinged ${hinge}${cupNote}`;
+    svg += `</text>`;
+  }
+
+  // Pull location
+  if (part.hardwarePosition && params.doorHardware) {
+    const inset = toInches(params.doorHardware.inset, params.unitSystem) * scale;
+    const position = part.hardwarePosition;
+
+    const x = position.includes('left')
+      ? rectX + inset
+      : position.includes('right') ? rectX + scaledWidth - inset : rectX + scaledWidth / 2;
+    const y = position.includes('top')
+      ? rectY + inset
+      : position.includes('bottom') ? rectY + scaledHeight - inset : rectY + scaledHeight / 2;
+
+    svg += `<circle cx="${x}" cy="${y}" r="4" fill="none" stroke="#111827" stroke-width="1.5"/>`;
+  }
+
+  svg += `</svg>`;
+  return svg;
+}
+
+/**
+ * Generate an elevation of a stretcher or cleat, seen from the back, with its end profile
+ * Both cleat halves are beveled on the edge facing the wall: the unit's along the bottom,
+ * the wall's along the top, so the unit drops onto the wall cleat and pulls in tight
+ */
+export function generateRailAssemblySvg(
+  part: Part,
+  params: DesignParams,
+  scale: number = 1
+): string {
+  const { id, role, lengthIn, widthIn, thicknessIn } = part;
+
+  const margin = 30;
+  const topMargin = 40;
+  const profileGap = 30;
+
+  const scaledLength = lengthIn * scale;
+  const scaledHeight = widthIn * scale;
+  const scaledThickness = thicknessIn * scale;
+
+  const svgWidth = scaledLength + profileGap + scaledThickness + 2 * margin;
+  const svgHeight = scaledHeight + margin + topMargin;
+
+  const rectX = margin;
+  const rectY = topMargin;
+  const bottom = rectY + scaledHeight;
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}">`;
+
+  // Background
+  svg += `<rect width="${svgWidth}" height="${svgHeight}" fill="white"/>`;
+
+  // Rail elevation
+  svg += `<rect x="${rectX}" y="${rectY}" width="${scaledLength}" height="${scaledHeight}" `;
+  svg += `fill="#f9fafb" stroke="#111827" stroke-width="2"/>`;
+
+  // Part ID label and outer dimensions (centered above the rail)
+  svg += `<text x="${rectX + scaledLength / 2}" y="${topMargin - 15}" `;
+  svg += `font-family="monospace" font-size="14" font-weight="bold" fill="#111827" text-anchor="middle">`;
+  svg += id;
+  svg += `</text>`;
+  svg += `<text x="${rectX + scaledLength / 2}" y="${topMargin - 5}" `;
+  svg += `font-family="monospace" font-size="10" fill="#6b7280" text-anchor="middle">`;
+  svg += `${formatDimension(lengthIn, params.unitSystem)} × ${formatDimension(widthIn, params.unitSystem)}`;
+  svg += `</text>`;
+
+  // End profile, back (wall side) on the left; cleats lose a 45° corner to the bevel
+  const px = rectX + scaledLength + profileGap;
+  const profile = role === 'Cleat'
+    ? [[px, rectY], [px + scaledThickness, rectY], [px + scaledThickness, bottom], [px, bottom - scaledThickness]]
+    : role === 'WallCleat'
+      ? [[px, rectY], [px + scaledThickness, rectY + scaledThickness], [px + scaledThickness, bottom], [px, bottom]]
+      : [[px, rectY], [px + scaledThickness, rectY], [px + scaledThickness, bottom], [px, bottom]];
+  svg += `<polygon points="${profile.map(([x, y]) => `${x},${y}`).join(' ')}" `;
+  svg += `fill="#dbeafe" stroke="#2563eb" stroke-width="1.5"/>`;
+
+  // The bevel shows as a line one thickness in from the beveled edge
+  if (role === 'Cleat' || role === 'WallCleat') {
+    const y = role === 'Cleat' ? bottom - scaledThickness : rectY + scaledThickness;
+    svg += `<line x1="${rectX}" y1="${y}" x2="${rectX + scaledLength}" y2="${y}" `;
+    svg += `stroke="#2563eb" stroke-width="1" stroke-dasharray="4,4"/>`;
+  }
+
+  // Fastening note (below the rail)
+  const note = role === 'WallCleat'
+    ? 'Level, bevel up toward the wall, screwed into every stud'
+    : role === 'Plinth'
+      ? `${calculateFastenersPerJoint(widthIn)} screws at each corner, screwed up into the Bottom`
+      : `${calculateFastenersPerJoint(widthIn)} screws through each side into the ends${role === 'Cleat' ? ', bevel down toward the wall' : ''}`;
+  svg += `<text x="${rectX + scaledLength / 2}" y="${svgHeight - 8}" `;
+  svg += `font-family="monospace" font-size="9" fill="#2563eb" text-anchor="middle">`;
+  svg += note;
+  svg += `</text>`;
+
+  svg += `</svg>`;
+  return svg;
+}
+
+/**
+ * Generate a plan of the carcass underside showing where each leg's mounting plate goes
+ * Drawn looking down through the carcass with the front edge at the bottom; plate
+ * centers are dimensioned from the left side and the front edge
+ */
+export function generateLegLayoutSvg(
+  layout: LegLayout,
+  widthIn: number,
+  depthIn: number,
+  params: DesignParams,
+  scale: number = 1
+): string {
+  const margin = 30;
+  const topMargin = 40;
+  const bottomMargin = 40;
+
+  const scaledWidth = widthIn * scale;
+  const scaledDepth = depthIn * scale;
+
+  const svgWidth = scaledWidth + 2 * margin;
+  const svgHeight = scaledDepth + topMargin + bottomMargin;
+
+  const rectX = margin;
+  const rectY = topMargin;
+  const front = rectY + scaledDepth;
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}">`;
+
+  // Background
+  svg += `<rect width="${svgWidth}" height="${svgHeight}" fill="white"/>`;
+
+  // Carcass underside
+  svg += `<rect x="${rectX}" y="${rectY}" width="${scaledWidth}" height="${scaledDepth}" `;
+  svg += `fill="#f9fafb" stroke="#111827" stroke-width="2"/>`;
+
+  // Title and outer dimensions (centered above the underside)
+  svg += `<text x="${svgWidth / 2}" y="${topMargin - 15}" `;
+  svg += `font-family="monospace" font-size="14" font-weight="bold" fill="#111827" text-anchor="middle">`;
+  svg += `Leg Plates (${layout.legs.length})`;
+  svg += `</text>`;
+  svg += `<text x="${svgWidth / 2}" y="${topMargin - 5}" `;
+  svg += `font-family="monospace" font-size="10" fill="#6b7280" text-anchor="middle">`;
+  svg += `${formatDimension(widthIn, params.unitSystem)} × ${formatDimension(depthIn, params.unitSystem)}`;
+  svg += `</text>`;
+
+  // Plates and their screw holes
+  const plate = layout.plateSizeIn * scale;
+  for (const leg of layout.legs) {
+    svg += `<rect x="${rectX + leg.x * scale - plate / 2}" y="${front - leg.y * scale - plate / 2}" `;
+    svg += `width="${plate}" height="${plate}" fill="#dbeafe" stroke="#2563eb" stroke-width="1.5"/>`;
+  }
+  for (const hole of layout.plateHoles) {
+    svg += `<circle cx="${rectX + hole.x * scale}" cy="${front - hole.y * scale}" r="1.5" fill="#dc2626"/>`;
+  }
+
+  // Plate centers along the front edge and up the left side
+  const xs = [...new Set(layout.legs.map(leg => leg.x))];
+  const ys = [...new Set(layout.legs.map(leg => leg.y))];
+  for (const x of xs) {
+    svg += `<text x="${rectX + x * scale}" y="${front + 14}" `;
+    svg += `font-family="monospace" font-size="9" fill="#2563eb" text-anchor="middle">`;
+    svg += formatDimension(x, params.unitSystem);
+    svg += `</text>`;
+  }
+  for (const y of ys) {
+    svg += `<text x="${rectX - 3}" y="${front - y * scale + 3}" `;
+    svg += `font-family="monospace" font-size="9" fill="#2563eb" text-anchor="end">`;
+    svg += formatDimension(y, params.unitSystem);
+    svg += `</text>`;
+  }
+
+  // Edge note (below the underside)
+  svg += `<text x="${svgWidth / 2}" y="${svgHeight - 8}" `;
+  svg += `font-family="monospace" font-size="9" fill="#2563eb" text-anchor="middle">`;
+  svg += `FRONT - centers from left side and front edge, ${formatDimension(layout.heightIn, params.unitSystem)} legs`;
+  svg += `</text>`;
+
+  svg += `</svg>`;
+  return svg;
+}
+
 /**
  * Group parts by role and generate SVGs for each
  */
@@ -398,6 +813,9 @@ export function generateAllAssemblyGuideSvgs(
   params: DesignParams
 ): { role: string; partId: string; svg: string }[] {
   const intersectionMap = calculateIntersections(parts, params);
+  const hingeLayouts = calculateHingeLayouts(parts, params);
+  const shelfPinLayouts = calculateShelfPinLayouts(parts, params);
+  const insertLayouts = calculateInsertHoleLayouts(parts, params);
   const results: { role: string; partId: string; svg: string }[] = [];
 
   // Filter to only frame parts
@@ -425,6 +843,40 @@ export function generateAllAssemblyGuideSvgs(
       };
     }
 
+    // Mounting plates for the doors hung from this part
+    const hingePlateHoles = hingeLayouts.flatMap(layout => layout.plateHoles
+      .filter(hole => hole.partId === part.id)
+      .map(hole => ({ positionIn: hole.positionIn, setbackIn: layout.plateSetbackIn })));
+    if (hingePlateHoles.length > 0) {
+      info = { ...info, hingePlateHoles };
+    }
+
+    // Shelf-pin rows for the adjustable shelves beside this part
+    const pinLayouts = shelfPinLayouts.filter(layout => layout.holes.some(hole => hole.partId === part.id));
+    if (pinLayouts.length > 0) {
+      info = {
+        ...info,
+        shelfPinHoles: {
+          holes: pinLayouts.flatMap(layout => layout.holes.filter(hole => hole.partId === part.id)),
+          rowSetbacksIn: pinLayouts[0].rowSetbacksIn,
+          diameterIn: pinLayouts[0].holeDiameterIn,
+          spacingIn: pinLayouts[0].spacingIn,
+        },
+      };
+    }
+
+    // Fixing holes for the Kallax inserts in the cells around this part
+    const insertHoles = insertLayouts
+      .map(layout => ({
+        label: `${KALLAX_INSERTS[layout.insert].name} (${layout.row},${layout.col})`,
+        holes: layout.holes.filter(hole => hole.partId === part.id),
+        diameterIn: layout.holeDiameterIn,
+      }))
+      .filter(drilling => drilling.holes.length > 0);
+    if (insertHoles.length > 0) {
+      info = { ...info, insertHoles };
+    }
+
     const svg = generatePartAssemblySvg(info, baseScale, params.unitSystem);
     results.push({
       role: part.role,
@@ -433,5 +885,42 @@ export function generateAllAssemblyGuideSvgs(
     });
   }
 
+  // Doors are drawn as elevations so the hinge side and cup boring are clear
+  for (const part of parts.filter(p => p.role === 'Door')) {
+    results.push({
+      role: part.role,
+      partId: part.id,
+      svg: generateDoorAssemblySvg(part, params, baseScale, hingeLayouts.find(layout => layout.doorId === part.id)),
+    });
+  }
+
+  // Rails are drawn with their end profile so the cleat bevels are clear
+  for (const part of parts.filter(p => p.role === 'Stretcher' || p.role === 'Cleat' || p.role === 'WallCleat')) {
+    results.push({
+      role: part.role,
+      partId: part.id,
+      svg: generateRailAssemblySvg(part, params, baseScale),
+    });
+  }
+
+  // Plinth rails share the rail elevation; legs get a plate layout on the underside
+  for (const part of parts.filter(p => p.role === 'Plinth')) {
+    results.push({
+      role: part.role,
+      partId: part.id,
+      svg: generateRailAssemblySvg(part, params, baseScale),
+    });
+  }
+
+  const dimensions = calculateAllDimensions(params);
+  const legLayout = calculateLegLayout(params, dimensions);
+  if (legLayout) {
+    results.push({
+      role: 'Legs',
+      partId: 'Legs',
+      svg: generateLegLayoutSvg(legLayout, dimensions.extWidth, toInches(params.depth, params.unitSystem), params, baseScale),
+    });
+  }
+
   return results;
 }
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { calculateBackRecess, groupBackSpans } from './backs';
+import { calculateHardwareBom } from './hardware';
+import { analyzeStability } from './stability';
+import { generateParts } from './parts';
+import { calculateAllDimensions } from './measurements';
+import { DEFAULT_DESIGN, RECOMMENDED_MATERIALS } from './constants';
+import type { DesignParams } from './types';
+
+const withBack = (overrides: Partial<DesignParams>): DesignParams => ({
+  ...DEFAULT_DESIGN,
+  hasBack: true,
+  materials: { ...DEFAULT_DESIGN.materials, back: RECOMMENDED_MATERIALS.back },
+  ...overrides,
+});
+
+const backsOf = (params: DesignParams) => generateParts(params).filter(p => p.role === 'Back');
+
+describe('Back panels', () => {
+  it('should let an inset back into the carcass without adding depth', () => {
+    const params = withBack({ backMode: { type: 'inset', joint: 'groove' } });
+    const parts = generateParts(params);
+    const { extWidth, extHeight, extDepth } = calculateAllDimensions(params);
+    const frame = RECOMMENDED_MATERIALS.frame.actualInches;
+    const recess = calculateBackRecess(params);
+
+    expect(extDepth).toBeCloseTo(DEFAULT_DESIGN.depth);
+    expect(recess).toBeCloseTo(RECOMMENDED_MATERIALS.back.actualInches + 0.375);
+
+    // The panel reaches halfway into the sides, top and bottom
+    const [back] = parts.filter(p => p.role === 'Back');
+    expect(back.lengthIn).toBeCloseTo(extWidth - frame);
+    expect(back.widthIn).toBeCloseTo(extHeight - frame);
+    expect(back.notes).toContain('groove');
+
+    // Dividers and shelves stop in front of it
+    const interior = parts.filter(p => p.role === 'VerticalDivider' || p.role === 'BayShelf');
+    expect(interior.every(p => p.widthIn === DEFAULT_DESIGN.depth - recess)).toBe(true);
+    expect(parts.find(p => p.role === 'Side')!.widthIn).toBe(DEFAULT_DESIGN.depth);
+  });
+
+  it('should put panels only behind chosen openings, edged on the member centerlines', () => {
+    const params = withBack({
+      backMode: { type: 'per-opening' },
+      backs: [{ row: 0, col: 0 }, { row: 1, col: 1 }],
+    });
+    const backs = backsOf(params);
+    const { extWidth, extHeight } = calculateAllDimensions(params);
+
+    expect(backs).toHaveLength(2);
+    // A 2x2 grid splits down its middle divider and shelf
+    for (const back of backs) {
+      expect(back.lengthIn).toBeCloseTo(extWidth / 2);
+      expect(back.widthIn).toBeCloseTo(extHeight / 2);
+    }
+    expect(backs.map(b => b.bay)).toEqual([
+      { row: 0, colStart: 0, colEnd: 1, rowEnd: 1 },
+      { row: 1, colStart: 1, colEnd: 2, rowEnd: 2 },
+    ]);
+  });
+
+  it('should split a back wider than a sheet behind a divider', () => {
+    const params = withBack({ backMode: { type: 'split' }, cols: 8 });
+    const backs = backsOf(params);
+    const { extWidth, extHeight } = calculateAllDimensions(params);
+
+    expect(extWidth).toBeGreaterThan(96);
+    expect(backs).toHaveLength(2);
+    expect(backs.every(b => b.lengthIn <= 96 && b.widthIn === extHeight)).toBe(true);
+    expect(backs[0].lengthIn + backs[1].lengthIn).toBeCloseTo(extWidth);
+    expect(backs[0].bay).toEqual({ row: 0, colStart: 0, colEnd: 6, rowEnd: 2 });
+
+    // A unit that fits on one sheet stays in one piece
+    expect(backsOf(withBack({ backMode: { type: 'split' } }))).toHaveLength(1);
+  });
+
+  it('should swap the panel for stretchers between the sides', () => {
+    const params = withBack({ backMode: { type: 'stretchers' } });
+    const parts = generateParts(params);
+    const { extWidth, extDepth } = calculateAllDimensions(params);
+    const frame = RECOMMENDED_MATERIALS.frame.actualInches;
+    const stretchers = parts.filter(p => p.role === 'Stretcher');
+
+    expect(parts.some(p => p.role === 'Back')).toBe(false);
+    expect(stretchers.map(p => p.id)).toEqual(['Stretcher-0-Top', 'Stretcher-1-Bottom']);
+    expect(stretchers.every(p => p.lengthIn === extWidth - 2 * frame && p.widthIn === 3)).toBe(true);
+    expect(extDepth).toBeCloseTo(DEFAULT_DESIGN.depth);
+    expect(parts.find(p => p.role === 'VerticalDivider')!.widthIn).toBeCloseTo(DEFAULT_DESIGN.depth - frame);
+
+    // Two screws through each side into both ends of both rails
+    const railScrews = calculateHardwareBom(parts, params).find(item => item.id === 'rail-fasteners');
+    expect(railScrews?.qty).toBe(8);
+  });
+
+  it('should cut no panel for a design without a back material', () => {
+    const noMaterial = (backMode: DesignParams['backMode']) =>
+      withBack({ backMode, materials: { ...DEFAULT_DESIGN.materials, back: undefined } });
+
+    for (const params of [noMaterial(undefined), noMaterial({ type: 'inset', joint: 'groove' })]) {
+      expect(backsOf(params)).toHaveLength(0);
+      expect(calculateAllDimensions(params).extDepth).toBeCloseTo(DEFAULT_DESIGN.depth);
+      expect(calculateBackRecess(params)).toBe(0);
+    }
+
+    // Rails come from the frame material, so they are still cut
+    expect(generateParts(noMaterial({ type: 'stretchers' })).some(p => p.role === 'Stretcher')).toBe(true);
+  });
+
+  it('should hang the unit on a French cleat with its wall mate', () => {
+    const params = withBack({ backMode: { type: 'french-cleat' } });
+    const parts = generateParts(params);
+    const cleat = parts.find(p => p.role === 'Cleat')!;
+    const wallCleat = parts.find(p => p.role === 'WallCleat')!;
+    const frame = RECOMMENDED_MATERIALS.frame.actualInches;
+
+    expect(wallCleat.lengthIn).toBeCloseTo(cleat.lengthIn - 0.25);
+    expect(cleat.notes).toContain('bevel');
+    // Dividers clear both halves of the cleat
+    expect(calculateBackRecess(params)).toBeCloseTo(2 * frame);
+
+    // The wall cleat stays on the wall, so it adds nothing to the unit's weight
+    const withoutWallCleat = parts.filter(p => p.role !== 'WallCleat');
+    expect(analyzeStability(parts, params).weightLb)
+      .toBeCloseTo(analyzeStability(withoutWallCleat, params).weightLb);
+  });
+
+  it('should group spans greedily up to the limit', () => {
+    expect(groupBackSpans([0, 30, 60, 90, 120], 70)).toEqual([[0, 2], [2, 4]]);
+    // A single span over the limit cannot be split further
+    expect(groupBackSpans([0, 100, 120], 50)).toEqual([[0, 1], [1, 2]]);
+  });
+});
@@ -0,0 +1,133 @@
+import type { BackMode, BackSpec, DesignParams, Opening } from './types';
+import { getThicknessInInches } from './types';
+import { getOpenings } from './openings';
+
+// Grooves for inset backs are set in 3/8" from the back edge of the carcass
+export const BACK_GROOVE_SETBACK = 0.375;
+
+// Rail heights for open backs (3" stretchers, 3-1/2" cleats, or 75mm and 90mm)
+const STRETCHER_HEIGHT_IMPERIAL = 3;
+const STRETCHER_HEIGHT_METRIC = 75 / 25.4;
+const CLEAT_HEIGHT_IMPERIAL = 3.5;
+const CLEAT_HEIGHT_METRIC = 90 / 25.4;
+
+// The wall cleat is cut this much shorter than the unit's cleat so it slips between the sides
+export const WALL_CLEAT_CLEARANCE = 0.25;
+
+/**
+ * Get how the back is fitted (older designs only had one surface-mounted back)
+ */
+export function getBackMode(params: DesignParams): BackMode {
+  return params.backMode ?? { type: 'surface' };
+}
+
+/**
+ * Back panel thickness in inches, 0 without a back material
+ */
+export function getBackThickness(params: DesignParams): number {
+  return params.materials.back ? getThicknessInInches(params.materials.back) : 0;
+}
+
+/**
+ * Height of the stretcher rails or cleats in inches
+ */
+export function getRailHeight(params: DesignParams): number {
+  const metric = params.unitSystem === 'metric';
+  return getBackMode(params).type === 'french-cleat'
+    ? (metric ? CLEAT_HEIGHT_METRIC : CLEAT_HEIGHT_IMPERIAL)
+    : (metric ? STRETCHER_HEIGHT_METRIC : STRETCHER_HEIGHT_IMPERIAL);
+}
+
+/**
+ * Whether the back is open, with rails or a cleat instead of a panel
+ */
+export function hasBackRails(params: DesignParams): boolean {
+  const { type } = getBackMode(params);
+  return params.hasBack && (type === 'stretchers' || type === 'french-cleat');
+}
+
+/**
+ * Whether there is a back panel to cut; designs without a back material have none
+ */
+export function hasBackPanel(params: DesignParams): boolean {
+  return params.hasBack && !!params.materials.back && !hasBackRails(params);
+}
+
+/**
+ * Whether the unit hangs from a French cleat, and so is anchored to the wall
+ */
+export function isWallHung(params: DesignParams): boolean {
+  return params.hasBack && getBackMode(params).type === 'french-cleat';
+}
+
+/**
+ * Whether the back ties the whole carcass together so it cannot rack
+ * Panels behind only some openings leave the rest free to rack
+ */
+export function isBracedAgainstRacking(params: DesignParams): boolean {
+  return (hasBackPanel(params) || hasBackRails(params)) && getBackMode(params).type !== 'per-opening';
+}
+
+/**
+ * How far dividers and shelves stop short of the back edge to make room for an inset back or rails
+ * Stretchers sit flush with the back edges; the unit's cleat sits in front of the wall cleat
+ */
+export function calculateBackRecess(params: DesignParams): number {
+  if (!params.hasBack) return 0;
+  const mode = getBackMode(params);
+  const frameThickness = getThicknessInInches(params.materials.frame);
+  switch (mode.type) {
+    case 'inset':
+      if (!hasBackPanel(params)) return 0;
+      return getBackThickness(params) + (mode.joint === 'groove' ? BACK_GROOVE_SETBACK : 0);
+    case 'stretchers':
+      return frameThickness;
+    case 'french-cleat':
+      return 2 * frameThickness;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Whether the back sits on the outside of the carcass and adds its thickness to the depth
+ */
+export function isBackSurfaceMounted(params: DesignParams): boolean {
+  return hasBackPanel(params) && getBackMode(params).type !== 'inset';
+}
+
+/**
+ * Get every opening with its own back panel in per-opening mode
+ * Back specs that no longer sit at the top-left cell of an opening are ignored
+ */
+export function getBackOpenings(params: DesignParams): Array<{ opening: Opening; back: BackSpec }> {
+  const backOpenings: Array<{ opening: Opening; back: BackSpec }> = [];
+  if (!params.hasBack || getBackMode(params).type !== 'per-opening' || !params.backs) return backOpenings;
+
+  for (const opening of getOpenings(params)) {
+    const back = params.backs.find(b => b.row === opening.row && b.col === opening.col);
+    if (back) {
+      backOpenings.push({ opening, back });
+    }
+  }
+  return backOpenings;
+}
+
+/**
+ * Group the spans between seam positions into panels no longer than `limit`
+ * Positions run from one outside edge to the other; returns the first and last
+ * position index of each panel. A single span longer than the limit stays whole.
+ */
+export function groupBackSpans(positions: number[], limit: number): Array<[number, number]> {
+  const groups: Array<[number, number]> = [];
+  let start = 0;
+  while (start < positions.length - 1) {
+    let end = start + 1;
+    while (end + 1 < positions.length && positions[end + 1] - positions[start] <= limit) {
+      end++;
+    }
+    groups.push([start, end]);
+    start = end;
+  }
+  return groups;
+}
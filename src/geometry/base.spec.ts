@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLegLayout } from './base';
+import { calculateHardwareBom } from './hardware';
+import { analyzeStability } from './stability';
+import { generateParts } from './parts';
+import { calculateAllDimensions } from './measurements';
+import { DEFAULT_DESIGN } from './constants';
+import type { BaseMode, DesignParams } from './types';
+import { getThicknessInInches } from './types';
+
+const withBase = (base: Partial<BaseMode>, overrides: Partial<DesignParams> = {}): DesignParams => ({
+  ...DEFAULT_DESIGN,
+  base: { type: 'none', height: 4, setback: 3, inset: 2, ...base },
+  ...overrides,
+});
+
+describe('Base', () => {
+  it('should add the base to the exterior height but not to the carcass', () => {
+    const plain = calculateAllDimensions(DEFAULT_DESIGN);
+    const raised = calculateAllDimensions(withBase({ type: 'legs', height: 6 }));
+
+    expect(plain.baseHeight).toBe(0);
+    expect(raised.baseHeight).toBe(6);
+    expect(raised.extHeight).toBeCloseTo(plain.extHeight + 6);
+    expect(calculateAllDimensions(withBase({ type: 'none', height: 6 })).extHeight).toBeCloseTo(plain.extHeight);
+
+    // The sides still run the height of the carcass
+    const side = (params: DesignParams) => generateParts(params).find(p => p.role === 'Side')!;
+    expect(side(withBase({ type: 'legs', height: 6 })).lengthIn).toBe(side(DEFAULT_DESIGN).lengthIn);
+  });
+
+  it('should frame a plinth set back from the front and sides', () => {
+    const params = withBase({ type: 'plinth' });
+    const plinth = generateParts(params).filter(p => p.role === 'Plinth');
+    const { extWidth } = calculateAllDimensions(params);
+    const frame = getThicknessInInches(DEFAULT_DESIGN.materials.frame);
+
+    expect(plinth.map(p => p.id)).toEqual(['Plinth-0-Front', 'Plinth-1-Back', 'Plinth-2-L', 'Plinth-3-R']);
+    expect(plinth.every(p => p.widthIn === 4)).toBe(true);
+    expect(plinth[0].lengthIn).toBeCloseTo(extWidth - 6);
+    // Sides fit between the front and back, which stops the setback short of the back edge
+    expect(plinth[2].lengthIn).toBeCloseTo(DEFAULT_DESIGN.depth - 3 - 2 * frame);
+
+    expect(generateParts(withBase({ type: 'legs' })).some(p => p.role === 'Plinth')).toBe(false);
+  });
+
+  it('should add legs along each edge so no span is too long', () => {
+    const layout = calculateLegLayout(withBase({ type: 'legs' }), calculateAllDimensions(withBase({ type: 'legs' })))!;
+    const { extWidth } = calculateAllDimensions(DEFAULT_DESIGN);
+
+    expect(layout.legs).toHaveLength(4);
+    expect(layout.legs[0]).toEqual({ x: 2, y: 2 });
+    expect(layout.legs[3].x).toBeCloseTo(extWidth - 2);
+    expect(layout.plateHoles).toHaveLength(16);
+
+    const wide = withBase({ type: 'legs' }, { cols: 8 });
+    const wideLayout = calculateLegLayout(wide, calculateAllDimensions(wide))!;
+    const xs = [...new Set(wideLayout.legs.map(leg => leg.x))];
+    expect(xs.length).toBeGreaterThan(2);
+    expect(xs[1] - xs[0]).toBeLessThanOrEqual(36);
+
+    // A plate never hangs past the edge, however small the inset
+    const tight = withBase({ type: 'legs', inset: 0 });
+    expect(calculateLegLayout(tight, calculateAllDimensions(tight))!.legs[0]).toEqual({ x: 1.25, y: 1.25 });
+
+    const hardware = calculateHardwareBom(generateParts(wide), wide);
+    expect(hardware.find(item => item.id === 'legs')?.qty).toBe(wideLayout.legs.length);
+  });
+
+  it('should tip about the front of the base, not the front of the carcass', () => {
+    const stabilityFor = (params: DesignParams) => analyzeStability(generateParts(params), params);
+    const onFloor = stabilityFor(DEFAULT_DESIGN);
+    const onLegs = stabilityFor(withBase({ type: 'legs' }));
+
+    // Legs add no parts, so only the pivot moves
+    expect(onLegs.weightLb).toBeCloseTo(onFloor.weightLb);
+    expect(onLegs.maxFrontLoadLb).toBeLessThan(onFloor.maxFrontLoadLb);
+  });
+});
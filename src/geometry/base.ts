@@ -0,0 +1,79 @@
+import type { BaseMode, DerivedDimensions, DesignParams, LegLayout } from './types';
+
+// Square leg mounting plates, screwed on through a hole near each corner
+const LEG_PLATE_SIZE = 2.5;
+const LEG_PLATE_HOLE_INSET = 0.375;
+
+// Legs are drawn as round posts this wide
+export const LEG_DIAMETER = 1.5;
+
+// Legs are added along each edge so no span between them is longer than this
+const MAX_LEG_SPAN = 36;
+
+const NO_BASE: BaseMode = { type: 'none', height: 0, setback: 0, inset: 0 };
+
+// Base settings are stored in design units; convert inline so measurements can import this module
+const inInches = (value: number, params: DesignParams) =>
+  params.unitSystem === 'metric' ? value / 25.4 : value;
+
+/**
+ * Get what the carcass stands on (older designs always sat on the floor)
+ */
+export function getBaseMode(params: DesignParams): BaseMode {
+  return params.base ?? NO_BASE;
+}
+
+/**
+ * Height of the plinth or legs in inches, 0 when the Bottom sits on the floor
+ */
+export function calculateBaseHeight(params: DesignParams): number {
+  const base = getBaseMode(params);
+  return base.type === 'none' ? 0 : inInches(base.height, params);
+}
+
+/**
+ * How far a plinth sits in from the front and sides of the carcass, in inches
+ */
+export function calculatePlinthSetback(params: DesignParams): number {
+  const base = getBaseMode(params);
+  return base.type === 'plinth' ? inInches(base.setback, params) : 0;
+}
+
+/**
+ * Evenly spaced positions along an edge, inset from both ends, no further apart than the max span
+ */
+function spaceLegs(length: number, inset: number): number[] {
+  const span = Math.max(0, length - 2 * inset);
+  const count = Math.ceil(span / MAX_LEG_SPAN) + 1;
+  return Array.from({ length: count }, (_, i) => inset + i * span / (count - 1));
+}
+
+/**
+ * Work out where the legs and their mounting plates go on the underside of the carcass
+ * Plates never hang past the edges, so the inset is at least half a plate
+ */
+export function calculateLegLayout(params: DesignParams, dimensions: DerivedDimensions): LegLayout | null {
+  const base = getBaseMode(params);
+  if (base.type !== 'legs') return null;
+
+  const depthIn = inInches(params.depth, params);
+  const inset = Math.max(LEG_PLATE_SIZE / 2, inInches(base.inset, params));
+  const legs = spaceLegs(depthIn, inset).flatMap(y =>
+    spaceLegs(dimensions.extWidth, inset).map(x => ({ x, y }))
+  );
+
+  const holeOffset = LEG_PLATE_SIZE / 2 - LEG_PLATE_HOLE_INSET;
+  const plateHoles = legs.flatMap(({ x, y }) => [
+    { x: x - holeOffset, y: y - holeOffset },
+    { x: x + holeOffset, y: y - holeOffset },
+    { x: x - holeOffset, y: y + holeOffset },
+    { x: x + holeOffset, y: y + holeOffset },
+  ]);
+
+  return {
+    heightIn: calculateBaseHeight(params),
+    plateSizeIn: LEG_PLATE_SIZE,
+    legs,
+    plateHoles,
+  };
+}
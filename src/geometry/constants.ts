@@ -1,4 +1,4 @@
-import type { NominalThickness, ThicknessMap, DesignParams, MetricThickness } from './types';
+import type { NominalThickness, ThicknessMap, DesignParams, GrainDirection, KallaxInsert, KallaxInsertId, MetricThickness, PartRole, PriceCatalog, SheetMaterial } from './types';
 import { THICKNESS_MAP as THICKNESS_VALUES } from './measurements';
 
 // ===== IMPERIAL DEFAULTS =====
@@ -9,6 +9,19 @@ export const DEFAULT_DEPTH_IMPERIAL = 15.375;
 export const DEFAULT_REVEAL_IMPERIAL = 1/16; // 0.0625"
 export const DEFAULT_OVERLAY_IMPERIAL = 0.25; // 1/4"
 export const DEFAULT_HARDWARE_INSET_IMPERIAL = 1; // 1"
+export const DEFAULT_PAIR_GAP_IMPERIAL = 1/8; // 0.125"
+export const DEFAULT_DADO_DEPTH_IMPERIAL = 0.25; // 1/4"
+export const DEFAULT_RABBET_DEPTH_IMPERIAL = 0.375; // 3/8", about half of 3/4" plywood
+export const DEFAULT_SHELF_LOAD_IMPERIAL = 25; // lb/ft², a shelf full of books
+export const DEFAULT_TIP_TEST_LOAD_IMPERIAL = 50; // lb, the ASTM F2057 drawer test load
+export const DEFAULT_BASE_HEIGHT_IMPERIAL = 4; // 4", a standard toe kick
+export const DEFAULT_PLINTH_SETBACK_IMPERIAL = 3; // 3"
+export const DEFAULT_LEG_INSET_IMPERIAL = 2; // 2"
+export const DEFAULT_COUNTERTOP_OVERHANG_IMPERIAL = 1; // 1" past the front and ends
+export const DEFAULT_COUNTERTOP_EDGE_IMPERIAL = 0.75; // 3/4" hardwood lipping
+export const DEFAULT_SHELF_PIN_SPACING_IMPERIAL = 1; // custom shelf-pin pitch
+export const DEFAULT_KERF_IMPERIAL = 0.125; // 1/8" full-kerf blade
+export const DEFAULT_EDGE_TRIM_IMPERIAL = 0.25; // 1/4" off each factory edge
 
 // Nominal to actual thickness mapping (standard plywood) - imported from measurements
 export const THICKNESS_MAP: Record<NominalThickness, number> = THICKNESS_VALUES;
@@ -23,6 +36,8 @@ export const RECOMMENDED_MATERIALS_IMPERIAL = {
   frame: createThicknessMap('3/4"'),
   back: createThicknessMap('1/4"'),
   door: createThicknessMap('3/4"'),
+  drawerBox: createThicknessMap('1/2"'),
+  drawerBottom: createThicknessMap('1/4"'),
 };
 
 // ===== METRIC DEFAULTS =====
@@ -33,6 +48,19 @@ export const DEFAULT_DEPTH_METRIC = 390;
 export const DEFAULT_REVEAL_METRIC = 2; // 2mm
 export const DEFAULT_OVERLAY_METRIC = 6; // 6mm
 export const DEFAULT_HARDWARE_INSET_METRIC = 25; // 25mm
+export const DEFAULT_PAIR_GAP_METRIC = 3; // 3mm
+export const DEFAULT_DADO_DEPTH_METRIC = 6; // 6mm
+export const DEFAULT_RABBET_DEPTH_METRIC = 9; // 9mm, half of 18mm plywood
+export const DEFAULT_SHELF_LOAD_METRIC = 120; // kg/m², a shelf full of books
+export const DEFAULT_TIP_TEST_LOAD_METRIC = 23; // kg, the ASTM F2057 drawer test load
+export const DEFAULT_BASE_HEIGHT_METRIC = 100; // 100mm
+export const DEFAULT_PLINTH_SETBACK_METRIC = 75; // 75mm
+export const DEFAULT_LEG_INSET_METRIC = 50; // 50mm
+export const DEFAULT_COUNTERTOP_OVERHANG_METRIC = 25; // 25mm
+export const DEFAULT_COUNTERTOP_EDGE_METRIC = 19; // 19mm
+export const DEFAULT_SHELF_PIN_SPACING_METRIC = 25; // 25mm
+export const DEFAULT_KERF_METRIC = 3; // 3mm
+export const DEFAULT_EDGE_TRIM_METRIC = 6; // 6mm
 
 export const createMetricThickness = (thicknessMm: number): MetricThickness => ({
   thicknessMm,
@@ -43,6 +71,8 @@ export const RECOMMENDED_MATERIALS_METRIC = {
   frame: createMetricThickness(18),
   back: createMetricThickness(6),
   door: createMetricThickness(18),
+  drawerBox: createMetricThickness(12),
+  drawerBottom: createMetricThickness(6),
 };
 
 // ===== DEFAULT DESIGNS =====
@@ -60,10 +90,20 @@ export const DEFAULT_DESIGN_IMPERIAL: DesignParams = {
     type: 'inset',
     reveal: DEFAULT_REVEAL_IMPERIAL,
     overlay: DEFAULT_OVERLAY_IMPERIAL,
+    pairGap: DEFAULT_PAIR_GAP_IMPERIAL,
+  },
+  constructionStyle: 'continuous-dividers',
+  joinery: {
+    type: 'butt',
+    dadoDepth: DEFAULT_DADO_DEPTH_IMPERIAL,
+    rabbetDepth: DEFAULT_RABBET_DEPTH_IMPERIAL,
   },
   materials: {
     frame: RECOMMENDED_MATERIALS_IMPERIAL.frame,
   },
+  sheetMaterial: 'plywood',
+  shelfLoad: DEFAULT_SHELF_LOAD_IMPERIAL,
+  tipTestLoad: DEFAULT_TIP_TEST_LOAD_IMPERIAL,
   merges: [],
   colorScheme: 'blues',
   opacity: 0.9,
@@ -82,10 +122,20 @@ export const DEFAULT_DESIGN_METRIC: DesignParams = {
     type: 'inset',
     reveal: DEFAULT_REVEAL_METRIC,
     overlay: DEFAULT_OVERLAY_METRIC,
+    pairGap: DEFAULT_PAIR_GAP_METRIC,
+  },
+  constructionStyle: 'continuous-dividers',
+  joinery: {
+    type: 'butt',
+    dadoDepth: DEFAULT_DADO_DEPTH_METRIC,
+    rabbetDepth: DEFAULT_RABBET_DEPTH_METRIC,
   },
   materials: {
     frame: RECOMMENDED_MATERIALS_METRIC.frame,
   },
+  sheetMaterial: 'plywood',
+  shelfLoad: DEFAULT_SHELF_LOAD_METRIC,
+  tipTestLoad: DEFAULT_TIP_TEST_LOAD_METRIC,
   merges: [],
   colorScheme: 'blues',
   opacity: 0.9,
@@ -100,4 +150,102 @@ export const DEFAULT_DEPTH = DEFAULT_DEPTH_IMPERIAL;
 export const RECOMMENDED_MATERIALS = RECOMMENDED_MATERIALS_IMPERIAL;
 
 // Grid constraints
-export const MAX_GRID_SIZE = 10;
\ No newline at end of file
+export const MAX_GRID_SIZE = 10;
+
+// Stiffness (modulus of elasticity, psi) and density (lb/ft³) of each sheet material
+export const SHEET_MATERIAL_PROPERTIES: Record<SheetMaterial, { label: string; modulusPsi: number; densityLbPerCuFt: number }> = {
+  'plywood': { label: 'Hardwood plywood', modulusPsi: 1_100_000, densityLbPerCuFt: 36 },
+  'baltic-birch': { label: 'Baltic birch plywood', modulusPsi: 1_500_000, densityLbPerCuFt: 43 },
+  'mdf': { label: 'MDF', modulusPsi: 400_000, densityLbPerCuFt: 48 },
+  'particleboard': { label: 'Particleboard', modulusPsi: 300_000, densityLbPerCuFt: 44 },
+};
+
+// Which way the grain runs on the parts that show; any other role can be cut either way.
+// Doors are measured across first, so their grain runs across that to go up the door.
+export const DEFAULT_GRAIN_BY_ROLE: Partial<Record<PartRole, GrainDirection>> = {
+  Top: 'length',
+  Bottom: 'length',
+  Side: 'length',
+  VerticalDivider: 'length',
+  BayShelf: 'length',
+  AdjustableShelf: 'length',
+  Plinth: 'length',
+  Countertop: 'length',
+  Door: 'across',
+  DrawerFace: 'length',
+};
+
+// Most drawers that can be stacked in one opening
+export const MAX_DRAWERS_PER_OPENING = 6;
+
+// Most adjustable shelves that can go in one opening
+export const MAX_ADJUSTABLE_SHELVES_PER_OPENING = 6;
+
+// ===== KALLAX INSERTS =====
+
+const mm = (value: number) => value / 25.4;
+
+// Cells the inserts fit, 330 to 340mm square. Hole positions are measured from the
+// inserts themselves, so check them against IKEA's instructions before drilling.
+const KALLAX_CELL_CLEARANCE = { min: mm(330), max: mm(340) };
+
+export const KALLAX_INSERTS: Record<KallaxInsertId, KallaxInsert> = {
+  door: {
+    id: 'door',
+    name: 'Insert with door',
+    clearanceIn: KALLAX_CELL_CLEARANCE,
+    minDepthIn: mm(370),
+    holeDiameterIn: mm(5),
+    // Two hinge plates on the left, 32mm hole pairs 37mm back
+    holes: [34, 66, 269, 301].map(along => ({ surface: 'left' as const, alongIn: mm(along), setbackIn: mm(37) })),
+  },
+  'drawers-2': {
+    id: 'drawers-2',
+    name: 'Insert with 2 drawers',
+    clearanceIn: KALLAX_CELL_CLEARANCE,
+    minDepthIn: mm(370),
+    holeDiameterIn: mm(5),
+    // A runner for each drawer on both sides, and the frame screwed down to the bottom
+    holes: [
+      ...(['left', 'right'] as const).flatMap(surface => [20, 176].flatMap(along =>
+        [40, 296].map(setback => ({ surface, alongIn: mm(along), setbackIn: mm(setback) })))),
+      ...[-120, 120].flatMap(along =>
+        [30, 300].map(setback => ({ surface: 'bottom' as const, alongIn: mm(along), setbackIn: mm(setback) }))),
+    ],
+  },
+  shelf: {
+    id: 'shelf',
+    name: 'Insert with shelf',
+    clearanceIn: KALLAX_CELL_CLEARANCE,
+    minDepthIn: mm(360),
+    holeDiameterIn: mm(5),
+    // Shelf supports at mid-height on both sides
+    holes: (['left', 'right'] as const).flatMap(surface =>
+      [40, 300].map(setback => ({ surface, alongIn: mm(160), setbackIn: mm(setback) }))),
+  },
+};
+
+// ===== PRICE CATALOG =====
+
+// Starting prices for the cost estimate; users edit their own copy in the app.
+// Sheet sizes match the stock assumed by the rip generator.
+export const DEFAULT_PRICE_CATALOG: PriceCatalog = {
+  currency: '$',
+  sheets: [
+    { thicknessIn: THICKNESS_MAP['1/4"'], widthIn: 48, lengthIn: 96, price: 35 },
+    { thicknessIn: THICKNESS_MAP['1/2"'], widthIn: 48, lengthIn: 96, price: 55 },
+    { thicknessIn: THICKNESS_MAP['3/4"'], widthIn: 48, lengthIn: 96, price: 75 },
+    { thicknessIn: 6 / 25.4, widthIn: 1200 / 25.4, lengthIn: 2400 / 25.4, price: 35 },
+    { thicknessIn: 12 / 25.4, widthIn: 1200 / 25.4, lengthIn: 2400 / 25.4, price: 55 },
+    { thicknessIn: 18 / 25.4, widthIn: 1200 / 25.4, lengthIn: 2400 / 25.4, price: 75 },
+  ],
+  edgeBandingPerFoot: 0.4,
+  hardware: {
+    fastener: 0.1,
+    hinge: 6,
+    slide: 15,
+    pull: 4,
+    support: 12,
+  },
+  finishPerSquareFoot: 0.25,
+};
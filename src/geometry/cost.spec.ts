@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCostEstimate, calculateEdgeBandingFeet, findSheetPrice } from './cost';
+import { generateParts } from './parts';
+import { calculateHardwareBom } from './hardware';
+import { getSheetLayouts } from './ripGenerator';
+import { DEFAULT_DESIGN, DEFAULT_PRICE_CATALOG } from './constants';
+import type { DesignParams } from './types';
+
+const costFor = (params: DesignParams, catalog = DEFAULT_PRICE_CATALOG) => {
+  const parts = generateParts(params);
+  return calculateCostEstimate(parts, params, calculateHardwareBom(parts, params), catalog);
+};
+
+describe('Cost Estimate', () => {
+  it('should price one catalog sheet per laid-out sheet', () => {
+    const parts = generateParts(DEFAULT_DESIGN);
+    const sheets = getSheetLayouts(parts, DEFAULT_DESIGN);
+    const cost = costFor(DEFAULT_DESIGN);
+
+    const sheetLines = cost.lines.filter(line => line.category === 'sheet-goods');
+    expect(sheetLines.reduce((sum, line) => sum + line.qty, 0)).toBe(sheets.length);
+    // 3/4" sheets at $75
+    expect(cost.byCategory['sheet-goods']).toBe(75 * sheets.length);
+  });
+
+  it('should sum the category breakdown to the total', () => {
+    const cost = costFor({ ...DEFAULT_DESIGN, hasDoors: true });
+    const categorySum = Object.values(cost.byCategory).reduce((sum, amount) => sum + amount, 0);
+
+    expect(cost.byCategory.hardware).toBeGreaterThan(0);
+    expect(cost.byCategory['edge-banding']).toBeGreaterThan(0);
+    expect(cost.byCategory.finish).toBeGreaterThan(0);
+    expect(cost.total).toBeCloseTo(categorySum, 5);
+  });
+
+  it('should follow catalog price changes', () => {
+    const base = costFor(DEFAULT_DESIGN);
+    const pricier = costFor(DEFAULT_DESIGN, { ...DEFAULT_PRICE_CATALOG, edgeBandingPerFoot: 1 });
+    const bandingFeet = Math.ceil(calculateEdgeBandingFeet(generateParts(DEFAULT_DESIGN)));
+
+    expect(pricier.byCategory['edge-banding']).toBeCloseTo(bandingFeet, 5);
+    expect(pricier.total - base.total).toBeCloseTo(bandingFeet * (1 - DEFAULT_PRICE_CATALOG.edgeBandingPerFoot), 5);
+  });
+
+  it('should fall back to the closest thickness scaled by area for unlisted sizes', () => {
+    // 5x5 Baltic birch is not in the default catalog
+    const price = findSheetPrice(DEFAULT_PRICE_CATALOG, 18 / 25.4, 60, 60);
+    expect(price).toBeCloseTo(75 * (60 * 60) / ((1200 / 25.4) * (2400 / 25.4)), 5);
+  });
+});
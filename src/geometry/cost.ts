@@ -0,0 +1,179 @@
+import type { CostCategory, CostEstimate, CostLine, DesignParams, HardwareItem, Part, PriceCatalog } from './types';
+import { formatDimension } from './format';
+import { SHEET_MATERIAL_PROPERTIES } from './constants';
+import { calculateBandedLength } from './edgeBanding';
+import { generateSheetLayouts, getLargestSheetSize } from './ripGenerator';
+import type { SheetLayoutResult } from './ripGenerator';
+
+// Catalog sheets within this much of the stock size (inches) count as the same size
+const SHEET_SIZE_TOLERANCE = 0.5;
+
+// Parts that are finished on both faces; drawer boxes are left bare
+const FINISHED_ROLES: Part['role'][] = [
+  'Top', 'Bottom', 'Side', 'VerticalDivider', 'BayShelf', 'AdjustableShelf', 'Back', 'Stretcher', 'Cleat', 'Plinth',
+  'Countertop', 'CountertopEdge', 'Door', 'DrawerFace',
+];
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  'sheet-goods': 'Sheet goods',
+  'edge-banding': 'Edge banding',
+  'hardware': 'Hardware',
+  'finish': 'Finish',
+};
+
+/**
+ * Format an amount with the catalog currency
+ */
+export function formatCost(amount: number, catalog: PriceCatalog): string {
+  return `${catalog.currency}${amount.toFixed(2)}`;
+}
+
+/**
+ * Price of one sheet of the given thickness and size.
+ * Uses the closest catalog thickness in that sheet size, falling back to
+ * the closest thickness in any size scaled by area.
+ */
+export function findSheetPrice(
+  catalog: PriceCatalog,
+  thicknessIn: number,
+  widthIn: number,
+  lengthIn: number
+): number {
+  const closest = (sheets: PriceCatalog['sheets']) =>
+    sheets.reduce<PriceCatalog['sheets'][number] | undefined>((best, sheet) =>
+      !best || Math.abs(sheet.thicknessIn - thicknessIn) < Math.abs(best.thicknessIn - thicknessIn) ? sheet : best,
+    undefined);
+
+  const sameSize = catalog.sheets.filter(sheet =>
+    Math.abs(sheet.widthIn - widthIn) <= SHEET_SIZE_TOLERANCE &&
+    Math.abs(sheet.lengthIn - lengthIn) <= SHEET_SIZE_TOLERANCE
+  );
+  const match = closest(sameSize);
+  if (match) return match.price;
+
+  const fallback = closest(catalog.sheets);
+  if (!fallback) return 0;
+  return fallback.price * (widthIn * lengthIn) / (fallback.widthIn * fallback.lengthIn);
+}
+
+/**
+ * Linear feet of edge banding over every banded edge
+ */
+export function calculateEdgeBandingFeet(parts: Part[]): number {
+  return parts.reduce((sum, part) => sum + calculateBandedLength(part), 0) / 12;
+}
+
+/**
+ * Price the design from the catalog, using the sheet count from the rip generator.
+ * Pass the layouts the cut list was made from so the sheets priced are the sheets cut;
+ * parts nested onto offcuts from the inventory cost nothing more.
+ */
+export function calculateCostEstimate(
+  parts: Part[],
+  params: DesignParams,
+  hardware: HardwareItem[],
+  catalog: PriceCatalog,
+  layoutResult: SheetLayoutResult = generateSheetLayouts(parts, params)
+): CostEstimate {
+  const { unitSystem } = params;
+  const lines: CostLine[] = [];
+  const formatSheetSize = (width: number, length: number) =>
+    `${formatDimension(width, unitSystem)} × ${formatDimension(length, unitSystem)}`;
+
+  // Full sheets per thickness, stock and sheet size, in the order the rip generator laid them out
+  const sheetCounts = new Map<string, { thickness: number; stock?: string; width: number; length: number; count: number }>();
+  for (const sheet of layoutResult.sheets.filter(sheet => !sheet.offcutId)) {
+    const key = `${sheet.thickness}|${sheet.stock ?? ''}|${sheet.sheetWidth}|${sheet.sheetHeight}`;
+    const entry = sheetCounts.get(key) ?? {
+      thickness: sheet.thickness,
+      stock: sheet.stock && SHEET_MATERIAL_PROPERTIES[sheet.stock].label,
+      width: sheet.sheetWidth,
+      length: sheet.sheetHeight,
+      count: 0,
+    };
+    entry.count++;
+    sheetCounts.set(key, entry);
+  }
+  for (const { thickness, stock, width, length, count } of sheetCounts.values()) {
+    const unitPrice = findSheetPrice(catalog, thickness, width, length);
+    lines.push({
+      category: 'sheet-goods',
+      name: `${formatDimension(thickness, unitSystem)}${stock ? ` ${stock}` : ''} sheets, ${formatSheetSize(width, length)}`,
+      qty: count,
+      unit: 'sheet',
+      unitPrice,
+      total: count * unitPrice,
+    });
+  }
+
+  // Oversized parts need larger stock; price them as the sheets their area would fill
+  const oversizedArea = new Map<number, number>();
+  for (const { part } of layoutResult.oversizedParts) {
+    const area = part.lengthIn * part.widthIn * part.qty;
+    oversizedArea.set(part.thicknessIn, (oversizedArea.get(part.thicknessIn) ?? 0) + area);
+  }
+  for (const [thickness, area] of oversizedArea) {
+    const { width, height } = getLargestSheetSize(params, thickness);
+    const qty = Math.ceil(area / (width * height));
+    const unitPrice = findSheetPrice(catalog, thickness, width, height);
+    lines.push({
+      category: 'sheet-goods',
+      name: `${formatDimension(thickness, unitSystem)} oversized stock (sheet equivalent)`,
+      qty,
+      unit: 'sheet',
+      unitPrice,
+      total: qty * unitPrice,
+    });
+  }
+
+  const bandingFeet = Math.ceil(calculateEdgeBandingFeet(parts));
+  if (bandingFeet > 0) {
+    lines.push({
+      category: 'edge-banding',
+      name: 'Edge banding',
+      qty: bandingFeet,
+      unit: 'ft',
+      unitPrice: catalog.edgeBandingPerFoot,
+      total: bandingFeet * catalog.edgeBandingPerFoot,
+    });
+  }
+
+  for (const item of hardware) {
+    const unitPrice = catalog.hardware[item.category] ?? 0;
+    lines.push({
+      category: 'hardware',
+      name: item.name,
+      qty: item.qty,
+      unit: 'ea',
+      unitPrice,
+      total: item.qty * unitPrice,
+    });
+  }
+
+  const finishSquareFeet = Math.ceil(parts
+    .filter(part => FINISHED_ROLES.includes(part.role))
+    .reduce((sum, part) => sum + 2 * part.lengthIn * part.widthIn * part.qty, 0) / 144);
+  if (finishSquareFeet > 0) {
+    lines.push({
+      category: 'finish',
+      name: 'Finish (both faces)',
+      qty: finishSquareFeet,
+      unit: 'sq ft',
+      unitPrice: catalog.finishPerSquareFoot,
+      total: finishSquareFeet * catalog.finishPerSquareFoot,
+    });
+  }
+
+  const byCategory: Record<CostCategory, number> = {
+    'sheet-goods': 0,
+    'edge-banding': 0,
+    'hardware': 0,
+    'finish': 0,
+  };
+  for (const line of lines) {
+    byCategory[line.category] += line.total;
+  }
+  const total = lines.reduce((sum, line) => sum + line.total, 0);
+
+  return { lines, byCategory, total };
+}
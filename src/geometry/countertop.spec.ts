@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { generateSheetLayouts } from './ripGenerator';
+import { calculateHardwareBom } from './hardware';
+import { generateParts } from './parts';
+import { calculateAllDimensions, calculatePartPosition, getCarcassHeight, SCENE_SCALE } from './measurements';
+import { DEFAULT_DESIGN, RECOMMENDED_MATERIALS } from './constants';
+import type { CountertopMode, DesignParams } from './types';
+
+const withCountertop = (countertop: Partial<CountertopMode> = {}): DesignParams => ({
+  ...DEFAULT_DESIGN,
+  countertop: {
+    material: 'plywood',
+    thickness: RECOMMENDED_MATERIALS.frame,
+    overhang: { front: 1, back: 0, left: 2, right: 1 },
+    ...countertop,
+  },
+});
+
+describe('Countertop', () => {
+  it('should add its thickness and overhangs to the exterior dimensions only', () => {
+    const plain = calculateAllDimensions(DEFAULT_DESIGN);
+    const params = withCountertop();
+    const dimensions = calculateAllDimensions(params);
+    const thickness = RECOMMENDED_MATERIALS.frame.actualInches;
+
+    expect(dimensions.extHeight).toBeCloseTo(plain.extHeight + thickness);
+    expect(dimensions.overallWidth).toBeCloseTo(plain.extWidth + 3);
+    expect(dimensions.overallDepth).toBeCloseTo(plain.extDepth + 1);
+    expect(dimensions.extWidth).toBe(plain.extWidth);
+    expect(getCarcassHeight(dimensions)).toBeCloseTo(getCarcassHeight(plain));
+
+    // It sits on the Top, shifted toward the longer overhang
+    const top = generateParts(params).find(p => p.role === 'Countertop')!;
+    const [x, y] = calculatePartPosition(top, params, dimensions);
+    expect(x / SCENE_SCALE).toBeCloseTo(-0.5);
+    expect(y / SCENE_SCALE).toBeCloseTo(getCarcassHeight(dimensions) / 2 + thickness / 2);
+  });
+
+  it('should shrink the panel for a hardwood edge on the front and ends', () => {
+    const params = withCountertop({ edge: 0.75 });
+    const parts = generateParts(params);
+    const { overallWidth, overallDepth } = calculateAllDimensions(params);
+    const top = parts.find(p => p.role === 'Countertop')!;
+    const edges = parts.filter(p => p.role === 'CountertopEdge');
+
+    expect(top.lengthIn).toBeCloseTo(overallWidth - 1.5);
+    expect(top.widthIn).toBeCloseTo(overallDepth - 0.75);
+    expect(edges.map(p => p.id)).toEqual(['CountertopEdge-0-Front', 'CountertopEdge-1-L', 'CountertopEdge-2-R']);
+    expect(edges[0].lengthIn).toBeCloseTo(overallWidth);
+    expect(edges[1].lengthIn).toBeCloseTo(overallDepth - 0.75);
+
+    // The edge comes from boards, so it never lands on a sheet
+    const { sheets } = generateSheetLayouts(parts, params);
+    const placed = sheets.flatMap(sheet => sheet.parts.map(p => p.partId));
+    expect(placed).toContain('Countertop-0');
+    expect(placed.some(id => id.startsWith('CountertopEdge'))).toBe(false);
+  });
+
+  it('should cut a countertop in a different material from its own sheets', () => {
+    const params = withCountertop({ material: 'mdf' });
+    const { sheets } = generateSheetLayouts(generateParts(params), params);
+    const mdf = sheets.filter(sheet => sheet.stock === 'mdf');
+
+    expect(mdf).toHaveLength(1);
+    expect(mdf[0].sheetId).toBe('23/32" MDF Sheet 1');
+    expect(mdf[0].parts.map(p => p.partId)).toEqual(['Countertop-0']);
+
+    // The same material shares the carcass sheets
+    const shared = withCountertop();
+    expect(generateSheetLayouts(generateParts(shared), shared).sheets.every(sheet => !sheet.stock)).toBe(true);
+
+    const screws = calculateHardwareBom(generateParts(params), params).find(item => item.id === 'countertop-screws');
+    expect(screws?.qty).toBeGreaterThanOrEqual(4);
+  });
+});
@@ -0,0 +1,49 @@
+import type { CountertopOverhangs, DesignParams } from './types';
+import { getThicknessInInches } from './types';
+
+// Countertop settings are stored in design units; convert inline so measurements can import this module
+const inInches = (value: number, params: DesignParams) =>
+  params.unitSystem === 'metric' ? value / 25.4 : value;
+
+/**
+ * Thickness of the countertop in inches, 0 without one
+ */
+export function calculateCountertopThickness(params: DesignParams): number {
+  return params.countertop ? getThicknessInInches(params.countertop.thickness) : 0;
+}
+
+/**
+ * Countertop overhang past each outside face of the carcass in inches, all 0 without one
+ */
+export function calculateCountertopOverhangs(params: DesignParams): CountertopOverhangs {
+  if (!params.countertop) return { front: 0, back: 0, left: 0, right: 0 };
+  const { front, back, left, right } = params.countertop.overhang;
+  return {
+    front: inInches(front, params),
+    back: inInches(back, params),
+    left: inInches(left, params),
+    right: inInches(right, params),
+  };
+}
+
+/**
+ * Width of the hardwood edge on the front and ends of the countertop in inches, 0 without one
+ */
+export function calculateCountertopEdgeWidth(params: DesignParams): number {
+  return params.countertop?.edge ? inInches(params.countertop.edge, params) : 0;
+}
+
+/**
+ * Finished size of the countertop in inches, edge included, from the carcass's exterior size
+ */
+export function calculateCountertopSize(
+  params: DesignParams,
+  extWidth: number,
+  extDepth: number
+): { widthIn: number; depthIn: number } {
+  const overhang = calculateCountertopOverhangs(params);
+  return {
+    widthIn: extWidth + overhang.left + overhang.right,
+    depthIn: extDepth + overhang.front + overhang.back,
+  };
+}
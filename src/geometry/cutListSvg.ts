@@ -6,23 +6,26 @@
 import type { SheetLayout, OversizedPart } from './ripGenerator';
 import type { DesignParams } from './types';
 import { getThicknessInInches } from './types';
+import { formatDimension } from './format';
 
 // SVG dimensions and styling - tight around content
 const MARGIN = 40; // Minimal margin
 const TITLE_SPACE = 10; // Space for sheet title at top
 const DIMENSION_SPACE = 20; // Space for dimension text at bottom
-const SHEET_RATIO = 48 / 96; // 4' x 8' sheet (width/height)
 
-// Calculate sheet dimensions - make SVG tight around actual content
-const SHEET_DISPLAY_HEIGHT = 400; // Fixed height for sheet
-const SHEET_DISPLAY_WIDTH = SHEET_DISPLAY_HEIGHT * SHEET_RATIO;
+// Every sheet is drawn at the same scale, so a 4' x 8' sheet is 400 units tall and smaller stock is smaller
+const SCALE_X = 400 / 96;
+const SCALE_Y = SCALE_X;
 
-const SVG_WIDTH = SHEET_DISPLAY_WIDTH + 2 * MARGIN;
-const SVG_HEIGHT = SHEET_DISPLAY_HEIGHT + 2 * MARGIN + TITLE_SPACE + DIMENSION_SPACE;
-
-// Scaling factors
-const SCALE_X = SHEET_DISPLAY_WIDTH / 48; // 48" sheet width
-const SCALE_Y = SHEET_DISPLAY_HEIGHT / 96; // 96" sheet height
+/**
+ * Size of the SVG drawn for a sheet, around its real size at the common scale
+ */
+export function getSheetSvgSize(sheet: SheetLayout): { width: number; height: number } {
+  return {
+    width: sheet.sheetWidth * SCALE_X + 2 * MARGIN,
+    height: sheet.sheetHeight * SCALE_Y + 2 * MARGIN + TITLE_SPACE + DIMENSION_SPACE,
+  };
+}
 
 /**
  * Convert inches to SVG coordinates
@@ -31,9 +34,9 @@ function inchesToSvgX(inches: number): number {
   return MARGIN + inches * SCALE_X;
 }
 
-function inchesToSvgY(inches: number): number {
+function inchesToSvgY(inches: number, sheetDisplayHeight: number): number {
   // Y coordinate is flipped (SVG origin at top, our origin at bottom)
-  return MARGIN + TITLE_SPACE + SHEET_DISPLAY_HEIGHT - inches * SCALE_Y;
+  return MARGIN + TITLE_SPACE + sheetDisplayHeight - inches * SCALE_Y;
 }
 
 /**
@@ -41,18 +44,28 @@ function inchesToSvgY(inches: number): number {
  */
 export function generateSheetSvg(sheet: SheetLayout, params: DesignParams): string {
   const elements: string[] = [];
+  const SHEET_DISPLAY_WIDTH = sheet.sheetWidth * SCALE_X;
+  const SHEET_DISPLAY_HEIGHT = sheet.sheetHeight * SCALE_Y;
+  const { width: svgWidth, height: svgHeight } = getSheetSvgSize(sheet);
 
   // SVG header
-  elements.push(`<svg width="${SVG_WIDTH}" height="${SVG_HEIGHT}" xmlns="http://www.w3.org/2000/svg">`);
+  elements.push(`<svg width="${svgWidth}" height="${svgHeight}" xmlns="http://www.w3.org/2000/svg">`);
 
   // Add styles
   elements.push(`
     <defs>
+      <marker id="grain-arrow" viewBox="0 0 6 6" refX="3" refY="3" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+        <path d="M0,0 L6,3 L0,6 z" fill="#8a5a2b" />
+      </marker>
       <style>
         .sheet-outline { fill: none; stroke: #000; stroke-width: 2; }
+        .grain-arrow { stroke: #8a5a2b; stroke-width: 1; marker-start: url(#grain-arrow); marker-end: url(#grain-arrow); }
+        .grain-text { font-family: Arial, sans-serif; font-size: 9px; fill: #8a5a2b; text-anchor: middle; }
         .part-rect { fill: #f0f0f0; stroke: #000; stroke-width: 1; }
         .part-text { font-family: Arial, sans-serif; font-size: 10px; text-anchor: middle; dominant-baseline: middle; }
         .rip-line { stroke: #000; stroke-width: 1; stroke-dasharray: 5,5; }
+        .trim-line { fill: none; stroke: #888; stroke-width: 1; stroke-dasharray: 2,2; }
+        .kerf { fill: #c0392b; }
         .dimension-text { font-family: Arial, sans-serif; font-size: 9px; text-anchor: middle; }
         .sheet-label { font-family: Arial, sans-serif; font-size: 14px; font-weight: bold; }
         .door-hardware { fill: none; stroke: #333; stroke-width: 1; }
@@ -68,18 +81,41 @@ export function generateSheetSvg(sheet: SheetLayout, params: DesignParams): stri
   // Sheet label
   elements.push(`<text x="${sheetX}" y="${sheetY - 10}" class="sheet-label">${sheet.sheetId}</text>`);
   
-  // Utilization info
-  elements.push(`<text x="${sheetX + SHEET_DISPLAY_WIDTH}" y="${sheetY - 10}" class="dimension-text" text-anchor="end">Utilization: ${sheet.utilization.toFixed(1)}%</text>`);
+  // The sheet's grain runs up its length
+  const grainX = MARGIN / 2;
+  const grainMid = sheetY + SHEET_DISPLAY_HEIGHT / 2;
+  elements.push(`<line x1="${grainX}" y1="${grainMid - 30}" x2="${grainX}" y2="${grainMid + 30}" class="grain-arrow" />`);
+  elements.push(`<text x="${grainX - 6}" y="${grainMid}" class="grain-text" transform="rotate(-90 ${grainX - 6} ${grainMid})">grain</text>`);
+
+  // Factory edges trimmed off before any parts are cut
+  const trimX = sheet.trim * SCALE_X;
+  const trimY = sheet.trim * SCALE_Y;
+  if (sheet.trim > 0) {
+    elements.push(`<rect x="${sheetX + trimX}" y="${sheetY + trimY}" width="${SHEET_DISPLAY_WIDTH - 2 * trimX}" height="${SHEET_DISPLAY_HEIGHT - 2 * trimY}" class="trim-line" />`);
+  }
+
+  // Stock size, saw setup and utilization info
+  const format = (inches: number) => formatDimension(inches, params.unitSystem);
+  const stockSize = `${format(sheet.sheetWidth)} × ${format(sheet.sheetHeight)}`;
+  elements.push(`<text x="${sheetX + SHEET_DISPLAY_WIDTH}" y="${sheetY - 34}" class="dimension-text" text-anchor="end">${stockSize}</text>`);
+  elements.push(`<text x="${sheetX + SHEET_DISPLAY_WIDTH}" y="${sheetY - 22}" class="dimension-text" text-anchor="end">Kerf ${format(sheet.kerf)} · Trim ${format(sheet.trim)}</text>`);
+  elements.push(`<text x="${sheetX + SHEET_DISPLAY_WIDTH}" y="${sheetY - 10}" class="dimension-text" text-anchor="end">Utilization: ${sheet.utilization.toFixed(1)}% (${sheet.kerfLoss.toFixed(1)}% kerf)</text>`);
   
   // Part rectangles
   for (const part of sheet.parts) {
     const x = inchesToSvgX(part.x);
-    const y = inchesToSvgY(part.y + part.length); // Adjust for flipped Y
+    const y = inchesToSvgY(part.y + part.length, SHEET_DISPLAY_HEIGHT); // Adjust for flipped Y
     const width = part.width * SCALE_X;
     const height = part.length * SCALE_Y;
     
     // Part rectangle
     elements.push(`<rect x="${x}" y="${y}" width="${width}" height="${height}" class="part-rect" />`);
+
+    // Parts that have to follow the grain get an arrow along it, clear of the label
+    if (part.grain !== 'either' && height > 24) {
+      const arrowX = x + Math.min(8, width / 4);
+      elements.push(`<line x1="${arrowX}" y1="${y + 6}" x2="${arrowX}" y2="${y + height - 6}" class="grain-arrow" />`);
+    }
     
     // Part label with text wrapping
     const centerX = x + width / 2;
@@ -135,7 +171,8 @@ export function generateSheetSvg(sheet: SheetLayout, params: DesignParams): stri
 
     // Add door hardware circle if this is a door part
     if (part.originalPart && part.originalPart.role === 'Door' && params.doorHardware) {
-      const { position: hwPosition, type, inset } = params.doorHardware;
+      const { type, inset } = params.doorHardware;
+      const hwPosition = part.originalPart.hardwarePosition ?? params.doorHardware.position;
 
       // Convert inset to inches if in metric mode
       const insetInches = params.unitSystem === 'metric' ? inset / 25.4 : inset;
@@ -170,7 +207,16 @@ export function generateSheetSvg(sheet: SheetLayout, params: DesignParams): stri
     }
   }
   
-  // Rip cut lines and dimensions
+  // Kerf of every saw cut, rips up the sheet and cross-cuts across it
+  for (const cut of sheet.cuts) {
+    if (cut.direction === 'rip') {
+      elements.push(`<rect x="${inchesToSvgX(cut.x)}" y="${inchesToSvgY(cut.y + cut.length, SHEET_DISPLAY_HEIGHT)}" width="${sheet.kerf * SCALE_X}" height="${cut.length * SCALE_Y}" class="kerf" />`);
+    } else {
+      elements.push(`<rect x="${inchesToSvgX(cut.x)}" y="${inchesToSvgY(cut.y + sheet.kerf, SHEET_DISPLAY_HEIGHT)}" width="${cut.length * SCALE_X}" height="${sheet.kerf * SCALE_Y}" class="kerf" />`);
+    }
+  }
+
+  // Rip cut lines and dimensions for the strips ripped the full length of the sheet
   for (const rip of sheet.ripCuts) {
     const x = inchesToSvgX(rip.position);
     const y1 = sheetY;
@@ -215,43 +261,61 @@ export function generateTestSheetSvg(): string {
   const testSheet: SheetLayout = {
     sheetId: '3/4" Sheet 1',
     thickness: 0.75,
-    utilization: 65.4,
+    sheetWidth: 48,
+    sheetHeight: 96,
+    kerf: 0.125,
+    trim: 0.25,
+    utilization: 38.4,
+    kerfLoss: 0.6,
     parts: [
       {
         partId: 'Top-0',
-        x: 1,
-        y: 1,
+        x: 0.25,
+        y: 0.25,
         width: 15.375,
         length: 56.5938,
         rotated: false,
+        grain: 'length',
         originalPart: {} as any,
       },
       {
         partId: 'Bottom-0',
-        x: 17.375,
-        y: 1,
+        x: 15.75,
+        y: 0.25,
         width: 15.375,
         length: 56.5938,
         rotated: false,
+        grain: 'length',
         originalPart: {} as any,
       },
     ],
     ripCuts: [
       {
-        position: 1,
+        position: 0.25,
         width: 15.375,
         label: '15 3/8"',
       },
       {
-        position: 17.375,
+        position: 15.75,
         width: 15.375,
         label: '15 3/8"',
       },
     ],
+    cuts: [
+      { direction: 'rip', x: 15.625, y: 0.25, length: 95.5 },
+      { direction: 'crosscut', x: 0.25, y: 56.8438, length: 15.375 },
+      { direction: 'rip', x: 31.125, y: 0.25, length: 95.5 },
+      { direction: 'crosscut', x: 15.75, y: 56.8438, length: 15.375 },
+    ],
+    leftovers: [
+      { x: 0.25, y: 56.9688, width: 15.375, height: 38.7812 },
+      { x: 15.75, y: 56.9688, width: 15.375, height: 38.7812 },
+      { x: 31.25, y: 0.25, width: 16.5, height: 95.5 },
+    ],
   };
 
   // Use minimal test params (doors won't have hardware in test)
-  const testParams: DesignParams = {} as any;
+  const testParams: DesignParams = { unitSystem: 'imperial' } as any;
 
   return generateSheetSvg(testSheet, testParams);
 }
@@ -306,7 +370,8 @@ export function generateOversizedPartSvg(oversizedPart: OversizedPart, params: D
 
   // Add door hardware circle if this is a door part
   if (part.role === 'Door' && params.doorHardware) {
-    const { position: hwPosition, type, inset } = params.doorHardware;
+    const { type, inset } = params.doorHardware;
+    const hwPosition = part.hardwarePosition ?? params.doorHardware.position;
 
     // Convert inset to inches if in metric mode
     const insetInches = params.unitSystem === 'metric' ? inset / 25.4 : inset;
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeShelfDeflection, calculateShelfSag, SAG_LIMIT_PER_FOOT } from './deflection';
+import { generateParts } from './parts';
+import { generateWarnings } from './estimate';
+import { DEFAULT_DESIGN } from './constants';
+import type { DesignParams } from './types';
+
+const deflectionFor = (params: DesignParams) => analyzeShelfDeflection(generateParts(params), params);
+
+describe('Shelf Deflection', () => {
+  it('should pass single-module shelves at the default load', () => {
+    const results = deflectionFor(DEFAULT_DESIGN);
+
+    expect(results).toHaveLength(2);
+    for (const result of results) {
+      expect(result.spanIn).toBeCloseTo(13.25, 4);
+      expect(result.limitIn).toBeCloseTo(SAG_LIMIT_PER_FOOT * 13.25 / 12, 5);
+      expect(result.passes).toBe(true);
+    }
+  });
+
+  it('should fail an extended shelf over a three-module merge', () => {
+    // The bottom row is one wide opening, so nothing holds up the shelf above it
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      rows: 2,
+      cols: 3,
+      merges: [{ r0: 1, c0: 0, r1: 1, c1: 2 }],
+    };
+    const results = deflectionFor(params);
+    const t = 23/32;
+
+    expect(results).toHaveLength(1);
+    expect(results[0].spanIn).toBeCloseTo(3 * 13.25 + 2 * t, 4);
+    expect(results[0].passes).toBe(false);
+
+    const warning = generateWarnings(params).find(w => w.partIds?.includes(results[0].partId));
+    expect(warning?.type).toBe('shelf_deflection');
+    expect(warning?.severity).toBe('warning');
+    expect(warning?.mergeIndex).toBe(0);
+  });
+
+  it('should count dividers beneath a shelf as supports', () => {
+    // The wide opening is above the shelf, so the dividers below still carry it
+    const results = deflectionFor({
+      ...DEFAULT_DESIGN,
+      rows: 2,
+      cols: 3,
+      merges: [{ r0: 0, c0: 0, r1: 0, c1: 2 }],
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].spanIn).toBeCloseTo(13.25, 4);
+    expect(results[0].passes).toBe(true);
+  });
+
+  it('should split continuous shelves at the dividers beneath them', () => {
+    const results = deflectionFor({ ...DEFAULT_DESIGN, constructionStyle: 'continuous-shelves' });
+
+    // One shelf runs side to side but only spans a single module
+    expect(results).toHaveLength(1);
+    expect(results[0].spanIn).toBeCloseTo(13.25, 4);
+  });
+
+  it('should sag more with softer material and heavier loads', () => {
+    const plywood = calculateShelfSag(30, 15, 0.75, 'plywood', 25);
+    expect(calculateShelfSag(30, 15, 0.75, 'mdf', 25)).toBeGreaterThan(plywood);
+    expect(calculateShelfSag(30, 15, 0.75, 'plywood', 50)).toBeGreaterThan(plywood);
+    // Sag grows with roughly the fourth power of span
+    expect(calculateShelfSag(60, 15, 0.75, 'plywood', 25) / plywood).toBeCloseTo(16, 0);
+  });
+});
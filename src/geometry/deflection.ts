@@ -0,0 +1,84 @@
+import type { DesignParams, Part, SheetMaterial, ShelfDeflection } from './types';
+import { areCellsMerged, calculateLayout } from './layout';
+import { calculateGridMetrics, calculateSpanSize } from './measurements';
+import { DEFAULT_SHELF_LOAD_IMPERIAL, DEFAULT_SHELF_LOAD_METRIC, SHEET_MATERIAL_PROPERTIES } from './constants';
+
+// Sag beyond 0.02" per foot of span is visible and considered unacceptable
+export const SAG_LIMIT_PER_FOOT = 0.02;
+
+// 1 kg/m² in lb/ft²
+const KG_PER_SQ_M_TO_LB_PER_SQ_FT = 0.204816;
+
+/**
+ * Shelf load in lb/ft², from the design's load setting
+ */
+export function getShelfLoadPsf(params: DesignParams): number {
+  if (params.unitSystem === 'metric') {
+    return (params.shelfLoad ?? DEFAULT_SHELF_LOAD_METRIC) * KG_PER_SQ_M_TO_LB_PER_SQ_FT;
+  }
+  return params.shelfLoad ?? DEFAULT_SHELF_LOAD_IMPERIAL;
+}
+
+/**
+ * Midspan sag of a simply supported shelf under a uniform load plus its own weight:
+ * 5WL³ / 384EI, with I = depth × thickness³ / 12
+ */
+export function calculateShelfSag(
+  spanIn: number,
+  depthIn: number,
+  thicknessIn: number,
+  material: SheetMaterial,
+  loadPsf: number
+): number {
+  const { modulusPsi, densityLbPerCuFt } = SHEET_MATERIAL_PROPERTIES[material];
+  const appliedLoad = loadPsf * (spanIn * depthIn) / 144;
+  const selfWeight = densityLbPerCuFt * (spanIn * depthIn * thicknessIn) / 1728;
+  const momentOfInertia = depthIn * Math.pow(thicknessIn, 3) / 12;
+  return (5 * (appliedLoad + selfWeight) * Math.pow(spanIn, 3)) / (384 * modulusPsi * momentOfInertia);
+}
+
+/**
+ * Sag of every shelf, measured over its longest unsupported span.
+ * A shelf is supported wherever a divider stands directly beneath it, so continuous
+ * shelves are split at each divider and extended shelves over merges span the whole merge.
+ */
+export function analyzeShelfDeflection(parts: Part[], params: DesignParams): ShelfDeflection[] {
+  const layout = calculateLayout(params);
+  const grid = calculateGridMetrics(params);
+  const material = params.sheetMaterial ?? 'plywood';
+  const loadPsf = getShelfLoadPsf(params);
+
+  const results: ShelfDeflection[] = [];
+  for (const shelf of parts.filter(p => p.role === 'BayShelf' && p.bay)) {
+    const { row, colStart, colEnd } = shelf.bay!;
+
+    // Dividers in the row below this shelf hold it up
+    const supports = [colStart];
+    for (let c = colStart + 1; c < colEnd; c++) {
+      if (layout.presentVerticals.has(c) && !areCellsMerged(row, c - 1, row, c, params.merges)) {
+        supports.push(c);
+      }
+    }
+    supports.push(colEnd);
+
+    let spanIn = 0;
+    for (let i = 0; i < supports.length - 1; i++) {
+      spanIn = Math.max(spanIn, calculateSpanSize(grid.columnWidths, supports[i], supports[i + 1], grid.frameThickness));
+    }
+
+    const sagIn = calculateShelfSag(spanIn, shelf.widthIn, shelf.thicknessIn, material, loadPsf);
+    const limitIn = SAG_LIMIT_PER_FOOT * spanIn / 12;
+    results.push({ partId: shelf.id, spanIn, sagIn, limitIn, passes: sagIn <= limitIn });
+  }
+
+  // Adjustable shelves rest on pins at either side of their opening, with nothing in between
+  for (const shelf of parts.filter(p => p.role === 'AdjustableShelf' && p.bay)) {
+    const { colStart, colEnd } = shelf.bay!;
+    const spanIn = calculateSpanSize(grid.columnWidths, colStart, colEnd, grid.frameThickness);
+    const sagIn = calculateShelfSag(spanIn, shelf.widthIn, shelf.thicknessIn, material, loadPsf);
+    const limitIn = SAG_LIMIT_PER_FOOT * spanIn / 12;
+    results.push({ partId: shelf.id, spanIn, sagIn, limitIn, passes: sagIn <= limitIn });
+  }
+
+  return results;
+}
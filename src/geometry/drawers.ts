@@ -0,0 +1,119 @@
+import type { DesignParams, EdgeOverlays } from './types';
+import { getThicknessInInches } from './types';
+import { calculateBackRecess } from './backs';
+
+// Common side-mount slides need 1/2" between the drawer box and the carcass on each side
+export const DRAWER_SLIDE_CLEARANCE = 0.5;
+
+// Room left above each drawer box so it can be lifted onto its slides
+export const DRAWER_HEIGHT_CLEARANCE = 1;
+
+// Drawer bottoms float in a groove cut around the inside of the box
+export const DRAWER_BOTTOM_GROOVE_DEPTH = 0.25;
+export const DRAWER_BOTTOM_GROOVE_OFFSET = 0.5; // from the bottom edge of the box
+
+// Slide lengths sold in each unit system; the box is cut to the longest slide that fits
+const SLIDE_LENGTHS_IMPERIAL = [10, 12, 14, 16, 18, 20, 22, 24];
+const SLIDE_LENGTHS_METRIC_MM = [250, 300, 350, 400, 450, 500, 550];
+
+// Fallbacks for designs saved before drawer materials existed (1/2" or 12mm box, 1/4" or 6mm bottom)
+const DEFAULT_BOX_THICKNESS_IMPERIAL = 0.5;
+const DEFAULT_BOX_THICKNESS_METRIC = 12 / 25.4;
+const DEFAULT_BOTTOM_THICKNESS_IMPERIAL = 0.25;
+const DEFAULT_BOTTOM_THICKNESS_METRIC = 6 / 25.4;
+
+/**
+ * Sizes (in inches) for every drawer in one opening
+ */
+export interface DrawerLayout {
+  slotHeight: number;      // share of the opening height taken by each drawer
+  slideLength: number;
+  boxWidth: number;        // outside width of the box
+  boxHeight: number;
+  boxDepth: number;
+  boxThickness: number;
+  bottomThickness: number;
+  faceWidth: number;
+  faceHeight: number;
+  faceThickness: number;
+  faceGap: number;         // gap between stacked faces
+  faceInset: boolean;      // faces sit inside the opening rather than over the frame
+  faceOverlays: EdgeOverlays; // how far overlay faces reach past each edge (zero for inset faces)
+}
+
+/**
+ * Pick the longest standard slide that fits in the available depth
+ */
+export function selectSlideLength(availableDepth: number, unitSystem: DesignParams['unitSystem']): number {
+  const lengths = unitSystem === 'metric'
+    ? SLIDE_LENGTHS_METRIC_MM.map(mm => mm / 25.4)
+    : SLIDE_LENGTHS_IMPERIAL;
+  const fitting = lengths.filter(length => length <= availableDepth);
+  // Very shallow carcasses fall back to whole inches rather than a standard slide
+  return fitting.length > 0 ? fitting[fitting.length - 1] : Math.floor(availableDepth);
+}
+
+/**
+ * Calculate drawer box and face sizes for an opening holding `count` drawers
+ * Opening sizes are in inches; overlays default to the full overlay on every edge
+ */
+export function calculateDrawerLayout(
+  params: DesignParams,
+  openingWidth: number,
+  openingHeight: number,
+  count: number,
+  overlays?: EdgeOverlays
+): DrawerLayout {
+  const { doorMode, materials, unitSystem } = params;
+  const isMetric = unitSystem === 'metric';
+  const depthInches = isMetric ? params.depth / 25.4 : params.depth;
+  const revealInches = isMetric ? doorMode.reveal / 25.4 : doorMode.reveal;
+  const overlayInches = isMetric ? doorMode.overlay / 25.4 : doorMode.overlay;
+
+  // Faces share the door material and door mode
+  const faceThickness = materials.door
+    ? getThicknessInInches(materials.door)
+    : getThicknessInInches(materials.frame);
+  const boxThickness = materials.drawerBox
+    ? getThicknessInInches(materials.drawerBox)
+    : (isMetric ? DEFAULT_BOX_THICKNESS_METRIC : DEFAULT_BOX_THICKNESS_IMPERIAL);
+  const bottomThickness = materials.drawerBottom
+    ? getThicknessInInches(materials.drawerBottom)
+    : (isMetric ? DEFAULT_BOTTOM_THICKNESS_METRIC : DEFAULT_BOTTOM_THICKNESS_IMPERIAL);
+
+  const faceInset = doorMode.type === 'inset';
+  const slotHeight = openingHeight / count;
+
+  // Inset faces take up the front of the opening, so the box starts behind them,
+  // and an inset back takes up the rear
+  const availableDepth = depthInches - (faceInset ? faceThickness : 0) - calculateBackRecess(params);
+  const slideLength = selectSlideLength(availableDepth, unitSystem);
+
+  // Faces cover the same area as a door would, split with a reveal between them
+  const faceGap = revealInches;
+  const faceOverlays = faceInset
+    ? { top: 0, right: 0, bottom: 0, left: 0 }
+    : overlays ?? { top: overlayInches, right: overlayInches, bottom: overlayInches, left: overlayInches };
+  const faceAreaWidth = faceInset
+    ? openingWidth - 2 * revealInches
+    : openingWidth + faceOverlays.left + faceOverlays.right;
+  const faceAreaHeight = faceInset
+    ? openingHeight - 2 * revealInches
+    : openingHeight + faceOverlays.top + faceOverlays.bottom;
+
+  return {
+    slotHeight,
+    slideLength,
+    boxWidth: openingWidth - 2 * DRAWER_SLIDE_CLEARANCE,
+    boxHeight: slotHeight - DRAWER_HEIGHT_CLEARANCE,
+    boxDepth: slideLength,
+    boxThickness,
+    bottomThickness,
+    faceWidth: faceAreaWidth,
+    faceHeight: (faceAreaHeight - (count - 1) * faceGap) / count,
+    faceThickness,
+    faceGap,
+    faceInset,
+    faceOverlays,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { getExposedEdges } from './edgeBanding';
+import { calculateEdgeBandingFeet } from './cost';
+import { generateParts } from './parts';
+import { DEFAULT_DESIGN, RECOMMENDED_MATERIALS } from './constants';
+import type { DesignParams } from './types';
+
+const partOf = (params: DesignParams, id: string) => generateParts(params).find(p => p.id === id)!;
+
+describe('Edge banding', () => {
+  it('should band front edges, outer ends, and back edges with no back', () => {
+    const parts = generateParts({ ...DEFAULT_DESIGN, hasDoors: true });
+
+    expect(parts.find(p => p.role === 'Top')!.bandedEdges).toEqual(['front', 'back', 'left', 'right']);
+    expect(parts.find(p => p.role === 'Side')!.bandedEdges).toEqual(['front', 'back']);
+    expect(parts.find(p => p.role === 'BayShelf')!.bandedEdges).toEqual(['front', 'back']);
+    expect(parts.find(p => p.role === 'Door')!.bandedEdges).toEqual(['front', 'back', 'left', 'right']);
+  });
+
+  it('should follow the construction style and the back', () => {
+    const fullHeightSides: DesignParams = { ...DEFAULT_DESIGN, constructionStyle: 'full-height-sides' };
+    const top = partOf(fullHeightSides, 'Top-0');
+    const side = generateParts(fullHeightSides).find(p => p.role === 'Side')!;
+    expect(top.bandedEdges).toEqual(['front', 'back']);
+    expect(side.bandedEdges).toEqual(['front', 'back', 'left', 'right']);
+
+    // A surface back covers every back edge; an inset one only the interior's
+    const back = { hasBack: true, materials: { ...DEFAULT_DESIGN.materials, back: RECOMMENDED_MATERIALS.back } };
+    const surface: DesignParams = { ...DEFAULT_DESIGN, ...back };
+    const inset: DesignParams = { ...surface, backMode: { type: 'inset' } };
+    const shelf = generateParts(surface).find(p => p.role === 'BayShelf')!;
+    expect(getExposedEdges(partOf(surface, 'Top-0'), surface)).toEqual(['front', 'left', 'right']);
+    expect(getExposedEdges(partOf(inset, 'Top-0'), inset)).toContain('back');
+    expect(getExposedEdges(shelf, inset)).toEqual(['front']);
+  });
+
+  it('should cut banded parts smaller so they finish at their designed size', () => {
+    const thin = generateParts({ ...DEFAULT_DESIGN, hasDoors: true });
+    const thick = generateParts({ ...DEFAULT_DESIGN, hasDoors: true, edgeBanding: { thickness: 0.0625 } });
+    const byId = (parts: typeof thin, id: string) => parts.find(p => p.id === id)!;
+
+    expect(byId(thick, 'Door-0').lengthIn).toBeCloseTo(byId(thin, 'Door-0').lengthIn - 0.125);
+    expect(byId(thick, 'Door-0').widthIn).toBeCloseTo(byId(thin, 'Door-0').widthIn - 0.125);
+    expect(byId(thick, 'Top-0').widthIn).toBeCloseTo(DEFAULT_DESIGN.depth - 0.125);
+    // Unbanded parts are untouched
+    expect(byId(thick, 'Top-0').thicknessIn).toBe(byId(thin, 'Top-0').thicknessIn);
+  });
+
+  it('should let single edges be banded or left bare', () => {
+    const top = partOf(DEFAULT_DESIGN, 'Top-0');
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      edgeBanding: {
+        thickness: 0,
+        overrides: [{ partId: 'Top-0', edge: 'back', banded: false }],
+      },
+    };
+
+    expect(partOf(params, 'Top-0').bandedEdges).toEqual(['front', 'left', 'right']);
+    expect(calculateEdgeBandingFeet(generateParts(params)))
+      .toBeCloseTo(calculateEdgeBandingFeet(generateParts(DEFAULT_DESIGN)) - top.lengthIn / 12);
+  });
+});
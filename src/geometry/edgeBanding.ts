@@ -0,0 +1,116 @@
+import type { DesignParams, Part, PartEdge } from './types';
+import { getBackMode } from './backs';
+import { getConstructionStyle, toInches } from './measurements';
+
+export const PART_EDGES: PartEdge[] = ['front', 'back', 'left', 'right'];
+
+// Carcass members whose ends show on the outside of the unit, depending on which run through
+const OUTER_ROLES: Part['role'][] = ['Top', 'Bottom', 'Side'];
+const INTERIOR_ROLES: Part['role'][] = ['VerticalDivider', 'BayShelf', 'AdjustableShelf'];
+
+/**
+ * Banding thickness in inches (0 for thin veneer, which needs no allowance)
+ */
+export function getEdgeBandingThickness(params: DesignParams): number {
+  return params.edgeBanding ? toInches(params.edgeBanding.thickness, params.unitSystem) : 0;
+}
+
+/**
+ * Which back edges show: none behind a full back, only the outer members' behind an inset
+ * back (the interior stops in front of it), and all of them when the back is open or partial
+ */
+function getExposedBackRoles(params: DesignParams): Part['role'][] {
+  if (!params.hasBack) return [...OUTER_ROLES, ...INTERIOR_ROLES];
+  switch (getBackMode(params).type) {
+    case 'surface':
+    case 'split':
+      return [];
+    case 'inset':
+      return OUTER_ROLES;
+    default:
+      return [...OUTER_ROLES, ...INTERIOR_ROLES];
+  }
+}
+
+/**
+ * Work out which edges of a part show on the finished unit, from its role and where it sits
+ * Front edges of the carcass always show; the ends of whichever outer members run through
+ * show on the outside; doors and drawer faces show all round
+ */
+export function getExposedEdges(part: Part, params: DesignParams): PartEdge[] {
+  const edges: PartEdge[] = [];
+  const sidesRunThrough = getConstructionStyle(params) === 'full-height-sides';
+
+  switch (part.role) {
+    case 'Top':
+    case 'Bottom':
+      edges.push('front');
+      if (!sidesRunThrough) edges.push('left', 'right');
+      break;
+    case 'Side':
+      edges.push('front');
+      if (sidesRunThrough) edges.push('left', 'right');
+      break;
+    case 'VerticalDivider':
+    case 'BayShelf':
+    case 'AdjustableShelf':
+      edges.push('front');
+      break;
+    case 'Door':
+    case 'DrawerFace':
+      return [...PART_EDGES];
+    case 'Countertop':
+      // A hardwood edge covers the front and ends instead
+      return params.countertop?.edge ? [] : ['front', 'left', 'right'];
+    default:
+      return [];
+  }
+
+  if (getExposedBackRoles(params).includes(part.role)) {
+    edges.push('back');
+  }
+  return edges;
+}
+
+/**
+ * Edges of a part that get banding: the exposed ones, then any per-edge overrides
+ */
+export function getBandedEdges(part: Part, params: DesignParams): PartEdge[] {
+  const exposed = getExposedEdges(part, params);
+  const overrides = params.edgeBanding?.overrides?.filter(o => o.partId === part.id) ?? [];
+  return PART_EDGES.filter(edge => {
+    const override = overrides.find(o => o.edge === edge);
+    return override ? override.banded : exposed.includes(edge);
+  });
+}
+
+/**
+ * Mark the banded edges on every part and cut each one smaller by the banding on those edges,
+ * so the finished part comes out at its designed size
+ */
+export function applyEdgeBanding(parts: Part[], params: DesignParams): Part[] {
+  const thickness = getEdgeBandingThickness(params);
+  return parts.map(part => {
+    const bandedEdges = getBandedEdges(part, params);
+    if (bandedEdges.length === 0) return part;
+
+    const ends = bandedEdges.filter(edge => edge === 'left' || edge === 'right').length;
+    const sides = bandedEdges.length - ends;
+    return {
+      ...part,
+      lengthIn: part.lengthIn - ends * thickness,
+      widthIn: part.widthIn - sides * thickness,
+      bandedEdges,
+    };
+  });
+}
+
+/**
+ * Inches of banding on one part (all of its qty)
+ */
+export function calculateBandedLength(part: Part): number {
+  const edges = part.bandedEdges ?? [];
+  const perPart = edges.reduce((sum, edge) =>
+    sum + (edge === 'front' || edge === 'back' ? part.lengthIn : part.widthIn), 0);
+  return perPart * part.qty;
+}
@@ -1,49 +1,28 @@
-import type { DesignParams, Part, Warning } from './types';
+import type { DesignParams, HardwareItem, HingeLayout, LegLayout, Part, ShelfDeflection, ShelfPinLayout, StabilityAnalysis, Warning } from './types';
 import { calculateBoardFeet } from './format';
 import { generateParts } from './parts';
+import { calculateHardwareBom } from './hardware';
+import { calculateHingeLayouts } from './hinges';
+import { calculateShelfPinLayouts } from './shelfPins';
+import { calculateLegLayout } from './base';
+import { calculateAllDimensions } from './measurements';
+import { analyzeShelfDeflection } from './deflection';
+import { analyzeStability } from './stability';
+import { runDesignRules } from './rules';
+import { calculateEdgeBandingFeet } from './cost';
 
 export interface MaterialEstimate {
   frameBoardFeet: number;
   backSquareFeet: number;
   doorSquareFeet: number;
+  drawerSquareFeet: number; // boxes, bottoms and faces
+  edgeBandingFeet: number;  // over every banded edge
   totalFrameParts: number;
   totalDoors: number;
+  totalDrawers: number;
   hasBack: boolean;
 }
 
-/**
- * Check if any merge spans are too large (3+ modules)
- */
-function checkSpanWarnings(params: DesignParams): Warning[] {
-  const warnings: Warning[] = [];
-
-  for (let i = 0; i < params.merges.length; i++) {
-    const merge = params.merges[i];
-    const widthSpan = merge.c1 - merge.c0 + 1;
-    const heightSpan = merge.r1 - merge.r0 + 1;
-
-    if (widthSpan >= 3) {
-      warnings.push({
-        type: 'span_too_large',
-        message: `Horizontal span of ${widthSpan} modules may require additional support`,
-        severity: 'warning',
-        mergeIndex: i,
-      });
-    }
-
-    if (heightSpan >= 3) {
-      warnings.push({
-        type: 'span_too_large',
-        message: `Vertical span of ${heightSpan} modules may require additional support`,
-        severity: 'warning',
-        mergeIndex: i,
-      });
-    }
-  }
-
-  return warnings;
-}
-
 /**
  * Calculate material usage estimates
  */
@@ -51,8 +30,10 @@ export function calculateMaterialEstimate(parts: Part[]): MaterialEstimate {
   let frameBoardFeet = 0;
   let backSquareFeet = 0;
   let doorSquareFeet = 0;
+  let drawerSquareFeet = 0;
   let totalFrameParts = 0;
   let totalDoors = 0;
+  let totalDrawers = 0;
   let hasBack = false;
   
   for (const part of parts) {
@@ -62,6 +43,13 @@ export function calculateMaterialEstimate(parts: Part[]): MaterialEstimate {
       case 'Side':
       case 'VerticalDivider':
       case 'BayShelf':
+      case 'AdjustableShelf':
+      case 'Stretcher':
+      case 'Cleat':
+      case 'WallCleat':
+      case 'Plinth':
+      case 'Countertop':
+      case 'CountertopEdge':
         frameBoardFeet += calculateBoardFeet(
           part.lengthIn,
           part.widthIn,
@@ -80,6 +68,18 @@ export function calculateMaterialEstimate(parts: Part[]): MaterialEstimate {
         doorSquareFeet += (part.lengthIn * part.widthIn * part.qty) / 144;
         totalDoors += part.qty;
         break;
+
+      case 'DrawerSide':
+      case 'DrawerFront':
+      case 'DrawerBack':
+      case 'DrawerBottom':
+        drawerSquareFeet += (part.lengthIn * part.widthIn * part.qty) / 144;
+        break;
+
+      case 'DrawerFace':
+        drawerSquareFeet += (part.lengthIn * part.widthIn * part.qty) / 144;
+        totalDrawers += part.qty;
+        break;
     }
   }
   
@@ -87,31 +87,25 @@ export function calculateMaterialEstimate(parts: Part[]): MaterialEstimate {
     frameBoardFeet,
     backSquareFeet,
     doorSquareFeet,
+    drawerSquareFeet,
+    edgeBandingFeet: calculateEdgeBandingFeet(parts),
     totalFrameParts,
     totalDoors,
+    totalDrawers,
     hasBack,
   };
 }
 
 /**
- * Generate warnings for the current design
+ * Generate warnings for the current design from the design-rule registry
  */
-export function generateWarnings(params: DesignParams): Warning[] {
-  const warnings: Warning[] = [];
-  
-  // Check span warnings
-  warnings.push(...checkSpanWarnings(params));
-  
-  // Add other potential warnings
-  if (params.rows > 4 || params.cols > 4) {
-    warnings.push({
-      type: 'span_too_large',
-      message: 'Large shelving units may require additional bracing or assembly considerations',
-      severity: 'info',
-    });
-  }
-  
-  return warnings;
+export function generateWarnings(
+  params: DesignParams,
+  parts: Part[] = generateParts(params),
+  stability: StabilityAnalysis = analyzeStability(parts, params),
+  deflection: ShelfDeflection[] = analyzeShelfDeflection(parts, params)
+): Warning[] {
+  return runDesignRules({ params, parts, deflection, stability });
 }
 
 /**
@@ -120,17 +114,35 @@ export function generateWarnings(params: DesignParams): Warning[] {
 export interface DesignAnalysis {
   parts: Part[];
   estimate: MaterialEstimate;
+  hardware: HardwareItem[];
+  hinges: HingeLayout[];
+  shelfPins: ShelfPinLayout[];
+  legs: LegLayout | null;
+  deflection: ShelfDeflection[];
+  stability: StabilityAnalysis;
   warnings: Warning[];
 }
 
 export function analyzeDesign(params: DesignParams): DesignAnalysis {
   const parts = generateParts(params);
   const estimate = calculateMaterialEstimate(parts);
-  const warnings = generateWarnings(params);
+  const hardware = calculateHardwareBom(parts, params);
+  const hinges = calculateHingeLayouts(parts, params);
+  const shelfPins = calculateShelfPinLayouts(parts, params);
+  const legs = calculateLegLayout(params, calculateAllDimensions(params));
+  const deflection = analyzeShelfDeflection(parts, params);
+  const stability = analyzeStability(parts, params);
+  const warnings = generateWarnings(params, parts, stability, deflection);
   
   return {
     parts,
     estimate,
+    hardware,
+    hinges,
+    shelfPins,
+    legs,
+    deflection,
+    stability,
     warnings,
   };
 }
\ No newline at end of file
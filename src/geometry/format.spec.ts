@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { toFraction32, formatDimensions, calculateBoardFeet } from './format';
+import { toFraction32, formatDimensions, formatSmallDimension, calculateBoardFeet } from './format';
 
 describe('Format Utilities', () => {
   describe('toFraction32', () => {
@@ -60,6 +60,14 @@ describe('Format Utilities', () => {
     });
   });
   
+  describe('formatSmallDimension', () => {
+    it('should keep thousandths of an inch and tenths of a millimetre', () => {
+      expect(formatSmallDimension(0.0625, 'imperial')).toBe('0.063"');
+      expect(formatSmallDimension(0.0625, 'metric')).toBe('1.6mm');
+      expect(formatSmallDimension(0.004, 'imperial')).toBe('0.004"');
+    });
+  });
+  
   describe('calculateBoardFeet', () => {
     it('should calculate board feet correctly', () => {
       // 1" × 12" × 12" = 144 cubic inches = 1 board foot
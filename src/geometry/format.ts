@@ -55,6 +55,14 @@ export function formatDimension(valueInches: number, unitSystem: 'imperial' | 'm
   return unitSystem === 'metric' ? toMm(valueInches) : toFraction32(valueInches);
 }
 
+/**
+ * Format a small distance such as shelf sag, finer than a cut dimension
+ * e.g., 0.0625 inches -> "0.063"" or "1.6mm"
+ */
+export function formatSmallDimension(valueInches: number, unitSystem: 'imperial' | 'metric'): string {
+  return unitSystem === 'metric' ? `${(valueInches * 25.4).toFixed(1)}mm` : `${valueInches.toFixed(3)}"`;
+}
+
 /**
  * Format dimensions as L×W×T with fractions (imperial only, for backwards compatibility)
  */
@@ -77,4 +85,11 @@ export function formatDimensionsWithUnit(length: number, width: number, thicknes
  */
 export function calculateBoardFeet(lengthIn: number, widthIn: number, thicknessIn: number, qty: number = 1): number {
   return (lengthIn * widthIn * thicknessIn * qty) / 144; // 144 cubic inches per board foot
-}
\ No newline at end of file
+}
+
+/**
+ * Format a weight in pounds or kilograms
+ */
+export function formatWeight(weightLb: number, unitSystem: 'imperial' | 'metric'): string {
+  return unitSystem === 'metric' ? `${(weightLb / 2.20462).toFixed(1)} kg` : `${weightLb.toFixed(1)} lb`;
+}
@@ -0,0 +1,25 @@
+import type { DesignParams, GrainDirection, Part } from './types';
+import { DEFAULT_GRAIN_BY_ROLE } from './constants';
+
+export const GRAIN_DIRECTIONS: GrainDirection[] = ['length', 'across', 'either'];
+
+export const GRAIN_LABELS: Record<GrainDirection, string> = {
+  length: 'Along the length',
+  across: 'Across the length',
+  either: 'Either way',
+};
+
+/**
+ * Grain rule for every part of a role: the design's own rule, else the default
+ */
+export function getRoleGrain(role: Part['role'], params: DesignParams): GrainDirection {
+  return params.grain?.roles?.[role] ?? DEFAULT_GRAIN_BY_ROLE[role] ?? 'either';
+}
+
+/**
+ * Which way the grain must run on a part: its own override, then the rule for its role
+ */
+export function getGrainDirection(part: Part, params: DesignParams): GrainDirection {
+  const override = params.grain?.overrides?.find(o => o.partId === part.id);
+  return override ? override.grain : getRoleGrain(part.role, params);
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { calculateHardwareBom, calculateFastenersPerJoint, calculateHingesPerDoor } from './hardware';
+import { generateParts } from './parts';
+import { DEFAULT_DESIGN, RECOMMENDED_MATERIALS } from './constants';
+import type { DesignParams, Part } from './types';
+
+const bomFor = (params: DesignParams) => calculateHardwareBom(generateParts(params), params);
+
+describe('Hardware BOM', () => {
+  it('should count fasteners for every butt joint in the frame', () => {
+    const bom = bomFor(DEFAULT_DESIGN);
+    const fasteners = bom.find(item => item.id === 'frame-fasteners');
+
+    // 2x2: 4 corners, plus both ends of one divider and two shelves = 10 joints
+    // at 3 fasteners across the 15-3/8" depth
+    expect(fasteners?.qty).toBe(30);
+    expect(fasteners?.name).toContain('screws');
+  });
+
+  it('should skip fasteners for glued dado joints', () => {
+    const bom = bomFor({
+      ...DEFAULT_DESIGN,
+      joinery: { type: 'dado', dadoDepth: 0.25, rabbetDepth: 0.375, fastener: 'dowels' },
+    });
+    const fasteners = bom.find(item => item.id === 'frame-fasteners');
+
+    // Only the four butt-jointed corners remain
+    expect(fasteners?.qty).toBe(12);
+    expect(fasteners?.name).toContain('Dowels');
+  });
+
+  it('should scale fasteners and hinges with size', () => {
+    expect(calculateFastenersPerJoint(4)).toBe(2);
+    expect(calculateFastenersPerJoint(24)).toBe(4);
+
+    const door = { role: 'Door', lengthIn: 13, widthIn: 13, hinge: 'left' } as Part;
+    expect(calculateHingesPerDoor(door)).toBe(2);
+    expect(calculateHingesPerDoor({ ...door, widthIn: 50 })).toBe(3);
+    // Flip-down doors hinge along their width
+    expect(calculateHingesPerDoor({ ...door, widthIn: 50, hinge: 'bottom' })).toBe(2);
+  });
+
+  it('should list hinges, slides, back fasteners and pulls', () => {
+    const bom = bomFor({
+      ...DEFAULT_DESIGN,
+      hasBack: true,
+      hasDoors: true,
+      materials: { ...DEFAULT_DESIGN.materials, back: RECOMMENDED_MATERIALS.back },
+      doorHardware: { type: 'drill-guide', position: 'top-center', inset: 1 },
+      drawers: [{ row: 1, col: 1, count: 2 }],
+    });
+    const byId = (id: string) => bom.find(item => item.id === id);
+
+    expect(byId('hinges')?.qty).toBe(6);
+    expect(byId('slides-14')?.qty).toBe(2);
+    expect(byId('back-fasteners')?.qty).toBeGreaterThan(0);
+    expect(byId('pulls')?.qty).toBe(5);
+  });
+});
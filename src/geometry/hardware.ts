@@ -0,0 +1,250 @@
+import type { DesignParams, HardwareItem, Part } from './types';
+import { formatDimension } from './format';
+import { calculateAllDimensions, calculateJoineryAllowances } from './measurements';
+import { calculateLegLayout } from './base';
+import { PINS_PER_SHELF } from './shelfPins';
+
+// Butt joints get a fastener roughly every 6", and never fewer than two
+const FASTENER_SPACING = 6;
+const MIN_FASTENERS_PER_JOINT = 2;
+
+// Back panels are fastened around their perimeter every 6"
+const BACK_FASTENER_SPACING = 6;
+
+// Wall cleats are screwed into every stud they cross
+const WALL_STUD_SPACING = 16;
+
+// Countertops are screwed up through the Top along its front and back, every 12"
+const COUNTERTOP_FASTENER_SPACING = 12;
+
+// Screws driven through each drawer box into its face
+const SCREWS_PER_DRAWER_FACE = 4;
+
+// Concealed hinges per door, by the length of the hinged edge (inches)
+const HINGE_COUNT_BY_EDGE_LENGTH: Array<{ maxLength: number; count: number }> = [
+  { maxLength: 35, count: 2 },
+  { maxLength: 63, count: 3 },
+  { maxLength: 79, count: 4 },
+];
+const MAX_HINGES_PER_DOOR = 5;
+
+/**
+ * Number of fasteners along a butt joint of the given length
+ */
+export function calculateFastenersPerJoint(jointLength: number): number {
+  return Math.max(MIN_FASTENERS_PER_JOINT, Math.ceil(jointLength / FASTENER_SPACING));
+}
+
+/**
+ * Number of hinges for a door, based on the length of its hinged edge
+ */
+export function calculateHingesPerDoor(door: Part): number {
+  // Side-hung doors hinge along their height, flip-down doors along their width
+  const hingedEdge = door.hinge === 'bottom' ? door.lengthIn : door.widthIn;
+  const rule = HINGE_COUNT_BY_EDGE_LENGTH.find(r => hingedEdge <= r.maxLength);
+  return rule ? rule.count : MAX_HINGES_PER_DOOR;
+}
+
+/**
+ * Build the hardware bill of materials from the parts and joint layout
+ */
+export function calculateHardwareBom(parts: Part[], params: DesignParams): HardwareItem[] {
+  const items: HardwareItem[] = [];
+  const { unitSystem } = params;
+  const allowances = calculateJoineryAllowances(params);
+  const fastener = params.joinery?.fastener ?? 'screws';
+  const fastenerName = fastener === 'dowels' ? 'Dowels' : 'Wood screws';
+
+  const count = (roles: Part['role'][]) =>
+    parts.filter(p => roles.includes(p.role)).reduce((sum, p) => sum + p.qty, 0);
+
+  // Frame joints: four corners, plus both ends of every captured divider and shelf.
+  // Dadoed and rabbeted joints are glued, so only butt joints need fasteners.
+  const frameDepth = parts.find(p => p.role === 'Top')?.widthIn ?? 0;
+  const cornerJoints = allowances.corner > 0 ? 0 : 4;
+  const interiorJoints = allowances.interior > 0 ? 0 : 2 * count(['VerticalDivider', 'BayShelf']);
+  const frameJoints = cornerJoints + interiorJoints;
+  if (frameJoints > 0) {
+    const perJoint = calculateFastenersPerJoint(frameDepth);
+    items.push({
+      id: 'frame-fasteners',
+      category: 'fastener',
+      name: `${fastenerName} (frame)`,
+      qty: frameJoints * perJoint,
+      notes: `${perJoint} per joint × ${frameJoints} butt joints, ${formatDimension(frameDepth, unitSystem)} deep`,
+    });
+  }
+
+  // Drawer boxes: the front and back are butted between the sides at four corners
+  const drawerFaces = count(['DrawerFace']);
+  const drawerSide = parts.find(p => p.role === 'DrawerSide');
+  if (drawerFaces > 0 && drawerSide) {
+    const drawerJoints = 4 * drawerFaces;
+    const perJoint = calculateFastenersPerJoint(drawerSide.widthIn);
+    items.push({
+      id: 'drawer-box-fasteners',
+      category: 'fastener',
+      name: `${fastenerName} (drawer boxes)`,
+      qty: drawerJoints * perJoint,
+      notes: `${perJoint} per joint × ${drawerJoints} corners`,
+    });
+    items.push({
+      id: 'drawer-face-screws',
+      category: 'fastener',
+      name: 'Wood screws (drawer faces)',
+      qty: drawerFaces * SCREWS_PER_DRAWER_FACE,
+      notes: `${SCREWS_PER_DRAWER_FACE} per face, driven from inside the box`,
+    });
+  }
+
+  // Back panels fastened around their perimeters
+  const backs = parts.filter(p => p.role === 'Back');
+  if (backs.length > 0) {
+    const perimeter = backs.reduce((sum, back) => sum + 2 * (back.lengthIn + back.widthIn) * back.qty, 0);
+    items.push({
+      id: 'back-fasteners',
+      category: 'fastener',
+      name: 'Back panel screws',
+      qty: Math.ceil(perimeter / BACK_FASTENER_SPACING),
+      notes: `Every ${formatDimension(BACK_FASTENER_SPACING, unitSystem)} around the ${formatDimension(perimeter, unitSystem)} perimeter`,
+    });
+  }
+
+  // Stretchers and the unit's cleat are butted between the sides
+  const rails = parts.filter(p => p.role === 'Stretcher' || p.role === 'Cleat');
+  if (rails.length > 0) {
+    const railJoints = 2 * rails.reduce((sum, rail) => sum + rail.qty, 0);
+    const perJoint = calculateFastenersPerJoint(rails[0].widthIn);
+    items.push({
+      id: 'rail-fasteners',
+      category: 'fastener',
+      name: `${fastenerName} (rails)`,
+      qty: railJoints * perJoint,
+      notes: `${perJoint} per joint × ${railJoints} rail ends`,
+    });
+  }
+
+  // The wall cleat goes into the studs, and needs at least two of them
+  const wallCleat = parts.find(p => p.role === 'WallCleat');
+  if (wallCleat) {
+    items.push({
+      id: 'wall-cleat-screws',
+      category: 'fastener',
+      name: 'Structural screws (wall cleat)',
+      qty: Math.max(2, Math.floor(wallCleat.lengthIn / WALL_STUD_SPACING) + 1),
+      notes: `Into each stud, ${formatDimension(WALL_STUD_SPACING, unitSystem)} on center`,
+    });
+  }
+
+  // Plinth corners are butted, and the plinth is screwed up into the Bottom along each rail
+  const plinth = parts.filter(p => p.role === 'Plinth');
+  if (plinth.length > 0) {
+    const perCorner = calculateFastenersPerJoint(plinth[0].widthIn);
+    const intoBottom = plinth.reduce((sum, rail) => sum + calculateFastenersPerJoint(rail.lengthIn), 0);
+    items.push({
+      id: 'plinth-fasteners',
+      category: 'fastener',
+      name: `${fastenerName} (plinth)`,
+      qty: 4 * perCorner + intoBottom,
+      notes: `${perCorner} per corner × 4 corners, plus ${intoBottom} up into the bottom`,
+    });
+  }
+
+  // Countertop screwed up through the carcass Top along its front and back edges
+  const top = parts.find(p => p.role === 'Top');
+  if (params.countertop && top) {
+    const perEdge = Math.max(MIN_FASTENERS_PER_JOINT, Math.ceil(top.lengthIn / COUNTERTOP_FASTENER_SPACING));
+    items.push({
+      id: 'countertop-screws',
+      category: 'fastener',
+      name: 'Wood screws (countertop)',
+      qty: 2 * perEdge,
+      notes: `Up through the top, ${perEdge} along the front and back; slot the back holes`,
+    });
+  }
+
+  // Screw-on legs, each with a mounting plate
+  const legs = calculateLegLayout(params, calculateAllDimensions(params));
+  if (legs) {
+    items.push({
+      id: 'legs',
+      category: 'support',
+      name: `Legs, ${formatDimension(legs.heightIn, unitSystem)}`,
+      qty: legs.legs.length,
+      notes: 'With mounting plates',
+    });
+    items.push({
+      id: 'leg-plate-screws',
+      category: 'fastener',
+      name: 'Wood screws (leg plates)',
+      qty: legs.plateHoles.length,
+      notes: `${legs.plateHoles.length / legs.legs.length} per plate`,
+    });
+  }
+
+  // Concealed hinges, sized per door
+  const doors = parts.filter(p => p.role === 'Door');
+  if (doors.length > 0) {
+    const hinges = doors.reduce((sum, door) => sum + calculateHingesPerDoor(door) * door.qty, 0);
+    items.push({
+      id: 'hinges',
+      category: 'hinge',
+      name: `Concealed hinges (${params.doorMode.type})`,
+      qty: hinges,
+      notes: `${doors.length} ${doors.length === 1 ? 'door' : 'doors'}, 2-5 per door by height`,
+    });
+
+    const flipDownDoors = doors.filter(door => door.hinge === 'bottom').length;
+    if (flipDownDoors > 0) {
+      items.push({
+        id: 'flap-stays',
+        category: 'support',
+        name: 'Flap stays (pairs)',
+        qty: flipDownDoors,
+        notes: 'One pair per flip-down door',
+      });
+    }
+  }
+
+  // Pins under the corners of each adjustable shelf
+  const adjustableShelves = count(['AdjustableShelf']);
+  if (adjustableShelves > 0) {
+    items.push({
+      id: 'shelf-pins',
+      category: 'support',
+      name: 'Shelf pins, 5mm',
+      qty: PINS_PER_SHELF * adjustableShelves,
+      notes: `${PINS_PER_SHELF} per shelf`,
+    });
+  }
+
+  // Side-mount slides, one pair per drawer, grouped by length
+  const slideCounts = new Map<number, number>();
+  for (const side of parts.filter(p => p.role === 'DrawerSide' && p.id.endsWith('L'))) {
+    slideCounts.set(side.lengthIn, (slideCounts.get(side.lengthIn) ?? 0) + side.qty);
+  }
+  for (const [length, pairs] of slideCounts) {
+    items.push({
+      id: `slides-${length}`,
+      category: 'slide',
+      name: `Side-mount drawer slides, ${formatDimension(length, unitSystem)} (pairs)`,
+      qty: pairs,
+    });
+  }
+
+  // Knobs or pulls for the drill-guide hardware option (pull holes need nothing)
+  if (params.doorHardware?.type === 'drill-guide') {
+    const pulls = doors.length + drawerFaces;
+    if (pulls > 0) {
+      items.push({
+        id: 'pulls',
+        category: 'pull',
+        name: 'Knobs or pulls',
+        qty: pulls,
+        notes: 'One per door and drawer face',
+      });
+    }
+  }
+
+  return items;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { calculateHingeCupPositions, calculateHingeLayouts } from './hinges';
+import { generateParts } from './parts';
+import { DEFAULT_DESIGN, RECOMMENDED_MATERIALS } from './constants';
+import type { DesignParams, DoorSpec } from './types';
+
+const withDoors = (doors: DoorSpec[], overrides: Partial<DesignParams> = {}): DesignParams => ({
+  ...DEFAULT_DESIGN,
+  hasDoors: true,
+  doors,
+  materials: { ...DEFAULT_DESIGN.materials, door: RECOMMENDED_MATERIALS.door },
+  ...overrides,
+});
+
+const layoutsFor = (params: DesignParams) => calculateHingeLayouts(generateParts(params), params);
+
+describe('Hinge boring', () => {
+  it('should space cups evenly between the end offsets', () => {
+    expect(calculateHingeCupPositions(13, 2)).toEqual([3, 10]);
+    expect(calculateHingeCupPositions(40, 3)).toEqual([3, 20, 37]);
+    // Short doors pull the cups in from the ends
+    expect(calculateHingeCupPositions(8, 2)).toEqual([2, 6]);
+  });
+
+  it('should put plates on the side or divider at the hinged edge, level with the cups', () => {
+    const [outer, inner] = layoutsFor(withDoors([
+      { row: 0, col: 0, style: 'single-left' },
+      { row: 0, col: 1, style: 'single-left' },
+    ]));
+
+    expect(outer.plateHoles.every(hole => hole.partId === 'Side-0-L')).toBe(true);
+    expect(inner.plateHoles.every(hole => hole.partId === 'VDiv-1-R0to2')).toBe(true);
+    expect(outer.plateHoles).toHaveLength(4);
+
+    // The inset door's top sits one reveal below the top of the side, so the first
+    // plate (centered between its two holes) lands a reveal below the first cup
+    const firstPlate = (outer.plateHoles[0].positionIn + outer.plateHoles[1].positionIn) / 2;
+    expect(firstPlate).toBeCloseTo(outer.cupPositions[0] + 1 / 16);
+  });
+
+  it('should set inset plates back by the door thickness', () => {
+    const doors: DoorSpec[] = [{ row: 0, col: 0 }];
+    const [inset] = layoutsFor(withDoors(doors));
+    const [overlay] = layoutsFor(withDoors(doors, {
+      doorMode: { ...DEFAULT_DESIGN.doorMode, type: 'overlay' },
+    }));
+
+    expect(overlay.plateSetbackIn).toBeCloseTo(37 / 25.4);
+    expect(inset.plateSetbackIn).toBeCloseTo(37 / 25.4 + RECOMMENDED_MATERIALS.door.actualInches);
+  });
+
+  it('should hang paired and flip-down doors from the right parts', () => {
+    const layouts = layoutsFor(withDoors([
+      { row: 0, col: 0, style: 'paired' },
+      { row: 0, col: 1, style: 'flip-down' },
+    ]));
+    const byDoor = (id: string) => layouts.find(layout => layout.doorId === id)!;
+
+    expect(byDoor('Door-0-L').plateHoles[0].partId).toBe('Side-0-L');
+    expect(byDoor('Door-0-R').plateHoles[0].partId).toBe('VDiv-1-R0to2');
+    expect(byDoor('Door-1').hinge).toBe('bottom');
+    expect(byDoor('Door-1').plateHoles[0].partId).toBe('Bay-1-Col1to2');
+  });
+});
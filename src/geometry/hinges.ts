@@ -0,0 +1,111 @@
+import type { DesignParams, HingeLayout, HingePlateHole, Part } from './types';
+import { calculateHingesPerDoor } from './hardware';
+import { calculateAllDimensions, calculatePartPosition, SCENE_SCALE } from './measurements';
+
+// 35mm Euro hinge cups, bored 5mm in from the hinged edge of the door
+export const HINGE_CUP_DIAMETER = 35 / 25.4;
+const HINGE_CUP_BORING_DISTANCE = 5 / 25.4;
+
+// Cups sit 3" from each end of the hinged edge, closer on very short doors
+const HINGE_CUP_END_OFFSET = 3;
+
+// System 32 mounting plates: two screw holes 32mm apart, 37mm back from the front edge
+const PLATE_HOLE_SPACING = 32 / 25.4;
+const PLATE_SETBACK = 37 / 25.4;
+
+/**
+ * Cup centers along a hinged edge, evenly spaced between the end offsets
+ */
+export function calculateHingeCupPositions(edgeLength: number, count: number): number[] {
+  const endOffset = Math.min(HINGE_CUP_END_OFFSET, edgeLength / 4);
+  const spacing = (edgeLength - 2 * endOffset) / (count - 1);
+  return Array.from({ length: count }, (_, i) => endOffset + i * spacing);
+}
+
+/**
+ * Frame parts a door's hinged edge can screw to.
+ * Side-hung doors mount to the Side or VerticalDivider on their hinged side,
+ * flip-down doors to the shelf or Bottom below them.
+ */
+function getMountingCandidates(door: Part, parts: Part[], params: DesignParams): Part[] {
+  const bay = door.bay!;
+
+  let candidates: Part[];
+  if (door.hinge === 'bottom') {
+    const rowEnd = bay.rowEnd ?? bay.row + 1;
+    candidates = rowEnd === params.rows
+      ? parts.filter(p => p.role === 'Bottom')
+      : parts.filter(p => p.role === 'BayShelf' && p.bay?.row === rowEnd);
+  } else {
+    const column = door.hinge === 'left' ? bay.colStart : bay.colEnd;
+    if (column === 0) {
+      candidates = parts.filter(p => p.role === 'Side' && p.id.endsWith('-L'));
+    } else if (column === params.cols) {
+      candidates = parts.filter(p => p.role === 'Side' && p.id.endsWith('-R'));
+    } else {
+      candidates = parts.filter(p => p.role === 'VerticalDivider' && p.bay?.colStart === column);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Work out the hinge cups for one door and the plate holes on the part it hangs from.
+ * Overlay doors cover the frame edge, so plates sit at the standard setback; inset
+ * doors sit inside the opening, so the plates move back by the door thickness.
+ */
+export function calculateHingeLayout(door: Part, parts: Part[], params: DesignParams): HingeLayout | null {
+  if (door.role !== 'Door' || !door.hinge || !door.bay) return null;
+
+  const dimensions = calculateAllDimensions(params);
+  const flipDown = door.hinge === 'bottom';
+  const edgeLength = flipDown ? door.lengthIn : door.widthIn;
+  const cupPositions = calculateHingeCupPositions(edgeLength, calculateHingesPerDoor(door));
+  const plateSetbackIn = params.doorMode.type === 'inset'
+    ? PLATE_SETBACK + door.thicknessIn
+    : PLATE_SETBACK;
+
+  // Door edge the cup positions are measured from, in carcass coordinates (inches)
+  const [doorX, doorY] = calculatePartPosition(door, params, dimensions).map(v => v / SCENE_SCALE);
+  const doorTop = doorY + door.widthIn / 2;
+  const doorLeft = doorX - door.lengthIn / 2;
+
+  // Each cup's plate goes on whichever candidate part reaches it
+  const candidates = getMountingCandidates(door, parts, params).map(part => {
+    const [x, y] = calculatePartPosition(part, params, dimensions).map(v => v / SCENE_SCALE);
+    // Vertical parts are measured down from their top, horizontal parts from their left end
+    const start = flipDown ? x - part.lengthIn / 2 : y + part.lengthIn / 2;
+    return { part, start };
+  });
+
+  const plateHoles: HingePlateHole[] = [];
+  for (const cup of cupPositions) {
+    const along = (start: number) => flipDown ? doorLeft + cup - start : start - (doorTop - cup);
+    const mount = candidates.find(({ part, start }) => along(start) >= 0 && along(start) <= part.lengthIn);
+    if (!mount) continue;
+
+    const center = along(mount.start);
+    for (const offset of [-PLATE_HOLE_SPACING / 2, PLATE_HOLE_SPACING / 2]) {
+      plateHoles.push({ partId: mount.part.id, positionIn: center + offset });
+    }
+  }
+
+  return {
+    doorId: door.id,
+    hinge: door.hinge,
+    cupDiameterIn: HINGE_CUP_DIAMETER,
+    cupInsetIn: HINGE_CUP_BORING_DISTANCE + HINGE_CUP_DIAMETER / 2,
+    cupPositions,
+    plateSetbackIn,
+    plateHoles,
+  };
+}
+
+/**
+ * Hinge layouts for every door in the design
+ */
+export function calculateHingeLayouts(parts: Part[], params: DesignParams): HingeLayout[] {
+  return parts
+    .map(part => calculateHingeLayout(part, parts, params))
+    .filter((layout): layout is HingeLayout => layout !== null);
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { calculateInsertHoleLayouts } from './inserts';
+import { generateWarnings } from './estimate';
+import { getDoorOpenings } from './openings';
+import { generateParts } from './parts';
+import { DEFAULT_DESIGN, KALLAX_INSERTS } from './constants';
+import type { DesignParams, InsertSpec } from './types';
+
+const withInserts = (inserts: InsertSpec[], overrides: Partial<DesignParams> = {}): DesignParams => ({
+  ...DEFAULT_DESIGN,
+  inserts,
+  ...overrides,
+});
+
+describe('Kallax inserts', () => {
+  it('should place a door insert\'s hinge holes on the side next to its cell', () => {
+    const params = withInserts([{ row: 0, col: 0, insert: 'door' }], { hasDoors: true });
+    const [layout] = calculateInsertHoleLayouts(generateParts(params), params);
+    const catalog = KALLAX_INSERTS.door;
+
+    expect(layout.holes).toHaveLength(catalog.holes.length);
+    expect(layout.holes.every(hole => hole.partId === 'Side-0-L' && hole.face === 'right')).toBe(true);
+    // The side runs down from the underside of the top, which is the top of the cell
+    expect(layout.holes[0].positionIn).toBeCloseTo(DEFAULT_DESIGN.interiorClearance - catalog.holes[0].alongIn);
+    expect(layout.holes[0].setbackIn).toBeCloseTo(37 / 25.4);
+
+    // The insert brings its own door
+    expect(getDoorOpenings(params).some(({ opening }) => opening.row === 0 && opening.col === 0)).toBe(false);
+    expect(getDoorOpenings(params)).toHaveLength(3);
+  });
+
+  it('should spread drawer insert holes over both sides and the shelf below', () => {
+    const params = withInserts([{ row: 0, col: 1, insert: 'drawers-2' }]);
+    const parts = generateParts(params);
+    const [layout] = calculateInsertHoleLayouts(parts, params);
+    const partIds = [...new Set(layout.holes.map(hole => hole.partId))];
+
+    expect(layout.holes).toHaveLength(KALLAX_INSERTS['drawers-2'].holes.length);
+    expect(partIds.some(id => id.startsWith('VDiv-1'))).toBe(true);
+    expect(partIds).toContain('Side-1-R');
+
+    // Holes in the shelf below are measured from its left end, either side of the cell's middle
+    const shelfHoles = layout.holes.filter(hole => hole.face === 'top');
+    const shelf = parts.find(p => p.id === shelfHoles[0].partId)!;
+    expect(shelf.role).toBe('BayShelf');
+    const positions = [...new Set(shelfHoles.map(hole => hole.positionIn.toFixed(4)))].map(Number);
+    expect(positions).toHaveLength(2);
+    expect((positions[0] + positions[1]) / 2).toBeCloseTo(shelf.lengthIn / 2);
+
+    // Merged openings never take an insert
+    const merged = { ...params, merges: [{ r0: 0, c0: 1, r1: 1, c1: 1 }] };
+    expect(calculateInsertHoleLayouts(generateParts(merged), merged)).toHaveLength(0);
+  });
+
+  it('should warn when a cell is outside the insert\'s tolerance', () => {
+    const types = (params: DesignParams) => generateWarnings(params).map(warning => warning.type);
+    const inserts: InsertSpec[] = [{ row: 0, col: 0, insert: 'shelf' }];
+
+    expect(types(withInserts(inserts))).not.toContain('insert_out_of_tolerance');
+    expect(types(withInserts(inserts, { interiorClearance: 12 }))).toContain('insert_out_of_tolerance');
+    expect(types(withInserts(inserts, { columnWidths: [14] }))).toContain('insert_out_of_tolerance');
+    expect(types(withInserts(inserts, { depth: 13.5 }))).toContain('insert_out_of_tolerance');
+
+    // Only the cell with the insert is flagged
+    const warning = generateWarnings(withInserts(inserts, { interiorClearance: 12 }))
+      .find(w => w.type === 'insert_out_of_tolerance')!;
+    expect(warning.cells).toEqual([{ row: 0, col: 0 }]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { CellSurface, DesignParams, InsertHole, InsertHoleLayout, InsertSpec, Opening, Part } from './types';
+import { KALLAX_INSERTS } from './constants';
+import { getInsertOpenings } from './openings';
+import {
+  calculateAllDimensions,
+  calculateGridLineOffset,
+  calculateGridMetrics,
+  calculatePartPosition,
+  getCarcassHeight,
+  SCENE_SCALE,
+} from './measurements';
+
+// Face of the drilled part that looks into the cell, for each surface of the cell
+const FACING: Record<CellSurface, CellSurface> = {
+  left: 'right',
+  right: 'left',
+  top: 'bottom',
+  bottom: 'top',
+};
+
+/**
+ * Parts forming one surface of a cell: the Side or VerticalDivider segments on the grid
+ * line either side of it, or the Top, Bottom or BayShelf on the grid line above or below
+ */
+function getSurfaceParts(opening: Opening, surface: CellSurface, parts: Part[], params: DesignParams): Part[] {
+  if (surface === 'left' || surface === 'right') {
+    const column = surface === 'left' ? opening.col : opening.col + 1;
+    if (column === 0) return parts.filter(p => p.role === 'Side' && p.id.endsWith('-L'));
+    if (column === params.cols) return parts.filter(p => p.role === 'Side' && p.id.endsWith('-R'));
+    return parts.filter(p => p.role === 'VerticalDivider' && p.bay?.colStart === column);
+  }
+
+  const line = surface === 'top' ? opening.row : opening.row + 1;
+  if (line === 0) return parts.filter(p => p.role === 'Top');
+  if (line === params.rows) return parts.filter(p => p.role === 'Bottom');
+  return parts.filter(p => p.role === 'BayShelf' && p.bay?.row === line &&
+    p.bay.colStart <= opening.col && opening.col < p.bay.colEnd);
+}
+
+/**
+ * Work out where the insert in one cell is screwed to the parts around it.
+ * Holes up the sides are measured down from the top of the drilled part, holes in
+ * the shelf above or below from its left end, and both from its front edge.
+ */
+export function calculateInsertHoleLayout(
+  opening: Opening,
+  insert: InsertSpec,
+  parts: Part[],
+  params: DesignParams
+): InsertHoleLayout {
+  const catalogInsert = KALLAX_INSERTS[insert.insert];
+  const dimensions = calculateAllDimensions(params);
+  const { columnWidths, rowHeights, frameThickness } = calculateGridMetrics(params);
+
+  // Bottom left corner and middle of the cell, in carcass coordinates (inches)
+  const cellLeft = -dimensions.extWidth / 2 + calculateGridLineOffset(columnWidths, opening.col, frameThickness) + frameThickness;
+  const cellMiddle = cellLeft + columnWidths[opening.col] / 2;
+  const cellBottom = getCarcassHeight(dimensions) / 2 - calculateGridLineOffset(rowHeights, opening.row + 1, frameThickness);
+
+  const holes: InsertHole[] = [];
+  for (const hole of catalogInsert.holes) {
+    const vertical = hole.surface === 'left' || hole.surface === 'right';
+    const candidates = getSurfaceParts(opening, hole.surface, parts, params).map(part => {
+      const [x, y] = calculatePartPosition(part, params, dimensions).map(v => v / SCENE_SCALE);
+      return { part, start: vertical ? y + part.lengthIn / 2 : x - part.lengthIn / 2 };
+    });
+
+    const along = (start: number) => vertical
+      ? start - (cellBottom + hole.alongIn)
+      : cellMiddle + hole.alongIn - start;
+    const mount = candidates.find(({ part, start }) => along(start) >= 0 && along(start) <= part.lengthIn);
+    if (!mount) continue;
+
+    holes.push({
+      partId: mount.part.id,
+      positionIn: along(mount.start),
+      setbackIn: hole.setbackIn,
+      face: FACING[hole.surface],
+    });
+  }
+
+  return {
+    row: opening.row,
+    col: opening.col,
+    insert: insert.insert,
+    holeDiameterIn: catalogInsert.holeDiameterIn,
+    holes,
+  };
+}
+
+/**
+ * Fixing-hole layouts for every cell with a Kallax insert
+ */
+export function calculateInsertHoleLayouts(parts: Part[], params: DesignParams): InsertHoleLayout[] {
+  return getInsertOpenings(params).map(({ opening, insert }) => calculateInsertHoleLayout(opening, insert, parts, params));
+}
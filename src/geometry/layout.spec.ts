@@ -102,4 +102,68 @@ describe('Layout Calculation', () => {
     // No horizontal segments in 1-row configuration
     expect(layout.horizontalSegments).toHaveLength(0);
   });
-});
\ No newline at end of file
+
+  it('should size exterior dimensions from per-column widths and per-row heights', () => {
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      rows: 2,
+      cols: 3,
+      columnWidths: [null, 20, null],
+      rowHeights: [null, 16],
+    };
+
+    const dims = calculateAllDimensions(params);
+    const L = 13.25;
+    const t = 23/32;
+
+    expect(dims.extWidth).toBeCloseTo(L + 20 + L + 4 * t, 4);
+    expect(dims.extHeight).toBeCloseTo(L + 16 + 3 * t, 4);
+  });
+
+  it('should size vertical divider segments from row heights', () => {
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      rows: 3,
+      cols: 2,
+      rowHeights: [10, 12, 14],
+      merges: [
+        { r0: 1, c0: 0, r1: 1, c1: 1 }, // Horizontal merge breaks the divider in the middle row
+      ],
+    };
+
+    const layout = calculateLayout(params);
+    const segments = layout.verticalSegments.filter(s => s.column === 1);
+
+    expect(segments).toHaveLength(2);
+    expect(segments[0].lengthIn).toBeCloseTo(10, 4);
+    expect(segments[1].lengthIn).toBeCloseTo(14, 4);
+  });
+
+  it('should run shelves through short divider segments for continuous-shelves construction', () => {
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      rows: 3,
+      cols: 3,
+      constructionStyle: 'continuous-shelves',
+      merges: [
+        { r0: 0, c0: 0, r1: 1, c1: 0 }, // Vertical merge removes the left end of the first shelf
+      ],
+    };
+
+    const layout = calculateLayout(params);
+
+    expect(layout.horizontalSegments).toEqual([
+      { row: 1, colStart: 1, colEnd: 3 },
+      { row: 2, colStart: 0, colEnd: 3 },
+    ]);
+
+    // Column 1 bounds the merged cell, so it only breaks at the full-width shelf
+    const col1 = layout.verticalSegments.filter(s => s.column === 1);
+    expect(col1.map(s => [s.rowStart, s.rowEnd])).toEqual([[0, 2], [2, 3]]);
+
+    // Column 2 breaks at every shelf
+    const col2 = layout.verticalSegments.filter(s => s.column === 2);
+    expect(col2.map(s => [s.rowStart, s.rowEnd])).toEqual([[0, 1], [1, 2], [2, 3]]);
+    expect(col2[0].lengthIn).toBeCloseTo(13.25, 4);
+  });
+});
@@ -1,11 +1,10 @@
 import type { DesignParams, MergeSpec, LayoutInfo, VerticalSegment, ExtendedShelf } from './types';
-import { getThicknessInInches } from './types';
-import { calculateSideHeight } from './measurements';
+import { calculateExteriorHeight, calculateGridMetrics, calculateSideHeight, calculateSpanSize, getConstructionStyle } from './measurements';
 
 /**
  * Check if two adjacent cells are merged together
  */
-function areCellsMerged(
+export function areCellsMerged(
   row1: number, col1: number, 
   row2: number, col2: number, 
   merges: MergeSpec[]
@@ -186,7 +185,7 @@ function calculateVerticalSegments(
   merges: MergeSpec[], 
   presentVerticals: Set<number>,
   frameThickness: number,
-  interiorClearance: number
+  rowHeights: number[]
 ): VerticalSegment[] {
   const segments: VerticalSegment[] = [];
   
@@ -201,7 +200,7 @@ function calculateVerticalSegments(
     if (crossingMerges.length === 0) {
       // No horizontal merges cross this column - full height divider
       const fullHeight = calculateSideHeight(
-        rows * interiorClearance + (rows + 1) * frameThickness,
+        calculateExteriorHeight(rowHeights, frameThickness),
         frameThickness
       );
       segments.push({
@@ -224,8 +223,7 @@ function calculateVerticalSegments(
       for (let r = 0; r <= rows; r++) {
         if (mergeRows.has(r) || r === rows) {
           if (r > segmentStart) {
-            const segmentHeight = (r - segmentStart) * interiorClearance +
-                                 (r - segmentStart - 1) * frameThickness;
+            const segmentHeight = calculateSpanSize(rowHeights, segmentStart, r, frameThickness);
             if (segmentHeight > 0) {
               segments.push({
                 column: col,
@@ -244,30 +242,120 @@ function calculateVerticalSegments(
   return segments;
 }
 
+/**
+ * Calculate shelf segments that run through interior verticals from side to side,
+ * breaking only where a vertical merge removes the shelf (continuous-shelves construction)
+ */
+function calculateContinuousHorizontalSegments(
+  rows: number,
+  cols: number,
+  merges: MergeSpec[]
+): Array<{ row: number; colStart: number; colEnd: number }> {
+  const segments: Array<{ row: number; colStart: number; colEnd: number }> = [];
+
+  for (let r = 1; r < rows; r++) {
+    let runStart: number | null = null;
+
+    for (let c = 0; c <= cols; c++) {
+      const hasShelf = c < cols && !areCellsMerged(r - 1, c, r, c, merges);
+
+      if (hasShelf && runStart === null) {
+        runStart = c;
+      } else if (!hasShelf && runStart !== null) {
+        segments.push({ row: r, colStart: runStart, colEnd: c });
+        runStart = null;
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Calculate vertical divider segments that stop at every shelf running through their column
+ * (continuous-shelves construction)
+ */
+function calculateShortVerticalSegments(
+  rows: number,
+  cols: number,
+  merges: MergeSpec[],
+  presentVerticals: Set<number>,
+  horizontalSegments: Array<{ row: number; colStart: number; colEnd: number }>,
+  frameThickness: number,
+  rowHeights: number[]
+): VerticalSegment[] {
+  const segments: VerticalSegment[] = [];
+  const verticalCols = Array.from(presentVerticals).sort((a, b) => a - b);
+
+  for (const col of verticalCols) {
+    if (col === 0 || col === cols) continue; // Skip sides - they're handled separately
+
+    let segmentStart: number | null = null;
+
+    for (let r = 0; r <= rows; r++) {
+      // The divider is needed in this row unless the cells on either side are merged
+      const isNeeded = r < rows && !areCellsMerged(r, col - 1, r, col, merges);
+      // A shelf running through this column at the top of row r ends the current segment
+      const isCrossedByShelf = horizontalSegments.some(segment =>
+        segment.row === r && segment.colStart < col && segment.colEnd > col
+      );
+
+      if (segmentStart !== null && (!isNeeded || isCrossedByShelf)) {
+        segments.push({
+          column: col,
+          rowStart: segmentStart,
+          rowEnd: r,
+          lengthIn: calculateSpanSize(rowHeights, segmentStart, r, frameThickness),
+        });
+        segmentStart = null;
+      }
+
+      if (isNeeded && segmentStart === null) {
+        segmentStart = r;
+      }
+    }
+  }
+
+  return segments;
+}
+
 /**
  * Calculate the layout info (which verticals and horizontals are present)
  */
 export function calculateLayout(params: DesignParams): LayoutInfo {
   const presentVerticals = calculatePresentVerticals(params.rows, params.cols, params.merges);
-  const horizontalSegments = calculateHorizontalSegments(
-    params.rows,
-    params.cols,
-    params.merges,
-    presentVerticals
-  );
+  const continuousShelves = getConstructionStyle(params) === 'continuous-shelves';
 
-  const frameThickness = getThicknessInInches(params.materials.frame);
-  // Convert to inches for calculations
-  const interiorClearanceInches = params.unitSystem === 'metric' ? params.interiorClearance / 25.4 : params.interiorClearance;
+  const horizontalSegments = continuousShelves
+    ? calculateContinuousHorizontalSegments(params.rows, params.cols, params.merges)
+    : calculateHorizontalSegments(
+        params.rows,
+        params.cols,
+        params.merges,
+        presentVerticals
+      );
 
-  const verticalSegments = calculateVerticalSegments(
-    params.rows,
-    params.cols,
-    params.merges,
-    presentVerticals,
-    frameThickness,
-    interiorClearanceInches
-  );
+  // Row heights are resolved in inches for calculations
+  const grid = calculateGridMetrics(params);
+
+  const verticalSegments = continuousShelves
+    ? calculateShortVerticalSegments(
+        params.rows,
+        params.cols,
+        params.merges,
+        presentVerticals,
+        horizontalSegments,
+        grid.frameThickness,
+        grid.rowHeights
+      )
+    : calculateVerticalSegments(
+        params.rows,
+        params.cols,
+        params.merges,
+        presentVerticals,
+        grid.frameThickness,
+        grid.rowHeights
+      );
   
   const extendedShelves: ExtendedShelf[] = [];
   
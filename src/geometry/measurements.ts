@@ -7,8 +7,13 @@
  * Metric values are converted to inches before calculations.
  */
 
-import type { DesignParams, DerivedDimensions } from './types';
+import type { ConstructionStyle, DesignParams, DerivedDimensions, GridMetrics, JoineryAllowances, Part } from './types';
 import { getThicknessInInches } from './types';
+import { calculateDrawerLayout, DRAWER_BOTTOM_GROOVE_OFFSET } from './drawers';
+import { calculateEdgeOverlays, getBayOpening } from './openings';
+import { calculateBackRecess, getBackThickness, isBackSurfaceMounted } from './backs';
+import { calculateBaseHeight, calculatePlinthSetback } from './base';
+import { calculateCountertopEdgeWidth, calculateCountertopOverhangs, calculateCountertopSize, calculateCountertopThickness } from './countertop';
 
 // ============================================================================
 // FIXED MATERIAL CONSTANTS
@@ -38,22 +43,85 @@ export function toMm(value: number, unitSystem: 'imperial' | 'metric'): number {
   return unitSystem === 'imperial' ? value * INCHES_TO_MM : value;
 }
 
+// ============================================================================
+// GRID SIZE HELPERS
+// ============================================================================
+
+/**
+ * Resolve the interior width of every column in the design's own units.
+ * Columns without an override fall back to the shared interiorClearance.
+ */
+export function resolveColumnWidths(params: DesignParams): number[] {
+  return Array.from({ length: params.cols }, (_, c) => params.columnWidths?.[c] ?? params.interiorClearance);
+}
+
+/**
+ * Resolve the interior height of every row in the design's own units.
+ * Rows without an override fall back to the shared interiorClearance.
+ */
+export function resolveRowHeights(params: DesignParams): number[] {
+  return Array.from({ length: params.rows }, (_, r) => params.rowHeights?.[r] ?? params.interiorClearance);
+}
+
+/**
+ * Resolve column widths, row heights and frame thickness in inches
+ */
+export function calculateGridMetrics(params: DesignParams): GridMetrics {
+  return {
+    columnWidths: resolveColumnWidths(params).map(w => toInches(w, params.unitSystem)),
+    rowHeights: resolveRowHeights(params).map(h => toInches(h, params.unitSystem)),
+    frameThickness: getThicknessInInches(params.materials.frame),
+  };
+}
+
+/**
+ * Check whether any column or row differs from the shared interiorClearance
+ */
+export function hasCustomGridSizes(params: DesignParams): boolean {
+  return resolveColumnWidths(params).some(w => w !== params.interiorClearance) ||
+    resolveRowHeights(params).some(h => h !== params.interiorClearance);
+}
+
+/**
+ * Calculate the clear size of a run of cells (from index start up to, not including, end)
+ * Includes the frame thickness of the dividers/shelves that would sit between them
+ */
+export function calculateSpanSize(sizes: number[], start: number, end: number, frameThickness: number): number {
+  let total = 0;
+  for (let i = start; i < end; i++) {
+    total += sizes[i];
+  }
+  return total + Math.max(0, end - start - 1) * frameThickness;
+}
+
+/**
+ * Distance from the outer edge of the carcass to the near face of the frame member at a grid line
+ * Grid line 0 is the left side / top, grid line n is the right side / bottom
+ */
+export function calculateGridLineOffset(sizes: number[], index: number, frameThickness: number): number {
+  let total = 0;
+  for (let i = 0; i < index; i++) {
+    total += sizes[i];
+  }
+  return total + index * frameThickness;
+}
+
 // ============================================================================
 // CALCULATION FORMULAS
 // ============================================================================
 
 /**
- * Calculate exterior width based on grid and frame thickness
+ * Calculate exterior width based on column widths and frame thickness
  */
-export function calculateExteriorWidth(cols: number, interiorClearanceInches: number, frameThickness: number): number {
-  return cols * interiorClearanceInches + (cols + 1) * frameThickness;
+export function calculateExteriorWidth(columnWidthsInches: number[], frameThickness: number): number {
+  return calculateGridLineOffset(columnWidthsInches, columnWidthsInches.length, frameThickness) + frameThickness;
 }
 
 /**
- * Calculate exterior height based on grid and frame thickness
+ * Calculate exterior height based on row heights and frame thickness
  */
-export function calculateExteriorHeight(rows: number, interiorClearanceInches: number, frameThickness: number): number {
-  return rows * interiorClearanceInches + (rows + 1) * frameThickness;
+export function calculateExteriorHeight(rowHeightsInches: number[], frameThickness: number): number {
+  return calculateGridLineOffset(rowHeightsInches, rowHeightsInches.length, frameThickness) + frameThickness;
 }
 
 /**
@@ -64,10 +132,10 @@ export function calculateExteriorDepth(depthInches: number, hasBack: boolean, ba
 }
 
 /**
- * Calculate bay width for a span of modules
+ * Calculate bay width for a span of columns
  */
-export function calculateBayWidth(moduleCount: number, interiorClearanceInches: number, frameThickness: number): number {
-  return moduleCount * interiorClearanceInches + (moduleCount - 1) * frameThickness;
+export function calculateBayWidth(columnWidthsInches: number[], colStart: number, colEnd: number, frameThickness: number): number {
+  return calculateSpanSize(columnWidthsInches, colStart, colEnd, frameThickness);
 }
 
 /**
@@ -77,30 +145,70 @@ export function calculateSideHeight(extHeight: number, frameThickness: number):
   return extHeight - 2 * frameThickness;
 }
 
+/**
+ * Resolve the construction style, defaulting designs saved before it was configurable
+ */
+export function getConstructionStyle(params: DesignParams): ConstructionStyle {
+  return params.constructionStyle ?? 'continuous-dividers';
+}
+
+/**
+ * Resolve the extra length each captured part end needs for the selected joinery
+ * Rabbets only occur at the four outer corners; every interior joint is a dado
+ */
+export function calculateJoineryAllowances(params: DesignParams): JoineryAllowances {
+  const { joinery, unitSystem } = params;
+  if (!joinery || joinery.type === 'butt') {
+    return { corner: 0, interior: 0 };
+  }
+
+  return {
+    corner: joinery.type === 'rabbet' ? toInches(joinery.rabbetDepth, unitSystem) : 0,
+    interior: toInches(joinery.dadoDepth, unitSystem),
+  };
+}
+
 /**
  * Calculate complete derived dimensions from design parameters
  * All calculations are done in inches internally, then results are returned in inches
  */
 export function calculateAllDimensions(params: DesignParams): DerivedDimensions {
-  const { rows, cols, interiorClearance, depth, hasBack, materials, unitSystem } = params;
+  const { depth, unitSystem } = params;
 
   // Convert to inches for internal calculations
-  const interiorClearanceInches = toInches(interiorClearance, unitSystem);
+  const grid = calculateGridMetrics(params);
   const depthInches = toInches(depth, unitSystem);
-  const frameThickness = getThicknessInInches(materials.frame);
-  const backThickness = materials.back ? getThicknessInInches(materials.back) : 0;
 
-  const extWidth = calculateExteriorWidth(cols, interiorClearanceInches, frameThickness);
-  const extHeight = calculateExteriorHeight(rows, interiorClearanceInches, frameThickness);
-  const extDepth = calculateExteriorDepth(depthInches, hasBack, backThickness);
+  // Inset backs sit inside the carcass, so only surface-mounted backs add depth
+  const extWidth = calculateExteriorWidth(grid.columnWidths, grid.frameThickness);
+  const extDepth = calculateExteriorDepth(depthInches, isBackSurfaceMounted(params), getBackThickness(params));
+
+  // A plinth or legs raise the carcass off the floor, and a countertop sits on it
+  const baseHeight = calculateBaseHeight(params);
+  const countertopThickness = calculateCountertopThickness(params);
+  const extHeight = calculateExteriorHeight(grid.rowHeights, grid.frameThickness) + baseHeight + countertopThickness;
+
+  // A countertop can overhang the carcass on every side
+  const countertop = calculateCountertopSize(params, extWidth, extDepth);
 
   return {
     extWidth,
     extHeight,
     extDepth,
+    baseHeight,
+    countertopThickness,
+    overallWidth: Math.max(extWidth, countertop.widthIn),
+    overallDepth: Math.max(extDepth, countertop.depthIn),
   };
 }
 
+/**
+ * Height of the carcass itself, without the base under it or a countertop on it
+ */
+export function getCarcassHeight(dimensions: DerivedDimensions): number {
+  return dimensions.extHeight - dimensions.baseHeight - dimensions.countertopThickness;
+}
+
 // ============================================================================
 // 3D POSITIONING FORMULAS
 // ============================================================================
@@ -143,29 +251,65 @@ export function calculateBackPosition(extDepth: number): [number, number, number
   return [0, 0, -extDepth * SCENE_SCALE / 2];
 }
 
+/**
+ * Edges of a back panel covering a span of cells (inches from the exterior left and top)
+ * Panels reach the outside of the carcass, or the centerline of the divider or shelf they meet on
+ */
+export function calculateBackPanelBounds(
+  bay: { row: number; colStart: number; colEnd: number; rowEnd?: number },
+  grid: GridMetrics,
+  extWidth: number,
+  extHeight: number
+): { left: number; right: number; top: number; bottom: number } {
+  const { columnWidths, rowHeights, frameThickness } = grid;
+  const rowEnd = bay.rowEnd ?? bay.row + 1;
+  const columnCenter = (col: number) => calculateGridLineOffset(columnWidths, col, frameThickness) + frameThickness / 2;
+  const rowCenter = (row: number) => calculateGridLineOffset(rowHeights, row, frameThickness) + frameThickness / 2;
+
+  return {
+    left: bay.colStart === 0 ? 0 : columnCenter(bay.colStart),
+    right: bay.colEnd === columnWidths.length ? extWidth : columnCenter(bay.colEnd),
+    top: bay.row === 0 ? 0 : rowCenter(bay.row),
+    bottom: rowEnd === rowHeights.length ? extHeight : rowCenter(rowEnd),
+  };
+}
+
+/**
+ * Calculate X offset (inches, from the carcass center) of the middle of a column span
+ */
+function calculateSpanCenterX(grid: GridMetrics, colStart: number, colEnd: number, extWidth: number): number {
+  const { columnWidths, frameThickness } = grid;
+  const leftEdgeOfBay = calculateGridLineOffset(columnWidths, colStart, frameThickness) + frameThickness;
+  const bayWidthInches = calculateSpanSize(columnWidths, colStart, colEnd, frameThickness);
+  return (leftEdgeOfBay + bayWidthInches / 2) - (extWidth / 2);
+}
+
+/**
+ * Calculate Y offset (inches, from the carcass center) of the middle of a row span
+ */
+function calculateSpanCenterY(grid: GridMetrics, rowStart: number, rowEnd: number, extHeight: number): number {
+  const { rowHeights, frameThickness } = grid;
+  const topEdgeOfSpan = calculateGridLineOffset(rowHeights, rowStart, frameThickness) + frameThickness;
+  const spanHeight = calculateSpanSize(rowHeights, rowStart, rowEnd, frameThickness);
+  return (extHeight / 2) - (topEdgeOfSpan + spanHeight / 2);
+}
+
 /**
  * Calculate 3D position for BayShelf part based on bay information
  */
 export function calculateBayShelfPosition(
   bay: { row: number; colStart: number; colEnd: number },
-  _rows: number,
-  _cols: number,
-  interiorClearanceInches: number,
-  frameThickness: number,
+  grid: GridMetrics,
   extWidth: number,
   extHeight: number
 ): [number, number, number] {
   // Calculate X position based on bay center
-  const bayWidthInches = calculateBayWidth(bay.colEnd - bay.colStart, interiorClearanceInches, frameThickness);
-  
-  // Position from left edge of shelf unit
-  const leftEdgeOfBay = bay.colStart * (interiorClearanceInches + frameThickness) + frameThickness;
-  const xOffset = (leftEdgeOfBay + bayWidthInches / 2) - (extWidth / 2);
-  
-  // Calculate Y position based on row (shelf sits between rows)
-  const shelfYFromTop = bay.row * (interiorClearanceInches + frameThickness) + (frameThickness / 2);
+  const xOffset = calculateSpanCenterX(grid, bay.colStart, bay.colEnd, extWidth);
+
+  // Calculate Y position based on row (shelf sits on the grid line above the row)
+  const shelfYFromTop = calculateGridLineOffset(grid.rowHeights, bay.row, grid.frameThickness) + (grid.frameThickness / 2);
   const yOffset = (extHeight / 2) - shelfYFromTop;
-  
+
   return [xOffset * SCENE_SCALE, yOffset * SCENE_SCALE, 0];
 }
 
@@ -174,15 +318,13 @@ export function calculateBayShelfPosition(
  */
 export function calculateVerticalDividerPosition(
   columnIndex: number,
-  _cols: number,
-  interiorClearanceInches: number,
-  frameThickness: number,
+  grid: GridMetrics,
   extWidth: number
 ): [number, number, number] {
   // Calculate X position based on which column the divider is at
-  const dividerXFromLeft = columnIndex * (interiorClearanceInches + frameThickness) + (frameThickness / 2);
+  const dividerXFromLeft = calculateGridLineOffset(grid.columnWidths, columnIndex, grid.frameThickness) + (grid.frameThickness / 2);
   const xOffset = dividerXFromLeft - (extWidth / 2);
-  
+
   return [xOffset * SCENE_SCALE, 0, 0];
 }
 
@@ -193,23 +335,17 @@ export function calculateVerticalDividerSegmentPosition(
   columnIndex: number,
   rowStart: number,
   rowEnd: number,
-  _segmentHeight: number,
-  _cols: number,
-  _rows: number,
-  interiorClearanceInches: number,
-  frameThickness: number,
+  grid: GridMetrics,
   extWidth: number,
   extHeight: number
 ): [number, number, number] {
   // Calculate X position based on which column the divider is at
-  const dividerXFromLeft = columnIndex * (interiorClearanceInches + frameThickness) + (frameThickness / 2);
+  const dividerXFromLeft = calculateGridLineOffset(grid.columnWidths, columnIndex, grid.frameThickness) + (grid.frameThickness / 2);
   const xOffset = dividerXFromLeft - (extWidth / 2);
-  
+
   // Calculate Y position based on the segment center
-  const segmentCenter = (rowStart + rowEnd) / 2;
-  const segmentYFromTop = segmentCenter * (interiorClearanceInches + frameThickness) + (frameThickness /2);
-  const yOffset = (extHeight / 2) - segmentYFromTop;
-  
+  const yOffset = calculateSpanCenterY(grid, rowStart, rowEnd, extHeight);
+
   return [xOffset * SCENE_SCALE, yOffset * SCENE_SCALE, 0];
 }
 
@@ -218,10 +354,7 @@ export function calculateVerticalDividerSegmentPosition(
  */
 export function calculateDoorPosition(
   bay: { row: number; colStart: number; colEnd: number; rowEnd?: number },
-  _rows: number,
-  _cols: number,
-  interiorClearanceInches: number,
-  frameThickness: number,
+  grid: GridMetrics,
   extWidth: number,
   extHeight: number,
   doorMode?: { type: 'inset' | 'overlay'; revealInches?: number; overlayInches?: number },
@@ -229,23 +362,13 @@ export function calculateDoorPosition(
   depthInches?: number
 ): [number, number, number] {
   // Calculate X position based on bay center (same as shelf)
-  const bayWidthInches = calculateBayWidth(bay.colEnd - bay.colStart, interiorClearanceInches, frameThickness);
-  
-  // Position from left edge of shelf unit
-  const leftEdgeOfBay = bay.colStart * (interiorClearanceInches + frameThickness) + frameThickness;
-  const xOffset = (leftEdgeOfBay + bayWidthInches / 2) - (extWidth / 2);
-  
-  // Calculate Y position based on row and vertical span
+  const xOffset = calculateSpanCenterX(grid, bay.colStart, bay.colEnd, extWidth);
+
+  // For vertical merges, center the door in the merged area
   const rowStart = bay.row;
   const rowEnd = bay.rowEnd || (bay.row + 1);
-  const verticalSpan = rowEnd - rowStart;
-  
-  // For vertical merges, center the door in the merged area
-  const openingStartY = rowStart * (interiorClearanceInches + frameThickness) + frameThickness;
-  const openingHeight = verticalSpan * interiorClearanceInches + (verticalSpan - 1) * frameThickness;
-  const openingCenterY = openingStartY + (openingHeight / 2);
-  const yOffset = (extHeight / 2) - openingCenterY;
-  
+  const yOffset = calculateSpanCenterY(grid, rowStart, rowEnd, extHeight);
+
   // Calculate Z position based on door mode
   let zOffset = 0;
   if (doorMode && doorThickness && depthInches) {
@@ -260,6 +383,278 @@ export function calculateDoorPosition(
     // Default: position slightly in front of the shelf
     zOffset = (depthInches || 15.375) / 2 + 0.1;
   }
-  
+
   return [xOffset * SCENE_SCALE, yOffset * SCENE_SCALE, zOffset * SCENE_SCALE];
-}
\ No newline at end of file
+}
+
+/**
+ * Calculate 3D position for a drawer part (box pieces, bottom or face)
+ */
+export function calculateDrawerPartPosition(
+  part: Part,
+  params: DesignParams,
+  grid: GridMetrics,
+  extWidth: number,
+  extHeight: number,
+  depthInches: number
+): [number, number, number] {
+  if (!part.bay || !part.drawer) return [0, 0, 0];
+
+  const { bay, drawer } = part;
+  const rowEnd = bay.rowEnd ?? bay.row + 1;
+  const openingWidth = calculateSpanSize(grid.columnWidths, bay.colStart, bay.colEnd, grid.frameThickness);
+  const openingHeight = calculateSpanSize(grid.rowHeights, bay.row, rowEnd, grid.frameThickness);
+  const layout = calculateDrawerLayout(
+    params, openingWidth, openingHeight, drawer.count, calculateEdgeOverlays(params, getBayOpening(bay))
+  );
+
+  const centerX = calculateSpanCenterX(grid, bay.colStart, bay.colEnd, extWidth);
+  const openingTop = calculateSpanCenterY(grid, bay.row, rowEnd, extHeight) + openingHeight / 2;
+
+  // Boxes sit at the bottom of their share of the opening, with the lift clearance above
+  const slotBottom = openingTop - (drawer.index + 1) * layout.slotHeight;
+  const boxCenterY = slotBottom + layout.boxHeight / 2;
+
+  // Box fronts sit behind inset faces, or at the front edge of the carcass for overlay faces
+  const boxFrontZ = depthInches / 2 - (layout.faceInset ? layout.faceThickness : 0);
+  const boxCenterZ = boxFrontZ - layout.boxDepth / 2;
+
+  let x = centerX;
+  let y = boxCenterY;
+  let z = boxCenterZ;
+
+  switch (part.role) {
+    case 'DrawerSide': {
+      const sideOffset = layout.boxWidth / 2 - layout.boxThickness / 2;
+      x = part.id.endsWith('L') ? centerX - sideOffset : centerX + sideOffset;
+      break;
+    }
+    case 'DrawerFront':
+      z = boxFrontZ - layout.boxThickness / 2;
+      break;
+    case 'DrawerBack':
+      z = boxFrontZ - layout.boxDepth + layout.boxThickness / 2;
+      break;
+    case 'DrawerBottom':
+      y = slotBottom + DRAWER_BOTTOM_GROOVE_OFFSET + layout.bottomThickness / 2;
+      break;
+    case 'DrawerFace': {
+      // Faces stack down from the top of the area a door would cover
+      const faceTop = layout.faceInset
+        ? openingTop - toInches(params.doorMode.reveal, params.unitSystem)
+        : openingTop + layout.faceOverlays.top;
+      x = centerX + (layout.faceOverlays.right - layout.faceOverlays.left) / 2;
+      y = faceTop - drawer.index * (layout.faceHeight + layout.faceGap) - layout.faceHeight / 2;
+      z = layout.faceInset
+        ? depthInches / 2 - layout.faceThickness / 2
+        : depthInches / 2 + layout.faceThickness / 2;
+      break;
+    }
+  }
+
+  return [x * SCENE_SCALE, y * SCENE_SCALE, z * SCENE_SCALE];
+}
+
+/**
+ * Rotation that orients a part's box (length × thickness × width) in the scene
+ * Shared by the interactive Canvas3D view and the booklet's scene capture
+ */
+export function getPartRotation(part: Part): [number, number, number] {
+  switch (part.role) {
+    case 'Side':
+    case 'VerticalDivider':
+      return [0, 0, Math.PI / 2]; // 90 degrees around Z-axis
+    case 'Back':
+    case 'Stretcher':
+    case 'Cleat':
+    case 'WallCleat':
+    case 'Door':
+    case 'DrawerFront':
+    case 'DrawerBack':
+    case 'DrawerFace':
+      return [Math.PI / 2, 0, 0]; // 90 degrees around X-axis to make height vertical
+    case 'DrawerSide':
+      return [-Math.PI / 2, 0, -Math.PI / 2]; // length runs front to back, height vertical
+    case 'Plinth':
+    case 'CountertopEdge':
+      return part.id.endsWith('-L') || part.id.endsWith('-R')
+        ? [-Math.PI / 2, 0, -Math.PI / 2] // plinth sides and edge ends run front to back like drawer sides
+        : [Math.PI / 2, 0, 0];
+    default:
+      return [0, 0, 0];
+  }
+}
+
+/**
+ * Calculate the 3D position of the middle of a leg, from its place on the carcass underside
+ */
+export function calculateLegPosition(
+  leg: { x: number; y: number },
+  params: DesignParams,
+  dimensions: DerivedDimensions
+): [number, number, number] {
+  const depthInches = toInches(params.depth, params.unitSystem);
+  const x = leg.x - dimensions.extWidth / 2;
+  const y = -getCarcassHeight(dimensions) / 2 - dimensions.baseHeight / 2;
+  const z = depthInches / 2 - leg.y;
+  return [x * SCENE_SCALE, y * SCENE_SCALE, z * SCENE_SCALE];
+}
+
+/**
+ * Calculate the 3D position of any part
+ * Shared by the interactive Canvas3D view and the booklet's scene capture
+ */
+export function calculatePartPosition(
+  part: Part,
+  params: DesignParams,
+  dimensions: DerivedDimensions
+): [number, number, number] {
+  const grid = calculateGridMetrics(params);
+  const { frameThickness } = grid;
+
+  // Convert to inches for calculations
+  const depthInches = toInches(params.depth, params.unitSystem);
+  const backRecess = calculateBackRecess(params);
+
+  // The scene is centered on the carcass; any base hangs below it
+  const carcassHeight = getCarcassHeight(dimensions);
+
+  // Create converted door mode for position calculations
+  const doorModeInches = {
+    type: params.doorMode.type,
+    revealInches: toInches(params.doorMode.reveal, params.unitSystem),
+    overlayInches: toInches(params.doorMode.overlay, params.unitSystem),
+  };
+
+  switch (part.role) {
+    case 'Bottom':
+      return calculateBottomPosition(carcassHeight, frameThickness);
+    case 'Top':
+      return calculateTopPosition(carcassHeight, frameThickness);
+    case 'Side':
+      if (part.id.includes('L')) {
+        return calculateLeftSidePosition(dimensions.extWidth, frameThickness);
+      }
+      return calculateRightSidePosition(dimensions.extWidth, frameThickness);
+    case 'Back': {
+      const [, , z] = calculateBackPosition(dimensions.extDepth);
+      if (!isBackSurfaceMounted(params)) {
+        // Inset backs sit in front of the groove setback, inside the back edges
+        const backZ = -depthInches / 2 + backRecess - part.thicknessIn / 2;
+        return [0, 0, backZ * SCENE_SCALE];
+      }
+      if (part.bay) {
+        // Per-opening and split panels cover part of the back
+        const bounds = calculateBackPanelBounds(part.bay, grid, dimensions.extWidth, carcassHeight);
+        const x = (bounds.left + bounds.right) / 2 - dimensions.extWidth / 2;
+        const y = carcassHeight / 2 - (bounds.top + bounds.bottom) / 2;
+        return [x * SCENE_SCALE, y * SCENE_SCALE, z];
+      }
+      return [0, 0, z];
+    }
+    case 'Stretcher':
+    case 'Cleat':
+    case 'WallCleat': {
+      // Rails sit just inside the top (or the bottom, for the lower stretcher). The unit's
+      // cleat sits in front of the wall cleat, which hangs behind it flush with the back edges.
+      const railY = carcassHeight / 2 - frameThickness - part.widthIn / 2;
+      const y = part.id.endsWith('Bottom') ? -railY : railY;
+      const z = -depthInches / 2 + part.thicknessIn / 2 + (part.role === 'Cleat' ? part.thicknessIn : 0);
+      return [0, y * SCENE_SCALE, z * SCENE_SCALE];
+    }
+    case 'Plinth': {
+      // Front and sides sit in by the setback, the back is flush with the back of the carcass
+      const setback = calculatePlinthSetback(params);
+      const y = -carcassHeight / 2 - dimensions.baseHeight / 2;
+      if (part.id.endsWith('-L') || part.id.endsWith('-R')) {
+        const x = dimensions.extWidth / 2 - setback - part.thicknessIn / 2;
+        return [(part.id.endsWith('-L') ? -x : x) * SCENE_SCALE, y * SCENE_SCALE, -setback / 2 * SCENE_SCALE];
+      }
+      const z = part.id.endsWith('Front')
+        ? depthInches / 2 - setback - part.thicknessIn / 2
+        : -depthInches / 2 + part.thicknessIn / 2;
+      return [0, y * SCENE_SCALE, z * SCENE_SCALE];
+    }
+    case 'Countertop':
+    case 'CountertopEdge': {
+      // The countertop sits on the Top, shifted by any difference between opposite overhangs.
+      // The hardwood edge wraps the front and both ends; the panel fills the rest.
+      const overhang = calculateCountertopOverhangs(params);
+      const edge = calculateCountertopEdgeWidth(params);
+      const size = calculateCountertopSize(params, dimensions.extWidth, dimensions.extDepth);
+      const left = -dimensions.extWidth / 2 - overhang.left;
+      const front = depthInches / 2 + overhang.front;
+      const y = carcassHeight / 2 + dimensions.countertopThickness / 2;
+      if (part.role === 'Countertop') {
+        const x = left + size.widthIn / 2;
+        const z = front - edge - part.widthIn / 2;
+        return [x * SCENE_SCALE, y * SCENE_SCALE, z * SCENE_SCALE];
+      }
+      if (part.id.endsWith('-L') || part.id.endsWith('-R')) {
+        const x = part.id.endsWith('-L') ? left + edge / 2 : left + size.widthIn - edge / 2;
+        return [x * SCENE_SCALE, y * SCENE_SCALE, (front - edge - part.lengthIn / 2) * SCENE_SCALE];
+      }
+      return [(left + size.widthIn / 2) * SCENE_SCALE, y * SCENE_SCALE, (front - edge / 2) * SCENE_SCALE];
+    }
+    case 'BayShelf':
+      if (part.bay) {
+        const [x, y, z] = calculateBayShelfPosition(part.bay, grid, dimensions.extWidth, carcassHeight);
+        return [x, y, z + backRecess * SCENE_SCALE / 2];
+      }
+      return [0, 0, 0];
+    case 'AdjustableShelf':
+      if (part.bay) {
+        // Loose shelves rest on their pins with the back edge at the back (or in front of its recess)
+        const x = calculateSpanCenterX(grid, part.bay.colStart, part.bay.colEnd, dimensions.extWidth);
+        const y = calculateSpanCenterY(grid, part.bay.row, part.bay.rowEnd ?? part.bay.row + 1, carcassHeight)
+          + (part.verticalOffsetIn ?? 0);
+        const z = -depthInches / 2 + backRecess + part.widthIn / 2;
+        return [x * SCENE_SCALE, y * SCENE_SCALE, z * SCENE_SCALE];
+      }
+      return [0, 0, 0];
+    case 'Door':
+      if (part.bay) {
+        const [x, y, z] = calculateDoorPosition(
+          part.bay,
+          grid,
+          dimensions.extWidth,
+          carcassHeight,
+          doorModeInches,
+          part.thicknessIn,
+          depthInches
+        );
+        // Paired doors sit either side of the opening center, and uneven overlays shift it
+        return [x + (part.offsetIn ?? 0) * SCENE_SCALE, y + (part.verticalOffsetIn ?? 0) * SCENE_SCALE, z];
+      }
+      return [0, 0, 0];
+    case 'DrawerSide':
+    case 'DrawerFront':
+    case 'DrawerBack':
+    case 'DrawerBottom':
+    case 'DrawerFace':
+      return calculateDrawerPartPosition(part, params, grid, dimensions.extWidth, carcassHeight, depthInches);
+    case 'VerticalDivider': {
+      let position: [number, number, number];
+      if (part.bay && part.bay.rowEnd !== undefined) {
+        // Segmented vertical divider
+        position = calculateVerticalDividerSegmentPosition(
+          part.bay.colStart,
+          part.bay.row,
+          part.bay.rowEnd,
+          grid,
+          dimensions.extWidth,
+          carcassHeight
+        );
+      } else {
+        // Extract column index from notes (fallback)
+        const columnMatch = part.notes?.match(/column (\d+)/);
+        const columnIndex = columnMatch ? parseInt(columnMatch[1], 10) : 1;
+        position = calculateVerticalDividerPosition(columnIndex, grid, dimensions.extWidth);
+      }
+      // Dividers stop short of an inset back, so they sit forward by half the recess
+      return [position[0], position[1], position[2] + backRecess * SCENE_SCALE / 2];
+    }
+    default:
+      return [0, 0, 0];
+  }
+}
@@ -0,0 +1,32 @@
+import type { DesignParams, Offcut } from './types';
+import type { SheetLayout } from './ripGenerator';
+
+// Smallest leftover worth keeping, in inches
+export const MIN_OFFCUT_WIDTH = 6;
+export const MIN_OFFCUT_LENGTH = 12;
+
+/**
+ * Leftovers from a cut plan big enough to go back into the inventory, largest first.
+ * Each keeps its grain, which runs up the sheet it came from.
+ * Offcuts used by the plan are cut up, so only their own leftovers come back.
+ */
+export function findNewOffcuts(sheets: SheetLayout[], params: DesignParams): Omit<Offcut, 'id'>[] {
+  return sheets
+    .flatMap(sheet => sheet.leftovers.map(region => ({
+      label: `From ${sheet.sheetId}`,
+      material: sheet.stock ?? params.sheetMaterial ?? 'plywood',
+      thicknessIn: sheet.thickness,
+      widthIn: region.width,
+      lengthIn: region.height,
+    })))
+    .filter(offcut => Math.min(offcut.widthIn, offcut.lengthIn) >= MIN_OFFCUT_WIDTH &&
+      Math.max(offcut.widthIn, offcut.lengthIn) >= MIN_OFFCUT_LENGTH)
+    .sort((a, b) => b.widthIn * b.lengthIn - a.widthIn * a.lengthIn);
+}
+
+/**
+ * Offcuts in the inventory that a cut plan uses up
+ */
+export function getUsedOffcutIds(sheets: SheetLayout[]): string[] {
+  return sheets.flatMap(sheet => sheet.offcutId ? [sheet.offcutId] : []);
+}
@@ -0,0 +1,202 @@
+import type { AdjustableShelfSpec, DesignParams, DoorSpec, DoorStyle, DrawerSpec, EdgeOverlays, InsertSpec, Opening, Part } from './types';
+import { getThicknessInInches } from './types';
+
+/**
+ * Get all unique openings (merged cells are treated as single openings)
+ */
+export function getOpenings(params: DesignParams): Opening[] {
+  const { rows, cols, merges } = params;
+  const openings: Opening[] = [];
+  const processed = new Set<string>();
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cellKey = `${r},${c}`;
+      if (processed.has(cellKey)) continue;
+
+      // Find the merge that contains this cell, if any
+      const merge = merges.find(m => 
+        r >= m.r0 && r <= m.r1 && c >= m.c0 && c <= m.c1
+      );
+
+      if (merge) {
+        // This is part of a merged area
+        const width = (merge.c1 - merge.c0 + 1);
+        const height = (merge.r1 - merge.r0 + 1);
+        
+        openings.push({
+          row: merge.r0,
+          col: merge.c0,
+          width,
+          height,
+        });
+
+        // Mark all cells in this merge as processed
+        for (let mr = merge.r0; mr <= merge.r1; mr++) {
+          for (let mc = merge.c0; mc <= merge.c1; mc++) {
+            processed.add(`${mr},${mc}`);
+          }
+        }
+      } else {
+        // Single cell opening
+        openings.push({
+          row: r,
+          col: c,
+          width: 1,
+          height: 1,
+        });
+        processed.add(cellKey);
+      }
+    }
+  }
+
+  return openings;
+}
+
+/**
+ * Find the opening that contains a cell
+ */
+export function findOpening(params: DesignParams, row: number, col: number): Opening | undefined {
+  return getOpenings(params).find(opening =>
+    row >= opening.row && row < opening.row + opening.height &&
+    col >= opening.col && col < opening.col + opening.width
+  );
+}
+
+/**
+ * Get every opening filled with drawers, paired with its drawer settings
+ * Drawer specs that no longer sit at the top-left cell of an opening are ignored
+ */
+export function getDrawerOpenings(params: DesignParams): Array<{ opening: Opening; drawer: DrawerSpec }> {
+  const drawerOpenings: Array<{ opening: Opening; drawer: DrawerSpec }> = [];
+  if (!params.drawers) return drawerOpenings;
+
+  for (const opening of getOpenings(params)) {
+    const drawer = params.drawers.find(d => d.row === opening.row && d.col === opening.col);
+    if (drawer && drawer.count > 0) {
+      drawerOpenings.push({ opening, drawer });
+    }
+  }
+  return drawerOpenings;
+}
+
+/**
+ * Get every tall merged opening with adjustable shelves, paired with its shelf settings
+ * Only openings spanning more than one row take them, and never ones filled with drawers
+ */
+export function getAdjustableShelfOpenings(params: DesignParams): Array<{ opening: Opening; shelves: AdjustableShelfSpec }> {
+  const shelfOpenings: Array<{ opening: Opening; shelves: AdjustableShelfSpec }> = [];
+  if (!params.adjustableShelves) return shelfOpenings;
+
+  const drawerOpenings = getDrawerOpenings(params);
+  for (const opening of getOpenings(params)) {
+    if (opening.height < 2) continue;
+    if (drawerOpenings.some(d => d.opening.row === opening.row && d.opening.col === opening.col)) continue;
+    const shelves = params.adjustableShelves.find(s => s.row === opening.row && s.col === opening.col);
+    if (shelves && shelves.count > 0) {
+      shelfOpenings.push({ opening, shelves });
+    }
+  }
+  return shelfOpenings;
+}
+
+/**
+ * Get every standard cell fitted with a Kallax insert, paired with its insert settings
+ * Merged openings and openings filled with drawers never take an insert
+ */
+export function getInsertOpenings(params: DesignParams): Array<{ opening: Opening; insert: InsertSpec }> {
+  const insertOpenings: Array<{ opening: Opening; insert: InsertSpec }> = [];
+  if (!params.inserts) return insertOpenings;
+
+  const drawerOpenings = getDrawerOpenings(params);
+  for (const opening of getOpenings(params)) {
+    if (opening.width !== 1 || opening.height !== 1) continue;
+    if (drawerOpenings.some(d => d.opening.row === opening.row && d.opening.col === opening.col)) continue;
+    const insert = params.inserts.find(i => i.row === opening.row && i.col === opening.col);
+    if (insert) {
+      insertOpenings.push({ opening, insert });
+    }
+  }
+  return insertOpenings;
+}
+
+/**
+ * Get every opening that has a door, paired with its door settings
+ * Designs without a door list put a door on every opening; door specs that no
+ * longer sit at the top-left cell of an opening (e.g. after a merge) are ignored.
+ * Openings filled with drawers or a Kallax insert never get a door.
+ */
+export function getDoorOpenings(params: DesignParams): Array<{ opening: Opening; door: DoorSpec }> {
+  if (!params.hasDoors) return [];
+
+  const filled = [
+    ...getDrawerOpenings(params).map(({ opening }) => opening),
+    ...getInsertOpenings(params).map(({ opening }) => opening),
+  ];
+  const openings = getOpenings(params).filter(opening =>
+    !filled.some(other => other.row === opening.row && other.col === opening.col)
+  );
+  if (!params.doors) {
+    return openings.map(opening => ({ opening, door: { row: opening.row, col: opening.col } }));
+  }
+
+  const doorOpenings: Array<{ opening: Opening; door: DoorSpec }> = [];
+  for (const opening of openings) {
+    const door = params.doors.find(d => d.row === opening.row && d.col === opening.col);
+    if (door) {
+      doorOpenings.push({ opening, door });
+    }
+  }
+  return doorOpenings;
+}
+
+/**
+ * Get how a door opening is closed (older designs only had single left-hinged doors)
+ */
+export function getDoorStyle(door: DoorSpec): DoorStyle {
+  return door.style ?? 'single-left';
+}
+
+/**
+ * Overlay on each edge of an opening's door or drawer faces (in inches).
+ * Edges on the outside of the carcass get the full overlay. Edges on a divider or
+ * shelf shared with another covered opening get half the member less half the gap
+ * between doors (never more than the full overlay), so neighbours don't collide.
+ */
+export function calculateEdgeOverlays(params: DesignParams, opening: Opening): EdgeOverlays {
+  const isMetric = params.unitSystem === 'metric';
+  const { overlay: overlayValue, pairGap, reveal } = params.doorMode;
+  const overlay = isMetric ? overlayValue / 25.4 : overlayValue;
+  const gap = isMetric ? (pairGap ?? reveal) / 25.4 : pairGap ?? reveal;
+  const halfOverlay = Math.min(overlay, (getThicknessInInches(params.materials.frame) - gap) / 2);
+
+  const covered = [
+    ...getDoorOpenings(params).map(({ opening }) => opening),
+    ...getDrawerOpenings(params).map(({ opening }) => opening),
+  ].filter(other => other.row !== opening.row || other.col !== opening.col);
+
+  const rowEnd = opening.row + opening.height;
+  const colEnd = opening.col + opening.width;
+  const sharesRows = (other: Opening) => other.row < rowEnd && opening.row < other.row + other.height;
+  const sharesCols = (other: Opening) => other.col < colEnd && opening.col < other.col + other.width;
+
+  const edge = (shared: boolean) => shared ? halfOverlay : overlay;
+  return {
+    top: edge(covered.some(other => other.row + other.height === opening.row && sharesCols(other))),
+    right: edge(covered.some(other => other.col === colEnd && sharesRows(other))),
+    bottom: edge(covered.some(other => other.row === rowEnd && sharesCols(other))),
+    left: edge(covered.some(other => other.col + other.width === opening.col && sharesRows(other))),
+  };
+}
+
+/**
+ * The opening a door or drawer part sits in, from its bay
+ */
+export function getBayOpening(bay: NonNullable<Part['bay']>): Opening {
+  return {
+    row: bay.row,
+    col: bay.colStart,
+    width: bay.colEnd - bay.colStart,
+    height: (bay.rowEnd ?? bay.row + 1) - bay.row,
+  };
+}
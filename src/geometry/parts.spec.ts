@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { generateParts } from './parts';
-import { DEFAULT_DESIGN } from './constants';
+import { calculateAllDimensions } from './measurements';
+import { DEFAULT_DESIGN, createThicknessMap } from './constants';
 import type { DesignParams } from './types';
 
 describe('Parts Generation', () => {
@@ -57,6 +58,131 @@ describe('Parts Generation', () => {
     }
   });
   
+  it('should only generate doors for assigned openings', () => {
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      hasDoors: true,
+      doorHardware: { type: 'pull-hole', position: 'top-center', inset: 1 },
+      doors: [
+        { row: 0, col: 1, hardwarePosition: 'bottom-center' },
+        { row: 1, col: 0 },
+        // Not the origin of any opening, so it is ignored
+        { row: 5, col: 5 },
+      ],
+    };
+
+    const doorParts = generateParts(params).filter(p => p.role === 'Door');
+    expect(doorParts).toHaveLength(2);
+
+    const overridden = doorParts.find(p => p.bay?.row === 0 && p.bay?.colStart === 1);
+    expect(overridden?.hardwarePosition).toBe('bottom-center');
+
+    const inherited = doorParts.find(p => p.bay?.row === 1 && p.bay?.colStart === 0);
+    expect(inherited?.hardwarePosition).toBe('top-center');
+  });
+
+  it('should split paired doors and keep pulls off the hinged edge', () => {
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      hasDoors: true,
+      doorMode: { type: 'inset', reveal: 0.0625, overlay: 0.25, pairGap: 0.125 },
+      doorHardware: { type: 'pull-hole', position: 'top-center', inset: 1 },
+      doors: [
+        { row: 0, col: 0, style: 'paired' },
+        { row: 0, col: 1, style: 'flip-down', hardwarePosition: 'bottom-left' },
+        { row: 1, col: 0, style: 'single-right', hardwarePosition: 'middle-right' },
+      ],
+    };
+
+    const doorParts = generateParts(params).filter(p => p.role === 'Door');
+    expect(doorParts).toHaveLength(4);
+
+    const leaves = doorParts.filter(p => p.bay?.row === 0 && p.bay?.colStart === 0);
+    expect(leaves.map(p => p.hinge)).toEqual(['left', 'right']);
+
+    // Both leaves plus the gap fill the inset door width
+    const openingWidth = 13.25;
+    const doorWidth = openingWidth - 2 * 0.0625;
+    expect(leaves[0].lengthIn).toBeCloseTo((doorWidth - 0.125) / 2, 5);
+    expect(leaves[0].offsetIn).toBeCloseTo(-(leaves[0].lengthIn + 0.125) / 2, 5);
+    expect(leaves[1].offsetIn).toBeCloseTo(-leaves[0].offsetIn!, 5);
+
+    // Centered pulls move to the meeting edge of each leaf
+    expect(leaves[0].hardwarePosition).toBe('top-right');
+    expect(leaves[1].hardwarePosition).toBe('top-left');
+
+    const flipDown = doorParts.find(p => p.bay?.row === 0 && p.bay?.colStart === 1);
+    expect(flipDown?.hinge).toBe('bottom');
+    expect(flipDown?.hardwarePosition).toBe('top-left');
+
+    const rightHinged = doorParts.find(p => p.bay?.row === 1 && p.bay?.colStart === 0);
+    expect(rightHinged?.hinge).toBe('right');
+    expect(rightHinged?.hardwarePosition).toBe('middle-left');
+  });
+
+  it('should half-overlay door edges that share a divider or shelf', () => {
+    const frame = createThicknessMap('1/2"');
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      hasDoors: true,
+      doorMode: { type: 'overlay', reveal: 0.0625, overlay: 0.25, pairGap: 0.125 },
+      materials: { ...DEFAULT_DESIGN.materials, frame },
+      merges: [{ r0: 0, c0: 0, r1: 1, c1: 0 }],
+    };
+
+    const doorParts = generateParts(params).filter(p => p.role === 'Door');
+    const merged = doorParts.find(p => p.bay?.colStart === 0)!;
+    const topRight = doorParts.find(p => p.bay?.row === 0 && p.bay?.colStart === 1)!;
+
+    // Shared edges cover half the divider less half the gap; outer edges keep the full overlay
+    const half = (frame.actualInches - 0.125) / 2;
+    const openingWidth = 13.25;
+    expect(topRight.lengthIn).toBeCloseTo(openingWidth + 0.25 + half, 5);
+    expect(topRight.widthIn).toBeCloseTo(openingWidth + 0.25 + half, 5);
+    expect(topRight.offsetIn).toBeCloseTo((0.25 - half) / 2, 5);
+    expect(topRight.verticalOffsetIn).toBeCloseTo((0.25 - half) / 2, 5);
+
+    // The merged opening only shares its right edge
+    expect(merged.lengthIn).toBeCloseTo(openingWidth + 0.25 + half, 5);
+    expect(merged.offsetIn).toBeCloseTo((half - 0.25) / 2, 5);
+    expect(merged.verticalOffsetIn).toBeUndefined();
+
+    // Neighbouring doors leave the gap between them over the divider
+    const mergedRight = merged.offsetIn! + merged.lengthIn / 2;
+    const topRightLeft = openingWidth + frame.actualInches + topRight.offsetIn! - topRight.lengthIn / 2;
+    expect(topRightLeft - mergedRight).toBeCloseTo(0.125, 5);
+  });
+
+  it('should generate drawer boxes and faces in place of a door', () => {
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      hasDoors: true,
+      drawers: [{ row: 0, col: 0, count: 2 }],
+    };
+
+    const parts = generateParts(params);
+
+    // The drawer opening loses its door
+    expect(parts.filter(p => p.role === 'Door')).toHaveLength(3);
+
+    expect(parts.filter(p => p.role === 'DrawerFace')).toHaveLength(2);
+    expect(parts.filter(p => p.role === 'DrawerSide')).toHaveLength(4);
+    expect(parts.filter(p => p.role === 'DrawerFront')).toHaveLength(2);
+    expect(parts.filter(p => p.role === 'DrawerBack')).toHaveLength(2);
+    expect(parts.filter(p => p.role === 'DrawerBottom')).toHaveLength(2);
+
+    // 1/2" slide clearance each side; the inset face leaves room for 14" slides
+    const side = parts.find(p => p.role === 'DrawerSide')!;
+    const front = parts.find(p => p.role === 'DrawerFront')!;
+    expect(front.lengthIn).toBeCloseTo(13.25 - 2 * 0.5 - 2 * side.thicknessIn, 5);
+    expect(side.lengthIn).toBe(14);
+    expect(side.widthIn).toBeCloseTo(13.25 / 2 - 1, 5);
+
+    // Two faces and one reveal fill the inset face area
+    const face = parts.find(p => p.role === 'DrawerFace')!;
+    expect(face.widthIn).toBeCloseTo((13.25 - 2 * 0.0625 - 0.0625) / 2, 5);
+  });
+
   it('should calculate correct part dimensions', () => {
     const params = DEFAULT_DESIGN;
     const parts = generateParts(params);
@@ -114,4 +240,61 @@ describe('Parts Generation', () => {
     const uniqueIds = new Set(ids1);
     expect(uniqueIds.size).toBe(ids1.length);
   });
-});
\ No newline at end of file
+
+  it('should size bay shelves from their column widths', () => {
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      columnWidths: [20, null],
+    };
+
+    const parts = generateParts(params);
+    const t = 23/32;
+
+    const leftShelf = parts.find(p => p.role === 'BayShelf' && p.bay?.colStart === 0);
+    const rightShelf = parts.find(p => p.role === 'BayShelf' && p.bay?.colStart === 1);
+    const top = parts.find(p => p.role === 'Top');
+
+    expect(leftShelf?.lengthIn).toBeCloseTo(20, 4);
+    expect(rightShelf?.lengthIn).toBeCloseTo(13.25, 4);
+    expect(top?.lengthIn).toBeCloseTo(20 + 13.25 + 3 * t, 4);
+  });
+
+  it('should lengthen captured parts for dado and rabbet joinery', () => {
+    const butt = generateParts(DEFAULT_DESIGN);
+    const dado = generateParts({
+      ...DEFAULT_DESIGN,
+      joinery: { type: 'dado', dadoDepth: 0.25, rabbetDepth: 0.375 },
+    });
+    const rabbet = generateParts({
+      ...DEFAULT_DESIGN,
+      joinery: { type: 'rabbet', dadoDepth: 0.25, rabbetDepth: 0.375 },
+    });
+
+    const lengthOf = (parts: typeof butt, id: string) => parts.find(p => p.id === id)!.lengthIn;
+
+    // Dados lengthen interior members only
+    expect(lengthOf(dado, 'Bay-1-Col0to1') - lengthOf(butt, 'Bay-1-Col0to1')).toBeCloseTo(0.5, 4);
+    expect(lengthOf(dado, 'VDiv-1-R0to2') - lengthOf(butt, 'VDiv-1-R0to2')).toBeCloseTo(0.5, 4);
+    expect(lengthOf(dado, 'Side-0-L')).toBeCloseTo(lengthOf(butt, 'Side-0-L'), 4);
+
+    // Rabbeted corners also lengthen the sides; top and bottom stay full width
+    expect(lengthOf(rabbet, 'Side-0-L') - lengthOf(butt, 'Side-0-L')).toBeCloseTo(0.75, 4);
+    expect(lengthOf(rabbet, 'Top-0')).toBeCloseTo(lengthOf(butt, 'Top-0'), 4);
+  });
+
+  it('should capture the top and bottom between full-height sides', () => {
+    const t = 23/32;
+    const dims = calculateAllDimensions(DEFAULT_DESIGN);
+    const parts = generateParts({
+      ...DEFAULT_DESIGN,
+      constructionStyle: 'full-height-sides',
+      joinery: { type: 'rabbet', dadoDepth: 0.25, rabbetDepth: 0.375 },
+    });
+
+    const side = parts.find(p => p.id === 'Side-0-L');
+    const top = parts.find(p => p.id === 'Top-0');
+
+    expect(side?.lengthIn).toBeCloseTo(dims.extHeight, 4);
+    expect(top?.lengthIn).toBeCloseTo(dims.extWidth - 2 * t + 0.75, 4);
+  });
+});
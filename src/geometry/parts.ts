@@ -1,7 +1,16 @@
-import type { DesignParams, Part } from './types';
+import type { DerivedDimensions, DesignParams, DoorHardwarePosition, DoorStyle, GridMetrics, HingeSide, LayoutInfo, Part } from './types';
 import { getThicknessInInches } from './types';
 import { calculateLayout } from './layout';
-import { calculateAllDimensions } from './measurements';
+import { calculateEdgeOverlays, getAdjustableShelfOpenings, getDoorOpenings, getDoorStyle, getDrawerOpenings } from './openings';
+import { calculateDrawerLayout, DRAWER_BOTTOM_GROOVE_DEPTH } from './drawers';
+import { BACK_GROOVE_SETBACK, calculateBackRecess, getBackMode, getBackOpenings, getBackThickness, getRailHeight, groupBackSpans, hasBackPanel, hasBackRails, WALL_CLEAT_CLEARANCE } from './backs';
+import { getEdgeTrim, getLargestSheetSize } from './ripGenerator';
+import { calculatePlinthSetback, getBaseMode } from './base';
+import { calculateCountertopEdgeWidth, calculateCountertopOverhangs, calculateCountertopSize } from './countertop';
+import { formatDimension } from './format';
+import { applyEdgeBanding } from './edgeBanding';
+import { calculateAdjustableShelfHeights, calculateShelfFrontSetback, getShelfPinSpacing, SHELF_PIN_CLEARANCE, SHELF_PIN_HOLE_DIAMETER } from './shelfPins';
+import { calculateAllDimensions, calculateBackPanelBounds, getCarcassHeight, calculateGridLineOffset, calculateGridMetrics, calculateJoineryAllowances, calculateSpanSize, getConstructionStyle, toInches } from './measurements';
 import { calculateBayWidth as calculateBayWidthFromMeasurements, calculateSideHeight } from './measurements';
 
 /**
@@ -14,57 +23,287 @@ function generatePartId(role: string, index?: number, suffix?: string): string {
   return parts.join('-');
 }
 
+// Hinge side of each single-door style
+const DOOR_STYLE_HINGES: Record<Exclude<DoorStyle, 'paired'>, HingeSide> = {
+  'single-left': 'left',
+  'single-right': 'right',
+  'flip-down': 'bottom',
+};
 
 /**
- * Get all unique openings (merged cells are treated as single openings)
+ * Mirror a pull position so it never lands on the hinged edge
+ * Paired leaves also move centered pulls to the meeting edge
  */
-function getOpenings(params: DesignParams): Array<{ row: number; col: number; width: number; height: number }> {
-  const { rows, cols, merges } = params;
-  const openings: Array<{ row: number; col: number; width: number; height: number }> = [];
-  const processed = new Set<string>();
-
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c < cols; c++) {
-      const cellKey = `${r},${c}`;
-      if (processed.has(cellKey)) continue;
-
-      // Find the merge that contains this cell, if any
-      const merge = merges.find(m => 
-        r >= m.r0 && r <= m.r1 && c >= m.c0 && c <= m.c1
+function placePullAwayFromHinge(
+  position: DoorHardwarePosition,
+  hinge: HingeSide,
+  paired: boolean
+): DoorHardwarePosition {
+  const [vertical, horizontal] = position.split('-');
+
+  if (hinge === 'bottom') {
+    return (vertical === 'bottom' ? `top-${horizontal}` : position) as DoorHardwarePosition;
+  }
+
+  const freeEdge = hinge === 'left' ? 'right' : 'left';
+  if (horizontal === hinge || (paired && horizontal === 'center')) {
+    // There is no middle-center position, so middle pulls stay at mid-height on the free edge
+    return `${vertical}-${freeEdge}` as DoorHardwarePosition;
+  }
+  return position;
+}
+
+
+/**
+ * Back panels, or the rails that replace them, for the selected back mode
+ */
+function generateBackParts(
+  params: DesignParams,
+  layout: LayoutInfo,
+  grid: GridMetrics,
+  dimensions: DerivedDimensions
+): Part[] {
+  const { rows, cols, unitSystem } = params;
+  const { frameThickness } = grid;
+  const { extWidth } = dimensions;
+  const extHeight = getCarcassHeight(dimensions);
+  const mode = getBackMode(params);
+  const thicknessIn = getBackThickness(params);
+
+  // Panels need a back material; rails are cut from the frame material
+  if (!hasBackPanel(params) && !hasBackRails(params)) return [];
+
+  // Surface-mounted panel over a span of cells, out to the exterior or the member centerlines
+  const panel = (id: string, bay: NonNullable<Part['bay']>, notes: string): Part => {
+    const bounds = calculateBackPanelBounds(bay, grid, extWidth, extHeight);
+    return {
+      id,
+      role: 'Back',
+      qty: 1,
+      lengthIn: bounds.right - bounds.left,
+      widthIn: bounds.bottom - bounds.top,
+      thicknessIn,
+      notes,
+      bay,
+    };
+  };
+
+  switch (mode.type) {
+    case 'inset': {
+      // The panel reaches halfway into the sides, top and bottom
+      const joint = mode.joint ?? 'rabbet';
+      const engagement = frameThickness / 2;
+      const setback = joint === 'groove'
+        ? `, ${formatDimension(BACK_GROOVE_SETBACK, unitSystem)} in from the back edge`
+        : '';
+      return [{
+        id: generatePartId('Back', 0),
+        role: 'Back',
+        qty: 1,
+        lengthIn: extWidth - 2 * frameThickness + 2 * engagement,
+        widthIn: extHeight - 2 * frameThickness + 2 * engagement,
+        thicknessIn,
+        notes: `Inset back panel in a ${formatDimension(thicknessIn, unitSystem)} wide × ${formatDimension(engagement, unitSystem)} deep ${joint} around the sides, top and bottom${setback}`,
+      }];
+    }
+
+    case 'per-opening':
+      return getBackOpenings(params).map(({ opening }, index) => panel(
+        generatePartId('Back', index),
+        {
+          row: opening.row,
+          colStart: opening.col,
+          colEnd: opening.col + opening.width,
+          rowEnd: opening.row + opening.height,
+        },
+        `Surface-mounted back behind opening ${opening.row},${opening.col}, edges on the divider and shelf centerlines`
+      ));
+
+    case 'split': {
+      // Seams can only land behind a divider or shelf that runs the full height or width
+      const columnSeams = Array.from({ length: cols - 1 }, (_, i) => i + 1).filter(col =>
+        layout.verticalSegments
+          .filter(segment => segment.column === col)
+          .reduce((sum, segment) => sum + segment.rowEnd - segment.rowStart, 0) === rows
       );
+      const rowSeams = Array.from({ length: rows - 1 }, (_, i) => i + 1).filter(row =>
+        layout.horizontalSegments
+          .filter(segment => segment.row === row)
+          .reduce((sum, segment) => sum + segment.colEnd - segment.colStart, 0) === cols
+      );
+      const columnLines = [0, ...columnSeams, cols];
+      const rowLines = [0, ...rowSeams, rows];
+      const linePosition = (sizes: number[], line: number, exterior: number) =>
+        line === 0 ? 0 : line === sizes.length ? exterior : calculateGridLineOffset(sizes, line, frameThickness) + frameThickness / 2;
 
-      if (merge) {
-        // This is part of a merged area
-        const width = (merge.c1 - merge.c0 + 1);
-        const height = (merge.r1 - merge.r0 + 1);
-        
-        openings.push({
-          row: merge.r0,
-          col: merge.c0,
-          width,
-          height,
-        });
+      // Panels run the long way up the sheet, and only split across the rows when the unit is taller than a sheet
+      // (less the trim off its factory edges)
+      const sheet = getLargestSheetSize(params, thicknessIn);
+      const trim = 2 * getEdgeTrim(params);
+      const sheetLong = sheet.height - trim;
+      const sheetShort = sheet.width - trim;
+      const rowLimit = extHeight <= sheetLong ? extHeight : sheetLong;
+      const columnLimit = rowLimit <= sheetShort ? sheetLong : sheetShort;
+      const rowGroups = groupBackSpans(rowLines.map(line => linePosition(grid.rowHeights, line, extHeight)), rowLimit);
+      const columnGroups = groupBackSpans(columnLines.map(line => linePosition(grid.columnWidths, line, extWidth)), columnLimit);
 
-        // Mark all cells in this merge as processed
-        for (let mr = merge.r0; mr <= merge.r1; mr++) {
-          for (let mc = merge.c0; mc <= merge.c1; mc++) {
-            processed.add(`${mr},${mc}`);
-          }
+      const count = rowGroups.length * columnGroups.length;
+      const panels: Part[] = [];
+      for (const [rowStart, rowEnd] of rowGroups) {
+        for (const [colStart, colEnd] of columnGroups) {
+          const index = panels.length;
+          panels.push(panel(
+            generatePartId('Back', index),
+            { row: rowLines[rowStart], colStart: columnLines[colStart], colEnd: columnLines[colEnd], rowEnd: rowLines[rowEnd] },
+            count === 1
+              ? 'Surface-mounted back panel'
+              : `Surface-mounted back panel ${index + 1} of ${count}, joined on the divider and shelf centerlines`
+          ));
         }
-      } else {
-        // Single cell opening
-        openings.push({
-          row: r,
-          col: c,
-          width: 1,
-          height: 1,
-        });
-        processed.add(cellKey);
       }
+      return panels;
+    }
+
+    case 'stretchers': {
+      // Rails run between the sides, flush with the back edges, screwed in from the outside
+      const railLength = extWidth - 2 * frameThickness;
+      const railHeight = getRailHeight(params);
+      return (['Top', 'Bottom'] as const).map((position, index) => ({
+        id: generatePartId('Stretcher', index, position),
+        role: 'Stretcher',
+        qty: 1,
+        lengthIn: railLength,
+        widthIn: railHeight,
+        thicknessIn: frameThickness,
+        notes: `${position} stretcher between the sides, flush with the back edges ${position === 'Top' ? 'under the top' : 'on the bottom'}`,
+      }));
     }
+
+    case 'french-cleat': {
+      // Both halves are ripped from one board at 45°; the unit's half sits one
+      // cleat thickness in from the back edges so the wall half fits behind it
+      const railLength = extWidth - 2 * frameThickness;
+      const railHeight = getRailHeight(params);
+      return [
+        {
+          id: generatePartId('Cleat', 0),
+          role: 'Cleat',
+          qty: 1,
+          lengthIn: railLength,
+          widthIn: railHeight,
+          thicknessIn: frameThickness,
+          notes: `French cleat between the sides under the top, ${formatDimension(frameThickness, unitSystem)} in from the back edges, 45° bevel along the bottom facing the wall`,
+        },
+        {
+          id: generatePartId('WallCleat', 0),
+          role: 'WallCleat',
+          qty: 1,
+          lengthIn: railLength - WALL_CLEAT_CLEARANCE,
+          widthIn: railHeight,
+          thicknessIn: frameThickness,
+          notes: 'Wall half of the French cleat, 45° bevel along the top facing the wall, screwed level into the studs',
+        },
+      ];
+    }
+
+    default:
+      return [{
+        id: generatePartId('Back', 0),
+        role: 'Back',
+        qty: 1,
+        lengthIn: extWidth,
+        widthIn: extHeight,
+        thicknessIn,
+        notes: 'Surface-mounted back panel',
+      }];
   }
+}
+
+/**
+ * Plinth rails under the carcass: a front and back running the width, with the sides between them
+ */
+function generatePlinthParts(params: DesignParams, dimensions: DerivedDimensions, frameThickness: number): Part[] {
+  if (getBaseMode(params).type !== 'plinth') return [];
+
+  const { unitSystem } = params;
+  const depthInches = toInches(params.depth, unitSystem);
+  const setback = calculatePlinthSetback(params);
+  const railLength = dimensions.extWidth - 2 * setback;
+  const sideLength = depthInches - setback - 2 * frameThickness;
+  const setbackNote = formatDimension(setback, unitSystem);
+
+  const rail = (id: string, lengthIn: number, notes: string): Part => ({
+    id,
+    role: 'Plinth',
+    qty: 1,
+    lengthIn,
+    widthIn: dimensions.baseHeight,
+    thicknessIn: frameThickness,
+    notes,
+  });
 
-  return openings;
+  return [
+    rail(generatePartId('Plinth', 0, 'Front'), railLength, `Plinth front, ${setbackNote} back from the front of the carcass for the toe kick`),
+    rail(generatePartId('Plinth', 1, 'Back'), railLength, `Plinth back, flush with the back of the carcass, ${setbackNote} in from the sides`),
+    rail(generatePartId('Plinth', 2, 'L'), sideLength, `Plinth left side, ${setbackNote} in from the side, between the front and back`),
+    rail(generatePartId('Plinth', 3, 'R'), sideLength, `Plinth right side, ${setbackNote} in from the side, between the front and back`),
+  ];
+}
+
+/**
+ * Generate the countertop laid over the carcass Top, and its hardwood edge when it has one
+ * The edge runs the full width across the front; the end pieces butt into it
+ */
+function generateCountertopParts(params: DesignParams, dimensions: DerivedDimensions): Part[] {
+  const { countertop, unitSystem } = params;
+  if (!countertop) return [];
+
+  const thicknessIn = dimensions.countertopThickness;
+  const overhang = calculateCountertopOverhangs(params);
+  const edge = calculateCountertopEdgeWidth(params);
+  const size = calculateCountertopSize(params, dimensions.extWidth, dimensions.extDepth);
+  const overhangNote = [
+    `${formatDimension(overhang.front, unitSystem)} front`,
+    `${formatDimension(overhang.back, unitSystem)} back`,
+    `${formatDimension(overhang.left, unitSystem)} left`,
+    `${formatDimension(overhang.right, unitSystem)} right`,
+  ].join(', ');
+
+  const top: Part = {
+    id: generatePartId('Countertop', 0),
+    role: 'Countertop',
+    qty: 1,
+    lengthIn: size.widthIn - 2 * edge,
+    widthIn: size.depthIn - edge,
+    thicknessIn,
+    notes: `Countertop, overhangs ${overhangNote}; screwed up through the Top from inside, in slotted holes at the back so it can move`,
+  };
+  // Cut from its own sheets unless it matches the carcass material
+  if (countertop.material !== (params.sheetMaterial ?? 'plywood')) {
+    top.stock = countertop.material;
+  }
+  const parts: Part[] = [top];
+
+  if (edge > 0) {
+    const edgeNote = `Hardwood edge, ${formatDimension(edge, unitSystem)} wide, glued to the countertop flush with both faces`;
+    const strip = (id: string, lengthIn: number, notes: string): Part => ({
+      id,
+      role: 'CountertopEdge',
+      qty: 1,
+      lengthIn,
+      widthIn: thicknessIn,
+      thicknessIn: edge,
+      notes,
+      stock: 'hardwood',
+    });
+    parts.push(
+      strip(generatePartId('CountertopEdge', 0, 'Front'), size.widthIn, `${edgeNote}, full width across the front`),
+      strip(generatePartId('CountertopEdge', 1, 'L'), size.depthIn - edge, `${edgeNote}, left end, butted into the front edge`),
+      strip(generatePartId('CountertopEdge', 2, 'R'), size.depthIn - edge, `${edgeNote}, right end, butted into the front edge`),
+    );
+  }
+
+  return parts;
 }
 
 /**
@@ -76,49 +315,66 @@ export function generateParts(params: DesignParams): Part[] {
   const dimensions = calculateAllDimensions(params);
   
   const {
-    cols: _cols,
-    interiorClearance,
     depth,
     hasBack,
-    hasDoors,
     doorMode,
+    doorHardware,
     materials,
     unitSystem,
   } = params;
 
   // Convert to inches for calculations
-  const interiorClearanceInches = unitSystem === 'metric' ? interiorClearance / 25.4 : interiorClearance;
+  const grid = calculateGridMetrics(params);
+  const allowances = calculateJoineryAllowances(params);
   const depthInches = unitSystem === 'metric' ? depth / 25.4 : depth;
   const revealInches = unitSystem === 'metric' ? doorMode.reveal / 25.4 : doorMode.reveal;
   const overlayInches = unitSystem === 'metric' ? doorMode.overlay / 25.4 : doorMode.overlay;
+  const pairGapInches = toInches(doorMode.pairGap ?? doorMode.reveal, unitSystem);
 
   const frameThickness = getThicknessInInches(materials.frame);
-  const backThickness = materials.back ? getThicknessInInches(materials.back) : 0;
-  const doorThickness = materials.door ? getThicknessInInches(materials.door) : 0;
+  // Dividers and shelves stop short of an inset back or the back rails
+  const backRecess = calculateBackRecess(params);
+  const backNote = backRecess > 0 ? `, stops ${formatDimension(backRecess, unitSystem)} short of the back edge` : '';
+  const backMode = getBackMode(params);
+  const backJoint = hasBack && backMode.type === 'inset' ? `, ${backMode.joint ?? 'rabbet'} for the back` : '';
+  // Doors fall back to the frame material for designs saved without a door material
+  const doorThickness = materials.door ? getThicknessInInches(materials.door) : frameThickness;
+
+  // Corners: either the top/bottom or the sides run through, and the other pair is captured between them
+  const fullHeightSides = getConstructionStyle(params) === 'full-height-sides';
+  const cornerJoint = allowances.corner > 0 ? 'rabbeted into' : 'runs between';
+
+  const capLength = fullHeightSides
+    ? dimensions.extWidth - 2 * frameThickness + 2 * allowances.corner
+    : dimensions.extWidth;
 
   // Top and Bottom pieces
   parts.push({
     id: generatePartId('Top', 0),
     role: 'Top',
     qty: 1,
-    lengthIn: dimensions.extWidth,
+    lengthIn: capLength,
     widthIn: depthInches,
     thicknessIn: frameThickness,
-    notes: 'Full-width top cap',
+    notes: `${fullHeightSides ? `Top, ${cornerJoint} sides` : 'Full-width top cap'}${backJoint}`,
   });
 
   parts.push({
     id: generatePartId('Bottom', 0),
     role: 'Bottom',
     qty: 1,
-    lengthIn: dimensions.extWidth,
+    lengthIn: capLength,
     widthIn: depthInches,
     thicknessIn: frameThickness,
-    notes: 'Full-width bottom cap',
+    notes: `${fullHeightSides ? `Bottom, ${cornerJoint} sides` : 'Full-width bottom cap'}${backJoint}`,
   });
 
   // Side pieces (left and right)
-  const sideHeight = calculateSideHeight(dimensions.extHeight, frameThickness);
+  const carcassHeight = getCarcassHeight(dimensions);
+  const sideHeight = fullHeightSides
+    ? carcassHeight
+    : calculateSideHeight(carcassHeight, frameThickness) + 2 * allowances.corner;
+  const sideJoint = fullHeightSides ? 'full height' : `${cornerJoint} top/bottom`;
   parts.push({
     id: generatePartId('Side', 0, 'L'),
     role: 'Side',
@@ -126,7 +382,7 @@ export function generateParts(params: DesignParams): Part[] {
     lengthIn: sideHeight,
     widthIn: depthInches,
     thicknessIn: frameThickness,
-    notes: 'Left side, runs between top/bottom',
+    notes: `Left side, ${sideJoint}${backJoint}`,
   });
 
   parts.push({
@@ -136,7 +392,7 @@ export function generateParts(params: DesignParams): Part[] {
     lengthIn: sideHeight,
     widthIn: depthInches,
     thicknessIn: frameThickness,
-    notes: 'Right side, runs between top/bottom',
+    notes: `Right side, ${sideJoint}${backJoint}`,
   });
 
   // Interior vertical divider segments
@@ -145,10 +401,10 @@ export function generateParts(params: DesignParams): Part[] {
       id: generatePartId('VDiv', segment.column, `R${segment.rowStart}to${segment.rowEnd}`),
       role: 'VerticalDivider',
       qty: 1,
-      lengthIn: segment.lengthIn,
-      widthIn: depthInches,
+      lengthIn: segment.lengthIn + 2 * allowances.interior,
+      widthIn: depthInches - backRecess,
       thicknessIn: frameThickness,
-      notes: `Vertical segment at column ${segment.column}, rows ${segment.rowStart}-${segment.rowEnd}`,
+      notes: `Vertical segment at column ${segment.column}, rows ${segment.rowStart}-${segment.rowEnd}${backNote}`,
       bay: {
         row: segment.rowStart,
         colStart: segment.column,
@@ -160,10 +416,10 @@ export function generateParts(params: DesignParams): Part[] {
 
   // Bay shelves (interior horizontals)
   for (const segment of layout.horizontalSegments) {
-    const moduleCount = segment.colEnd - segment.colStart;
     const bayWidth = calculateBayWidthFromMeasurements(
-      moduleCount,
-      interiorClearanceInches,
+      grid.columnWidths,
+      segment.colStart,
+      segment.colEnd,
       frameThickness
     );
     
@@ -171,10 +427,10 @@ export function generateParts(params: DesignParams): Part[] {
       id: generatePartId('Bay', segment.row, `Col${segment.colStart}to${segment.colEnd}`),
       role: 'BayShelf',
       qty: 1,
-      lengthIn: bayWidth,
-      widthIn: depthInches,
+      lengthIn: bayWidth + 2 * allowances.interior,
+      widthIn: depthInches - backRecess,
       thicknessIn: frameThickness,
-      notes: `Shelf segment at row ${segment.row}, runs between verticals`,
+      notes: `Shelf segment at row ${segment.row}, ${allowances.interior > 0 ? 'dadoed into' : 'runs between'} verticals${backNote}`,
       bay: {
         row: segment.row,
         colStart: segment.colStart,
@@ -183,42 +439,106 @@ export function generateParts(params: DesignParams): Part[] {
     });
   }
 
-  // Back panel
-  if (hasBack && materials.back) {
-    parts.push({
-      id: generatePartId('Back', 0),
-      role: 'Back',
-      qty: 1,
-      lengthIn: dimensions.extWidth,
-      widthIn: dimensions.extHeight,
-      thicknessIn: backThickness,
-      notes: 'Surface-mounted back panel',
-    });
+  // Adjustable shelves, loose on pins in tall merged openings
+  let shelfIndex = 0;
+  for (const { opening, shelves } of getAdjustableShelfOpenings(params)) {
+    const openingWidth = calculateSpanSize(grid.columnWidths, opening.col, opening.col + opening.width, frameThickness);
+    const openingHeight = calculateSpanSize(grid.rowHeights, opening.row, opening.row + opening.height, frameThickness);
+    const frontSetback = calculateShelfFrontSetback(params, opening);
+    const heights = calculateAdjustableShelfHeights(openingHeight, shelves.count, getShelfPinSpacing(params));
+    const bay = {
+      row: opening.row,
+      colStart: opening.col,
+      colEnd: opening.col + opening.width,
+      rowEnd: opening.row + opening.height,
+    };
+
+    for (const height of heights) {
+      parts.push({
+        id: generatePartId('AdjShelf', shelfIndex),
+        role: 'AdjustableShelf',
+        qty: 1,
+        lengthIn: openingWidth - SHELF_PIN_CLEARANCE,
+        widthIn: depthInches - backRecess - frontSetback,
+        thicknessIn: frameThickness,
+        notes: `Adjustable shelf on pins, ${formatDimension(SHELF_PIN_CLEARANCE, unitSystem)} short of the opening for clearance${frontSetback > 0 ? ', behind the inset door' : ''}${backNote}`,
+        bay,
+        // Rests on the pins in its hole, shown relative to the middle of the opening
+        verticalOffsetIn: height + SHELF_PIN_HOLE_DIAMETER / 2 + frameThickness / 2 - openingHeight / 2,
+      });
+      shelfIndex++;
+    }
   }
 
-  // Doors
-  if (hasDoors && materials.door) {
-    const openings = getOpenings(params);
-    let doorIndex = 0;
+  // Plinth under the carcass and countertop over it
+  parts.push(...generatePlinthParts(params, dimensions, frameThickness));
+  parts.push(...generateCountertopParts(params, dimensions));
+
+  // Back panels or rails
+  if (hasBack) {
+    parts.push(...generateBackParts(params, layout, grid, dimensions));
+  }
+
+  // Doors (only on openings that have one assigned)
+  let doorIndex = 0;
+  for (const { opening, door } of getDoorOpenings(params)) {
+    const openingWidth = calculateSpanSize(grid.columnWidths, opening.col, opening.col + opening.width, frameThickness);
+    const openingHeight = calculateSpanSize(grid.rowHeights, opening.row, opening.row + opening.height, frameThickness);
+    
+    let doorWidth: number;
+    let doorHeight: number;
+    let doorNotes: string;
+    // Uneven overlays move the door center off the opening center
+    let doorOffset = 0;
+    let doorVerticalOffset = 0;
     
-    for (const opening of openings) {
-      const openingWidth = opening.width * interiorClearanceInches + (opening.width - 1) * frameThickness;
-      const openingHeight = opening.height * interiorClearanceInches + (opening.height - 1) * frameThickness;
-      
-      let doorWidth: number;
-      let doorHeight: number;
-      let doorNotes: string;
-      
-      if (doorMode.type === 'inset') {
-        doorWidth = openingWidth - 2 * revealInches;
-        doorHeight = openingHeight - 2 * revealInches;
-        doorNotes = `Inset door with ${revealInches}" reveal`;
-      } else {
-        doorWidth = openingWidth + 2 * overlayInches;
-        doorHeight = openingHeight + 2 * overlayInches;
-        doorNotes = `Overlay door with ${overlayInches}" overlay`;
+    if (doorMode.type === 'inset') {
+      doorWidth = openingWidth - 2 * revealInches;
+      doorHeight = openingHeight - 2 * revealInches;
+      doorNotes = `Inset door with ${revealInches}" reveal`;
+    } else {
+      // Full overlay on the outside of the carcass, half overlay where a neighbour shares the divider or shelf
+      const overlays = calculateEdgeOverlays(params, opening);
+      doorWidth = openingWidth + overlays.left + overlays.right;
+      doorHeight = openingHeight + overlays.top + overlays.bottom;
+      doorOffset = (overlays.right - overlays.left) / 2;
+      doorVerticalOffset = (overlays.top - overlays.bottom) / 2;
+      const halfOverlay = Object.values(overlays).some(edge => edge < overlayInches);
+      doorNotes = `Overlay door with ${overlayInches}" overlay${halfOverlay ? ', half overlay on shared edges' : ''}`;
+    }
+
+    const bay = {
+      row: opening.row,
+      colStart: opening.col,
+      colEnd: opening.col + opening.width,
+      rowEnd: opening.row + opening.height,
+    };
+    const hardwarePosition = door.hardwarePosition ?? doorHardware?.position;
+    const style = getDoorStyle(door);
+
+    if (style === 'paired') {
+      // Two leaves split the door width, leaving the pair gap between them
+      const leafWidth = (doorWidth - pairGapInches) / 2;
+      const leafOffset = (leafWidth + pairGapInches) / 2;
+
+      for (const hinge of ['left', 'right'] as const) {
+        parts.push({
+          id: generatePartId('Door', doorIndex, hinge === 'left' ? 'L' : 'R'),
+          role: 'Door',
+          qty: 1,
+          lengthIn: leafWidth,
+          widthIn: doorHeight,
+          thicknessIn: doorThickness,
+          notes: `${doorNotes}, ${hinge} leaf of pair`,
+          bay,
+          hardwarePosition: hardwarePosition && placePullAwayFromHinge(hardwarePosition, hinge, true),
+          hinge,
+          offsetIn: doorOffset + (hinge === 'left' ? -leafOffset : leafOffset),
+          verticalOffsetIn: doorVerticalOffset || undefined,
+        });
       }
-      
+    } else {
+      const hinge = DOOR_STYLE_HINGES[style];
       parts.push({
         id: generatePartId('Door', doorIndex),
         role: 'Door',
@@ -226,17 +546,105 @@ export function generateParts(params: DesignParams): Part[] {
         lengthIn: doorWidth,
         widthIn: doorHeight,
         thicknessIn: doorThickness,
-        notes: doorNotes,
-        bay: {
-          row: opening.row,
-          colStart: opening.col,
-          colEnd: opening.col + opening.width,
-          rowEnd: opening.row + opening.height,
-        },
+        notes: `${doorNotes}, hinged ${hinge}`,
+        bay,
+        hardwarePosition: hardwarePosition && placePullAwayFromHinge(hardwarePosition, hinge, false),
+        hinge,
+        offsetIn: doorOffset || undefined,
+        verticalOffsetIn: doorVerticalOffset || undefined,
       });
-      doorIndex++;
     }
+    doorIndex++;
   }
 
-  return parts;
+  // Drawers (box, bottom and face for each drawer stacked in an opening)
+  let drawerIndex = 0;
+  for (const { opening, drawer } of getDrawerOpenings(params)) {
+    const openingWidth = calculateSpanSize(grid.columnWidths, opening.col, opening.col + opening.width, frameThickness);
+    const openingHeight = calculateSpanSize(grid.rowHeights, opening.row, opening.row + opening.height, frameThickness);
+    const drawerLayout = calculateDrawerLayout(
+      params, openingWidth, openingHeight, drawer.count, calculateEdgeOverlays(params, opening)
+    );
+    const { boxWidth, boxHeight, boxDepth, boxThickness, bottomThickness } = drawerLayout;
+
+    const slideLabel = unitSystem === 'metric'
+      ? `${Math.round(drawerLayout.slideLength * 25.4)}mm`
+      : `${drawerLayout.slideLength}"`;
+    const bay = {
+      row: opening.row,
+      colStart: opening.col,
+      colEnd: opening.col + opening.width,
+      rowEnd: opening.row + opening.height,
+    };
+    // Fronts and backs sit between the sides; the bottom floats in a groove on all four
+    const innerWidth = boxWidth - 2 * boxThickness;
+    const bottomGroove = 2 * DRAWER_BOTTOM_GROOVE_DEPTH;
+
+    for (let index = 0; index < drawer.count; index++) {
+      const label = `Drawer ${drawerIndex + 1}`;
+      const drawerPart = { bay, drawer: { index, count: drawer.count } };
+
+      for (const side of ['L', 'R'] as const) {
+        parts.push({
+          id: generatePartId('DrwSide', drawerIndex, side),
+          role: 'DrawerSide',
+          qty: 1,
+          lengthIn: boxDepth,
+          widthIn: boxHeight,
+          thicknessIn: boxThickness,
+          notes: `${label} ${side === 'L' ? 'left' : 'right'} side, for ${slideLabel} side-mount slides`,
+          ...drawerPart,
+        });
+      }
+
+      parts.push({
+        id: generatePartId('DrwFront', drawerIndex),
+        role: 'DrawerFront',
+        qty: 1,
+        lengthIn: innerWidth,
+        widthIn: boxHeight,
+        thicknessIn: boxThickness,
+        notes: `${label} box front, between sides`,
+        ...drawerPart,
+      });
+
+      parts.push({
+        id: generatePartId('DrwBack', drawerIndex),
+        role: 'DrawerBack',
+        qty: 1,
+        lengthIn: innerWidth,
+        widthIn: boxHeight,
+        thicknessIn: boxThickness,
+        notes: `${label} box back, between sides`,
+        ...drawerPart,
+      });
+
+      parts.push({
+        id: generatePartId('DrwBottom', drawerIndex),
+        role: 'DrawerBottom',
+        qty: 1,
+        lengthIn: innerWidth + bottomGroove,
+        widthIn: boxDepth - 2 * boxThickness + bottomGroove,
+        thicknessIn: bottomThickness,
+        notes: `${label} bottom, in ${DRAWER_BOTTOM_GROOVE_DEPTH}" deep groove`,
+        ...drawerPart,
+      });
+
+      parts.push({
+        id: generatePartId('DrwFace', drawerIndex),
+        role: 'DrawerFace',
+        qty: 1,
+        lengthIn: drawerLayout.faceWidth,
+        widthIn: drawerLayout.faceHeight,
+        thicknessIn: drawerLayout.faceThickness,
+        notes: `${label} face, ${drawerLayout.faceInset ? 'inset' : 'overlay'}`,
+        ...drawerPart,
+      });
+
+      drawerIndex++;
+    }
+  }
+
+  // Band the exposed edges, trimming each part so it finishes at its designed size
+  return applyEdgeBanding(parts, params);
 }
\ No newline at end of file
@@ -1,14 +1,49 @@
 import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import type { Part, DesignParams, Material } from './types';
+import type { Part, DesignParams, Material, BackStyle, ConstructionStyle, JoineryType, PriceCatalog, CostCategory } from './types';
 import { getThicknessInInches, isImperialMaterial, isMetricMaterial } from './types';
-import { toFraction32, formatDimensionsWithUnit } from './format';
+import { toFraction32, formatDimension, formatDimensionsWithUnit } from './format';
+import { hasCustomGridSizes, resolveColumnWidths, resolveRowHeights, toInches } from './measurements';
+import { getAdjustableShelfOpenings, getDoorOpenings, getDoorStyle, getDrawerOpenings, getInsertOpenings, getOpenings } from './openings';
+import { DRAWER_SLIDE_CLEARANCE } from './drawers';
+import { getShelfPinSpacing, SHELF_PIN_CLEARANCE } from './shelfPins';
+import { getBackMode, hasBackPanel, isWallHung } from './backs';
+import { getBaseMode } from './base';
+import { calculateHardwareBom } from './hardware';
+import { calculateCostEstimate, calculateEdgeBandingFeet, COST_CATEGORY_LABELS, formatCost } from './cost';
+import { calculateBandedLength, getEdgeBandingThickness } from './edgeBanding';
+import { DEFAULT_PRICE_CATALOG, KALLAX_INSERTS, SHEET_MATERIAL_PROPERTIES } from './constants';
 import { svgToPng } from '../lib/svgToImage';
-import { generateSheetLayouts } from './ripGenerator';
-import { generateAllSheetSvgs, generateOversizedPartSvgs } from './cutListSvg';
+import { generateSheetLayouts, getEdgeTrim, getKerf } from './ripGenerator';
+import type { SheetLayoutResult } from './ripGenerator';
+import { generateAllSheetSvgs, generateOversizedPartSvgs, getSheetSvgSize } from './cutListSvg';
 import { generateAllAssemblyGuideSvgs } from './assemblyGuideSvg';
 import { captureAxonometricView } from './sceneCapture';
 import instructionGuysUrl from '../assets/InstructionGuys.png';
 
+/** Display names for each construction style */
+const CONSTRUCTION_STYLE_LABELS: Record<ConstructionStyle, string> = {
+  'continuous-dividers': 'Continuous dividers',
+  'continuous-shelves': 'Continuous shelves',
+  'full-height-sides': 'Full-height sides',
+};
+
+/** Display names for each back style */
+const BACK_STYLE_LABELS: Record<BackStyle, string> = {
+  surface: 'Surface-mounted',
+  inset: 'Inset',
+  'per-opening': 'Behind chosen openings',
+  split: 'Split to fit sheets',
+  stretchers: 'Stretcher rails',
+  'french-cleat': 'French cleat',
+};
+
+/** Display names for each joinery type */
+const JOINERY_LABELS: Record<JoineryType, string> = {
+  butt: 'Butt joints',
+  dado: 'Dados',
+  rabbet: 'Dados + rabbeted corners',
+};
+
 /**
  * Helper to format material thickness for display
  */
@@ -20,10 +55,37 @@ function formatMaterialThickness(material: Material, unitSystem: 'imperial' | 'm
   }
 }
 
+/**
+ * Describe what the carcass stands on, with its height and setback or inset
+ */
+function describeBase(params: DesignParams): string {
+  const base = getBaseMode(params);
+  if (base.type === 'none') return 'None (bottom on the floor)';
+  const format = (value: number) => formatDimension(toInches(value, params.unitSystem), params.unitSystem);
+  return base.type === 'plinth'
+    ? `Recessed plinth, ${format(base.height)} high, ${format(base.setback)} setback`
+    : `Legs, ${format(base.height)} high, ${format(base.inset)} inset`;
+}
+
+/**
+ * Describe the countertop's material, thickness, overhangs and edge
+ */
+function describeCountertop(params: DesignParams): string {
+  const { countertop } = params;
+  if (!countertop) return 'No';
+  const format = (value: number) => formatDimension(toInches(value, params.unitSystem), params.unitSystem);
+  const { front, back, left, right } = countertop.overhang;
+  const edge = countertop.edge !== undefined ? `, ${format(countertop.edge)} hardwood edge` : '';
+  return `${formatMaterialThickness(countertop.thickness, params.unitSystem)} ${SHEET_MATERIAL_PROPERTIES[countertop.material].label}, ` +
+    `overhang ${format(front)} / ${format(back)} / ${format(left)} / ${format(right)} (F/B/L/R)${edge}`;
+}
+
 export async function generatePDFBooklet(
   parts: Part[], 
   params: DesignParams,
-  title: string = 'Custom Modular Shelving'
+  title: string = 'Custom Modular Shelving',
+  catalog: PriceCatalog = DEFAULT_PRICE_CATALOG,
+  layoutResult: SheetLayoutResult = generateSheetLayouts(parts, params)
 ): Promise<Uint8Array> {
   const pdfDoc = await PDFDocument.create();
   const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
@@ -42,15 +104,26 @@ export async function generatePDFBooklet(
   // Site URL for instructions
   const siteUrl = 'kallax-configurator.app';
   
+  // Only openings with an assigned door count
+  const doorCount = getDoorOpenings(params).length;
+
   // Helper function to get door configuration description
   const getDoorDescription = () => {
-    if (!params.hasDoors) return 'no doors';
+    if (doorCount === 0) return 'no doors';
     if (params.doorMode.type === 'inset') return 'inset doors';
     return 'overlay doors';
   };
   
   // Helper function to get back description
-  const getBackDescription = () => params.hasBack ? 'back' : 'no back';
+  const getBackDescription = () => {
+    if (!params.hasBack) return 'no back';
+    const backMode = getBackMode(params);
+    if (backMode.type === 'inset') return 'inset back';
+    if (backMode.type === 'per-opening') return 'partial back';
+    if (backMode.type === 'stretchers') return 'stretchers';
+    if (backMode.type === 'french-cleat') return 'French cleat';
+    return 'back';
+  };
   
   // ===== PAGE 1: Title Page =====
   const page1 = addPage();
@@ -335,16 +408,42 @@ export async function generatePDFBooklet(
     `Grid Layout: ${params.rows} rows × ${params.cols} columns`,
     `Module Size: ${params.unitSystem === 'metric' ? Math.round(params.interiorClearance) : toFraction32(params.interiorClearance)}${unitLabel}`,
     `Depth: ${params.unitSystem === 'metric' ? Math.round(params.depth) : toFraction32(params.depth)}${unitLabel}`,
-    `Back Panel: ${params.hasBack ? 'Yes' : 'No'}`,
-    `Doors: ${params.hasDoors ? 'Yes' : 'No'}`,
+    `Base: ${describeBase(params)}`,
+    `Countertop: ${describeCountertop(params)}`,
+    `Back Panel: ${params.hasBack ? BACK_STYLE_LABELS[getBackMode(params).type] : 'No'}`,
+    `Doors: ${doorCount > 0 ? `${doorCount} of ${getOpenings(params).length} openings` : 'No'}`,
     `Frame Thickness: ${formatMaterialThickness(params.materials.frame, params.unitSystem)}`,
+    `Construction: ${CONSTRUCTION_STYLE_LABELS[params.constructionStyle || 'continuous-dividers']}`,
+    `Joinery: ${JOINERY_LABELS[params.joinery?.type || 'butt']}`,
   ];
 
-  if (params.hasBack && params.materials.back) {
+  if (hasCustomGridSizes(params)) {
+    const formatSize = (size: number) => formatDimension(toInches(size, params.unitSystem), params.unitSystem);
+    configs.push(`Column Widths: ${resolveColumnWidths(params).map(formatSize).join(', ')}`);
+    configs.push(`Row Heights: ${resolveRowHeights(params).map(formatSize).join(', ')}`);
+  }
+
+  if (params.joinery && params.joinery.type !== 'butt') {
+    const formatDepth = (depth: number) => formatDimension(toInches(depth, params.unitSystem), params.unitSystem);
+    configs.push(`Dado Depth: ${formatDepth(params.joinery.dadoDepth)}`);
+    if (params.joinery.type === 'rabbet') {
+      configs.push(`Rabbet Depth: ${formatDepth(params.joinery.rabbetDepth)}`);
+    }
+  }
+
+  if (hasBackPanel(params) && params.materials.back) {
     configs.push(`Back Thickness: ${formatMaterialThickness(params.materials.back, params.unitSystem)}`);
+    const backMode = getBackMode(params);
+    if (backMode.type === 'inset') {
+      configs.push(`Back Joint: ${backMode.joint === 'groove' ? 'Groove' : 'Rabbet'}`);
+    }
+    const backPanels = parts.filter(p => p.role === 'Back').length;
+    if (backPanels > 1) {
+      configs.push(`Back Panels: ${backPanels}`);
+    }
   }
 
-  if (params.hasDoors && params.materials.door) {
+  if (doorCount > 0 && params.materials.door) {
     configs.push(`Door Thickness: ${formatMaterialThickness(params.materials.door, params.unitSystem)}`);
     configs.push(`Door Style: ${params.doorMode.type}`);
     if (params.doorMode.type === 'inset') {
@@ -354,6 +453,37 @@ export async function generatePDFBooklet(
       const overlayDisplay = params.unitSystem === 'metric' ? `${Math.round(params.doorMode.overlay)}mm` : `${toFraction32(params.doorMode.overlay)}"`;
       configs.push(`Door Overlay: ${overlayDisplay}`);
     }
+    if (getDoorOpenings(params).some(({ door }) => getDoorStyle(door) === 'paired')) {
+      const pairGap = params.doorMode.pairGap ?? params.doorMode.reveal;
+      const pairGapDisplay = params.unitSystem === 'metric' ? `${Math.round(pairGap)}mm` : `${toFraction32(pairGap)}"`;
+      configs.push(`Paired Door Gap: ${pairGapDisplay}`);
+    }
+  }
+
+  const drawerOpenings = getDrawerOpenings(params);
+  if (drawerOpenings.length > 0) {
+    const drawerCount = drawerOpenings.reduce((sum, { drawer }) => sum + drawer.count, 0);
+    configs.push(`Drawers: ${drawerCount} in ${drawerOpenings.length} ${drawerOpenings.length === 1 ? 'opening' : 'openings'}`);
+    if (params.materials.drawerBox) {
+      configs.push(`Drawer Box Thickness: ${formatMaterialThickness(params.materials.drawerBox, params.unitSystem)}`);
+    }
+    if (params.materials.drawerBottom) {
+      configs.push(`Drawer Bottom Thickness: ${formatMaterialThickness(params.materials.drawerBottom, params.unitSystem)}`);
+    }
+    configs.push(`Drawer Slide Clearance: ${formatDimension(DRAWER_SLIDE_CLEARANCE, params.unitSystem)} per side`);
+  }
+
+  const shelfOpenings = getAdjustableShelfOpenings(params);
+  if (shelfOpenings.length > 0) {
+    const shelfCount = shelfOpenings.reduce((sum, { shelves }) => sum + shelves.count, 0);
+    configs.push(`Adjustable Shelves: ${shelfCount} in ${shelfOpenings.length} ${shelfOpenings.length === 1 ? 'opening' : 'openings'}`);
+    configs.push(`Shelf Pins: ${params.shelfPins?.system === 'custom'
+      ? `${formatDimension(getShelfPinSpacing(params), params.unitSystem)} spacing`
+      : '32mm system'}, ${formatDimension(SHELF_PIN_CLEARANCE, params.unitSystem)} shelf clearance`);
+  }
+
+  for (const { opening, insert } of getInsertOpenings(params)) {
+    configs.push(`Kallax Insert (${opening.row},${opening.col}): ${KALLAX_INSERTS[insert.insert].name}`);
   }
   
   for (const config of configs) {
@@ -463,8 +593,11 @@ DADOS:
 • Use 1/8" dados for shelves into vertical dividers (leaves ~1/2" material)
 • Use 1/4" dados for top/bottom/sides into end pieces (leaves 1/2" material)
 
-For dados, you will have to adjust the part dimensions according to the dado depth above. (e.g. shelves that go into vertical dividers on 
-either side will add 1/8" to either side)`
+${params.joinery && params.joinery.type !== 'butt'
+  ? `The part dimensions in this booklet already include the ${JOINERY_LABELS[params.joinery.type].toLowerCase()} allowance
+selected in the app, and the assembly guide shows each dado at its full width.`
+  : `For dados, you will have to adjust the part dimensions according to the dado depth above. (e.g. shelves that go into vertical dividers on 
+either side will add 1/8" to either side), or select dados in the app's Joinery settings.`}`
   
   // Split text into lines and render
   const assemblyLines = assemblyText.split('\n');
@@ -491,8 +624,213 @@ either side will add 1/8" to either side)`
     yPos -= 16;
   }
 
+  // ===== HARDWARE PAGE =====
+  const hardware = calculateHardwareBom(parts, params);
+  if (hardware.length > 0) {
+    const hardwarePage = addPage();
+    yPos = pageHeight - margin;
+
+    hardwarePage.drawText('Hardware', {
+      x: margin,
+      y: yPos,
+      size: 20,
+      font: helveticaBoldFont,
+    });
+    yPos -= 25;
+
+    hardwarePage.drawText('What to buy before you start', {
+      x: margin,
+      y: yPos,
+      size: 14,
+      font: helveticaFont,
+      color: rgb(0.3, 0.3, 0.3),
+    });
+    yPos -= 40;
+
+    // Hardware table header
+    hardwarePage.drawText('Item', { x: margin, y: yPos, size: 10, font: helveticaBoldFont });
+    hardwarePage.drawText('Qty', { x: margin + 260, y: yPos, size: 10, font: helveticaBoldFont });
+    hardwarePage.drawText('Notes', { x: margin + 310, y: yPos, size: 10, font: helveticaBoldFont });
+
+    yPos -= 15;
+    hardwarePage.drawLine({
+      start: { x: margin, y: yPos },
+      end: { x: pageWidth - margin, y: yPos },
+      thickness: 1,
+      color: rgb(0, 0, 0),
+    });
+    yPos -= 15;
+
+    for (const item of hardware) {
+      hardwarePage.drawText(item.name, { x: margin, y: yPos, size: 10, font: helveticaFont });
+      hardwarePage.drawText(item.qty.toString(), { x: margin + 260, y: yPos, size: 10, font: helveticaFont });
+      if (item.notes) {
+        hardwarePage.drawText(item.notes, {
+          x: margin + 310, y: yPos, size: 9, font: helveticaFont, color: rgb(0.4, 0.4, 0.4)
+        });
+      }
+      yPos -= 18;
+    }
+
+    yPos -= 10;
+    hardwarePage.drawText('Quantities are estimates; buy a few spare fasteners.', {
+      x: margin,
+      y: yPos,
+      size: 9,
+      font: helveticaFont,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+  }
+
+  // ===== EDGE BANDING PAGE =====
+  const bandedParts = parts.filter(part => part.bandedEdges && part.bandedEdges.length > 0);
+  if (bandedParts.length > 0) {
+    const bandingPage = addPage();
+    yPos = pageHeight - margin;
+
+    bandingPage.drawText('Edge Banding', {
+      x: margin,
+      y: yPos,
+      size: 20,
+      font: helveticaBoldFont,
+    });
+    yPos -= 25;
+
+    const bandingThickness = getEdgeBandingThickness(params);
+    const subtitle = bandingThickness > 0
+      ? `Parts are cut ${formatDimension(bandingThickness, params.unitSystem)} smaller on each banded edge`
+      : 'Thin veneer, applied to parts cut at full size';
+    bandingPage.drawText(subtitle, {
+      x: margin,
+      y: yPos,
+      size: 14,
+      font: helveticaFont,
+      color: rgb(0.3, 0.3, 0.3),
+    });
+    yPos -= 40;
+
+    // Banding table header
+    bandingPage.drawText('Part', { x: margin, y: yPos, size: 10, font: helveticaBoldFont });
+    bandingPage.drawText('Qty', { x: margin + 160, y: yPos, size: 10, font: helveticaBoldFont });
+    bandingPage.drawText('Edges', { x: margin + 210, y: yPos, size: 10, font: helveticaBoldFont });
+    bandingPage.drawText('Linear ft', { x: margin + 380, y: yPos, size: 10, font: helveticaBoldFont });
+
+    yPos -= 15;
+    bandingPage.drawLine({
+      start: { x: margin, y: yPos },
+      end: { x: pageWidth - margin, y: yPos },
+      thickness: 1,
+      color: rgb(0, 0, 0),
+    });
+    yPos -= 15;
+
+    let currentBandingPage = bandingPage;
+    for (const part of bandedParts) {
+      if (yPos < margin + 40) {
+        currentBandingPage = addPage();
+        yPos = pageHeight - margin;
+      }
+      currentBandingPage.drawText(part.id, { x: margin, y: yPos, size: 10, font: helveticaFont });
+      currentBandingPage.drawText(part.qty.toString(), { x: margin + 160, y: yPos, size: 10, font: helveticaFont });
+      currentBandingPage.drawText(part.bandedEdges!.join(', '), { x: margin + 210, y: yPos, size: 10, font: helveticaFont });
+      currentBandingPage.drawText((calculateBandedLength(part) / 12).toFixed(1), { x: margin + 380, y: yPos, size: 10, font: helveticaFont });
+      yPos -= 18;
+    }
+
+    yPos -= 10;
+    currentBandingPage.drawText(`Total: ${calculateEdgeBandingFeet(parts).toFixed(1)} linear ft (buy about 10% extra for trimming)`, {
+      x: margin,
+      y: yPos,
+      size: 10,
+      font: helveticaBoldFont,
+    });
+  }
+
+  // ===== COST ESTIMATE PAGE =====
+  const cost = calculateCostEstimate(parts, params, hardware, catalog, layoutResult);
+  if (cost.lines.length > 0) {
+    const costPage = addPage();
+    yPos = pageHeight - margin;
+
+    costPage.drawText('Cost Estimate', {
+      x: margin,
+      y: yPos,
+      size: 20,
+      font: helveticaBoldFont,
+    });
+    yPos -= 25;
+
+    costPage.drawText('Priced from your catalog in the app', {
+      x: margin,
+      y: yPos,
+      size: 14,
+      font: helveticaFont,
+      color: rgb(0.3, 0.3, 0.3),
+    });
+    yPos -= 40;
+
+    // Cost table header
+    costPage.drawText('Item', { x: margin, y: yPos, size: 10, font: helveticaBoldFont });
+    costPage.drawText('Qty', { x: margin + 310, y: yPos, size: 10, font: helveticaBoldFont });
+    costPage.drawText('Unit Price', { x: margin + 390, y: yPos, size: 10, font: helveticaBoldFont });
+    costPage.drawText('Total', { x: margin + 480, y: yPos, size: 10, font: helveticaBoldFont });
+
+    yPos -= 15;
+    costPage.drawLine({
+      start: { x: margin, y: yPos },
+      end: { x: pageWidth - margin, y: yPos },
+      thickness: 1,
+      color: rgb(0, 0, 0),
+    });
+    yPos -= 15;
+
+    // Long hardware lists run off the page, so keep the table to what fits above the summary
+    const maxLines = Math.floor((yPos - margin - 120) / 16);
+    const shownLines = cost.lines.slice(0, maxLines);
+    for (const line of shownLines) {
+      costPage.drawText(line.name, { x: margin, y: yPos, size: 9, font: helveticaFont });
+      costPage.drawText(`${line.qty} ${line.unit}`, { x: margin + 310, y: yPos, size: 9, font: helveticaFont });
+      costPage.drawText(formatCost(line.unitPrice, catalog), { x: margin + 390, y: yPos, size: 9, font: helveticaFont });
+      costPage.drawText(formatCost(line.total, catalog), { x: margin + 480, y: yPos, size: 9, font: helveticaFont });
+      yPos -= 16;
+    }
+    if (shownLines.length < cost.lines.length) {
+      costPage.drawText(`...and ${cost.lines.length - shownLines.length} more (see the cost CSV export)`, {
+        x: margin, y: yPos, size: 9, font: helveticaFont, color: rgb(0.4, 0.4, 0.4)
+      });
+      yPos -= 16;
+    }
+
+    // Per-category breakdown and total
+    yPos -= 10;
+    costPage.drawLine({
+      start: { x: margin, y: yPos },
+      end: { x: pageWidth - margin, y: yPos },
+      thickness: 1,
+      color: rgb(0, 0, 0),
+    });
+    yPos -= 18;
+
+    for (const [category, amount] of Object.entries(cost.byCategory) as Array<[CostCategory, number]>) {
+      if (amount <= 0) continue;
+      costPage.drawText(COST_CATEGORY_LABELS[category], { x: margin + 310, y: yPos, size: 10, font: helveticaFont });
+      costPage.drawText(formatCost(amount, catalog), { x: margin + 480, y: yPos, size: 10, font: helveticaFont });
+      yPos -= 16;
+    }
+    costPage.drawText('Total', { x: margin + 310, y: yPos, size: 11, font: helveticaBoldFont });
+    costPage.drawText(formatCost(cost.total, catalog), { x: margin + 480, y: yPos, size: 11, font: helveticaBoldFont });
+    yPos -= 25;
+
+    costPage.drawText('Sheet counts come from the cut list that follows. Prices are estimates; check with your supplier.', {
+      x: margin,
+      y: yPos,
+      size: 9,
+      font: helveticaFont,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+  }
+
   // ===== PAGE 4: Cut List =====
-  const layoutResult = generateSheetLayouts(parts, params);
   const sheetSvgs = generateAllSheetSvgs(layoutResult.sheets, params);
   const oversizedSvgs = generateOversizedPartSvgs(layoutResult.oversizedParts, params);
   
@@ -515,10 +853,23 @@ either side will add 1/8" to either side)`
     yPos -= 25;
     
     // Body text with warning combined
-    const sheetSize = params.unitSystem === 'metric' ? '1200mm x 2400mm' : '4\' x 8\'';
+    const sheetSize = [...new Set(layoutResult.sheets.filter(sheet => !sheet.offcutId).map(sheet =>
+      `${formatDimension(sheet.sheetWidth, params.unitSystem)} x ${formatDimension(sheet.sheetHeight, params.unitSystem)}`))].join(', ');
     const maxRip = params.unitSystem === 'metric' ? '610mm' : '24"';
-    const spacing = params.unitSystem === 'metric' ? '20mm' : '1"';
-    const bodyText = `Suggestion for organizing cuts on ${sheetSize} plywood sheet goods. The packing algorithm used here is very basic, and should be double-checked. I used ${maxRip} as a max rip width where possible. Lastly, the packing algorithm puts ${spacing} in between cuts - this is to avoid overpacking sheets, not to actually suggest you should put ${spacing} in between cuts.`;
+    const kerf = formatDimension(getKerf(params), params.unitSystem);
+    const trim = formatDimension(getEdgeTrim(params), params.unitSystem);
+    const { nesting } = layoutResult;
+    const saved = nesting.sheetsSaved > 0
+      ? `, which saves ${nesting.sheetsSaved} sheet${nesting.sheetsSaved === 1 ? '' : 's'} over ripping each width into its own strips`
+      : '';
+    const packing = nesting.strategy === 'guillotine'
+      ? `Parts of different widths share strips here, split off with a second rip${saved}.`
+      : 'Each strip is ripped to the width of the parts cut from it.';
+    const offcutCount = layoutResult.sheets.filter(sheet => sheet.offcutId).length;
+    const fromOffcuts = offcutCount > 0
+      ? ` The first ${offcutCount === 1 ? 'layout is' : `${offcutCount} layouts are`} cut from offcuts in your inventory, before any new sheet.`
+      : '';
+    const bodyText = `Suggestion for organizing cuts on ${sheetSize} plywood sheet goods. ${packing}${fromOffcuts} The layouts should still be double-checked. I used ${maxRip} as a max rip width where possible. Lastly, the layouts trim ${trim} off each factory edge and leave a ${kerf} saw kerf between parts - set these to match your saw so the layouts do too. Arrows mark parts that have to follow the grain, which runs up each sheet.`;
     yPos -= 25;
     
     // Wrap body text (handles line breaks)
@@ -579,19 +930,27 @@ either side will add 1/8" to either side)`
     const imageHeight = availableHeight * 0.5;
     const startIndex = pageIndex * sheetsPerPage;
     const endIndex = Math.min(startIndex + sheetsPerPage, sheetSvgs.length);
+
+    // One scale for every sheet on the page, so each is drawn at its real size relative to the others
+    const svgSizes = layoutResult.sheets.slice(startIndex, endIndex).map(getSheetSvgSize);
+    const imageScale = Math.min(
+      availableHeight / Math.max(...svgSizes.map(size => size.height)),
+      (contentWidth - 30) / svgSizes.reduce((sum, size) => sum + size.width, 0)
+    );
     
     let currentX = margin + 30; // Start with some left padding to center sheets
     
     for (let i = startIndex; i < endIndex; i++) {
+      const svgSize = svgSizes[i - startIndex];
       try {
         const pngBytes = await svgToPng(sheetSvgs[i], {
-          width: 280, // Tight around 4:8 ratio content + minimal margins
-          height: 500, // Includes title space and dimension space
+          width: svgSize.width,
+          height: svgSize.height,
           scale: 2
         });
         
         const pngImage = await pdfDoc.embedPng(pngBytes);
-        const scaledDims = pngImage.scale(imageHeight / 500);
+        const scaledDims = pngImage.scale(imageScale / 2);
         
         page5.drawImage(pngImage, {
           x: currentX,
@@ -655,8 +1014,7 @@ either side will add 1/8" to either side)`
     yPos -= 25;
     
     // Explanation text
-    const sheetDimensions = params.unitSystem === 'metric' ? '1200mm × 2400mm' : '4\' × 8\'';
-    const explanationText = `The following parts exceed the dimensions of standard ${sheetDimensions} plywood sheets and will need to be sourced separately or assembled from multiple pieces:`;
+    const explanationText = 'The following parts exceed the dimensions of the largest stock sheets for their thickness and will need to be sourced separately or assembled from multiple pieces:';
     
     // Wrap explanation text
     const words = explanationText.split(' ');
@@ -816,6 +1174,9 @@ either side will add 1/8" to either side)`
       'Sides': [],
       'Vertical Dividers': [],
       'Shelves': [],
+      'Doors': [],
+      'Rails & Cleats': [],
+      'Base': [],
     };
 
     for (const item of assemblyGuideSvgs) {
@@ -827,6 +1188,12 @@ either side will add 1/8" to either side)`
         groups['Vertical Dividers'].push(item);
       } else if (item.role === 'BayShelf') {
         groups['Shelves'].push(item);
+      } else if (item.role === 'Door') {
+        groups['Doors'].push(item);
+      } else if (item.role === 'Stretcher' || item.role === 'Cleat' || item.role === 'WallCleat') {
+        groups['Rails & Cleats'].push(item);
+      } else if (item.role === 'Plinth' || item.role === 'Legs') {
+        groups['Base'].push(item);
       }
     }
 
@@ -859,8 +1226,9 @@ either side will add 1/8" to either side)`
     for (const [groupName, items] of Object.entries(groups)) {
       if (items.length === 0) continue;
 
-      // Check if we need a new page for this group header
-      if (currentY < margin + 100) {
+      // Rails get a page of their own; other groups only start one when this page is full
+      const ownPage = groupName === 'Rails & Cleats' || groupName === 'Base';
+      if (currentY < margin + 100 || ownPage) {
         assemblyPage = addPage();
         currentY = addAssemblyPageHeader(assemblyPage);
       }
@@ -875,6 +1243,41 @@ either side will add 1/8" to either side)`
       });
       currentY -= 25;
 
+      if (ownPage) {
+        const baseType = getBaseMode(params).type;
+        const railSteps = groupName === 'Base'
+          ? baseType === 'legs'
+            ? [
+                'Lay the carcass on its back and mark the plate centers on the underside of the Bottom.',
+                'Screw each mounting plate down through its corner holes, then thread the legs in.',
+              ]
+            : [
+                'Screw the plinth sides between the front and back to make a frame, checking it is square.',
+                'Set the frame on the floor and level it with shims before screwing the Bottom down onto it.',
+              ]
+          : isWallHung(params)
+          ? [
+              'Fit the cleat between the sides under the top, one thickness in from the back edges.',
+              'Screw the wall cleat level into the studs, bevel up and facing the wall.',
+              'Lift the unit over the wall cleat and lower it until the bevels lock together.',
+            ]
+          : [
+              'Fit the stretchers between the sides, flush with the back edges.',
+              'Check the carcass is square by measuring both diagonals before driving the screws.',
+            ];
+        for (const step of railSteps) {
+          assemblyPage.drawText(step, {
+            x: margin,
+            y: currentY,
+            size: 10,
+            font: helveticaFont,
+            color: rgb(0.3, 0.3, 0.3),
+          });
+          currentY -= 15;
+        }
+        currentY -= 10;
+      }
+
       // Render parts in this group
       let currentX = margin;
       const imagesPerRow = 2;
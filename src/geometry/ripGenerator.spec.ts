@@ -0,0 +1,280 @@
+import { describe, it, expect } from 'vitest';
+import { generateSheetLayouts, getEdgeTrim, getKerf, getSheetSizes } from './ripGenerator';
+import { calculateCostEstimate } from './cost';
+import { getGrainDirection } from './grain';
+import { findNewOffcuts, getUsedOffcutIds, MIN_OFFCUT_LENGTH, MIN_OFFCUT_WIDTH } from './offcuts';
+import { generateParts } from './parts';
+import { DEFAULT_DESIGN, DEFAULT_DESIGN_METRIC, DEFAULT_PRICE_CATALOG, RECOMMENDED_MATERIALS } from './constants';
+import type { DesignParams, Offcut, Part, SheetMaterial, SheetStockSize } from './types';
+
+const withStock = (sheetStock: SheetStockSize[], overrides: Partial<DesignParams> = {}): DesignParams => ({
+  ...DEFAULT_DESIGN,
+  sheetStock,
+  ...overrides,
+});
+
+// A 3/4" shelf with its grain along its length
+const shelf = (id: string, widthIn: number, lengthIn: number): Part =>
+  ({ id, role: 'BayShelf', qty: 1, lengthIn, widthIn, thicknessIn: 0.75 });
+
+describe('Sheet stock', () => {
+  it('should cut from standard sheets when the design lists no stock', () => {
+    const { sheets } = generateSheetLayouts(generateParts(DEFAULT_DESIGN), DEFAULT_DESIGN);
+    expect(sheets.every(sheet => sheet.sheetWidth === 48 && sheet.sheetHeight === 96)).toBe(true);
+
+    const [size] = getSheetSizes(DEFAULT_DESIGN_METRIC, 18 / 25.4);
+    expect(size.width).toBeCloseTo(1200 / 25.4);
+    expect(size.height).toBeCloseTo(2400 / 25.4);
+  });
+
+  it('should use the stock listed for a thickness before the stock for any thickness', () => {
+    // 5x5 Baltic birch for the 3/4" carcass, 1220x2440 (in inches) for everything else
+    const params = withStock([
+      { thickness: 0.75, width: 60, length: 60 },
+      { width: 2440 / 25.4, length: 1220 / 25.4 },
+    ]);
+    const { sheets } = generateSheetLayouts(generateParts(params), params);
+    const frame = sheets.filter(sheet => sheet.thickness > 0.5);
+    const back = sheets.filter(sheet => sheet.thickness < 0.5);
+
+    expect(frame.length).toBeGreaterThan(0);
+    expect(frame.every(sheet => sheet.sheetWidth === 60 && sheet.sheetHeight === 60)).toBe(true);
+    expect(back.every(sheet => sheet.sheetHeight === 2440 / 25.4 && sheet.sheetWidth === 1220 / 25.4)).toBe(true);
+    for (const sheet of frame) {
+      expect(sheet.parts.every(part => part.x + part.width <= 60 && part.length <= 60)).toBe(true);
+    }
+  });
+
+  it('should pick the best-fitting stock for each sheet', () => {
+    // Sides too tall for a 5x5 sheet go on the 4x8; the rest fills the smaller sheets
+    const tall = withStock([{ width: 48, length: 96 }, { width: 60, length: 60 }], { rows: 5 });
+    const { sheets, oversizedParts } = generateSheetLayouts(generateParts(tall), tall);
+    const sideSheet = sheets.find(sheet => sheet.parts.some(part => part.partId.startsWith('Side')))!;
+
+    expect(oversizedParts).toHaveLength(0);
+    expect(sideSheet.sheetHeight).toBe(96);
+    expect(sheets.some(sheet => sheet.sheetHeight === 60)).toBe(true);
+
+    // Parts that fit no stock are reported as oversized
+    const small = withStock([{ width: 24, length: 48 }], { rows: 5 });
+    const result = generateSheetLayouts(generateParts(small), small);
+    expect(result.oversizedParts.some(({ part }) => part.role === 'Side')).toBe(true);
+  });
+
+  it('should price each sheet size it lays out', () => {
+    const params = withStock([{ width: 60, length: 60 }]);
+    const parts = generateParts(params);
+    const cost = calculateCostEstimate(parts, params, [], DEFAULT_PRICE_CATALOG);
+    const sheetLines = cost.lines.filter(line => line.category === 'sheet-goods');
+
+    expect(sheetLines.length).toBeGreaterThan(0);
+    expect(sheetLines.every(line => line.name.endsWith('60" × 60"'))).toBe(true);
+    expect(sheetLines.reduce((sum, line) => sum + line.qty, 0))
+      .toBe(generateSheetLayouts(parts, params).sheets.length);
+  });
+});
+
+describe('Kerf and edge trim', () => {
+  it('should trim the sheet edges and leave a kerf between parts', () => {
+    const params: DesignParams = { ...DEFAULT_DESIGN, cutPlan: { kerf: 0.125, trim: 0.5 } };
+    const [sheet] = generateSheetLayouts(generateParts(params), params).sheets;
+    const [first, second] = sheet.ripCuts;
+
+    expect(first.position).toBe(0.5);
+    expect(second.position).toBeCloseTo(0.5 + first.width + 0.125);
+    const strip = sheet.parts.filter(part => part.x === first.position);
+    expect(strip[0].y).toBe(0.5);
+    expect(strip[1].y).toBeCloseTo(0.5 + strip[0].length + 0.125);
+    expect(sheet.parts.every(part =>
+      part.x + part.width <= sheet.sheetWidth - 0.5 && part.y + part.length <= sheet.sheetHeight - 0.5)).toBe(true);
+  });
+
+  it('should count the kerf in the utilization', () => {
+    const parts = generateParts(DEFAULT_DESIGN);
+    const [sheet] = generateSheetLayouts(parts, DEFAULT_DESIGN).sheets;
+    const partsShare = sheet.parts.reduce((sum, part) => sum + part.width * part.length, 0) /
+      (sheet.sheetWidth * sheet.sheetHeight) * 100;
+
+    expect(sheet.kerfLoss).toBeGreaterThan(0);
+    expect(sheet.utilization).toBeCloseTo(partsShare + sheet.kerfLoss);
+
+    const noKerf = { ...DEFAULT_DESIGN, cutPlan: { kerf: 0, trim: 0 } };
+    expect(generateSheetLayouts(parts, noKerf).sheets[0].kerfLoss).toBe(0);
+
+    // Defaults follow the unit system
+    expect(getKerf(DEFAULT_DESIGN)).toBe(0.125);
+    expect(getEdgeTrim(DEFAULT_DESIGN_METRIC)).toBeCloseTo(6 / 25.4);
+  });
+});
+
+describe('Grain direction', () => {
+  it('should lay each part so its grain follows the sheet', () => {
+    const params: DesignParams = { ...DEFAULT_DESIGN, hasDoors: true };
+    const placed = generateSheetLayouts(generateParts(params), params).sheets.flatMap(sheet => sheet.parts);
+    const door = placed.find(part => part.originalPart.role === 'Door')!;
+    const side = placed.find(part => part.originalPart.role === 'Side')!;
+
+    // Door grain runs up the door, which is its width
+    expect(door.grain).toBe('across');
+    expect(door.length).toBeCloseTo(door.originalPart.widthIn);
+    expect(side.grain).toBe('length');
+    expect(side.length).toBeCloseTo(side.originalPart.lengthIn);
+    expect(placed.filter(part => part.grain !== 'either').every(part => part.rotated === (part.grain === 'across'))).toBe(true);
+  });
+
+  it('should follow per-role rules and per-part overrides', () => {
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      grain: { roles: { Side: 'either' }, overrides: [{ partId: 'Top-0', grain: 'across' }] },
+    };
+    const parts = generateParts(params);
+    expect(getGrainDirection(parts.find(p => p.role === 'Side')!, params)).toBe('either');
+    expect(getGrainDirection(parts.find(p => p.role === 'Bottom')!, params)).toBe('length');
+
+    const top = generateSheetLayouts(parts, params).sheets.flatMap(sheet => sheet.parts).find(p => p.partId === 'Top-0')!;
+    expect(top.rotated).toBe(true);
+    expect(top.length).toBeCloseTo(top.originalPart.widthIn);
+  });
+
+  it('should report a part that only fits against its grain as oversized', () => {
+    const wide: DesignParams = { ...DEFAULT_DESIGN, cols: 4, grain: { overrides: [{ partId: 'Top-0', grain: 'across' }] } };
+    const { oversizedParts } = generateSheetLayouts(generateParts(wide), wide);
+    expect(oversizedParts.map(({ part }) => part.id)).toEqual(['Top-0']);
+    expect(oversizedParts[0].reason).toContain('Grain must run across');
+
+    const free = { ...wide, grain: { overrides: [{ partId: 'Top-0', grain: 'either' as const }] } };
+    expect(generateSheetLayouts(generateParts(free), free).oversizedParts).toHaveLength(0);
+  });
+});
+
+describe('Nesting', () => {
+  it('should fit narrower parts beside wider ones with a secondary rip', () => {
+    // Two 23" strips fill the sheet, so the 22" parts need a second sheet when each width gets its own strip
+    const parts = [shelf('A', 23, 60), shelf('B', 23, 60), shelf('C', 22, 35), shelf('D', 22, 35)];
+    const { sheets, nesting } = generateSheetLayouts(parts, DEFAULT_DESIGN, [], Infinity);
+
+    expect(nesting).toEqual({ strategy: 'guillotine', baselineSheetCount: 2, sheetsSaved: 1 });
+    expect(sheets).toHaveLength(1);
+    const [sheet] = sheets;
+    expect(sheet.parts).toHaveLength(4);
+    expect(sheet.cuts.some(cut => cut.direction === 'rip' && cut.length < sheet.sheetHeight - 2 * sheet.trim)).toBe(true);
+  });
+
+  it('should keep strip ripping unless the optimizer does better', () => {
+    const parts = generateParts(DEFAULT_DESIGN);
+    const baseline = generateSheetLayouts(parts, DEFAULT_DESIGN, [], 0);
+    const optimized = generateSheetLayouts(parts, DEFAULT_DESIGN, [], Infinity);
+
+    expect(baseline.nesting.strategy).toBe('strips');
+    expect(baseline.nesting.sheetsSaved).toBe(0);
+    expect(optimized.sheets.length).toBeLessThanOrEqual(baseline.sheets.length);
+    expect(optimized.nesting.sheetsSaved).toBe(optimized.nesting.baselineSheetCount - optimized.sheets.length);
+  });
+
+  it('should give the same layout every time without a time limit', () => {
+    const params: DesignParams = {
+      ...DEFAULT_DESIGN,
+      rows: 10,
+      cols: 10,
+      hasDoors: true,
+      hasBack: true,
+      materials: { ...DEFAULT_DESIGN.materials, back: RECOMMENDED_MATERIALS.back },
+    };
+    const parts = generateParts(params);
+    const first = generateSheetLayouts(parts, params, [], Infinity);
+
+    expect(generateSheetLayouts(parts, params, [], Infinity)).toEqual(first);
+  });
+
+  it('should keep every part and cut inside the trimmed sheet without overlaps', () => {
+    const params: DesignParams = { ...DEFAULT_DESIGN, cols: 3, hasDoors: true };
+    const { sheets } = generateSheetLayouts(generateParts(params), params, [], Infinity);
+
+    for (const sheet of sheets) {
+      const { sheetWidth: w, sheetHeight: h, trim, kerf } = sheet;
+      for (const part of sheet.parts) {
+        expect(part.x).toBeGreaterThanOrEqual(trim);
+        expect(part.y).toBeGreaterThanOrEqual(trim);
+        expect(part.x + part.width).toBeLessThanOrEqual(w - trim + 1e-6);
+        expect(part.y + part.length).toBeLessThanOrEqual(h - trim + 1e-6);
+      }
+      for (const cut of sheet.cuts) {
+        const [cw, ch] = cut.direction === 'rip' ? [kerf, cut.length] : [cut.length, kerf];
+        expect(cut.x + cw).toBeLessThanOrEqual(w - trim + kerf + 1e-6);
+        expect(cut.y + ch).toBeLessThanOrEqual(h - trim + kerf + 1e-6);
+      }
+      sheet.parts.forEach((a, i) => sheet.parts.slice(i + 1).forEach(b => {
+        const overlaps = a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.length && b.y < a.y + a.length;
+        expect(overlaps).toBe(false);
+      }));
+    }
+  });
+});
+
+describe('Offcuts', () => {
+  const offcut = (id: string, thicknessIn: number, widthIn: number, lengthIn: number, material: SheetMaterial = 'plywood'): Offcut =>
+    ({ id, label: id, material, thicknessIn, widthIn, lengthIn });
+
+  it('should nest parts onto offcuts of their material and thickness before opening new sheets', () => {
+    const parts = generateParts(DEFAULT_DESIGN);
+    const fresh = generateSheetLayouts(parts, DEFAULT_DESIGN, [], Infinity);
+    const offcuts = [offcut('thin', 0.25, 24, 48), offcut('mdf', 0.75, 48, 96, 'mdf'), offcut('remnant', 0.75, 20, 40)];
+    const { sheets } = generateSheetLayouts(parts, DEFAULT_DESIGN, offcuts, Infinity);
+
+    const [first] = sheets;
+    expect(first.offcutId).toBe('remnant');
+    expect(first.sheetId).toContain('Offcut: remnant');
+    expect(first.parts.length).toBeGreaterThan(0);
+    // Offcut edges are already sawn, so nothing is trimmed off them
+    expect(first.trim).toBe(0);
+    expect(first.parts.every(part => part.x + part.width <= 20 && part.y + part.length <= 40)).toBe(true);
+    expect(sheets.filter(sheet => sheet.offcutId)).toHaveLength(1);
+
+    const placed = sheets.flatMap(sheet => sheet.parts.map(part => part.partId)).sort();
+    expect(placed).toEqual(fresh.sheets.flatMap(sheet => sheet.parts.map(part => part.partId)).sort());
+
+    // An MDF carcass leaves the plywood remnant alone
+    const mdf: DesignParams = { ...DEFAULT_DESIGN, sheetMaterial: 'mdf' };
+    expect(getUsedOffcutIds(generateSheetLayouts(generateParts(mdf), mdf, offcuts).sheets)).toEqual(['mdf']);
+  });
+
+  it('should not price the offcuts a plan is cut from', () => {
+    const parts = generateParts(DEFAULT_DESIGN);
+    const { sheets } = generateSheetLayouts(parts, DEFAULT_DESIGN);
+    const offcuts = [...new Set(sheets.map(sheet => sheet.thickness))].map(t => offcut(`${t}`, t, 48, 96));
+    const layouts = generateSheetLayouts(parts, DEFAULT_DESIGN, offcuts);
+    const cost = calculateCostEstimate(parts, DEFAULT_DESIGN, [], DEFAULT_PRICE_CATALOG, layouts);
+
+    expect(cost.lines.filter(line => line.category === 'sheet-goods')).toHaveLength(0);
+  });
+
+  it('should offer back the sizeable leftovers of a plan', () => {
+    const offcuts = [offcut('remnant', 0.75, 20, 40)];
+    const { sheets } = generateSheetLayouts(generateParts(DEFAULT_DESIGN), DEFAULT_DESIGN, offcuts);
+    const leftovers = findNewOffcuts(sheets, DEFAULT_DESIGN);
+
+    expect(getUsedOffcutIds(sheets)).toEqual(['remnant']);
+    expect(leftovers.length).toBeGreaterThan(0);
+    expect(leftovers.every(o => o.material === 'plywood')).toBe(true);
+    expect(leftovers.every(o =>
+      Math.min(o.widthIn, o.lengthIn) >= MIN_OFFCUT_WIDTH && Math.max(o.widthIn, o.lengthIn) >= MIN_OFFCUT_LENGTH)).toBe(true);
+    expect(leftovers[0].widthIn * leftovers[0].lengthIn)
+      .toBeGreaterThanOrEqual(leftovers[leftovers.length - 1].widthIn * leftovers[leftovers.length - 1].lengthIn);
+  });
+
+  it('should keep the grain of a strip end when it is cut again', () => {
+    // A 40" wide strip leaves an end wider than it is long, with the grain running up its short side
+    const { sheets } = generateSheetLayouts([shelf('A', 40, 80)], DEFAULT_DESIGN);
+    const end = findNewOffcuts(sheets, DEFAULT_DESIGN).find(o => o.widthIn > o.lengthIn)!;
+    expect(end.widthIn).toBeCloseTo(40);
+    expect(end.lengthIn).toBeCloseTo(96 - 0.25 - (0.25 + 80 + 0.125));
+
+    // The 30" shelf only fits across the end's grain, so it goes on a new sheet
+    const reused = generateSheetLayouts([shelf('B', 12, 30), shelf('C', 12, 14)], DEFAULT_DESIGN, [{ ...end, id: 'end' }]);
+    const [fromEnd] = reused.sheets;
+    expect(fromEnd.offcutId).toBe('end');
+    expect(fromEnd.parts.map(part => part.partId)).toEqual(['C']);
+    expect(fromEnd.parts[0].length).toBeCloseTo(14);
+    expect(fromEnd.parts[0].rotated).toBe(false);
+  });
+});
@@ -1,25 +1,77 @@
 /**
- * Rip generator for optimizing cut layouts on 4'x8' plywood sheets
+ * Rip generator for optimizing cut layouts on plywood sheets (4'x8' unless the design lists its own stock)
  * Based on specifications in src/instructions/rip-generator.md
  */
 
-import type { Part, DesignParams } from './types';
+import type { Part, DesignParams, GrainDirection, Offcut, SheetMaterial } from './types';
 import { toFraction32 } from './format';
+import { DEFAULT_EDGE_TRIM_IMPERIAL, DEFAULT_EDGE_TRIM_METRIC, DEFAULT_KERF_IMPERIAL, DEFAULT_KERF_METRIC, SHEET_MATERIAL_PROPERTIES } from './constants';
+import { toInches } from './measurements';
+import { getGrainDirection } from './grain';
 
 // Helper functions to get unit-aware constants
-function getSheetWidth(unitSystem: 'imperial' | 'metric'): number {
+export function getSheetWidth(unitSystem: 'imperial' | 'metric'): number {
   // 48" for imperial, 1200mm (~47.24") for metric
   return unitSystem === 'metric' ? 1200 / 25.4 : 48;
 }
 
-function getSheetHeight(unitSystem: 'imperial' | 'metric'): number {
+export function getSheetHeight(unitSystem: 'imperial' | 'metric'): number {
   // 96" for imperial, 2400mm (~94.49") for metric
   return unitSystem === 'metric' ? 2400 / 25.4 : 96;
 }
 
-function getCutMargin(unitSystem: 'imperial' | 'metric'): number {
-  // 1" for imperial, 20mm (~0.787") for metric (closest to 1")
-  return unitSystem === 'metric' ? 20 / 25.4 : 1;
+// Stock listed within this much of a part's thickness (inches) is used for it
+const STOCK_THICKNESS_TOLERANCE = 1 / 16;
+
+// A stock sheet size in inches, with the width the short way
+export interface SheetSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Sheet sizes that parts of the given thickness can be cut from: the design's stock for
+ * that thickness, then its stock for any thickness, then the standard sheet
+ */
+export function getSheetSizes(params: DesignParams, thicknessIn: number): SheetSize[] {
+  const { unitSystem } = params;
+  const stock = params.sheetStock ?? [];
+  const forThickness = stock.filter(size => size.thickness !== undefined &&
+    Math.abs(toInches(size.thickness, unitSystem) - thicknessIn) <= STOCK_THICKNESS_TOLERANCE);
+  const sizes = forThickness.length > 0 ? forThickness : stock.filter(size => size.thickness === undefined);
+
+  if (sizes.length === 0) {
+    return [{ width: getSheetWidth(unitSystem), height: getSheetHeight(unitSystem) }];
+  }
+  return sizes.map(size => {
+    const width = toInches(size.width, unitSystem);
+    const length = toInches(size.length, unitSystem);
+    return { width: Math.min(width, length), height: Math.max(width, length) };
+  });
+}
+
+/**
+ * Largest sheet that parts of the given thickness can be cut from
+ */
+export function getLargestSheetSize(params: DesignParams, thicknessIn: number): SheetSize {
+  return getSheetSizes(params, thicknessIn).reduce((largest, size) =>
+    size.width * size.height > largest.width * largest.height ? size : largest);
+}
+
+/**
+ * Width of the saw blade's cut between parts, in inches
+ */
+export function getKerf(params: DesignParams): number {
+  const defaultKerf = params.unitSystem === 'metric' ? DEFAULT_KERF_METRIC : DEFAULT_KERF_IMPERIAL;
+  return toInches(params.cutPlan?.kerf ?? defaultKerf, params.unitSystem);
+}
+
+/**
+ * Strip trimmed off each factory edge of a sheet before parts are cut, in inches
+ */
+export function getEdgeTrim(params: DesignParams): number {
+  const defaultTrim = params.unitSystem === 'metric' ? DEFAULT_EDGE_TRIM_METRIC : DEFAULT_EDGE_TRIM_IMPERIAL;
+  return toInches(params.cutPlan?.trim ?? defaultTrim, params.unitSystem);
 }
 
 // Constants
@@ -32,6 +84,7 @@ export interface PlacedPart {
   width: number; // cross-cut dimension
   length: number; // rip dimension
   rotated: boolean; // if part was rotated per rip rules
+  grain: GrainDirection; // the part's grain rule; the sheet's grain runs along its length
   originalPart: Part;
 }
 
@@ -41,12 +94,41 @@ export interface RipCut {
   label: string; // dimension label for bottom
 }
 
+// One saw cut, with its kerf on the far side: rips run up the sheet from (x, y),
+// cross-cuts run across it
+export interface SheetCut {
+  direction: 'rip' | 'crosscut';
+  x: number;
+  y: number;
+  length: number;
+}
+
+// A rectangle of the sheet, in inches from its bottom left corner
+export interface SheetRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Strips ripped the full length with parts of one width, or the guillotine optimizer
+export type NestingStrategy = 'strips' | 'guillotine';
+
 export interface SheetLayout {
   sheetId: string; // e.g., "3/4\" Sheet 1"
   thickness: number; // in inches
+  stock?: SheetMaterial; // set when cut from a different sheet material than the carcass
+  offcutId?: string; // set when cut from an offcut in the inventory instead of a new sheet
+  sheetWidth: number; // stock size in inches, the short way
+  sheetHeight: number; // stock size in inches, the long way (rips run along it)
   parts: PlacedPart[];
-  ripCuts: RipCut[];
-  utilization: number; // percentage of sheet used
+  ripCuts: RipCut[]; // strips ripped the full length of the sheet
+  cuts: SheetCut[];
+  leftovers: SheetRegion[]; // pieces of the sheet left once every part is cut free
+  kerf: number; // in inches
+  trim: number; // in inches
+  utilization: number; // percentage of sheet used, by the parts and the kerf between them
+  kerfLoss: number; // percentage of sheet lost to kerf
 }
 
 export interface OversizedPart {
@@ -54,21 +136,33 @@ export interface OversizedPart {
   reason: string; // why it doesn't fit
 }
 
+// How the chosen layouts compare with the strip-ripping baseline
+export interface NestingReport {
+  strategy: NestingStrategy; // guillotine when it did better for any thickness
+  baselineSheetCount: number;
+  sheetsSaved: number;
+}
+
 export interface SheetLayoutResult {
   sheets: SheetLayout[];
   oversizedParts: OversizedPart[];
+  nesting: NestingReport;
 }
 
+// Longest the optimizer keeps trying heuristics, per cut list
+const NESTING_TIME_LIMIT_MS = 100;
+
 interface ProcessedPart extends Part {
   ripWidth: number; // the dimension to rip along
   crossCutLength: number; // the dimension to cross-cut
   rotated: boolean; // if the part was rotated for optimal ripping
+  grain: GrainDirection;
 }
 
 /**
- * Check if a part can fit on a standard 4'×8' sheet
+ * Check if a part can fit on a sheet of the given size
  */
-function canFitOnStandardSheet(
+function canFitOnSheet(
   part: Part,
   SHEET_WIDTH: number,
   SHEET_HEIGHT: number
@@ -94,11 +188,40 @@ function canFitOnStandardSheet(
 }
 
 /**
- * Determine rip orientation for a part based on size rules
+ * Check if a part whose grain is fixed fits on a sheet the one way it can go, with its
+ * cross-cut length up the sheet along the grain
+ */
+function canFitWithGrain(
+  ripWidth: number,
+  crossCutLength: number,
+  grain: GrainDirection,
+  SHEET_WIDTH: number,
+  SHEET_HEIGHT: number
+): { fits: boolean; reason?: string } {
+  const way = grain === 'length' ? 'along' : 'across';
+  if (crossCutLength > SHEET_HEIGHT) {
+    return { fits: false, reason: `Grain must run ${way} the part, and its ${crossCutLength.toFixed(2)}" with the grain exceeds sheet length` };
+  }
+  if (ripWidth > SHEET_WIDTH) {
+    return { fits: false, reason: `Grain must run ${way} the part, and its ${ripWidth.toFixed(2)}" across the grain exceeds sheet width` };
+  }
+  return { fits: true };
+}
+
+/**
+ * Determine rip orientation for a part based on its grain, or on size rules when it can go either way
  */
-function determineRipOrientation(part: Part): { ripWidth: number; crossCutLength: number; rotated: boolean } {
+function determineRipOrientation(part: Part, grain: GrainDirection): { ripWidth: number; crossCutLength: number; rotated: boolean } {
   const length = part.lengthIn;
   const width = part.widthIn;
+
+  // Sheet grain runs up the sheet, along the cross-cut length
+  if (grain === 'length') {
+    return { ripWidth: width, crossCutLength: length, rotated: false };
+  }
+  if (grain === 'across') {
+    return { ripWidth: length, crossCutLength: width, rotated: true };
+  }
   
   // If both dimensions ≤ 24": rip along longest dimension
   if (length <= MAX_RIP_LENGTH && width <= MAX_RIP_LENGTH) {
@@ -119,23 +242,41 @@ function determineRipOrientation(part: Part): { ripWidth: number; crossCutLength
 }
 
 /**
- * Process parts to determine rip orientations and group by thickness
- * Also separates out parts that don't fit on standard sheets
+ * Order parts are packed in: by rip width (primary) then cross-cut length (secondary), widest first
+ */
+function compareRipOrder(a: ProcessedPart, b: ProcessedPart): number {
+  if (a.ripWidth !== b.ripWidth) {
+    return b.ripWidth - a.ripWidth; // Descending by rip width
+  }
+  return b.crossCutLength - a.crossCutLength; // Descending by cross-cut length
+}
+
+/**
+ * Process parts to determine rip orientations and group by thickness and sheet stock
+ * Also separates out parts that don't fit on the largest sheet for their thickness
  */
 function processParts(
   parts: Part[],
-  SHEET_WIDTH: number,
-  SHEET_HEIGHT: number
+  params: DesignParams
 ): {
-  partsByThickness: Map<number, ProcessedPart[]>;
+  partsByThickness: Map<string, ProcessedPart[]>;
   oversizedParts: OversizedPart[];
 } {
-  const partsByThickness = new Map<number, ProcessedPart[]>();
+  const partsByThickness = new Map<string, ProcessedPart[]>();
   const oversizedParts: OversizedPart[] = [];
   
   for (const part of parts) {
-    // Check if part fits on standard sheet
-    const fitCheck = canFitOnStandardSheet(part, SHEET_WIDTH, SHEET_HEIGHT);
+    // Solid hardwood is cut from boards, not sheets
+    if (part.stock === 'hardwood') continue;
+
+
+    // Check if part fits on the largest sheet it can be cut from, the way its grain allows
+    const grain = getGrainDirection(part, params);
+    const ripInfo = determineRipOrientation(part, grain);
+    const largest = getLargestSheetSize(params, part.thicknessIn);
+    const fitCheck = grain === 'either'
+      ? canFitOnSheet(part, largest.width, largest.height)
+      : canFitWithGrain(ripInfo.ripWidth, ripInfo.crossCutLength, grain, largest.width, largest.height);
     if (!fitCheck.fits) {
       oversizedParts.push({
         part,
@@ -144,18 +285,18 @@ function processParts(
       continue; // Skip processing this part
     }
     
-    const thickness = part.thicknessIn;
-    const ripInfo = determineRipOrientation(part);
+    const key = `${part.thicknessIn}|${part.stock ?? ''}`;
     
     const processedPart: ProcessedPart = {
       ...part,
       ...ripInfo,
+      grain,
     };
     
-    if (!partsByThickness.has(thickness)) {
-      partsByThickness.set(thickness, []);
+    if (!partsByThickness.has(key)) {
+      partsByThickness.set(key, []);
     }
-    partsByThickness.get(thickness)!.push(processedPart);
+    partsByThickness.get(key)!.push(processedPart);
   }
   
   return { partsByThickness, oversizedParts };
@@ -168,22 +309,18 @@ function packSheet(
   parts: ProcessedPart[],
   sheetId: string,
   thickness: number,
-  SHEET_WIDTH: number,
-  SHEET_HEIGHT: number,
-  CUT_MARGIN: number,
+  stock: SheetMaterial | undefined,
+  { width: SHEET_WIDTH, height: SHEET_HEIGHT }: SheetSize,
+  KERF: number,
+  TRIM: number,
   unitSystem: 'imperial' | 'metric'
 ): SheetLayout {
-  // Sort parts by rip width (primary) then cross-cut length (secondary)
-  const sortedParts = [...parts].sort((a, b) => {
-    if (a.ripWidth !== b.ripWidth) {
-      return b.ripWidth - a.ripWidth; // Descending by rip width
-    }
-    return b.crossCutLength - a.crossCutLength; // Descending by cross-cut length
-  });
+  const sortedParts = [...parts].sort(compareRipOrder);
   
+  // Parts go inside the trimmed edges, with a kerf between neighbours
   const placedParts: PlacedPart[] = [];
   const ripCuts: RipCut[] = [];
-  let currentX = CUT_MARGIN;
+  let currentX = TRIM;
   
   // Track strips (rips) and their remaining space
   interface Strip {
@@ -196,13 +333,17 @@ function packSheet(
   
   for (const part of sortedParts) {
     let placed = false;
+
+    // Leave parts too big for this size of sheet to a larger one
+    if (part.crossCutLength + 2 * TRIM > SHEET_HEIGHT || part.ripWidth + 2 * TRIM > SHEET_WIDTH) {
+      continue;
+    }
     
     // Try to fit in existing strips first
     for (const strip of strips) {
-      const remainingLength = SHEET_HEIGHT - strip.usedLength;
-      const neededLength = part.crossCutLength + CUT_MARGIN;
+      const remainingLength = SHEET_HEIGHT - TRIM - strip.usedLength;
       
-      if (Math.abs(strip.width - part.ripWidth) < 0.001 && remainingLength >= neededLength) {
+      if (Math.abs(strip.width - part.ripWidth) < 0.001 && remainingLength >= part.crossCutLength) {
         // Part fits in this strip
         const placedPart: PlacedPart = {
           partId: part.id,
@@ -211,12 +352,13 @@ function packSheet(
           width: part.ripWidth,
           length: part.crossCutLength,
           rotated: part.rotated,
+          grain: part.grain,
           originalPart: part,
         };
         
         placedParts.push(placedPart);
         strip.parts.push(placedPart);
-        strip.usedLength += part.crossCutLength + CUT_MARGIN;
+        strip.usedLength += part.crossCutLength + KERF;
         placed = true;
         break;
       }
@@ -224,43 +366,39 @@ function packSheet(
     
     // If not placed, create new strip
     if (!placed) {
-      const neededWidth = part.ripWidth + CUT_MARGIN;
-      
       // Check if new strip fits on sheet
-      if (currentX + neededWidth <= SHEET_WIDTH) {
+      if (currentX + part.ripWidth <= SHEET_WIDTH - TRIM) {
         const newStrip: Strip = {
           x: currentX,
           width: part.ripWidth,
-          usedLength: CUT_MARGIN,
+          usedLength: TRIM,
           parts: [],
         };
         
         const placedPart: PlacedPart = {
           partId: part.id,
           x: currentX,
-          y: CUT_MARGIN,
+          y: TRIM,
           width: part.ripWidth,
           length: part.crossCutLength,
           rotated: part.rotated,
+          grain: part.grain,
           originalPart: part,
         };
         
         placedParts.push(placedPart);
         newStrip.parts.push(placedPart);
-        newStrip.usedLength += part.crossCutLength + CUT_MARGIN;
+        newStrip.usedLength += part.crossCutLength + KERF;
         strips.push(newStrip);
         
         // Add rip cut
-        const label = unitSystem === 'metric'
-          ? `${Math.round(part.ripWidth * 25.4)}mm`
-          : toFraction32(part.ripWidth);
         ripCuts.push({
           position: currentX,
           width: part.ripWidth,
-          label,
+          label: formatRipWidth(part.ripWidth, unitSystem),
         });
         
-        currentX += part.ripWidth + CUT_MARGIN;
+        currentX += part.ripWidth + KERF;
         placed = true;
       }
     }
@@ -271,53 +409,394 @@ function packSheet(
     }
   }
   
-  // Calculate utilization
-  const usedArea = placedParts.reduce((sum, part) => sum + (part.width * part.length), 0);
-  const totalArea = SHEET_WIDTH * SHEET_HEIGHT;
-  const utilization = (usedArea / totalArea) * 100;
+  // Each strip is ripped off down the trimmed length of the sheet, then each part is cross-cut off its strip
+  const cuts: SheetCut[] = strips.flatMap(strip => [
+    { direction: 'rip' as const, x: strip.x + strip.width, y: TRIM, length: SHEET_HEIGHT - 2 * TRIM },
+    ...strip.parts.map(part => ({ direction: 'crosscut' as const, x: strip.x, y: part.y + part.length, length: strip.width })),
+  ]);
+
+  // What is left is the end of each strip and the sheet beyond the last rip
+  const leftovers: SheetRegion[] = [
+    ...strips.map(strip => ({ x: strip.x, y: strip.usedLength, width: strip.width, height: SHEET_HEIGHT - TRIM - strip.usedLength })),
+    { x: currentX, y: TRIM, width: SHEET_WIDTH - TRIM - currentX, height: SHEET_HEIGHT - 2 * TRIM },
+  ].filter(region => region.width > 0 && region.height > 0);
   
   return {
     sheetId,
     thickness,
+    stock,
+    sheetWidth: SHEET_WIDTH,
+    sheetHeight: SHEET_HEIGHT,
     parts: placedParts,
     ripCuts,
-    utilization,
+    cuts,
+    leftovers,
+    kerf: KERF,
+    trim: TRIM,
+    ...calculateUtilization(placedParts, cuts, KERF, SHEET_WIDTH * SHEET_HEIGHT),
+  };
+}
+
+export type NestingOrder = 'rip-width' | 'cross-cut' | 'area' | 'perimeter' | 'longest-side';
+export type FreeRectChoice = 'best-area' | 'best-short-side' | 'bottom-left';
+export type SplitRule = 'rip-first' | 'crosscut-first' | 'shorter-leftover';
+
+// One way of running the optimizer: the order parts are tried in, which free rectangle
+// each goes in, and which way the leftover is cut off
+export interface NestingHeuristic {
+  order: NestingOrder;
+  choice: FreeRectChoice;
+  split: SplitRule;
+}
+
+const NESTING_ORDERS: Record<NestingOrder, (a: ProcessedPart, b: ProcessedPart) => number> = {
+  'rip-width': compareRipOrder,
+  'cross-cut': (a, b) => b.crossCutLength - a.crossCutLength || b.ripWidth - a.ripWidth,
+  'area': (a, b) => b.ripWidth * b.crossCutLength - a.ripWidth * a.crossCutLength,
+  'perimeter': (a, b) => b.ripWidth + b.crossCutLength - (a.ripWidth + a.crossCutLength),
+  'longest-side': (a, b) => Math.max(b.ripWidth, b.crossCutLength) - Math.max(a.ripWidth, a.crossCutLength),
+};
+
+// Every combination, most promising first so a tight time limit still tries the best ones
+export const NESTING_HEURISTICS: NestingHeuristic[] = (Object.keys(NESTING_ORDERS) as NestingOrder[]).flatMap(order =>
+  (['best-short-side', 'best-area', 'bottom-left'] as FreeRectChoice[]).flatMap(choice =>
+    (['shorter-leftover', 'rip-first', 'crosscut-first'] as SplitRule[]).map(split => ({ order, choice, split }))));
+
+/**
+ * Score of a free rectangle for a part, lower is better
+ */
+function scoreFreeRect(rect: SheetRegion, part: ProcessedPart, choice: FreeRectChoice): number {
+  switch (choice) {
+    case 'best-area':
+      return rect.width * rect.height - part.ripWidth * part.crossCutLength;
+    case 'best-short-side':
+      return Math.min(rect.width - part.ripWidth, rect.height - part.crossCutLength);
+    case 'bottom-left':
+      return rect.y * 1e4 + rect.x;
+  }
+}
+
+/**
+ * Pack parts into a single sheet with guillotine cuts: each part goes in the corner of a free
+ * rectangle, and the rest of the rectangle is cut off in two pieces that can take other parts.
+ * Narrower parts can share a wider strip, split off with a secondary rip.
+ */
+function packSheetGuillotine(
+  parts: ProcessedPart[],
+  sheetId: string,
+  thickness: number,
+  stock: SheetMaterial | undefined,
+  { width: SHEET_WIDTH, height: SHEET_HEIGHT }: SheetSize,
+  KERF: number,
+  TRIM: number,
+  unitSystem: 'imperial' | 'metric',
+  { order, choice, split }: NestingHeuristic
+): SheetLayout {
+  const placedParts: PlacedPart[] = [];
+  const cuts: SheetCut[] = [];
+  const freeRects: SheetRegion[] = [];
+  if (SHEET_WIDTH > 2 * TRIM && SHEET_HEIGHT > 2 * TRIM) {
+    freeRects.push({ x: TRIM, y: TRIM, width: SHEET_WIDTH - 2 * TRIM, height: SHEET_HEIGHT - 2 * TRIM });
+  }
+
+  for (const part of [...parts].sort(NESTING_ORDERS[order])) {
+    let bestIndex = -1;
+    let bestScore = Infinity;
+    freeRects.forEach((rect, index) => {
+      if (part.ripWidth > rect.width || part.crossCutLength > rect.height) return;
+      const score = scoreFreeRect(rect, part, choice);
+      if (score < bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex < 0) continue;
+
+    const [rect] = freeRects.splice(bestIndex, 1);
+    placedParts.push({
+      partId: part.id,
+      x: rect.x,
+      y: rect.y,
+      width: part.ripWidth,
+      length: part.crossCutLength,
+      rotated: part.rotated,
+      grain: part.grain,
+      originalPart: part,
+    });
+
+    // Rip first to leave a strip beside the part the full height of the rectangle,
+    // or cross-cut first to leave a panel above it the full width
+    const leftoverWidth = rect.width - part.ripWidth;
+    const leftoverHeight = rect.height - part.crossCutLength;
+    const ripFirst = split === 'rip-first' || (split === 'shorter-leftover' && leftoverWidth > leftoverHeight);
+    const right: SheetRegion = {
+      x: rect.x + part.ripWidth + KERF,
+      y: rect.y,
+      width: leftoverWidth - KERF,
+      height: ripFirst ? rect.height : part.crossCutLength,
+    };
+    const above: SheetRegion = {
+      x: rect.x,
+      y: rect.y + part.crossCutLength + KERF,
+      width: ripFirst ? part.ripWidth : rect.width,
+      height: leftoverHeight - KERF,
+    };
+    if (leftoverWidth > 0) {
+      cuts.push({ direction: 'rip', x: right.x - KERF, y: rect.y, length: right.height });
+    }
+    if (leftoverHeight > 0) {
+      cuts.push({ direction: 'crosscut', x: rect.x, y: above.y - KERF, length: above.width });
+    }
+    freeRects.push(...[right, above].filter(r => r.width > 0 && r.height > 0));
+  }
+
+  return {
+    sheetId,
+    thickness,
+    stock,
+    sheetWidth: SHEET_WIDTH,
+    sheetHeight: SHEET_HEIGHT,
+    parts: placedParts,
+    ripCuts: findFullLengthRips(placedParts, cuts, SHEET_HEIGHT, KERF, TRIM, unitSystem),
+    cuts,
+    leftovers: freeRects,
+    kerf: KERF,
+    trim: TRIM,
+    ...calculateUtilization(placedParts, cuts, KERF, SHEET_WIDTH * SHEET_HEIGHT),
   };
 }
 
 /**
- * Generate optimized sheet layouts for all parts
+ * Strips a guillotine layout starts with: the regions between rips that run the whole
+ * trimmed length of the sheet
+ */
+function findFullLengthRips(
+  parts: PlacedPart[],
+  cuts: SheetCut[],
+  SHEET_HEIGHT: number,
+  KERF: number,
+  TRIM: number,
+  unitSystem: 'imperial' | 'metric'
+): RipCut[] {
+  const fullLength = cuts
+    .filter(cut => cut.direction === 'rip' && Math.abs(cut.length - (SHEET_HEIGHT - 2 * TRIM)) < 1e-6)
+    .sort((a, b) => a.x - b.x);
+
+  const ripCuts: RipCut[] = [];
+  let start = TRIM;
+  for (const cut of fullLength) {
+    ripCuts.push({ position: start, width: cut.x - start, label: formatRipWidth(cut.x - start, unitSystem) });
+    start = cut.x + KERF;
+  }
+  const lastStrip = parts.filter(part => part.x >= start - 1e-6);
+  if (lastStrip.length > 0) {
+    const width = Math.max(...lastStrip.map(part => part.x + part.width)) - start;
+    ripCuts.push({ position: start, width, label: formatRipWidth(width, unitSystem) });
+  }
+  return ripCuts;
+}
+
+/**
+ * Share of the sheet taken by the parts and by the kerf of every cut, in percent
+ */
+function calculateUtilization(
+  parts: PlacedPart[],
+  cuts: SheetCut[],
+  KERF: number,
+  totalArea: number
+): { utilization: number; kerfLoss: number } {
+  const usedArea = parts.reduce((sum, part) => sum + (part.width * part.length), 0);
+  const kerfArea = cuts.reduce((sum, cut) => sum + KERF * cut.length, 0);
+  const kerfLoss = (kerfArea / totalArea) * 100;
+  return { utilization: (usedArea / totalArea) * 100 + kerfLoss, kerfLoss };
+}
+
+function formatRipWidth(width: number, unitSystem: 'imperial' | 'metric'): string {
+  return unitSystem === 'metric'
+    ? `${Math.round(width * 25.4)}mm`
+    : toFraction32(width);
+}
+
+/**
+ * Best of the candidate layouts for the next sheet: the smallest stock that takes every
+ * remaining part, otherwise the one that takes the most (the smaller stock on a tie)
  */
-export function generateSheetLayouts(parts: Part[], params: DesignParams): SheetLayoutResult {
-  const SHEET_WIDTH = getSheetWidth(params.unitSystem);
-  const SHEET_HEIGHT = getSheetHeight(params.unitSystem);
-  const CUT_MARGIN = getCutMargin(params.unitSystem);
+function pickSheet(candidates: SheetLayout[], remainingCount: number): SheetLayout {
+  const area = (sheet: SheetLayout) => sheet.sheetWidth * sheet.sheetHeight;
+  const placedArea = (sheet: SheetLayout) => sheet.parts.reduce((sum, part) => sum + part.width * part.length, 0);
 
-  const { partsByThickness, oversizedParts } = processParts(parts, SHEET_WIDTH, SHEET_HEIGHT);
+  const complete = candidates.filter(sheet => sheet.parts.length === remainingCount);
+  if (complete.length > 0) {
+    return complete.reduce((best, sheet) => area(sheet) < area(best) ? sheet : best);
+  }
+  return candidates.reduce((best, sheet) => {
+    const difference = placedArea(sheet) - placedArea(best);
+    if (Math.abs(difference) > 1e-6) return difference > 0 ? sheet : best;
+    return area(sheet) < area(best) ? sheet : best;
+  });
+}
+
+// Lays out one sheet's worth of the remaining parts on a sheet of the given size
+type SheetPacker = (remainingParts: ProcessedPart[], sheetId: string, size: SheetSize) => SheetLayout;
+
+/**
+ * Lay out every part of one thickness and stock, sheet by sheet, choosing the
+ * best-fitting stock for each sheet
+ */
+function layoutGroup(
+  groupParts: ProcessedPart[],
+  sheetSizes: SheetSize[],
+  sheetLabel: string,
+  pack: SheetPacker
+): Omit<SheetLayoutResult, 'nesting'> {
   const sheets: SheetLayout[] = [];
+  const oversizedParts: OversizedPart[] = [];
+  let remainingParts = [...groupParts].sort(compareRipOrder);
+
+  while (remainingParts.length > 0) {
+    const sheetId = `${sheetLabel} Sheet ${sheets.length + 1}`;
+    const sheet = pickSheet(sheetSizes.map(size => pack(remainingParts, sheetId, size)), remainingParts.length);
+
+    // A part that fits a sheet but not the way it has to be ripped can't be placed anywhere
+    if (sheet.parts.length === 0) {
+      const [part, ...rest] = remainingParts;
+      oversizedParts.push({ part, reason: `Part ripped ${part.ripWidth.toFixed(2)}" × ${part.crossCutLength.toFixed(2)}" does not fit any stock sheet` });
+      remainingParts = rest;
+      continue;
+    }
+    sheets.push(sheet);
+
+    // Remove placed parts from remaining parts
+    const placedPartIds = new Set(sheet.parts.map(p => p.partId));
+    remainingParts = remainingParts.filter(part => !placedPartIds.has(part.id));
+  }
+
+  return { sheets, oversizedParts };
+}
+
+/**
+ * Whether one layout of a group beats another: fewer parts left over, then fewer sheets,
+ * then less stock bought
+ */
+function isBetterLayout(candidate: Omit<SheetLayoutResult, 'nesting'>, best: Omit<SheetLayoutResult, 'nesting'>): boolean {
+  const stockArea = ({ sheets }: Omit<SheetLayoutResult, 'nesting'>) =>
+    sheets.reduce((sum, sheet) => sum + sheet.sheetWidth * sheet.sheetHeight, 0);
+
+  if (candidate.oversizedParts.length !== best.oversizedParts.length) {
+    return candidate.oversizedParts.length < best.oversizedParts.length;
+  }
+  if (candidate.sheets.length !== best.sheets.length) {
+    return candidate.sheets.length < best.sheets.length;
+  }
+  return stockArea(candidate) < stockArea(best) - 1e-6;
+}
+
+/**
+ * Nest parts onto the offcuts of their material and thickness, one offcut at a time: whichever offcut and
+ * packer take every part on the smallest offcut, otherwise the most part area.
+ * Offcut edges were sawn when they were cut free, so they are not trimmed again.
+ */
+function layoutOffcuts(
+  groupParts: ProcessedPart[],
+  offcuts: Offcut[],
+  sheetLabel: string,
+  packers: SheetPacker[],
+  deadline: number
+): { sheets: SheetLayout[]; remainingParts: ProcessedPart[] } {
+  const sheets: SheetLayout[] = [];
+  let remainingParts = [...groupParts].sort(compareRipOrder);
+  let unused = offcuts;
+
+  while (remainingParts.length > 0 && unused.length > 0) {
+    const candidates = unused.flatMap(offcut => {
+      const size = { width: offcut.widthIn, height: offcut.lengthIn };
+      const sheetId = `${sheetLabel} Offcut: ${offcut.label}`;
+      // The first packer always runs, the rest only while there is time
+      return packers
+        .filter((_, index) => index === 0 || performance.now() < deadline)
+        .map(pack => ({ ...pack(remainingParts, sheetId, size), offcutId: offcut.id }))
+        .filter(sheet => sheet.parts.length > 0);
+    });
+    if (candidates.length === 0) break;
+
+    const sheet = pickSheet(candidates, remainingParts.length);
+    sheets.push(sheet);
+    unused = unused.filter(offcut => offcut.id !== sheet.offcutId);
+    const placedPartIds = new Set(sheet.parts.map(p => p.partId));
+    remainingParts = remainingParts.filter(part => !placedPartIds.has(part.id));
+  }
+
+  return { sheets, remainingParts };
+}
+
+/**
+ * Generate optimized sheet layouts for all parts, nesting them onto offcuts from the
+ * inventory before choosing the best-fitting stock for each new sheet.
+ * Strip ripping is the baseline; the guillotine optimizer then tries each heuristic in turn
+ * until the time limit, and its layout is kept for a thickness only where it does better.
+ * With no time limit (Infinity) every heuristic runs, so a design always gets the same layout.
+ */
+export function generateSheetLayouts(
+  parts: Part[],
+  params: DesignParams,
+  offcuts: Offcut[] = [],
+  timeLimitMs = NESTING_TIME_LIMIT_MS
+): SheetLayoutResult {
+  const KERF = getKerf(params);
+  const TRIM = getEdgeTrim(params);
+  const deadline = performance.now() + timeLimitMs;
+
+  const { partsByThickness, oversizedParts } = processParts(parts, params);
+  const sheets: SheetLayout[] = [];
+  const offcutSheets: SheetLayout[] = [];
+  let baselineSheetCount = 0;
+  let strategy: NestingStrategy = 'strips';
   
-  for (const [thickness, thicknessParts] of partsByThickness) {
-    let sheetNumber = 1;
-    let remainingParts = [...thicknessParts];
-    
-    while (remainingParts.length > 0) {
-      const thicknessLabel = params.unitSystem === 'metric'
-        ? `${Math.round(thickness * 25.4)}mm`
-        : toFraction32(thickness);
-      const sheetId = `${thicknessLabel} Sheet ${sheetNumber}`;
-
-      const sheet = packSheet(remainingParts, sheetId, thickness, SHEET_WIDTH, SHEET_HEIGHT, CUT_MARGIN, params.unitSystem);
-      sheets.push(sheet);
-      
-      // Remove placed parts from remaining parts
-      const placedPartIds = new Set(sheet.parts.map(p => p.partId));
-      remainingParts = remainingParts.filter(part => !placedPartIds.has(part.id));
-      
-      sheetNumber++;
+  for (const thicknessParts of partsByThickness.values()) {
+    const thickness = thicknessParts[0].thicknessIn;
+    const stock = thicknessParts[0].stock as SheetMaterial | undefined;
+    const sheetSizes = getSheetSizes(params, thickness);
+    const thicknessLabel = params.unitSystem === 'metric'
+      ? `${Math.round(thickness * 25.4)}mm`
+      : toFraction32(thickness);
+    const sheetLabel = `${thicknessLabel}${stock ? ` ${SHEET_MATERIAL_PROPERTIES[stock].label}` : ''}`;
+
+    // Offcuts of this material and thickness first, then new sheets for whatever is left
+    const material = stock ?? params.sheetMaterial ?? 'plywood';
+    const groupOffcuts = offcuts.filter(offcut => offcut.material === material &&
+      Math.abs(offcut.thicknessIn - thickness) <= STOCK_THICKNESS_TOLERANCE);
+    const offcutPackers: SheetPacker[] = [
+      (remaining, sheetId, size) => packSheet(remaining, sheetId, thickness, stock, size, KERF, 0, params.unitSystem),
+      ...NESTING_HEURISTICS.map((heuristic): SheetPacker => (remaining, sheetId, size) =>
+        packSheetGuillotine(remaining, sheetId, thickness, stock, size, KERF, 0, params.unitSystem, heuristic)),
+    ];
+    const fromOffcuts = layoutOffcuts(thicknessParts, groupOffcuts, sheetLabel, offcutPackers, deadline);
+    offcutSheets.push(...fromOffcuts.sheets);
+    const sheetParts = fromOffcuts.remainingParts;
+
+    let best = layoutGroup(sheetParts, sheetSizes, sheetLabel, (remaining, sheetId, size) =>
+      packSheet(remaining, sheetId, thickness, stock, size, KERF, TRIM, params.unitSystem));
+    baselineSheetCount += best.sheets.length;
+
+    for (const heuristic of NESTING_HEURISTICS) {
+      if (performance.now() >= deadline) break;
+      const candidate = layoutGroup(sheetParts, sheetSizes, sheetLabel, (remaining, sheetId, size) =>
+        packSheetGuillotine(remaining, sheetId, thickness, stock, size, KERF, TRIM, params.unitSystem, heuristic));
+      if (isBetterLayout(candidate, best)) {
+        best = candidate;
+        strategy = 'guillotine';
+      }
     }
+
+    sheets.push(...best.sheets);
+    oversizedParts.push(...best.oversizedParts);
   }
   
-  return { sheets, oversizedParts };
+  return {
+    sheets: [...offcutSheets, ...sheets],
+    oversizedParts,
+    nesting: { strategy, baselineSheetCount, sheetsSaved: baselineSheetCount - sheets.length },
+  };
 }
 
 /**
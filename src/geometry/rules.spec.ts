@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { formatRuleMessage, getDesignRules, registerDesignRule } from './rules';
+import { generateWarnings } from './estimate';
+import { DEFAULT_DESIGN, DEFAULT_DESIGN_METRIC, RECOMMENDED_MATERIALS, createThicknessMap } from './constants';
+import type { DesignParams, DesignRuleId } from './types';
+
+const warningTypes = (params: DesignParams): DesignRuleId[] => generateWarnings(params).map(w => w.type);
+
+describe('Design rules', () => {
+  it('should flag doors too thin for Euro hinges', () => {
+    const warnings = generateWarnings({
+      ...DEFAULT_DESIGN,
+      hasDoors: true,
+      materials: { ...DEFAULT_DESIGN.materials, door: createThicknessMap('1/2"') },
+    });
+    const thinDoors = warnings.find(w => w.type === 'door_too_thin_for_hinges');
+
+    expect(thinDoors?.partIds).toHaveLength(4);
+    expect(thinDoors?.cells).toHaveLength(4);
+    expect(warningTypes({
+      ...DEFAULT_DESIGN,
+      hasDoors: true,
+      materials: { ...DEFAULT_DESIGN.materials, door: RECOMMENDED_MATERIALS.door },
+    })).not.toContain('door_too_thin_for_hinges');
+  });
+
+  it('should flag overlay doors that collide on a thin frame', () => {
+    const overlayDoors: DesignParams = {
+      ...DEFAULT_DESIGN,
+      hasDoors: true,
+      doorMode: { ...DEFAULT_DESIGN.doorMode, type: 'overlay' },
+      materials: { ...DEFAULT_DESIGN.materials, frame: createThicknessMap('1/2"'), door: RECOMMENDED_MATERIALS.door },
+    };
+
+    // Neighbours sharing a 1/2" divider are cut to a half overlay and clear each other
+    expect(warningTypes(overlayDoors)).not.toContain('overlay_door_collision');
+
+    // Diagonal doors keep full 1/4" overlays, and their corners meet over the 1/2" crossing
+    const collisions = generateWarnings({
+      ...overlayDoors,
+      doors: [{ row: 0, col: 0 }, { row: 1, col: 1 }],
+    }).filter(w => w.type === 'overlay_door_collision');
+
+    expect(collisions).toHaveLength(1);
+    expect(collisions[0].partIds).toHaveLength(2);
+    expect(warningTypes({
+      ...overlayDoors,
+      doors: [{ row: 0, col: 0 }, { row: 1, col: 1 }],
+      materials: { ...overlayDoors.materials, frame: RECOMMENDED_MATERIALS.frame },
+    })).not.toContain('overlay_door_collision');
+  });
+
+  it('should flag deep units without a back and shallow units', () => {
+    const backed = { ...DEFAULT_DESIGN, depth: 24, hasBack: true, materials: { ...DEFAULT_DESIGN.materials, back: RECOMMENDED_MATERIALS.back } };
+    expect(warningTypes({ ...DEFAULT_DESIGN, depth: 24 })).toContain('deep_unit_without_back');
+    expect(warningTypes(backed)).not.toContain('deep_unit_without_back');
+    expect(warningTypes({ ...backed, backMode: { type: 'per-opening' } })).toContain('deep_unit_without_back');
+    expect(warningTypes({ ...backed, backMode: { type: 'stretchers' } })).not.toContain('deep_unit_without_back');
+    expect(warningTypes({ ...DEFAULT_DESIGN, depth: 12 })).toContain('too_shallow_for_inserts');
+    expect(warningTypes(DEFAULT_DESIGN)).not.toContain('too_shallow_for_inserts');
+  });
+
+  it('should drop warnings for silenced rules', () => {
+    const shallow = { ...DEFAULT_DESIGN, depth: 12 };
+
+    expect(warningTypes({ ...shallow, silencedRules: ['too_shallow_for_inserts'] }))
+      .not.toContain('too_shallow_for_inserts');
+    expect(warningTypes({ ...shallow, silencedRules: ['tip_over'] })).toContain('too_shallow_for_inserts');
+  });
+
+  it('should run rules registered at runtime', () => {
+    const original = getDesignRules().find(rule => rule.id === 'large_unit')!;
+    registerDesignRule({
+      ...original,
+      message: 'Unit has {cells} cells',
+      check: ({ params }) => [{ values: { cells: params.rows * params.cols } }],
+    });
+
+    try {
+      const warning = generateWarnings(DEFAULT_DESIGN).find(w => w.type === 'large_unit');
+      expect(warning?.message).toBe('Unit has 4 cells');
+    } finally {
+      registerDesignRule(original);
+    }
+    expect(warningTypes(DEFAULT_DESIGN)).not.toContain('large_unit');
+  });
+
+  it('should show shelf sag finer than cut dimensions, in design units', () => {
+    const sagMessage = (params: DesignParams) =>
+      generateWarnings(params).find(w => w.type === 'shelf_deflection_ok')?.message;
+
+    expect(sagMessage(DEFAULT_DESIGN))
+      .toMatch(/ sags 0\.\d{3}" over 13 1\/4", within the limit 0\.022" \(0\.020" per foot\)$/);
+    expect(sagMessage(DEFAULT_DESIGN_METRIC))
+      .toMatch(/ sags \d+\.\dmm over \d+mm, within the limit \d+\.\dmm \(1\.7mm per m\)$/);
+  });
+
+  it('should fill message templates', () => {
+    expect(formatRuleMessage('Depth {depth} under {insert}', { depth: '12"', insert: 15 }))
+      .toBe('Depth 12" under 15');
+    expect(formatRuleMessage('Missing {value}', {})).toBe('Missing {value}');
+  });
+});
@@ -0,0 +1,375 @@
+import type { DesignParams, DesignRuleId, Part, ShelfDeflection, StabilityAnalysis, Warning, WarningSeverity } from './types';
+import { formatDimension, formatSmallDimension, formatWeight } from './format';
+import { calculateAllDimensions, calculateGridMetrics, calculatePartPosition, SCENE_SCALE, toInches } from './measurements';
+import { SAG_LIMIT_PER_FOOT } from './deflection';
+import { calculateBackRecess, isBracedAgainstRacking, isWallHung } from './backs';
+import { getInsertOpenings } from './openings';
+import { MAX_FREESTANDING_HEIGHT_TO_DEPTH } from './stability';
+import { KALLAX_INSERTS, SHEET_MATERIAL_PROPERTIES } from './constants';
+
+// Doors and faces that meet edge to edge are not a collision
+const OVERLAP_TOLERANCE = 0.001;
+
+// Euro hinge cups need a door at least 5/8" (16mm) thick
+export const EURO_HINGE_MIN_DOOR_THICKNESS = 0.625;
+
+// Units deeper than this rack without a back to square them up
+export const DEEP_UNIT_WITHOUT_BACK = 20;
+
+// Kallax inserts and boxes are about 15" (38cm) deep
+export const KALLAX_INSERT_DEPTH = 15;
+
+// Cells this close to an insert's limits (inches) still count as fitting, to absorb unit rounding
+const INSERT_FIT_TOLERANCE = 0.01;
+
+type Cell = { row: number; col: number };
+
+/**
+ * Everything a rule can look at
+ */
+export interface DesignRuleContext {
+  params: DesignParams;
+  parts: Part[];
+  deflection: ShelfDeflection[];
+  stability: StabilityAnalysis;
+}
+
+/**
+ * One problem found by a rule; values fill the rule's message template
+ */
+export interface RuleFinding {
+  values: Record<string, string | number>;
+  mergeIndex?: number;
+  partIds?: string[];
+  cells?: Cell[];
+  deflection?: ShelfDeflection;
+}
+
+export interface DesignRule {
+  id: DesignRuleId;
+  title: string;       // shown when listing silenced rules
+  severity: WarningSeverity;
+  message: string;     // template, {name} is replaced from the finding's values
+  check: (context: DesignRuleContext) => RuleFinding[];
+}
+
+/**
+ * Fill a message template with values
+ */
+export function formatRuleMessage(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  );
+}
+
+/**
+ * Grid cells covered by a rectangle of rows and columns (end exclusive)
+ */
+function getCellsInRange(rowStart: number, rowEnd: number, colStart: number, colEnd: number): Cell[] {
+  const cells: Cell[] = [];
+  for (let row = rowStart; row < rowEnd; row++) {
+    for (let col = colStart; col < colEnd; col++) {
+      cells.push({ row, col });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Grid cells a part belongs to; shelves map to the cells they hold up
+ */
+export function getCellsForPart(part: Part): Cell[] {
+  if (!part.bay) return [];
+  const { row, colStart, colEnd, rowEnd } = part.bay;
+  if (part.role === 'BayShelf') {
+    return getCellsInRange(row - 1, row, colStart, colEnd);
+  }
+  if (part.role === 'VerticalDivider') {
+    // Dividers sit on a grid line; highlight the cells either side
+    return getCellsInRange(row, rowEnd ?? row + 1, Math.max(0, colStart - 1), colStart + 1);
+  }
+  return getCellsInRange(row, rowEnd ?? row + 1, colStart, colEnd);
+}
+
+/**
+ * Sag findings for shelves that pass or fail the limit
+ */
+function findDeflection({ params, parts, deflection }: DesignRuleContext, passes: boolean): RuleFinding[] {
+  const { unitSystem } = params;
+  const material = SHEET_MATERIAL_PROPERTIES[params.sheetMaterial ?? 'plywood'].label;
+  // The limit per foot of span, or per metre for metric designs
+  const rate = unitSystem === 'metric'
+    ? `${formatSmallDimension(SAG_LIMIT_PER_FOOT * (1000 / 25.4) / 12, unitSystem)} per m`
+    : `${formatSmallDimension(SAG_LIMIT_PER_FOOT, unitSystem)} per foot`;
+
+  return deflection.filter(result => result.passes === passes).map(result => {
+    const shelf = parts.find(p => p.id === result.partId);
+    const bay = shelf?.bay;
+
+    // Link failing extended shelves to the merge they span so the grid editor flags it
+    const mergeIndex = !passes && bay
+      ? params.merges.findIndex(m =>
+          m.c1 > m.c0 && (m.r1 === bay.row - 1 || m.r0 === bay.row) &&
+          m.c0 >= bay.colStart && m.c1 < bay.colEnd)
+      : -1;
+
+    return {
+      values: {
+        shelf: result.partId,
+        sag: formatSmallDimension(result.sagIn, unitSystem),
+        span: formatDimension(result.spanIn, unitSystem),
+        limit: formatSmallDimension(result.limitIn, unitSystem),
+        rate,
+        material,
+      },
+      mergeIndex: mergeIndex >= 0 ? mergeIndex : undefined,
+      partIds: [result.partId],
+      cells: shelf ? getCellsForPart(shelf) : [],
+      deflection: result,
+    };
+  });
+}
+
+/**
+ * Built-in rules, in the order their warnings are listed
+ */
+const designRules: DesignRule[] = [
+  {
+    id: 'span_too_large',
+    title: 'Tall merged openings',
+    severity: 'warning',
+    message: 'Vertical span of {modules} modules may require additional support',
+    check: ({ params }) => params.merges.flatMap((merge, mergeIndex) => {
+      // Wide spans are covered by the shelf deflection check
+      const heightSpan = merge.r1 - merge.r0 + 1;
+      return heightSpan >= 3
+        ? [{
+            values: { modules: heightSpan },
+            mergeIndex,
+            cells: getCellsInRange(merge.r0, merge.r1 + 1, merge.c0, merge.c1 + 1),
+          }]
+        : [];
+    }),
+  },
+  {
+    id: 'large_unit',
+    title: 'Large units',
+    severity: 'info',
+    message: 'Large shelving units may require additional bracing or assembly considerations',
+    check: ({ params }) => params.rows > 4 || params.cols > 4 ? [{ values: {} }] : [],
+  },
+  {
+    id: 'shelf_deflection',
+    title: 'Shelf sag over the limit',
+    severity: 'warning',
+    message: 'Shelf {shelf} sags {sag} over {span}, over the limit {limit} ({rate}) for {material} – add a divider or use thicker stock',
+    check: (context) => findDeflection(context, false),
+  },
+  {
+    id: 'shelf_deflection_ok',
+    title: 'Shelf sag within the limit',
+    severity: 'info',
+    message: 'Shelf {shelf} sags {sag} over {span}, within the limit {limit} ({rate})',
+    check: (context) => findDeflection(context, true),
+  },
+  {
+    id: 'tip_over',
+    title: 'Tips under the test load',
+    severity: 'error',
+    message: 'Tips forward with {load} on {where} (test load {testLoad}) – anchor to the wall',
+    check: ({ params, parts, stability }) => {
+      // Units hung on a French cleat are already anchored
+      if (!stability.tips || isWallHung(params)) return [];
+      const role = stability.loadedBy === 'drawer' ? 'DrawerFace' : 'Door';
+      return [{
+        values: {
+          load: formatWeight(stability.maxFrontLoadLb, params.unitSystem),
+          where: stability.loadedBy === 'drawer' ? 'a fully open drawer' : 'an open door',
+          testLoad: formatWeight(stability.testLoadLb, params.unitSystem),
+        },
+        partIds: parts.filter(p => p.role === role).map(p => p.id),
+      }];
+    },
+  },
+  {
+    id: 'tall_for_depth',
+    title: 'Tall for its depth',
+    severity: 'warning',
+    message: 'Height is {ratio}× the depth – anchor to the wall',
+    check: ({ params, stability }) => stability.heightToDepthRatio > MAX_FREESTANDING_HEIGHT_TO_DEPTH && !isWallHung(params)
+      ? [{ values: { ratio: stability.heightToDepthRatio.toFixed(1) } }]
+      : [],
+  },
+  {
+    id: 'door_too_thin_for_hinges',
+    title: 'Doors too thin for Euro hinges',
+    severity: 'warning',
+    message: 'Doors are {thickness} thick; Euro hinge cups need at least {minimum}',
+    check: ({ params, parts }) => {
+      const doors = parts.filter(p => p.role === 'Door' && p.thicknessIn < EURO_HINGE_MIN_DOOR_THICKNESS);
+      if (doors.length === 0) return [];
+      return [{
+        values: {
+          thickness: formatDimension(doors[0].thicknessIn, params.unitSystem),
+          minimum: formatDimension(EURO_HINGE_MIN_DOOR_THICKNESS, params.unitSystem),
+        },
+        partIds: doors.map(p => p.id),
+        cells: doors.flatMap(getCellsForPart),
+      }];
+    },
+  },
+  {
+    id: 'overlay_door_collision',
+    title: 'Overlay doors colliding',
+    severity: 'warning',
+    message: 'Overlay doors at {a} and {b} overlap by {overlap} – reduce the overlay',
+    check: ({ params, parts }) => {
+      if (params.doorMode.type !== 'overlay') return [];
+
+      // Doors and drawer faces as rectangles on the front of the carcass
+      const dimensions = calculateAllDimensions(params);
+      const fronts = parts
+        .filter(p => (p.role === 'Door' || p.role === 'DrawerFace') && p.bay)
+        .map(part => {
+          const [x, y] = calculatePartPosition(part, params, dimensions).map(v => v / SCENE_SCALE);
+          return {
+            part,
+            opening: `${part.bay!.row},${part.bay!.colStart}`,
+            left: x - part.lengthIn / 2,
+            right: x + part.lengthIn / 2,
+            bottom: y - part.widthIn / 2,
+            top: y + part.widthIn / 2,
+          };
+        });
+
+      // One finding per pair of openings, however many faces overlap
+      const findings = new Map<string, RuleFinding>();
+      fronts.forEach((a, i) => {
+        for (const b of fronts.slice(i + 1)) {
+          if (a.opening === b.opening) continue;
+          const overlapX = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+          const overlapY = Math.min(a.top, b.top) - Math.max(a.bottom, b.bottom);
+          if (overlapX <= OVERLAP_TOLERANCE || overlapY <= OVERLAP_TOLERANCE) continue;
+
+          const key = `${a.opening}|${b.opening}`;
+          const overlap = Math.min(overlapX, overlapY);
+          const finding = findings.get(key);
+          if (finding) {
+            finding.partIds!.push(...[a.part.id, b.part.id].filter(id => !finding.partIds!.includes(id)));
+            continue;
+          }
+          findings.set(key, {
+            values: { a: a.opening, b: b.opening, overlap: formatDimension(overlap, params.unitSystem) },
+            partIds: [a.part.id, b.part.id],
+            cells: [...getCellsForPart(a.part), ...getCellsForPart(b.part)],
+          });
+        }
+      });
+      return Array.from(findings.values());
+    },
+  },
+  {
+    id: 'deep_unit_without_back',
+    title: 'Deep units without a back',
+    severity: 'warning',
+    message: 'Unit is {depth} deep with no back – add a back panel or stretchers to keep it from racking',
+    check: ({ params, parts }) => {
+      const depthIn = toInches(params.depth, params.unitSystem);
+      if (isBracedAgainstRacking(params) || depthIn <= DEEP_UNIT_WITHOUT_BACK) return [];
+      return [{
+        values: { depth: formatDimension(depthIn, params.unitSystem) },
+        partIds: parts.filter(p => p.role === 'Side').map(p => p.id),
+      }];
+    },
+  },
+  {
+    id: 'too_shallow_for_inserts',
+    title: 'Too shallow for Kallax inserts',
+    severity: 'warning',
+    message: 'Depth of {depth} is less than the {insert} Kallax inserts and boxes need',
+    check: ({ params }) => {
+      const depthIn = toInches(params.depth, params.unitSystem);
+      if (depthIn >= KALLAX_INSERT_DEPTH) return [];
+      return [{
+        values: {
+          depth: formatDimension(depthIn, params.unitSystem),
+          insert: formatDimension(KALLAX_INSERT_DEPTH, params.unitSystem),
+        },
+        cells: getCellsInRange(0, params.rows, 0, params.cols),
+      }];
+    },
+  },
+  {
+    id: 'insert_out_of_tolerance',
+    title: 'Cell does not fit its Kallax insert',
+    severity: 'warning',
+    message: 'Cell {cell} is {width} × {height} and {depth} deep, but the {insert} needs {min}–{max} square and {minDepth} deep',
+    check: ({ params }) => {
+      const { unitSystem } = params;
+      const { columnWidths, rowHeights } = calculateGridMetrics(params);
+      // Inserts stop at an inset back or the back rails, like the shelves
+      const depthIn = toInches(params.depth, unitSystem) - calculateBackRecess(params);
+
+      return getInsertOpenings(params).flatMap(({ opening, insert }) => {
+        const { name, clearanceIn, minDepthIn } = KALLAX_INSERTS[insert.insert];
+        const width = columnWidths[opening.col];
+        const height = rowHeights[opening.row];
+        const fitsCell = [width, height].every(size =>
+          size >= clearanceIn.min - INSERT_FIT_TOLERANCE && size <= clearanceIn.max + INSERT_FIT_TOLERANCE);
+        if (fitsCell && depthIn >= minDepthIn - INSERT_FIT_TOLERANCE) return [];
+
+        return [{
+          values: {
+            cell: `${opening.row},${opening.col}`,
+            width: formatDimension(width, unitSystem),
+            height: formatDimension(height, unitSystem),
+            depth: formatDimension(depthIn, unitSystem),
+            insert: name.toLowerCase(),
+            min: formatDimension(clearanceIn.min, unitSystem),
+            max: formatDimension(clearanceIn.max, unitSystem),
+            minDepth: formatDimension(minDepthIn, unitSystem),
+          },
+          cells: [{ row: opening.row, col: opening.col }],
+        }];
+      });
+    },
+  },
+];
+
+/**
+ * All registered design rules
+ */
+export function getDesignRules(): DesignRule[] {
+  return designRules;
+}
+
+/**
+ * Add a rule to the registry, replacing any rule with the same id
+ */
+export function registerDesignRule(rule: DesignRule): void {
+  const index = designRules.findIndex(r => r.id === rule.id);
+  if (index >= 0) {
+    designRules[index] = rule;
+  } else {
+    designRules.push(rule);
+  }
+}
+
+/**
+ * Run every rule that is not silenced for this design and collect its warnings
+ */
+export function runDesignRules(context: DesignRuleContext): Warning[] {
+  const silenced = new Set(context.params.silencedRules ?? []);
+
+  return designRules
+    .filter(rule => !silenced.has(rule.id))
+    .flatMap(rule => rule.check(context).map(finding => ({
+      type: rule.id,
+      message: formatRuleMessage(rule.message, finding.values),
+      severity: rule.severity,
+      mergeIndex: finding.mergeIndex,
+      partIds: finding.partIds,
+      cells: finding.cells,
+      deflection: finding.deflection,
+    })));
+}
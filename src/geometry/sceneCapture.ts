@@ -1,24 +1,13 @@
 import * as THREE from 'three';
-import type { DesignParams, Part } from './types';
-import { getThicknessInInches } from './types';
+import type { DerivedDimensions, DesignParams, Part } from './types';
 import { generateParts } from './parts';
-import { calculateAllDimensions } from './measurements';
-import {
-  calculateBottomPosition,
-  calculateTopPosition,
-  calculateLeftSidePosition,
-  calculateRightSidePosition,
-  calculateBackPosition,
-  calculateBayShelfPosition,
-  calculateDoorPosition,
-  calculateVerticalDividerPosition,
-  calculateVerticalDividerSegmentPosition
-} from './measurements';
+import { calculateAllDimensions, calculateLegPosition, calculatePartPosition, getPartRotation } from './measurements';
+import { calculateLegLayout, LEG_DIAMETER } from './base';
 
 /**
  * Create a part mesh with outline for rendering
  */
-function createPartMesh(part: Part, params: DesignParams, dimensions: { extWidth: number; extHeight: number; extDepth: number }): THREE.Group {
+function createPartMesh(part: Part, params: DesignParams, dimensions: DerivedDimensions): THREE.Group {
   // Convert dimensions from inches to scene units (scale down for better viewing)
   const scaleX = part.lengthIn * 0.1;
   const scaleY = part.thicknessIn * 0.1;
@@ -40,108 +29,7 @@ function createPartMesh(part: Part, params: DesignParams, dimensions: { extWidth
   const mesh = new THREE.Mesh(geometry, material);
 
   // Position the mesh
-  const frameThickness = getThicknessInInches(params.materials.frame);
-
-  // Convert to inches for calculations
-  const interiorClearanceInches = params.unitSystem === 'metric'
-    ? params.interiorClearance / 25.4
-    : params.interiorClearance;
-  const depthInches = params.unitSystem === 'metric'
-    ? params.depth / 25.4
-    : params.depth;
-  const revealInches = params.unitSystem === 'metric'
-    ? params.doorMode.reveal / 25.4
-    : params.doorMode.reveal;
-  const overlayInches = params.unitSystem === 'metric'
-    ? params.doorMode.overlay / 25.4
-    : params.doorMode.overlay;
-
-  // Create converted door mode for position calculations
-  const doorModeInches = {
-    type: params.doorMode.type,
-    revealInches,
-    overlayInches,
-  };
-
-  let position: [number, number, number] = [0, 0, 0];
-
-  switch (part.role) {
-    case 'Bottom':
-      position = calculateBottomPosition(dimensions.extHeight, frameThickness);
-      break;
-    case 'Top':
-      position = calculateTopPosition(dimensions.extHeight, frameThickness);
-      break;
-    case 'Side':
-      if (part.id.includes('L')) {
-        position = calculateLeftSidePosition(dimensions.extWidth, frameThickness);
-      } else {
-        position = calculateRightSidePosition(dimensions.extWidth, frameThickness);
-      }
-      break;
-    case 'Back':
-      position = calculateBackPosition(dimensions.extDepth);
-      break;
-    case 'BayShelf':
-      if (part.bay) {
-        position = calculateBayShelfPosition(
-          part.bay,
-          params.rows,
-          params.cols,
-          interiorClearanceInches,
-          frameThickness,
-          dimensions.extWidth,
-          dimensions.extHeight
-        );
-      }
-      break;
-    case 'Door':
-      if (part.bay) {
-        const doorThickness = params.materials.door ? getThicknessInInches(params.materials.door) : 0.75;
-        position = calculateDoorPosition(
-          part.bay,
-          params.rows,
-          params.cols,
-          interiorClearanceInches,
-          frameThickness,
-          dimensions.extWidth,
-          dimensions.extHeight,
-          doorModeInches,
-          doorThickness,
-          depthInches
-        );
-      }
-      break;
-    case 'VerticalDivider':
-      if (part.bay && part.bay.rowEnd !== undefined) {
-        // Segmented vertical divider
-        const columnIndex = part.bay.colStart;
-        position = calculateVerticalDividerSegmentPosition(
-          columnIndex,
-          part.bay.row,
-          part.bay.rowEnd,
-          part.lengthIn,
-          params.cols,
-          params.rows,
-          interiorClearanceInches,
-          frameThickness,
-          dimensions.extWidth,
-          dimensions.extHeight
-        );
-      } else {
-        // Extract column index from notes (fallback)
-        const columnMatch = part.notes?.match(/column (\d+)/);
-        const columnIndex = columnMatch ? parseInt(columnMatch[1], 10) : 1;
-        position = calculateVerticalDividerPosition(
-          columnIndex,
-          params.cols,
-          interiorClearanceInches,
-          frameThickness,
-          dimensions.extWidth
-        );
-      }
-      break;
-  }
+  const position = calculatePartPosition(part, params, dimensions);
   
   // Apply same transformations to both mesh and line segments
   const applyTransforms = (object: THREE.Object3D) => {
@@ -149,11 +37,7 @@ function createPartMesh(part: Part, params: DesignParams, dimensions: { extWidth
     object.scale.set(scaleX, scaleY, scaleZ);
     
     // Rotation for parts that need to be oriented differently
-    if (part.role === 'Side' || part.role === 'VerticalDivider') {
-      object.rotation.z = Math.PI / 2; // 90 degrees around Z-axis
-    } else if (part.role === 'Back' || part.role === 'Door') {
-      object.rotation.x = Math.PI / 2; // 90 degrees around X-axis to make height vertical
-    }
+    object.rotation.set(...getPartRotation(part));
   };
   
   applyTransforms(mesh);
@@ -167,6 +51,29 @@ function createPartMesh(part: Part, params: DesignParams, dimensions: { extWidth
   return group;
 }
 
+/**
+ * Create the legs under the carcass, drawn the same way as the parts
+ */
+function createLegMeshes(params: DesignParams, dimensions: DerivedDimensions): THREE.Group {
+  const group = new THREE.Group();
+  const layout = calculateLegLayout(params, dimensions);
+  if (!layout) return group;
+
+  const geometry = new THREE.CylinderGeometry(LEG_DIAMETER * 0.1 / 2, LEG_DIAMETER * 0.1 / 2, layout.heightIn * 0.1, 16);
+  const edges = new THREE.EdgesGeometry(geometry);
+  const material = new THREE.MeshBasicMaterial({ color: '#ffffff' });
+  const lineMaterial = new THREE.LineBasicMaterial({ color: '#000000', linewidth: 1 });
+
+  for (const leg of layout.legs) {
+    const position = calculateLegPosition(leg, params, dimensions);
+    for (const object of [new THREE.Mesh(geometry, material), new THREE.LineSegments(edges, lineMaterial)]) {
+      object.position.set(...position);
+      group.add(object);
+    }
+  }
+  return group;
+}
+
 /**
  * Capture the 3D scene as an image from an axonometric/isometric angle
  */
@@ -192,6 +99,7 @@ export async function captureAxonometricView(
     const partGroup = createPartMesh(part, params, dimensions);
     scene.add(partGroup);
   }
+  scene.add(createLegMeshes(params, dimensions));
   
   // Create camera with long lens to minimize distortion
   const camera = new THREE.PerspectiveCamera(15, width / height, 0.1, 1000);
@@ -199,7 +107,7 @@ export async function captureAxonometricView(
   // Position camera mostly from front, slightly to the left
   // This gives a view of the left side with symmetrical top/bottom perspective
   // Increased distance multiplier from 4 to 4.5 to zoom out slightly and prevent bottom cutoff
-  const distance = Math.max(dimensions.extWidth, dimensions.extHeight, dimensions.extDepth) * 0.1 * 4.5;
+  const distance = Math.max(dimensions.overallWidth, dimensions.extHeight, dimensions.overallDepth) * 0.1 * 4.5;
   camera.position.set(-distance * 0.3, distance * 0.15, distance);
   camera.lookAt(0, 0, 0);
   
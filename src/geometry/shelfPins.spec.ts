@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePinRowPositions, calculateShelfPinLayouts, SHELF_PIN_CLEARANCE, SHELF_PIN_HOLE_DIAMETER } from './shelfPins';
+import { calculateHardwareBom } from './hardware';
+import { generateParts } from './parts';
+import { calculateAllDimensions, calculatePartPosition, getCarcassHeight, SCENE_SCALE } from './measurements';
+import { DEFAULT_DESIGN } from './constants';
+import type { DesignParams } from './types';
+import { getThicknessInInches } from './types';
+
+const frame = getThicknessInInches(DEFAULT_DESIGN.materials.frame);
+
+// The left column merged top to bottom, with shelves on pins
+const withShelves = (overrides: Partial<DesignParams> = {}): DesignParams => ({
+  ...DEFAULT_DESIGN,
+  merges: [{ r0: 0, c0: 0, r1: 1, c1: 0 }],
+  adjustableShelves: [{ row: 0, col: 0, count: 2 }],
+  ...overrides,
+});
+
+describe('Adjustable shelves', () => {
+  it('should cut loose shelves the pin clearance short of a tall merged opening', () => {
+    const params = withShelves();
+    const shelves = generateParts(params).filter(p => p.role === 'AdjustableShelf');
+
+    expect(shelves.map(p => p.id)).toEqual(['AdjShelf-0', 'AdjShelf-1']);
+    expect(shelves[0].lengthIn).toBeCloseTo(DEFAULT_DESIGN.interiorClearance - SHELF_PIN_CLEARANCE);
+    expect(shelves[0].widthIn).toBeCloseTo(DEFAULT_DESIGN.depth);
+
+    const pins = calculateHardwareBom(generateParts(params), params).find(item => item.id === 'shelf-pins');
+    expect(pins?.qty).toBe(8);
+
+    // Single-row openings keep their fixed shelf
+    const single = { ...DEFAULT_DESIGN, adjustableShelves: [{ row: 0, col: 0, count: 2 }] };
+    expect(generateParts(single).some(p => p.role === 'AdjustableShelf')).toBe(false);
+  });
+
+  it('should drill pin rows on the side and divider either side of the opening', () => {
+    const params = withShelves();
+    const [layout] = calculateShelfPinLayouts(generateParts(params), params);
+    const openingHeight = 2 * DEFAULT_DESIGN.interiorClearance + frame;
+    const rows = calculatePinRowPositions(openingHeight, 32 / 25.4);
+
+    const left = layout.holes.filter(hole => hole.partId === 'Side-0-L');
+    const right = layout.holes.filter(hole => !hole.partId.startsWith('Side'));
+    expect(left).toHaveLength(rows.length);
+    expect(left.every(hole => hole.face === 'right')).toBe(true);
+    expect(right.every(hole => hole.face === 'left' && hole.partId.startsWith('VDiv-1'))).toBe(true);
+    expect(left[0].positionIn - left[1].positionIn).toBeCloseTo(32 / 25.4);
+    expect(layout.rowSetbacksIn[0]).toBeCloseTo(37 / 25.4);
+    expect(layout.rowSetbacksIn[1]).toBeCloseTo(DEFAULT_DESIGN.depth - 37 / 25.4);
+
+    // Custom spacing in the design's units
+    const custom = withShelves({ shelfPins: { system: 'custom', spacing: 2 } });
+    const [customLayout] = calculateShelfPinLayouts(generateParts(custom), custom);
+    expect(customLayout.spacingIn).toBe(2);
+    expect(customLayout.holes.length).toBeLessThan(layout.holes.length);
+  });
+
+  it('should rest each ghost shelf on a pin hole', () => {
+    const params = withShelves();
+    const parts = generateParts(params);
+    const dimensions = calculateAllDimensions(params);
+    const [layout] = calculateShelfPinLayouts(parts, params);
+    const side = parts.find(p => p.id === 'Side-0-L')!;
+    const sideTop = calculatePartPosition(side, params, dimensions)[1] / SCENE_SCALE + side.lengthIn / 2;
+    const holeHeights = layout.holes
+      .filter(hole => hole.partId === side.id)
+      .map(hole => sideTop - hole.positionIn);
+
+    for (const shelf of parts.filter(p => p.role === 'AdjustableShelf')) {
+      const y = calculatePartPosition(shelf, params, dimensions)[1] / SCENE_SCALE;
+      const restsOn = y - shelf.thicknessIn / 2 - SHELF_PIN_HOLE_DIAMETER / 2;
+      expect(holeHeights.some(height => Math.abs(height - restsOn) < 1e-6)).toBe(true);
+      expect(Math.abs(y)).toBeLessThan(getCarcassHeight(dimensions) / 2);
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import type { DesignParams, Opening, Part, ShelfPinHole, ShelfPinLayout } from './types';
+import { getThicknessInInches } from './types';
+import { calculateBackRecess } from './backs';
+import { getAdjustableShelfOpenings, getDoorOpenings } from './openings';
+import {
+  calculateAllDimensions,
+  calculateGridLineOffset,
+  calculateGridMetrics,
+  calculatePartPosition,
+  calculateSpanSize,
+  getCarcassHeight,
+  SCENE_SCALE,
+  toInches,
+} from './measurements';
+
+// 5mm pin holes on the 32mm system, in rows 37mm in from the front and back of the shelf space
+export const SHELF_PIN_HOLE_DIAMETER = 5 / 25.4;
+const SYSTEM_32_SPACING = 32 / 25.4;
+const PIN_ROW_SETBACK = 37 / 25.4;
+
+// Holes stop this far short of the shelf or Bottom above and below the opening
+const PIN_END_MARGIN = 64 / 25.4;
+
+// Loose shelves are cut this much shorter than the opening so they drop in between the pins
+export const SHELF_PIN_CLEARANCE = 1 / 16;
+
+// Pins per shelf, one at each corner
+export const PINS_PER_SHELF = 4;
+
+/**
+ * Pitch between holes in a pin row in inches
+ */
+export function getShelfPinSpacing(params: DesignParams): number {
+  return params.shelfPins?.system === 'custom'
+    ? toInches(params.shelfPins.spacing, params.unitSystem)
+    : SYSTEM_32_SPACING;
+}
+
+/**
+ * Hole centers up an opening, from the top of the shelf or Bottom below it
+ */
+export function calculatePinRowPositions(openingHeight: number, spacing: number): number[] {
+  if (spacing <= 0) return [];
+  const count = Math.floor((openingHeight - 2 * PIN_END_MARGIN) / spacing + 1e-6) + 1;
+  return Array.from({ length: Math.max(0, count) }, (_, i) => PIN_END_MARGIN + i * spacing);
+}
+
+/**
+ * Hole each shelf rests on, from the top of the shelf or Bottom below the opening:
+ * the shelves are spread evenly up the opening, then each drops onto the nearest hole
+ */
+export function calculateAdjustableShelfHeights(openingHeight: number, count: number, spacing: number): number[] {
+  const holes = calculatePinRowPositions(openingHeight, spacing);
+  return Array.from({ length: count }, (_, i) => {
+    const target = openingHeight * (i + 1) / (count + 1);
+    if (holes.length === 0) return target;
+    return holes.reduce((best, hole) => Math.abs(hole - target) < Math.abs(best - target) ? hole : best);
+  });
+}
+
+/**
+ * How far the shelves stand back from the front of the carcass: clear of an inset door
+ */
+export function calculateShelfFrontSetback(params: DesignParams, opening: Opening): number {
+  if (params.doorMode.type !== 'inset') return 0;
+  const hasDoor = getDoorOpenings(params).some(({ opening: o }) => o.row === opening.row && o.col === opening.col);
+  if (!hasDoor) return 0;
+  return getThicknessInInches(params.materials.door ?? params.materials.frame);
+}
+
+/**
+ * Parts standing on a grid line that pin holes can go in: the Side at either end, or the
+ * VerticalDivider segments on the line between
+ */
+function getBoundingParts(column: number, parts: Part[], params: DesignParams): Part[] {
+  if (column === 0) return parts.filter(p => p.role === 'Side' && p.id.endsWith('-L'));
+  if (column === params.cols) return parts.filter(p => p.role === 'Side' && p.id.endsWith('-R'));
+  return parts.filter(p => p.role === 'VerticalDivider' && p.bay?.colStart === column);
+}
+
+/**
+ * Work out the pin rows for one opening and the holes on the parts either side of it.
+ * Both rows sit 37mm in from the front and back of the space the shelves fill.
+ */
+export function calculateShelfPinLayout(opening: Opening, parts: Part[], params: DesignParams): ShelfPinLayout {
+  const dimensions = calculateAllDimensions(params);
+  const grid = calculateGridMetrics(params);
+  const rowEnd = opening.row + opening.height;
+  const openingHeight = calculateSpanSize(grid.rowHeights, opening.row, rowEnd, grid.frameThickness);
+  const spacing = getShelfPinSpacing(params);
+
+  const frontSetback = calculateShelfFrontSetback(params, opening);
+  const shelfDepth = toInches(params.depth, params.unitSystem) - calculateBackRecess(params) - frontSetback;
+  const rowSetbacksIn = [frontSetback + PIN_ROW_SETBACK, frontSetback + shelfDepth - PIN_ROW_SETBACK];
+
+  // Top of the shelf or Bottom below the opening, in carcass coordinates (inches)
+  const openingBottom = getCarcassHeight(dimensions) / 2
+    - calculateGridLineOffset(grid.rowHeights, rowEnd, grid.frameThickness);
+
+  // The part on the opening's left edge is drilled on its right face, and the other way round
+  const sides = [
+    { column: opening.col, face: 'right' as const },
+    { column: opening.col + opening.width, face: 'left' as const },
+  ];
+
+  const holes: ShelfPinHole[] = [];
+  for (const { column, face } of sides) {
+    // Vertical parts are measured down from their top
+    const candidates = getBoundingParts(column, parts, params).map(part => {
+      const [, y] = calculatePartPosition(part, params, dimensions).map(v => v / SCENE_SCALE);
+      return { part, top: y + part.lengthIn / 2 };
+    });
+
+    for (const height of calculatePinRowPositions(openingHeight, spacing)) {
+      const y = openingBottom + height;
+      const mount = candidates.find(({ part, top }) => top - y >= 0 && top - y <= part.lengthIn);
+      if (mount) {
+        holes.push({ partId: mount.part.id, positionIn: mount.top - y, face });
+      }
+    }
+  }
+
+  return {
+    row: opening.row,
+    col: opening.col,
+    holeDiameterIn: SHELF_PIN_HOLE_DIAMETER,
+    spacingIn: spacing,
+    rowSetbacksIn,
+    holes,
+  };
+}
+
+/**
+ * Shelf-pin layouts for every opening with adjustable shelves
+ */
+export function calculateShelfPinLayouts(parts: Part[], params: DesignParams): ShelfPinLayout[] {
+  return getAdjustableShelfOpenings(params).map(({ opening }) => calculateShelfPinLayout(opening, parts, params));
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeStability, calculatePartWeight } from './stability';
+import { generateParts } from './parts';
+import { generateWarnings } from './estimate';
+import { DEFAULT_DESIGN } from './constants';
+import type { DesignParams } from './types';
+
+const stabilityFor = (params: DesignParams) => analyzeStability(generateParts(params), params);
+
+describe('Stability', () => {
+  it('should weigh parts from their volume and material density', () => {
+    const part = generateParts(DEFAULT_DESIGN).find(p => p.role === 'Top')!;
+    const volumeCuFt = part.lengthIn * part.widthIn * part.thicknessIn / 1728;
+
+    expect(calculatePartWeight(part, DEFAULT_DESIGN)).toBeCloseTo(volumeCuFt * 36, 5);
+    expect(calculatePartWeight(part, { ...DEFAULT_DESIGN, sheetMaterial: 'mdf' })).toBeCloseTo(volumeCuFt * 48, 5);
+  });
+
+  it('should center a symmetric open unit and never tip it from the shelves', () => {
+    const stability = stabilityFor(DEFAULT_DESIGN);
+
+    expect(stability.weightLb).toBeGreaterThan(0);
+    expect(stability.centerOfMass[0]).toBeCloseTo(0, 5);
+    expect(stability.centerOfMass[1]).toBeCloseTo(0, 5);
+    expect(stability.loadedBy).toBe('shelf');
+    expect(stability.tips).toBe(false);
+    expect(stability.anchorRequired).toBe(false);
+  });
+
+  it('should move the center of mass back with a back panel', () => {
+    const stability = stabilityFor({
+      ...DEFAULT_DESIGN,
+      hasBack: true,
+      materials: { ...DEFAULT_DESIGN.materials, back: { nominal: '1/4"', actualInches: 7/32 } },
+    });
+
+    expect(stability.centerOfMass[2]).toBeLessThan(0);
+  });
+
+  it('should require anchoring when a loaded drawer tips the unit', () => {
+    const params: DesignParams = { ...DEFAULT_DESIGN, drawers: [{ row: 0, col: 0, count: 1 }] };
+    const stability = stabilityFor(params);
+
+    expect(stability.loadedBy).toBe('drawer');
+    expect(stability.loadReachIn).toBe(14);
+    expect(stability.tips).toBe(stability.testLoadLb > stability.maxFrontLoadLb);
+
+    const light = stabilityFor({ ...params, tipTestLoad: 1 });
+    expect(light.tips).toBe(false);
+
+    const heavyParams: DesignParams = { ...params, tipTestLoad: 500 };
+    const heavy = stabilityFor(heavyParams);
+    expect(heavy.tips).toBe(true);
+    expect(heavy.anchorRequired).toBe(true);
+
+    const warning = generateWarnings(heavyParams).find(w => w.type === 'tip_over');
+    expect(warning?.severity).toBe('error');
+  });
+
+  it('should require anchoring for tall, shallow units', () => {
+    const stability = stabilityFor({ ...DEFAULT_DESIGN, rows: 5, cols: 1 });
+
+    expect(stability.heightToDepthRatio).toBeGreaterThan(3);
+    expect(stability.anchorRequired).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+import type { DesignParams, Part, StabilityAnalysis } from './types';
+import { calculateAllDimensions, calculatePartPosition, SCENE_SCALE, toInches } from './measurements';
+import { calculateLegLayout, calculatePlinthSetback } from './base';
+import { DEFAULT_TIP_TEST_LOAD_IMPERIAL, DEFAULT_TIP_TEST_LOAD_METRIC, SHEET_MATERIAL_PROPERTIES } from './constants';
+
+// Units taller than this many times their depth should be anchored whatever they hold
+export const MAX_FREESTANDING_HEIGHT_TO_DEPTH = 3;
+
+const KG_TO_LB = 2.20462;
+
+// Solid hardwood edging, roughly oak or maple
+const HARDWOOD_DENSITY_LB_PER_CU_FT = 44;
+
+/**
+ * Test load in pounds, from the design's tip test load setting
+ */
+export function getTipTestLoadLb(params: DesignParams): number {
+  if (params.unitSystem === 'metric') {
+    return (params.tipTestLoad ?? DEFAULT_TIP_TEST_LOAD_METRIC) * KG_TO_LB;
+  }
+  return params.tipTestLoad ?? DEFAULT_TIP_TEST_LOAD_IMPERIAL;
+}
+
+/**
+ * Weight of one part (all of its qty) in pounds
+ */
+export function calculatePartWeight(part: Part, params: DesignParams): number {
+  const stock = part.stock ?? params.sheetMaterial ?? 'plywood';
+  const densityLbPerCuFt = stock === 'hardwood'
+    ? HARDWOOD_DENSITY_LB_PER_CU_FT
+    : SHEET_MATERIAL_PROPERTIES[stock].densityLbPerCuFt;
+  return (part.lengthIn * part.widthIn * part.thicknessIn * part.qty / 1728) * densityLbPerCuFt;
+}
+
+/**
+ * Estimate weight and center of mass, and check whether the unit tips forward about its
+ * front foot when the test load hangs from the farthest-reaching open door or
+ * fully extended drawer (the drawer's own weight moves out with it).
+ */
+export function analyzeStability(parts: Part[], params: DesignParams): StabilityAnalysis {
+  const dimensions = calculateAllDimensions(params);
+
+  // The unit tips about whatever touches the floor furthest forward: the front legs,
+  // the front of a recessed plinth, or the Bottom's front edge
+  const legs = calculateLegLayout(params, dimensions);
+  const frontSetback = legs ? Math.min(...legs.legs.map(leg => leg.y)) : calculatePlinthSetback(params);
+  const frontZ = toInches(params.depth, params.unitSystem) / 2 - frontSetback;
+  const testLoadLb = getTipTestLoadLb(params);
+
+  let weightLb = 0;
+  const moment: [number, number, number] = [0, 0, 0];
+  const drawerWeights = new Map<string, { weight: number; travel: number }>();
+
+  for (const part of parts) {
+    // The wall cleat stays on the wall
+    if (part.role === 'WallCleat') continue;
+
+    const weight = calculatePartWeight(part, params);
+    const position = calculatePartPosition(part, params, dimensions);
+    weightLb += weight;
+    for (let axis = 0; axis < 3; axis++) {
+      moment[axis] += weight * position[axis] / SCENE_SCALE;
+    }
+
+    // Group drawer parts so a whole drawer can be pulled out together
+    if (part.drawer && part.bay) {
+      const key = `${part.bay.row}-${part.bay.colStart}-${part.drawer.index}`;
+      const drawer = drawerWeights.get(key) ?? { weight: 0, travel: 0 };
+      drawer.weight += weight;
+      if (part.role === 'DrawerSide') drawer.travel = part.lengthIn;
+      drawerWeights.set(key, drawer);
+    }
+  }
+
+  const centerOfMass: [number, number, number] = weightLb > 0
+    ? [moment[0] / weightLb, moment[1] / weightLb, moment[2] / weightLb]
+    : [0, 0, 0];
+
+  // Worst case reach in front of the pivot: loads on open shelves sit over the front edge
+  let loadedBy: StabilityAnalysis['loadedBy'] = 'shelf';
+  let loadReachIn = 0;
+  let extendedDrawerMoment = 0;
+  for (const door of parts.filter(p => p.role === 'Door')) {
+    // Side-hung doors swing out by their width, flip-down doors by their height
+    const reach = door.hinge === 'bottom' ? door.widthIn : door.lengthIn;
+    if (reach > loadReachIn) {
+      loadReachIn = reach;
+      loadedBy = 'door';
+      extendedDrawerMoment = 0;
+    }
+  }
+  for (const drawer of drawerWeights.values()) {
+    if (drawer.travel > loadReachIn) {
+      loadReachIn = drawer.travel;
+      loadedBy = 'drawer';
+      extendedDrawerMoment = drawer.weight * drawer.travel;
+    }
+  }
+
+  // Moments about the front foot: the unit's weight holds it back, the load and
+  // an extended drawer pull it forward
+  const restoringMoment = weightLb * (frontZ - centerOfMass[2]) - extendedDrawerMoment;
+  const loadArm = loadReachIn + frontSetback;
+  const maxFrontLoadLb = loadArm > 0 ? Math.max(0, restoringMoment) / loadArm : Infinity;
+  const tips = testLoadLb > maxFrontLoadLb;
+
+  const heightToDepthRatio = dimensions.extHeight / dimensions.extDepth;
+  const anchorRequired = tips || heightToDepthRatio > MAX_FREESTANDING_HEIGHT_TO_DEPTH;
+
+  return {
+    weightLb,
+    centerOfMass,
+    heightToDepthRatio,
+    testLoadLb,
+    loadReachIn,
+    loadedBy,
+    maxFrontLoadLb,
+    tips,
+    anchorRequired,
+  };
+}
@@ -70,6 +70,7 @@ function getPartColor(role: string): string {
     case 'VerticalDivider':
       return '#f59e0b';
     case 'BayShelf':
+    case 'AdjustableShelf':
       return '#ef4444';
     case 'Back':
       return '#6b7280';
@@ -141,12 +142,30 @@ export function generateAssemblySteps(parts: Part[]): AssemblyStep[] {
   if (back.length > 0) {
     steps.push({
       stepNumber: 5,
-      title: 'Attach Back Panel',
-      description: 'Mount the back panel to the rear of the assembled frame.',
+      title: back.length > 1 ? 'Attach Back Panels' : 'Attach Back Panel',
+      description: back[0].notes?.startsWith('Inset')
+        ? 'Slide the back panel into its rabbet or groove before closing up the frame.'
+        : back.length > 1
+          ? 'Mount each back panel to the rear of the frame, butting the panels together on the divider and shelf centerlines.'
+          : 'Mount the back panel to the rear of the assembled frame.',
       parts: back,
       svg: generateStepSVG(back, 'Step 5: Back Panel'),
     });
   }
+
+  // Step 5 (open backs): Rails instead of a panel
+  const rails = parts.filter(p => p.role === 'Stretcher' || p.role === 'Cleat');
+  if (rails.length > 0) {
+    steps.push({
+      stepNumber: 5,
+      title: rails[0].role === 'Cleat' ? 'Fit French Cleat' : 'Fit Stretchers',
+      description: rails[0].role === 'Cleat'
+        ? 'Screw the cleat between the sides under the top, then hang the unit on the wall cleat.'
+        : 'Screw the stretchers between the sides, flush with the back edges.',
+      parts: rails,
+      svg: generateStepSVG(rails, 'Step 5: Rails'),
+    });
+  }
   
   // Step 6: Doors
   const doors = parts.filter(p => p.role === 'Door');
@@ -159,6 +178,44 @@ export function generateAssemblySteps(parts: Part[]): AssemblyStep[] {
       svg: generateStepSVG(doors, 'Step 6: Doors'),
     });
   }
-  
+
+  // Step 7: Plinth
+  const plinth = parts.filter(p => p.role === 'Plinth');
+  if (plinth.length > 0) {
+    steps.push({
+      stepNumber: 7,
+      title: 'Set on Plinth',
+      description: 'Screw the plinth into a frame, level it where the unit will stand, and screw the bottom down onto it.',
+      parts: plinth,
+      svg: generateStepSVG(plinth, 'Step 7: Plinth'),
+    });
+  }
+
+  // Step 8: Countertop
+  const countertop = parts.filter(p => p.role === 'Countertop' || p.role === 'CountertopEdge');
+  if (countertop.length > 0) {
+    steps.push({
+      stepNumber: 8,
+      title: 'Attach Countertop',
+      description: countertop.length > 1
+        ? 'Glue the hardwood edge to the countertop, then screw it up through the top, slotting the back holes.'
+        : 'Screw the countertop up through the top from inside, slotting the back holes.',
+      parts: countertop,
+      svg: generateStepSVG(countertop, 'Step 8: Countertop'),
+    });
+  }
+
+  // Step 9: Adjustable Shelves
+  const adjustable = parts.filter(p => p.role === 'AdjustableShelf');
+  if (adjustable.length > 0) {
+    steps.push({
+      stepNumber: 9,
+      title: 'Set Adjustable Shelves',
+      description: 'Push four pins into the drilled holes at the height you want and drop each shelf onto them.',
+      parts: adjustable,
+      svg: generateStepSVG(adjustable, 'Step 9: Adjustable Shelves'),
+    });
+  }
+
   return steps;
 }
\ No newline at end of file
@@ -18,15 +18,24 @@ export type Material = ThicknessMap | MetricThickness;
 export interface MaterialOptions {
   frame: Material;
   back?: Material;
-  door?: Material;
+  door?: Material;        // also used for drawer faces
+  drawerBox?: Material;   // drawer sides, fronts and backs
+  drawerBottom?: Material;
 }
 
 export interface DoorMode {
   type: 'inset' | 'overlay';
   reveal: number;  // inches or mm depending on unitSystem
   overlay: number; // inches or mm depending on unitSystem
+  pairGap?: number; // gap between paired doors, inches or mm depending on unitSystem
 }
 
+// How an opening is closed: one door hinged on either side, a pair of doors
+// meeting in the middle, or a single door hinged along the bottom
+export type DoorStyle = 'single-left' | 'single-right' | 'paired' | 'flip-down';
+
+export type HingeSide = 'left' | 'right' | 'bottom';
+
 export type DoorHardwarePosition =
   | 'top-left'
   | 'top-center'
@@ -45,6 +54,149 @@ export interface DoorHardware {
   inset: number; // inches or mm depending on unitSystem
 }
 
+// A door assigned to one opening, keyed by the opening's top-left cell
+export interface DoorSpec {
+  row: number;
+  col: number;
+  hardwarePosition?: DoorHardwarePosition; // overrides doorHardware.position for this door
+  style?: DoorStyle; // undefined = single-left
+}
+
+// How the back is fitted:
+// - surface: one panel screwed over the back edges of the carcass
+// - inset: one panel let into a rabbet or groove around the inside of the carcass
+// - per-opening: surface-mounted panels behind chosen openings only
+// - split: surface-mounted panels divided behind dividers or shelves so each fits on a sheet
+// - stretchers: no panel, just rails between the sides under the top and over the bottom
+// - french-cleat: no panel, a beveled rail under the top that hangs on a matching wall cleat
+export type BackStyle = 'surface' | 'inset' | 'per-opening' | 'split' | 'stretchers' | 'french-cleat';
+
+export interface BackMode {
+  type: BackStyle;
+  joint?: 'rabbet' | 'groove'; // inset backs only, undefined = rabbet
+}
+
+// A back panel behind one opening, keyed by the opening's top-left cell
+export interface BackSpec {
+  row: number;
+  col: number;
+}
+
+// What the carcass stands on: its Bottom straight on the floor, a plinth recessed
+// from the front and sides to make a toe kick, or screw-on legs
+export type BaseType = 'none' | 'plinth' | 'legs';
+
+export interface BaseMode {
+  type: BaseType;
+  height: number;  // inches or mm depending on unitSystem
+  setback: number; // plinth only: how far it sits in from the front and sides, inches or mm
+  inset: number;   // legs only: leg centers in from the outside edges, inches or mm
+}
+
+// How far a countertop reaches past each outside face of the carcass
+export interface CountertopOverhangs {
+  front: number; // inches or mm depending on unitSystem
+  back: number;
+  left: number;
+  right: number;
+}
+
+// A separate top laid over the carcass Top and overhanging it, cut from its own
+// sheet material, optionally lipped with a solid hardwood edge on the front and ends
+export interface CountertopMode {
+  material: SheetMaterial;
+  thickness: Material;
+  overhang: CountertopOverhangs;
+  edge?: number; // hardwood edge width, inches or mm depending on unitSystem; undefined = no edge
+}
+
+// Edges of a part laid flat with its length running left to right: front and back run
+// the length, left and right are the ends. Carcass parts lie with their front edge toward
+// you; doors and drawer faces with their bottom edge toward you.
+export type PartEdge = 'front' | 'back' | 'left' | 'right';
+
+// Bands one edge of a part, or leaves it bare, whatever its exposure says
+export interface EdgeBandingOverride {
+  partId: string;
+  edge: PartEdge;
+  banded: boolean;
+}
+
+export interface EdgeBanding {
+  thickness: number; // inches or mm depending on unitSystem; banded parts are cut this much smaller per edge
+  overrides?: EdgeBandingOverride[];
+}
+
+// Which panels run through and which are cut short between them:
+// - continuous-dividers: top/bottom run full width, dividers run top to bottom, shelves sit between dividers
+// - continuous-shelves: top/bottom run full width, shelves run side to side, dividers sit between shelves
+// - full-height-sides: continuous dividers, but the sides run full height with the top/bottom between them
+export type ConstructionStyle = 'continuous-dividers' | 'continuous-shelves' | 'full-height-sides';
+
+// Butt joints need no allowance; 'dado' seats interior members in dados and
+// 'rabbet' additionally rabbets the captured panels into the corners
+export type JoineryType = 'butt' | 'dado' | 'rabbet';
+
+// What holds butt joints together
+export type ButtJointFastener = 'screws' | 'dowels';
+
+export interface Joinery {
+  type: JoineryType;
+  dadoDepth: number;   // inches or mm depending on unitSystem
+  rabbetDepth: number; // inches or mm depending on unitSystem
+  fastener?: ButtJointFastener; // undefined = screws
+}
+
+// Drawers stacked in one opening, keyed by the opening's top-left cell
+export interface DrawerSpec {
+  row: number;
+  col: number;
+  count: number;
+}
+
+// Loose shelves on pins in a tall merged opening, keyed by the opening's top-left cell
+export interface AdjustableShelfSpec {
+  row: number;
+  col: number;
+  count: number;
+}
+
+// How the shelf-pin rows are spaced: the 32mm system, or a custom pitch
+export interface ShelfPinMode {
+  system: '32mm' | 'custom';
+  spacing: number; // custom only, inches or mm depending on unitSystem
+}
+
+// IKEA Kallax inserts with known fixing holes
+export type KallaxInsertId = 'door' | 'drawers-2' | 'shelf';
+
+// Surfaces of a cell an insert fastens to: the side or divider either side, or the shelf above or below
+export type CellSurface = 'left' | 'right' | 'top' | 'bottom';
+
+// One fixing hole for an insert, relative to the cell it fits (inches)
+export interface InsertMountingHole {
+  surface: CellSurface;
+  alongIn: number;   // left and right: up from the bottom of the cell; top and bottom: across from its middle (negative = left)
+  setbackIn: number; // back from the front edge
+}
+
+// A Kallax insert, the cell sizes it fits and where it is screwed in (inches)
+export interface KallaxInsert {
+  id: KallaxInsertId;
+  name: string;
+  clearanceIn: { min: number; max: number }; // cell width and height
+  minDepthIn: number;
+  holeDiameterIn: number;
+  holes: InsertMountingHole[];
+}
+
+// An insert fitted to one standard (unmerged) cell
+export interface InsertSpec {
+  row: number;
+  col: number;
+  insert: KallaxInsertId;
+}
+
 export interface MergeSpec {
   r0: number;
   c0: number;
@@ -54,17 +206,68 @@ export interface MergeSpec {
 
 export type ColorScheme = 'greys' | 'browns' | 'blues' | 'random';
 
+// Sheet good type, for stiffness and weight
+export type SheetMaterial = 'plywood' | 'baltic-birch' | 'mdf' | 'particleboard';
+
+// Which way the grain runs on a part: along its length (lengthIn), across it, or either way
+export type GrainDirection = 'length' | 'across' | 'either';
+
+// Grain of one part, where it differs from the rule for its role
+export interface GrainOverride {
+  partId: string;
+  grain: GrainDirection;
+}
+
+export interface GrainRules {
+  roles?: Partial<Record<PartRole, GrainDirection>>; // roles whose grain differs from the default
+  overrides?: GrainOverride[];
+}
+
+// How the sheets are cut: the saw blade's kerf between parts, and the strip trimmed off each factory edge
+export interface CutPlan {
+  kerf: number; // inches or mm depending on unitSystem
+  trim: number; // inches or mm depending on unitSystem
+}
+
+// A sheet size that can be bought, for one thickness or for any
+export interface SheetStockSize {
+  thickness?: number; // inches or mm depending on unitSystem, undefined = any thickness
+  width: number;      // inches or mm depending on unitSystem
+  length: number;     // inches or mm depending on unitSystem
+}
+
 export interface DesignParams {
   unitSystem: UnitSystem;
   rows: number;
   cols: number;
   interiorClearance: number; // inches or mm depending on unitSystem
+  columnWidths?: Array<number | null>; // per-column interior width overrides, null = interiorClearance
+  rowHeights?: Array<number | null>;   // per-row interior height overrides, null = interiorClearance
   depth: number;              // inches or mm depending on unitSystem
   hasBack: boolean;
+  backMode?: BackMode;         // undefined = one surface-mounted back
+  backs?: BackSpec[];          // openings that get a back in per-opening mode
+  base?: BaseMode;             // undefined = Bottom sits on the floor
+  countertop?: CountertopMode; // undefined = no separate top over the carcass
+  edgeBanding?: EdgeBanding;   // undefined = thin veneer on the exposed edges, with no allowance
   hasDoors: boolean;
   doorMode: DoorMode;
   doorHardware?: DoorHardware;
+  doors?: DoorSpec[];          // openings that get a door, undefined = every opening
+  drawers?: DrawerSpec[];      // openings filled with drawers instead of a door
+  adjustableShelves?: AdjustableShelfSpec[]; // tall merged openings with loose shelves on pins
+  shelfPins?: ShelfPinMode;    // undefined = 32mm system
+  inserts?: InsertSpec[];      // standard cells fitted with an IKEA Kallax insert
+  constructionStyle?: ConstructionStyle; // undefined = continuous-dividers
+  joinery?: Joinery;
   materials: MaterialOptions;
+  sheetMaterial?: SheetMaterial; // undefined = plywood
+  sheetStock?: SheetStockSize[]; // undefined = 4'×8' (1200×2400mm) sheets in every thickness
+  cutPlan?: CutPlan;             // undefined = default kerf and edge trim
+  grain?: GrainRules;            // undefined = default grain for each role
+  shelfLoad?: number;            // lb/ft² or kg/m² depending on unitSystem, undefined = default load
+  tipTestLoad?: number;          // lb or kg depending on unitSystem, undefined = default test load
+  silencedRules?: DesignRuleId[]; // design rules whose warnings are hidden for this design
   merges: MergeSpec[];
   colorScheme: ColorScheme;
   opacity: number;
@@ -76,8 +279,20 @@ export type PartRole =
   | 'Side'
   | 'VerticalDivider'
   | 'BayShelf'
+  | 'AdjustableShelf'
   | 'Back'
-  | 'Door';
+  | 'Stretcher'
+  | 'Cleat'
+  | 'WallCleat'
+  | 'Plinth'
+  | 'Countertop'
+  | 'CountertopEdge'
+  | 'Door'
+  | 'DrawerSide'
+  | 'DrawerFront'
+  | 'DrawerBack'
+  | 'DrawerBottom'
+  | 'DrawerFace';
 
 export interface Part {
   id: string;
@@ -88,6 +303,29 @@ export interface Part {
   thicknessIn: number;
   notes?: string;
   bay?: { row: number; colStart: number; colEnd: number; rowEnd?: number };
+  hardwarePosition?: DoorHardwarePosition; // Doors only
+  hinge?: HingeSide; // Doors only
+  offsetIn?: number; // Doors only: horizontal offset of the door center from the opening center
+  verticalOffsetIn?: number; // Doors and adjustable shelves: vertical offset of the part center from the opening center
+  drawer?: { index: number; count: number }; // Drawer parts only: position in the stack, 0 = top
+  stock?: SheetMaterial | 'hardwood'; // cut from something other than the design's sheet material
+  bandedEdges?: PartEdge[]; // edges that get edge banding
+}
+
+// A single opening in the carcass (merged cells are one opening), sized in cells
+export interface Opening {
+  row: number;
+  col: number;
+  width: number;
+  height: number;
+}
+
+// How far an overlay door or drawer face reaches past each edge of its opening (always in inches)
+export interface EdgeOverlays {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
 }
 
 export interface VerticalSegment {
@@ -115,17 +353,190 @@ export interface LayoutInfo {
   extendedShelves: ExtendedShelf[];
 }
 
+// Resolved interior cell sizes for every column and row (always in inches)
+export interface GridMetrics {
+  columnWidths: number[];
+  rowHeights: number[];
+  frameThickness: number;
+}
+
+// How far each captured part end extends into its mating groove (always in inches)
+export interface JoineryAllowances {
+  corner: number;   // each end of the panel captured at the corners, into a rabbet
+  interior: number; // each end of a VerticalDivider or BayShelf, into a dado
+}
+
 export interface DerivedDimensions {
   extWidth: number;
-  extHeight: number;
+  extHeight: number;  // floor to top, including the base and any countertop
   extDepth: number;
+  baseHeight: number; // plinth or legs under the carcass, 0 without a base
+  countertopThickness: number; // separate top over the carcass, 0 without one
+  overallWidth: number;        // extWidth plus any countertop overhang
+  overallDepth: number;        // extDepth plus any countertop overhang
+}
+
+// Screw-on legs under the carcass and their mounting plates (always in inches)
+export interface LegLayout {
+  heightIn: number;
+  plateSizeIn: number;
+  legs: Array<{ x: number; y: number }>;       // leg centers, from the left side and front edge of the carcass underside
+  plateHoles: Array<{ x: number; y: number }>; // screw holes for every plate, measured the same way
+}
+
+// Sag of one shelf under its load (always in inches)
+export interface ShelfDeflection {
+  partId: string;
+  spanIn: number;  // longest unsupported span of the shelf
+  sagIn: number;
+  limitIn: number;
+  passes: boolean;
+}
+
+// Weight and tip-over stability of the whole unit (inches and pounds)
+export interface StabilityAnalysis {
+  weightLb: number;
+  centerOfMass: [number, number, number]; // from the carcass center, +y up, +z toward the front
+  heightToDepthRatio: number;
+  testLoadLb: number;
+  loadReachIn: number;     // how far the test load sits in front of the front edge
+  loadedBy: 'shelf' | 'door' | 'drawer';
+  maxFrontLoadLb: number;  // load at that reach that would tip the unit, Infinity when it cannot
+  tips: boolean;
+  anchorRequired: boolean;
+}
+
+// A mounting-plate screw hole on the carcass part next to a door's hinged edge
+export interface HingePlateHole {
+  partId: string;
+  positionIn: number; // along the part, from its top end (left end for horizontal parts)
+}
+
+// Euro hinge cup boring on a door and the matching mounting plates (always in inches)
+export interface HingeLayout {
+  doorId: string;
+  hinge: HingeSide;
+  cupDiameterIn: number;
+  cupInsetIn: number;      // cup centers from the hinged edge
+  cupPositions: number[];  // cup centers along the hinged edge, from the top (left end for flip-down doors)
+  plateSetbackIn: number;  // plate holes from the front edge of the mounting part
+  plateHoles: HingePlateHole[];
+}
+
+// A shelf-pin hole on a Side or VerticalDivider beside an adjustable-shelf opening
+export interface ShelfPinHole {
+  partId: string;
+  positionIn: number;     // along the part, from its top end
+  face: 'left' | 'right'; // face of the part toward the opening
+}
+
+// Shelf-pin rows drilled for one opening (always in inches); every hole is drilled in each row
+export interface ShelfPinLayout {
+  row: number;
+  col: number;
+  holeDiameterIn: number;
+  spacingIn: number;
+  rowSetbacksIn: number[]; // front and back rows, from the front edge of the drilled part
+  holes: ShelfPinHole[];
+}
+
+// A fixing hole for a Kallax insert on a part around its cell
+export interface InsertHole {
+  partId: string;
+  positionIn: number; // along the part, from its top end (left end for horizontal parts)
+  setbackIn: number;  // from the front edge
+  face: CellSurface;  // face of the part toward the cell
+}
+
+// Fixing holes for the insert in one cell (always in inches)
+export interface InsertHoleLayout {
+  row: number;
+  col: number;
+  insert: KallaxInsertId;
+  holeDiameterIn: number;
+  holes: InsertHole[];
 }
 
+// Ids of the design rules that produce warnings
+export type DesignRuleId =
+  | 'span_too_large'
+  | 'large_unit'
+  | 'shelf_deflection'
+  | 'shelf_deflection_ok'
+  | 'tip_over'
+  | 'tall_for_depth'
+  | 'door_too_thin_for_hinges'
+  | 'overlay_door_collision'
+  | 'deep_unit_without_back'
+  | 'too_shallow_for_inserts'
+  | 'insert_out_of_tolerance';
+
+export type WarningSeverity = 'info' | 'warning' | 'error';
+
 export interface Warning {
-  type: 'span_too_large';
+  type: DesignRuleId;
   message: string;
-  severity: 'info' | 'warning' | 'error';
+  severity: WarningSeverity;
   mergeIndex?: number; // Optional: links warning to specific merge
+  partIds?: string[];  // Optional: parts to highlight in the 3D view
+  cells?: Array<{ row: number; col: number }>; // Optional: cells to highlight in the grid editor
+  deflection?: ShelfDeflection;
+}
+
+export type HardwareCategory = 'fastener' | 'hinge' | 'slide' | 'pull' | 'support';
+
+// One line of the hardware bill of materials
+export interface HardwareItem {
+  id: string;
+  category: HardwareCategory;
+  name: string;
+  qty: number;
+  notes?: string;
+}
+
+// Price of one full sheet of a given thickness and size (dimensions in inches)
+export interface SheetPrice {
+  thicknessIn: number;
+  widthIn: number;
+  lengthIn: number;
+  price: number;
+}
+
+// Locally stored unit prices used for the cost estimate
+export interface PriceCatalog {
+  currency: string; // symbol shown before amounts
+  sheets: SheetPrice[];
+  edgeBandingPerFoot: number;
+  hardware: Record<HardwareCategory, number>; // per item as counted in the hardware BOM
+  finishPerSquareFoot: number; // per face
+}
+
+// A remnant kept in the shop to cut later projects from, stored on this machine in inches
+export interface Offcut {
+  id: string;
+  label: string;
+  material: SheetMaterial;
+  thicknessIn: number;
+  widthIn: number;  // across the grain
+  lengthIn: number; // along the grain
+}
+
+export type CostCategory = 'sheet-goods' | 'edge-banding' | 'hardware' | 'finish';
+
+// One priced line of the cost estimate
+export interface CostLine {
+  category: CostCategory;
+  name: string;
+  qty: number;
+  unit: string;
+  unitPrice: number;
+  total: number;
+}
+
+export interface CostEstimate {
+  lines: CostLine[];
+  byCategory: Record<CostCategory, number>;
+  total: number;
 }
 
 // Type guards and helpers
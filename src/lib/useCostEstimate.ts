@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import { useDesignStore } from '../state/useDesignStore';
+import { usePriceCatalogStore } from '../state/usePriceCatalogStore';
+import { useSheetLayoutStore } from '../state/useSheetLayoutStore';
+import { calculateCostEstimate } from '../geometry/cost';
+
+/**
+ * Cost estimate for the current design, priced from the local catalog
+ * for the sheets in its cut plan
+ */
+export function useCostEstimate() {
+  const params = useDesignStore(state => state.params);
+  const analysis = useDesignStore(state => state.analysis);
+  const catalog = usePriceCatalogStore(state => state.catalog);
+  const layouts = useSheetLayoutStore(state => state.layouts);
+
+  const cost = useMemo(
+    () => calculateCostEstimate(analysis.parts, params, analysis.hardware, catalog, layouts),
+    [analysis, params, catalog, layouts]
+  );
+
+  return { cost, catalog, layouts };
+}
@@ -1,10 +1,17 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { DesignParams, MergeSpec, Material, DerivedDimensions, DoorHardwarePosition, DoorHardwareType, UnitSystem } from '../geometry/types';
-import { DEFAULT_DESIGN, DEFAULT_DESIGN_IMPERIAL, DEFAULT_DESIGN_METRIC, RECOMMENDED_MATERIALS_IMPERIAL, RECOMMENDED_MATERIALS_METRIC } from '../geometry/constants';
+import type { BackMode, BaseMode, BaseType, ButtJointFastener, ConstructionStyle, CountertopMode, CountertopOverhangs, KallaxInsertId, PartEdge, ShelfPinMode, SheetMaterial, SheetStockSize, CutPlan, GrainDirection, PartRole, DesignParams, DesignRuleId, Warning, MergeSpec, Material, DerivedDimensions, DoorHardwarePosition, DoorHardwareType, DoorStyle, Joinery, JoineryType, UnitSystem } from '../geometry/types';
+import { DEFAULT_COUNTERTOP_OVERHANG_IMPERIAL, DEFAULT_COUNTERTOP_OVERHANG_METRIC, DEFAULT_BASE_HEIGHT_IMPERIAL, DEFAULT_BASE_HEIGHT_METRIC, DEFAULT_LEG_INSET_IMPERIAL, DEFAULT_LEG_INSET_METRIC, DEFAULT_PLINTH_SETBACK_IMPERIAL, DEFAULT_PLINTH_SETBACK_METRIC, DEFAULT_DADO_DEPTH_IMPERIAL, DEFAULT_DADO_DEPTH_METRIC, DEFAULT_DESIGN, DEFAULT_DESIGN_IMPERIAL, DEFAULT_DESIGN_METRIC, DEFAULT_GRAIN_BY_ROLE, DEFAULT_EDGE_TRIM_IMPERIAL, DEFAULT_EDGE_TRIM_METRIC, DEFAULT_KERF_IMPERIAL, DEFAULT_KERF_METRIC, DEFAULT_RABBET_DEPTH_IMPERIAL, DEFAULT_RABBET_DEPTH_METRIC, DEFAULT_SHELF_PIN_SPACING_IMPERIAL, DEFAULT_SHELF_PIN_SPACING_METRIC, MAX_ADJUSTABLE_SHELVES_PER_OPENING, MAX_DRAWERS_PER_OPENING, RECOMMENDED_MATERIALS_IMPERIAL, RECOMMENDED_MATERIALS_METRIC } from '../geometry/constants';
 import type { DesignAnalysis } from '../geometry/estimate';
 import { analyzeDesign } from '../geometry/estimate';
 import { calculateAllDimensions } from '../geometry/measurements';
+import { findOpening, getAdjustableShelfOpenings, getDoorOpenings, getDrawerOpenings, getOpenings } from '../geometry/openings';
+import { getBackOpenings } from '../geometry/backs';
+import { getExposedEdges } from '../geometry/edgeBanding';
+import { getRoleGrain } from '../geometry/grain';
+
+// What clicking the grid editor does: merge cells, toggle doors, drawers, adjustable shelves, Kallax inserts or backs
+export type GridEditMode = 'merge' | 'doors' | 'drawers' | 'shelves' | 'inserts' | 'backs';
 
 interface DesignStore {
   // Core design parameters
@@ -17,6 +24,8 @@ interface DesignStore {
   // UI state
   selectedPartId: string | null;
   hoveredPartId: string | null;
+  gridEditMode: GridEditMode;
+  highlightedWarning: Warning | null;
   _hasHydrated: boolean;
 
   // Actions
@@ -24,21 +33,64 @@ interface DesignStore {
   setRows: (rows: number) => void;
   setCols: (cols: number) => void;
   setInteriorClearance: (value: number) => void;
+  setColumnWidth: (index: number, value: number | null) => void;
+  setRowHeight: (index: number, value: number | null) => void;
+  resetGridSizes: () => void;
   setDepth: (value: number) => void;
   setUnitSystem: (unitSystem: UnitSystem) => void;
   setHasBack: (hasBack: boolean) => void;
+  setBackMode: (mode: BackMode) => void;
+  toggleBack: (row: number, col: number) => void;
   setHasDoors: (hasDoors: boolean) => void;
+  setBaseType: (type: BaseType) => void;
+  setBaseHeight: (value: number) => void;
+  setBaseSetback: (value: number) => void;
+  setBaseInset: (value: number) => void;
+  setHasCountertop: (hasCountertop: boolean) => void;
+  setCountertopMaterial: (material: SheetMaterial) => void;
+  setCountertopThickness: (thickness: Material) => void;
+  setCountertopOverhang: (side: keyof CountertopOverhangs, value: number) => void;
+  setCountertopEdge: (value: number | undefined) => void;
+  setEdgeBandingThickness: (value: number) => void;
+  setEdgeBanded: (partId: string, edge: PartEdge, banded: boolean) => void;
   setDoorMode: (type: 'inset' | 'overlay') => void;
   setDoorReveal: (value: number) => void;
   setDoorOverlay: (value: number) => void;
+  setDoorPairGap: (value: number) => void;
   setDoorHardwarePosition: (position: DoorHardwarePosition) => void;
   setDoorHardwareType: (type: DoorHardwareType) => void;
   setDoorHardwareInset: (value: number) => void;
+  toggleDoor: (row: number, col: number) => void;
+  setOpeningHardwarePosition: (row: number, col: number, position: DoorHardwarePosition | null) => void;
+  setOpeningDoorStyle: (row: number, col: number, style: DoorStyle) => void;
+  setOpeningDrawerCount: (row: number, col: number, count: number) => void;
+  setOpeningAdjustableShelfCount: (row: number, col: number, count: number) => void;
+  setShelfPinSystem: (system: ShelfPinMode['system']) => void;
+  setShelfPinSpacing: (value: number) => void;
+  setCellInsert: (row: number, col: number, insert: KallaxInsertId | null) => void;
+  setConstructionStyle: (style: ConstructionStyle) => void;
+  setJoineryType: (type: JoineryType) => void;
+  setDadoDepth: (value: number) => void;
+  setRabbetDepth: (value: number) => void;
+  setButtJointFastener: (fastener: ButtJointFastener) => void;
+  setSheetMaterial: (material: SheetMaterial) => void;
+  addSheetStock: (size: SheetStockSize) => void;
+  removeSheetStock: (index: number) => void;
+  setKerf: (value: number) => void;
+  setEdgeTrim: (value: number) => void;
+  setRoleGrain: (role: PartRole, grain: GrainDirection) => void;
+  setPartGrain: (partId: string, grain: GrainDirection) => void;
+  setShelfLoad: (value: number) => void;
+  setTipTestLoad: (value: number) => void;
+  silenceRule: (id: DesignRuleId) => void;
+  restoreRule: (id: DesignRuleId) => void;
 
   // Material thickness actions
   setFrameThickness: (thickness: Material) => void;
   setBackThickness: (thickness: Material) => void;
   setDoorThickness: (thickness: Material) => void;
+  setDrawerBoxThickness: (thickness: Material) => void;
+  setDrawerBottomThickness: (thickness: Material) => void;
   useRecommendedMaterials: () => void;
 
   // Merge actions
@@ -50,6 +102,8 @@ interface DesignStore {
   // UI actions
   setSelectedPartId: (id: string | null) => void;
   setHoveredPartId: (id: string | null) => void;
+  setGridEditMode: (mode: GridEditMode) => void;
+  setHighlightedWarning: (warning: Warning | null) => void;
 
   // Visual actions
   setColorScheme: (scheme: 'greys' | 'browns' | 'blues' | 'random') => void;
@@ -61,6 +115,38 @@ interface DesignStore {
   importDesign: (data: string) => void;
 }
 
+// Joinery settings for designs saved before joinery was configurable
+function getJoinery(params: DesignParams): Joinery {
+  return params.joinery || (params.unitSystem === 'metric'
+    ? { type: 'butt', dadoDepth: DEFAULT_DADO_DEPTH_METRIC, rabbetDepth: DEFAULT_RABBET_DEPTH_METRIC }
+    : { type: 'butt', dadoDepth: DEFAULT_DADO_DEPTH_IMPERIAL, rabbetDepth: DEFAULT_RABBET_DEPTH_IMPERIAL });
+}
+
+// Saw settings for designs that have not set their own
+function getCutPlan(params: DesignParams): CutPlan {
+  return params.cutPlan || (params.unitSystem === 'metric'
+    ? { kerf: DEFAULT_KERF_METRIC, trim: DEFAULT_EDGE_TRIM_METRIC }
+    : { kerf: DEFAULT_KERF_IMPERIAL, trim: DEFAULT_EDGE_TRIM_IMPERIAL });
+}
+
+// Base settings for designs saved before bases were configurable
+function getBase(params: DesignParams): BaseMode {
+  return params.base || (params.unitSystem === 'metric'
+    ? { type: 'none', height: DEFAULT_BASE_HEIGHT_METRIC, setback: DEFAULT_PLINTH_SETBACK_METRIC, inset: DEFAULT_LEG_INSET_METRIC }
+    : { type: 'none', height: DEFAULT_BASE_HEIGHT_IMPERIAL, setback: DEFAULT_PLINTH_SETBACK_IMPERIAL, inset: DEFAULT_LEG_INSET_IMPERIAL });
+}
+
+// A 3/4" (18mm) countertop in the carcass material, overhanging the front and ends
+function createDefaultCountertop(params: DesignParams): CountertopMode {
+  const metric = params.unitSystem === 'metric';
+  const overhang = metric ? DEFAULT_COUNTERTOP_OVERHANG_METRIC : DEFAULT_COUNTERTOP_OVERHANG_IMPERIAL;
+  return {
+    material: params.sheetMaterial ?? 'plywood',
+    thickness: metric ? RECOMMENDED_MATERIALS_METRIC.frame : RECOMMENDED_MATERIALS_IMPERIAL.frame,
+    overhang: { front: overhang, back: 0, left: overhang, right: overhang },
+  };
+}
+
 // Helper to recompute derived data
 function computeDerivedData(params: DesignParams) {
   const analysis = analyzeDesign(params);
@@ -76,6 +162,8 @@ export const useDesignStore = create<DesignStore>()(
       ...computeDerivedData(DEFAULT_DESIGN),
       selectedPartId: null,
       hoveredPartId: null,
+      gridEditMode: 'merge',
+      highlightedWarning: null,
       _hasHydrated: false,
       
       // Core parameter updates
@@ -90,18 +178,39 @@ export const useDesignStore = create<DesignStore>()(
         });
       },
       
+      // Sizes set for rows or columns that are removed go with them
       setRows: (rows) => {
-        get().updateParams({ rows: Math.max(1, Math.min(10, rows)) });
+        const clamped = Math.max(1, Math.min(10, rows));
+        get().updateParams({ rows: clamped, rowHeights: get().params.rowHeights?.slice(0, clamped) });
       },
       
       setCols: (cols) => {
-        get().updateParams({ cols: Math.max(1, Math.min(10, cols)) });
+        const clamped = Math.max(1, Math.min(10, cols));
+        get().updateParams({ cols: clamped, columnWidths: get().params.columnWidths?.slice(0, clamped) });
       },
       
       setInteriorClearance: (value) => {
         get().updateParams({ interiorClearance: Math.max(1, value) });
       },
 
+      setColumnWidth: (index, value) => {
+        const columnWidths = [...(get().params.columnWidths || [])];
+        while (columnWidths.length <= index) columnWidths.push(null);
+        columnWidths[index] = value === null ? null : Math.max(1, value);
+        get().updateParams({ columnWidths });
+      },
+
+      setRowHeight: (index, value) => {
+        const rowHeights = [...(get().params.rowHeights || [])];
+        while (rowHeights.length <= index) rowHeights.push(null);
+        rowHeights[index] = value === null ? null : Math.max(1, value);
+        get().updateParams({ rowHeights });
+      },
+
+      resetGridSizes: () => {
+        get().updateParams({ columnWidths: undefined, rowHeights: undefined });
+      },
+
       setDepth: (value) => {
         get().updateParams({ depth: Math.max(1, value) });
       },
@@ -122,6 +231,14 @@ export const useDesignStore = create<DesignStore>()(
           ? Math.round(currentParams.interiorClearance * INCHES_TO_MM)
           : Math.round(currentParams.interiorClearance * MM_TO_INCHES * 16) / 16; // Round to nearest 1/16"
 
+        // Per-column/row overrides follow the same rounding as interiorClearance
+        const convertGridSizes = (sizes?: Array<number | null>) => sizes?.map(size => {
+          if (size === null) return null;
+          return unitSystem === 'metric'
+            ? Math.round(size * INCHES_TO_MM)
+            : Math.round(size * MM_TO_INCHES * 16) / 16;
+        });
+
         const newDepth = unitSystem === 'metric'
           ? Math.round(currentParams.depth * INCHES_TO_MM)
           : Math.round(currentParams.depth * MM_TO_INCHES * 16) / 16;
@@ -134,12 +251,67 @@ export const useDesignStore = create<DesignStore>()(
           ? Math.round(currentParams.doorMode.overlay * INCHES_TO_MM)
           : Math.round(currentParams.doorMode.overlay * MM_TO_INCHES * 16) / 16;
 
+        const newPairGap = currentParams.doorMode.pairGap !== undefined
+          ? (unitSystem === 'metric'
+              ? Math.round(currentParams.doorMode.pairGap * INCHES_TO_MM)
+              : Math.round(currentParams.doorMode.pairGap * MM_TO_INCHES * 16) / 16)
+          : undefined;
+
         const newHardwareInset = currentParams.doorHardware
           ? (unitSystem === 'metric'
               ? Math.round(currentParams.doorHardware.inset * INCHES_TO_MM)
               : Math.round(currentParams.doorHardware.inset * MM_TO_INCHES * 16) / 16)
           : undefined;
 
+        const currentJoinery = getJoinery(currentParams);
+        const newJoinery: Joinery = {
+          ...currentJoinery,
+          dadoDepth: unitSystem === 'metric'
+            ? Math.round(currentJoinery.dadoDepth * INCHES_TO_MM)
+            : Math.round(currentJoinery.dadoDepth * MM_TO_INCHES * 16) / 16,
+          rabbetDepth: unitSystem === 'metric'
+            ? Math.round(currentJoinery.rabbetDepth * INCHES_TO_MM)
+            : Math.round(currentJoinery.rabbetDepth * MM_TO_INCHES * 16) / 16,
+        };
+
+        const convertLength = (value: number) => unitSystem === 'metric'
+          ? Math.round(value * INCHES_TO_MM)
+          : Math.round(value * MM_TO_INCHES * 16) / 16;
+        const newBase: BaseMode | undefined = currentParams.base ? {
+          ...currentParams.base,
+          height: convertLength(currentParams.base.height),
+          setback: convertLength(currentParams.base.setback),
+          inset: convertLength(currentParams.base.inset),
+        } : undefined;
+        const currentCountertop = currentParams.countertop;
+        const newCountertop: CountertopMode | undefined = currentCountertop ? {
+          ...currentCountertop,
+          thickness: unitSystem === 'metric' ? RECOMMENDED_MATERIALS_METRIC.frame : RECOMMENDED_MATERIALS_IMPERIAL.frame,
+          overhang: {
+            front: convertLength(currentCountertop.overhang.front),
+            back: convertLength(currentCountertop.overhang.back),
+            left: convertLength(currentCountertop.overhang.left),
+            right: convertLength(currentCountertop.overhang.right),
+          },
+          edge: currentCountertop.edge !== undefined ? convertLength(currentCountertop.edge) : undefined,
+        } : undefined;
+
+        // lb/ft² ↔ kg/m², rounded to whole units
+        const LB_PER_SQ_FT_TO_KG_PER_SQ_M = 4.88243;
+        const newShelfLoad = currentParams.shelfLoad !== undefined
+          ? (unitSystem === 'metric'
+              ? Math.round(currentParams.shelfLoad * LB_PER_SQ_FT_TO_KG_PER_SQ_M)
+              : Math.round(currentParams.shelfLoad / LB_PER_SQ_FT_TO_KG_PER_SQ_M))
+          : undefined;
+
+        // lb ↔ kg, rounded to whole units
+        const LB_TO_KG = 0.453592;
+        const newTipTestLoad = currentParams.tipTestLoad !== undefined
+          ? (unitSystem === 'metric'
+              ? Math.round(currentParams.tipTestLoad * LB_TO_KG)
+              : Math.round(currentParams.tipTestLoad / LB_TO_KG))
+          : undefined;
+
         // Use recommended materials for the new unit system
         const newMaterials = unitSystem === 'metric'
           ? RECOMMENDED_MATERIALS_METRIC
@@ -148,20 +320,59 @@ export const useDesignStore = create<DesignStore>()(
         get().updateParams({
           unitSystem,
           interiorClearance: newInteriorClearance,
+          columnWidths: convertGridSizes(currentParams.columnWidths),
+          rowHeights: convertGridSizes(currentParams.rowHeights),
           depth: newDepth,
           doorMode: {
             ...currentParams.doorMode,
             reveal: newReveal,
             overlay: newOverlay,
+            pairGap: newPairGap,
           },
           doorHardware: currentParams.doorHardware ? {
             ...currentParams.doorHardware,
             inset: newHardwareInset!,
           } : undefined,
+          joinery: newJoinery,
+          base: newBase,
+          countertop: newCountertop,
+          edgeBanding: currentParams.edgeBanding ? {
+            ...currentParams.edgeBanding,
+            thickness: unitSystem === 'metric'
+              ? Math.round(currentParams.edgeBanding.thickness * INCHES_TO_MM * 10) / 10
+              : Math.round(currentParams.edgeBanding.thickness * MM_TO_INCHES * 64) / 64,
+          } : undefined,
+          shelfPins: currentParams.shelfPins ? {
+            ...currentParams.shelfPins,
+            spacing: unitSystem === 'metric'
+              ? Math.round(currentParams.shelfPins.spacing * INCHES_TO_MM)
+              : Math.round(currentParams.shelfPins.spacing * MM_TO_INCHES * 32) / 32,
+          } : undefined,
+          sheetStock: currentParams.sheetStock?.map(size => ({
+            thickness: size.thickness !== undefined
+              ? (unitSystem === 'metric'
+                  ? Math.round(size.thickness * INCHES_TO_MM * 10) / 10
+                  : Math.round(size.thickness * MM_TO_INCHES * 32) / 32)
+              : undefined,
+            width: convertLength(size.width),
+            length: convertLength(size.length),
+          })),
+          cutPlan: currentParams.cutPlan ? {
+            kerf: unitSystem === 'metric'
+              ? Math.round(currentParams.cutPlan.kerf * INCHES_TO_MM * 10) / 10
+              : Math.round(currentParams.cutPlan.kerf * MM_TO_INCHES * 64) / 64,
+            trim: unitSystem === 'metric'
+              ? Math.round(currentParams.cutPlan.trim * INCHES_TO_MM)
+              : Math.round(currentParams.cutPlan.trim * MM_TO_INCHES * 32) / 32,
+          } : undefined,
+          shelfLoad: newShelfLoad,
+          tipTestLoad: newTipTestLoad,
           materials: {
             frame: newMaterials.frame,
             back: currentParams.hasBack ? newMaterials.back : undefined,
             door: currentParams.hasDoors ? newMaterials.door : undefined,
+            drawerBox: currentParams.drawers?.length ? newMaterials.drawerBox : undefined,
+            drawerBottom: currentParams.drawers?.length ? newMaterials.drawerBottom : undefined,
           },
         });
       },
@@ -179,6 +390,38 @@ export const useDesignStore = create<DesignStore>()(
         }
         get().updateParams(updates);
       },
+
+      setBackMode: (mode) => {
+        const updates: Partial<DesignParams> = { backMode: mode };
+        // Start with a back behind every opening; individual backs can be removed afterwards
+        if (mode.type === 'per-opening' && (!get().params.backs || get().params.backs!.length === 0)) {
+          updates.backs = getOpenings(get().params).map(opening => ({ row: opening.row, col: opening.col }));
+        }
+        get().updateParams(updates);
+      },
+
+      toggleBack: (row, col) => {
+        const opening = findOpening(get().params, row, col);
+        if (!opening) return;
+
+        const { params } = get();
+        if (!params.hasBack || params.backMode?.type !== 'per-opening') {
+          get().setHasBack(true);
+          get().updateParams({
+            backMode: { type: 'per-opening' },
+            backs: [{ row: opening.row, col: opening.col }],
+          });
+          return;
+        }
+
+        const backs = getBackOpenings(params).map(({ back }) => back);
+        const hasPanel = backs.some(b => b.row === opening.row && b.col === opening.col);
+        get().updateParams({
+          backs: hasPanel
+            ? backs.filter(b => b.row !== opening.row || b.col !== opening.col)
+            : [...backs, { row: opening.row, col: opening.col }],
+        });
+      },
       
       setHasDoors: (hasDoors) => {
         const updates: Partial<DesignParams> = { hasDoors };
@@ -191,6 +434,10 @@ export const useDesignStore = create<DesignStore>()(
             door: recommendedMaterials.door,
           };
         }
+        // Start with a door on every opening; individual doors can be removed afterwards
+        if (hasDoors && (!get().params.doors || get().params.doors!.length === 0)) {
+          updates.doors = getOpenings(get().params).map(opening => ({ row: opening.row, col: opening.col }));
+        }
         if (hasDoors && !get().params.doorHardware) {
           const defaultInset = get().params.unitSystem === 'metric' ? 25 : 1;
           updates.doorHardware = {
@@ -202,6 +449,72 @@ export const useDesignStore = create<DesignStore>()(
         get().updateParams(updates);
       },
       
+      setBaseType: (type) => {
+        get().updateParams({ base: { ...getBase(get().params), type } });
+      },
+
+      setBaseHeight: (value) => {
+        get().updateParams({ base: { ...getBase(get().params), height: value } });
+      },
+
+      setBaseSetback: (value) => {
+        get().updateParams({ base: { ...getBase(get().params), setback: value } });
+      },
+
+      setBaseInset: (value) => {
+        get().updateParams({ base: { ...getBase(get().params), inset: value } });
+      },
+
+      setHasCountertop: (hasCountertop) => {
+        const { params } = get();
+        get().updateParams({
+          countertop: hasCountertop ? (params.countertop ?? createDefaultCountertop(params)) : undefined,
+        });
+      },
+
+      setCountertopMaterial: (material) => {
+        const { countertop } = get().params;
+        if (!countertop) return;
+        get().updateParams({ countertop: { ...countertop, material } });
+      },
+
+      setCountertopThickness: (thickness) => {
+        const { countertop } = get().params;
+        if (!countertop) return;
+        get().updateParams({ countertop: { ...countertop, thickness } });
+      },
+
+      setCountertopOverhang: (side, value) => {
+        const { countertop } = get().params;
+        if (!countertop) return;
+        get().updateParams({ countertop: { ...countertop, overhang: { ...countertop.overhang, [side]: value } } });
+      },
+
+      setCountertopEdge: (value) => {
+        const { countertop } = get().params;
+        if (!countertop) return;
+        get().updateParams({ countertop: { ...countertop, edge: value } });
+      },
+
+      setEdgeBandingThickness: (value) => {
+        const { edgeBanding } = get().params;
+        get().updateParams({ edgeBanding: { ...edgeBanding, thickness: value } });
+      },
+
+      // Overrides are only kept where they differ from the edge's exposure
+      setEdgeBanded: (partId, edge, banded) => {
+        const { params, analysis } = get();
+        const part = analysis.parts.find(p => p.id === partId);
+        if (!part) return;
+
+        const edgeBanding = params.edgeBanding ?? { thickness: 0 };
+        const overrides = (edgeBanding.overrides ?? []).filter(o => o.partId !== partId || o.edge !== edge);
+        if (getExposedEdges(part, params).includes(edge) !== banded) {
+          overrides.push({ partId, edge, banded });
+        }
+        get().updateParams({ edgeBanding: { ...edgeBanding, overrides } });
+      },
+
       setDoorMode: (type) => {
         get().updateParams({
           doorMode: { ...get().params.doorMode, type },
@@ -220,6 +533,12 @@ export const useDesignStore = create<DesignStore>()(
         });
       },
 
+      setDoorPairGap: (value) => {
+        get().updateParams({
+          doorMode: { ...get().params.doorMode, pairGap: value },
+        });
+      },
+
       setDoorHardwarePosition: (position) => {
         const defaultInset = get().params.unitSystem === 'metric' ? 25 : 1;
         const currentHardware = get().params.doorHardware || {
@@ -227,8 +546,10 @@ export const useDesignStore = create<DesignStore>()(
           type: 'pull-hole',
           inset: defaultInset,
         };
+        // The shared position applies to every door, replacing per-door positions
         get().updateParams({
           doorHardware: { ...currentHardware, position },
+          doors: get().params.doors?.map(({ row, col, style }) => ({ row, col, style })),
         });
       },
 
@@ -256,6 +577,221 @@ export const useDesignStore = create<DesignStore>()(
         });
       },
 
+      setConstructionStyle: (style) => {
+        get().updateParams({ constructionStyle: style });
+      },
+
+      setJoineryType: (type) => {
+        get().updateParams({
+          joinery: { ...getJoinery(get().params), type },
+        });
+      },
+
+      setDadoDepth: (value) => {
+        get().updateParams({
+          joinery: { ...getJoinery(get().params), dadoDepth: Math.max(0, value) },
+        });
+      },
+
+      setRabbetDepth: (value) => {
+        get().updateParams({
+          joinery: { ...getJoinery(get().params), rabbetDepth: Math.max(0, value) },
+        });
+      },
+
+      setButtJointFastener: (fastener) => {
+        get().updateParams({
+          joinery: { ...getJoinery(get().params), fastener },
+        });
+      },
+
+      setSheetMaterial: (material) => {
+        get().updateParams({ sheetMaterial: material });
+      },
+
+      addSheetStock: (size) => {
+        get().updateParams({ sheetStock: [...(get().params.sheetStock ?? []), size] });
+      },
+
+      setKerf: (value) => {
+        get().updateParams({ cutPlan: { ...getCutPlan(get().params), kerf: Math.max(0, value) } });
+      },
+
+      setEdgeTrim: (value) => {
+        get().updateParams({ cutPlan: { ...getCutPlan(get().params), trim: Math.max(0, value) } });
+      },
+
+      // Role rules are only kept where they differ from the default
+      setRoleGrain: (role, grain) => {
+        const { grain: rules } = get().params;
+        const roles = { ...rules?.roles };
+        delete roles[role];
+        if ((DEFAULT_GRAIN_BY_ROLE[role] ?? 'either') !== grain) {
+          roles[role] = grain;
+        }
+        get().updateParams({ grain: { ...rules, roles } });
+      },
+
+      // Overrides are only kept where they differ from the rule for the part's role
+      setPartGrain: (partId, grain) => {
+        const { params, analysis } = get();
+        const part = analysis.parts.find(p => p.id === partId);
+        if (!part) return;
+
+        const overrides = (params.grain?.overrides ?? []).filter(o => o.partId !== partId);
+        if (getRoleGrain(part.role, params) !== grain) {
+          overrides.push({ partId, grain });
+        }
+        get().updateParams({ grain: { ...params.grain, overrides } });
+      },
+
+      // Removing the last size goes back to standard sheets
+      removeSheetStock: (index) => {
+        const sheetStock = (get().params.sheetStock ?? []).filter((_, i) => i !== index);
+        get().updateParams({ sheetStock: sheetStock.length > 0 ? sheetStock : undefined });
+      },
+
+      setShelfLoad: (value) => {
+        get().updateParams({ shelfLoad: value });
+      },
+
+      setTipTestLoad: (value) => {
+        get().updateParams({ tipTestLoad: value });
+      },
+
+      silenceRule: (id) => {
+        const silencedRules = get().params.silencedRules ?? [];
+        if (silencedRules.includes(id)) return;
+        set({ highlightedWarning: null });
+        get().updateParams({ silencedRules: [...silencedRules, id] });
+      },
+
+      restoreRule: (id) => {
+        const silencedRules = (get().params.silencedRules ?? []).filter(rule => rule !== id);
+        get().updateParams({ silencedRules: silencedRules.length > 0 ? silencedRules : undefined });
+      },
+
+      toggleDoor: (row, col) => {
+        const opening = findOpening(get().params, row, col);
+        if (!opening) return;
+
+        if (!get().params.hasDoors) {
+          get().setHasDoors(true);
+          get().updateParams({ doors: [{ row: opening.row, col: opening.col }] });
+          return;
+        }
+
+        const doors = getDoorOpenings(get().params).map(({ door }) => door);
+        const hasDoor = doors.some(d => d.row === opening.row && d.col === opening.col);
+        get().updateParams({
+          doors: hasDoor
+            ? doors.filter(d => d.row !== opening.row || d.col !== opening.col)
+            : [...doors, { row: opening.row, col: opening.col }],
+          // A door replaces any drawers or insert in the opening
+          drawers: get().params.drawers?.filter(d => d.row !== opening.row || d.col !== opening.col),
+          inserts: hasDoor
+            ? get().params.inserts
+            : get().params.inserts?.filter(i => i.row !== opening.row || i.col !== opening.col),
+        });
+      },
+
+      setOpeningHardwarePosition: (row, col, position) => {
+        const doors = getDoorOpenings(get().params).map(({ door }) => {
+          if (door.row !== row || door.col !== col) return door;
+          return position === null
+            ? { row: door.row, col: door.col, style: door.style }
+            : { ...door, hardwarePosition: position };
+        });
+        get().updateParams({ doors });
+      },
+
+      setOpeningDrawerCount: (row, col, count) => {
+        const opening = findOpening(get().params, row, col);
+        if (!opening) return;
+
+        const { params } = get();
+        const drawerCount = Math.max(0, Math.min(MAX_DRAWERS_PER_OPENING, Math.round(count)));
+        const isOpening = (d: { row: number; col: number }) => d.row === opening.row && d.col === opening.col;
+        const updates: Partial<DesignParams> = {
+          drawers: [
+            ...getDrawerOpenings(params).map(({ drawer }) => drawer).filter(d => !isOpening(d)),
+            ...(drawerCount > 0 ? [{ row: opening.row, col: opening.col, count: drawerCount }] : []),
+          ],
+        };
+
+        if (drawerCount > 0) {
+          // Drawers replace the opening's door
+          if (params.hasDoors) {
+            updates.doors = getDoorOpenings(params).map(({ door }) => door).filter(d => !isOpening(d));
+          }
+          // Drawers also replace any adjustable shelves or insert
+          updates.adjustableShelves = params.adjustableShelves?.filter(s => !isOpening(s));
+          updates.inserts = params.inserts?.filter(i => !isOpening(i));
+
+          const recommendedMaterials = params.unitSystem === 'metric'
+            ? RECOMMENDED_MATERIALS_METRIC
+            : RECOMMENDED_MATERIALS_IMPERIAL;
+          updates.materials = {
+            ...params.materials,
+            door: params.materials.door ?? recommendedMaterials.door,
+            drawerBox: params.materials.drawerBox ?? recommendedMaterials.drawerBox,
+            drawerBottom: params.materials.drawerBottom ?? recommendedMaterials.drawerBottom,
+          };
+        }
+        get().updateParams(updates);
+      },
+
+      setOpeningAdjustableShelfCount: (row, col, count) => {
+        const opening = findOpening(get().params, row, col);
+        if (!opening || opening.height < 2) return;
+
+        const { params } = get();
+        const shelfCount = Math.max(0, Math.min(MAX_ADJUSTABLE_SHELVES_PER_OPENING, Math.round(count)));
+        const isOpening = (s: { row: number; col: number }) => s.row === opening.row && s.col === opening.col;
+        get().updateParams({
+          adjustableShelves: [
+            ...getAdjustableShelfOpenings(params).map(({ shelves }) => shelves).filter(s => !isOpening(s)),
+            ...(shelfCount > 0 ? [{ row: opening.row, col: opening.col, count: shelfCount }] : []),
+          ],
+          // Shelves replace any drawers in the opening
+          drawers: shelfCount > 0 ? params.drawers?.filter(d => !isOpening(d)) : params.drawers,
+        });
+      },
+
+      setShelfPinSystem: (system) => {
+        const { params } = get();
+        const spacing = params.shelfPins?.spacing ?? (params.unitSystem === 'metric'
+          ? DEFAULT_SHELF_PIN_SPACING_METRIC
+          : DEFAULT_SHELF_PIN_SPACING_IMPERIAL);
+        get().updateParams({ shelfPins: system === '32mm' && !params.shelfPins ? undefined : { system, spacing } });
+      },
+
+      setShelfPinSpacing: (value) => {
+        get().updateParams({ shelfPins: { system: 'custom', spacing: value } });
+      },
+
+      setCellInsert: (row, col, insert) => {
+        const opening = findOpening(get().params, row, col);
+        if (!opening || opening.width !== 1 || opening.height !== 1) return;
+
+        const { params } = get();
+        const isCell = (c: { row: number; col: number }) => c.row === row && c.col === col;
+        const inserts = (params.inserts ?? []).filter(i => !isCell(i));
+        get().updateParams({
+          inserts: insert ? [...inserts, { row, col, insert }] : inserts,
+          // The insert brings its own door or drawers
+          doors: insert && params.doors ? params.doors.filter(d => !isCell(d)) : params.doors,
+          drawers: insert ? params.drawers?.filter(d => !isCell(d)) : params.drawers,
+        });
+      },
+
+      setOpeningDoorStyle: (row, col, style) => {
+        const doors = getDoorOpenings(get().params).map(({ door }) =>
+          door.row === row && door.col === col ? { ...door, style } : door
+        );
+        get().updateParams({ doors });
+      },
+
       // Material thickness actions
       setFrameThickness: (thickness) => {
         get().updateParams({
@@ -283,6 +819,24 @@ export const useDesignStore = create<DesignStore>()(
           },
         });
       },
+
+      setDrawerBoxThickness: (thickness) => {
+        get().updateParams({
+          materials: {
+            ...get().params.materials,
+            drawerBox: thickness,
+          },
+        });
+      },
+
+      setDrawerBottomThickness: (thickness) => {
+        get().updateParams({
+          materials: {
+            ...get().params.materials,
+            drawerBottom: thickness,
+          },
+        });
+      },
       
       useRecommendedMaterials: () => {
         const recommendedMaterials = get().params.unitSystem === 'metric'
@@ -293,6 +847,8 @@ export const useDesignStore = create<DesignStore>()(
             frame: recommendedMaterials.frame,
             back: recommendedMaterials.back,
             door: recommendedMaterials.door,
+            drawerBox: recommendedMaterials.drawerBox,
+            drawerBottom: recommendedMaterials.drawerBottom,
           },
         });
       },
@@ -309,7 +865,48 @@ export const useDesignStore = create<DesignStore>()(
         );
         
         filteredMerges.push(merge);
-        get().updateParams({ merges: filteredMerges });
+
+        // A door on any of the merged cells becomes the door for the merged opening
+        const doors = params.doors;
+        const isInMerge = (d: { row: number; col: number }) =>
+          d.row >= merge.r0 && d.row <= merge.r1 && d.col >= merge.c0 && d.col <= merge.c1;
+        const mergedDoor = doors?.find(isInMerge);
+        const newDoors = doors && mergedDoor
+          ? [...doors.filter(d => !isInMerge(d)), { ...mergedDoor, row: merge.r0, col: merge.c0 }]
+          : doors;
+
+        // Likewise for drawers
+        const drawers = params.drawers;
+        const mergedDrawer = drawers?.find(isInMerge);
+        const newDrawers = drawers && mergedDrawer
+          ? [...drawers.filter(d => !isInMerge(d)), { ...mergedDrawer, row: merge.r0, col: merge.c0 }]
+          : drawers;
+
+        // And for adjustable shelves
+        const adjustableShelves = params.adjustableShelves;
+        const mergedShelves = adjustableShelves?.find(isInMerge);
+        const newAdjustableShelves = adjustableShelves && mergedShelves
+          ? [...adjustableShelves.filter(s => !isInMerge(s)), { ...mergedShelves, row: merge.r0, col: merge.c0 }]
+          : adjustableShelves;
+
+        // Inserts only fit standard cells, so merging drops them
+        const newInserts = params.inserts?.filter(i => !isInMerge(i));
+
+        // And for backs
+        const backs = params.backs;
+        const mergedBack = backs?.find(isInMerge);
+        const newBacks = backs && mergedBack
+          ? [...backs.filter(b => !isInMerge(b)), { row: merge.r0, col: merge.c0 }]
+          : backs;
+
+        get().updateParams({
+          merges: filteredMerges,
+          doors: newDoors,
+          drawers: newDrawers,
+          adjustableShelves: newAdjustableShelves,
+          inserts: newInserts,
+          backs: newBacks,
+        });
       },
       
       removeMerge: (index) => {
@@ -340,6 +937,8 @@ export const useDesignStore = create<DesignStore>()(
       // UI actions
       setSelectedPartId: (id) => set({ selectedPartId: id }),
       setHoveredPartId: (id) => set({ hoveredPartId: id }),
+      setGridEditMode: (mode) => set({ gridEditMode: mode }),
+      setHighlightedWarning: (warning) => set({ highlightedWarning: warning }),
 
       // Visual actions
       setColorScheme: (scheme) => {
@@ -363,6 +962,8 @@ export const useDesignStore = create<DesignStore>()(
           ...derived,
           selectedPartId: null,
           hoveredPartId: null,
+          gridEditMode: 'merge',
+          highlightedWarning: null,
         });
         // Update local input state in ControlsPanel
         const event = new CustomEvent('design-reset');
@@ -382,6 +983,7 @@ export const useDesignStore = create<DesignStore>()(
             ...derived,
             selectedPartId: null,
             hoveredPartId: null,
+            highlightedWarning: null,
           });
         } catch (error) {
           console.error('Failed to import design:', error);
@@ -0,0 +1,59 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Offcut } from '../geometry/types';
+
+interface OffcutStore {
+  offcuts: Offcut[];
+  nextId: number;
+
+  addOffcut: (offcut: Omit<Offcut, 'id'>) => void;
+  removeOffcut: (id: string) => void;
+  markProjectCut: (usedIds: string[], newOffcuts: Omit<Offcut, 'id'>[]) => void;
+}
+
+// Offcuts are kept on this machine only, and shared by every design cut here
+export const useOffcutStore = create<OffcutStore>()(
+  persist(
+    (set) => ({
+      offcuts: [],
+      nextId: 1,
+
+      addOffcut: (offcut) => {
+        set(state => ({
+          offcuts: [...state.offcuts, { ...offcut, id: `offcut-${state.nextId}` }],
+          nextId: state.nextId + 1,
+        }));
+      },
+
+      removeOffcut: (id) => {
+        set(state => ({ offcuts: state.offcuts.filter(offcut => offcut.id !== id) }));
+      },
+
+      // The offcuts a project used are gone once it is cut; the leftovers it leaves come in
+      markProjectCut: (usedIds, newOffcuts) => {
+        set(state => ({
+          offcuts: [
+            ...state.offcuts.filter(offcut => !usedIds.includes(offcut.id)),
+            ...newOffcuts.map((offcut, index) => ({ ...offcut, id: `offcut-${state.nextId + index}` })),
+          ],
+          nextId: state.nextId + newOffcuts.length,
+        }));
+      },
+    }),
+    {
+      name: 'kallax-offcuts',
+      version: 2,
+      migrate: (persistedState, version) => {
+        const state = persistedState as Pick<OffcutStore, 'offcuts' | 'nextId'>;
+        // Offcuts saved before they had a material were all plywood
+        if (version < 2) {
+          return {
+            ...state,
+            offcuts: state.offcuts.map(offcut => ({ ...offcut, material: offcut.material ?? 'plywood' })),
+          };
+        }
+        return state;
+      },
+    }
+  )
+);
@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { HardwareCategory, PriceCatalog, SheetPrice } from '../geometry/types';
+import { DEFAULT_PRICE_CATALOG } from '../geometry/constants';
+
+interface PriceCatalogStore {
+  catalog: PriceCatalog;
+
+  setCurrency: (currency: string) => void;
+  setSheetPrice: (index: number, price: number) => void;
+  addSheet: (sheet: SheetPrice) => void;
+  removeSheet: (index: number) => void;
+  setEdgeBandingPrice: (price: number) => void;
+  setHardwarePrice: (category: HardwareCategory, price: number) => void;
+  setFinishPrice: (price: number) => void;
+  resetCatalog: () => void;
+}
+
+// Prices are kept on this machine only; they are not part of the shared design
+export const usePriceCatalogStore = create<PriceCatalogStore>()(
+  persist(
+    (set) => ({
+      catalog: DEFAULT_PRICE_CATALOG,
+
+      setCurrency: (currency) => {
+        set(state => ({ catalog: { ...state.catalog, currency } }));
+      },
+
+      setSheetPrice: (index, price) => {
+        set(state => ({
+          catalog: {
+            ...state.catalog,
+            sheets: state.catalog.sheets.map((sheet, i) => i === index ? { ...sheet, price } : sheet),
+          },
+        }));
+      },
+
+      addSheet: (sheet) => {
+        set(state => ({ catalog: { ...state.catalog, sheets: [...state.catalog.sheets, sheet] } }));
+      },
+
+      removeSheet: (index) => {
+        set(state => ({
+          catalog: { ...state.catalog, sheets: state.catalog.sheets.filter((_, i) => i !== index) },
+        }));
+      },
+
+      setEdgeBandingPrice: (price) => {
+        set(state => ({ catalog: { ...state.catalog, edgeBandingPerFoot: price } }));
+      },
+
+      setHardwarePrice: (category, price) => {
+        set(state => ({
+          catalog: { ...state.catalog, hardware: { ...state.catalog.hardware, [category]: price } },
+        }));
+      },
+
+      setFinishPrice: (price) => {
+        set(state => ({ catalog: { ...state.catalog, finishPerSquareFoot: price } }));
+      },
+
+      resetCatalog: () => {
+        set({ catalog: DEFAULT_PRICE_CATALOG });
+      },
+    }),
+    {
+      name: 'kallax-price-catalog',
+      version: 1,
+    }
+  )
+);
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import { useDesignStore } from './useDesignStore';
+import { useOffcutStore } from './useOffcutStore';
+import { generateSheetLayouts } from '../geometry/ripGenerator';
+import type { SheetLayoutResult } from '../geometry/ripGenerator';
+
+interface SheetLayoutStore {
+  layouts: SheetLayoutResult;
+}
+
+function layoutCurrentDesign(): SheetLayoutResult {
+  const { analysis, params } = useDesignStore.getState();
+  return generateSheetLayouts(analysis.parts, params, useOffcutStore.getState().offcuts);
+}
+
+/**
+ * Cut plan for the current design, nested onto the local offcut inventory first.
+ * Derived from the design and offcut stores and laid out once per change, so the cost
+ * estimate, the booklet and marking the project as cut all work from the same sheets.
+ */
+export const useSheetLayoutStore = create<SheetLayoutStore>()(() => ({
+  layouts: layoutCurrentDesign(),
+}));
+
+const relayout = () => useSheetLayoutStore.setState({ layouts: layoutCurrentDesign() });
+
+useDesignStore.subscribe((state, prev) => {
+  if (state.params !== prev.params || state.analysis !== prev.analysis) relayout();
+});
+
+useOffcutStore.subscribe((state, prev) => {
+  if (state.offcuts !== prev.offcuts) relayout();
+});